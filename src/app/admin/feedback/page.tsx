@@ -76,8 +76,7 @@ export default function AdminFeedbackPage() {
     recentTrends: []
   })
 
-  // Check if user is admin (in real app, this would be a proper role check)
-  const isAdmin = session?.user?.email === 'admin@fitxgen.com' || session?.user?.name === 'Admin'
+  const isAdmin = session?.user?.isAdmin === true
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -0,0 +1,295 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import {
+  ArrowLeft,
+  IndianRupee,
+  CheckCircle,
+  XCircle,
+  Clock
+} from 'lucide-react'
+
+type PayoutStatus = 'requested' | 'approved' | 'processing' | 'paid' | 'rejected' | 'failed'
+
+interface AdminPayout {
+  _id: string
+  userId: {
+    _id: string
+    email: string
+    profile?: { name?: string }
+  } | null
+  amount: number
+  vpa: string
+  status: PayoutStatus
+  providerPayoutId?: string
+  rejectionReason?: string
+  failureReason?: string
+  reviewedBy?: string
+  createdAt: string
+  history: Array<{
+    status: PayoutStatus
+    actor: string
+    note?: string
+    at: string
+  }>
+}
+
+const STATUS_FILTERS: PayoutStatus[] = ['requested', 'processing', 'paid', 'rejected', 'failed']
+
+const getStatusColor = (status: PayoutStatus) => {
+  switch (status) {
+    case 'requested': return 'text-yellow-600 bg-yellow-100'
+    case 'approved':
+    case 'processing': return 'text-blue-600 bg-blue-100'
+    case 'paid': return 'text-green-600 bg-green-100'
+    default: return 'text-red-600 bg-red-100'
+  }
+}
+
+export default function AdminPayoutsPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [statusFilter, setStatusFilter] = useState<PayoutStatus>('requested')
+  const [payouts, setPayouts] = useState<AdminPayout[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [rejecting, setRejecting] = useState<{ id: string; reason: string } | null>(null)
+  const [error, setError] = useState('')
+
+  const isAdmin = session?.user?.isAdmin === true
+
+  const fetchPayouts = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/admin/payouts?status=${statusFilter}`)
+      if (response.ok) {
+        const data = await response.json()
+        setPayouts(data.payouts || [])
+      }
+    } catch (error) {
+      console.error('Failed to fetch payouts:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [statusFilter])
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin')
+    } else if (status === 'authenticated') {
+      if (!isAdmin) {
+        router.push('/dashboard')
+        return
+      }
+      fetchPayouts()
+    }
+  }, [status, router, isAdmin, fetchPayouts])
+
+  const reviewPayout = async (id: string, action: string, reason?: string) => {
+    setBusyId(id)
+    setError('')
+    try {
+      const response = await fetch(`/api/admin/payouts/${id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, reason })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to update payout')
+      }
+      setRejecting(null)
+      await fetchPayouts()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update payout')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (status === 'loading' || !isAdmin) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-emerald-50 via-white to-teal-50">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-500"></div>
+      </div>
+    )
+  }
+
+  const total = payouts.reduce((sum, payout) => sum + payout.amount, 0)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-emerald-50 via-white to-teal-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-emerald-100">
+        <div className="max-w-7xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.push('/dashboard')}
+            >
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div className="w-10 h-10 bg-gradient-to-r from-purple-500 to-pink-500 rounded-xl flex items-center justify-center">
+              <IndianRupee className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-slate-900">Referral Payouts</h1>
+              <p className="text-sm text-slate-600">Review UPI withdrawal requests</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        {/* Status Tabs */}
+        <div className="flex flex-wrap gap-2 mb-8">
+          {STATUS_FILTERS.map(filter => (
+            <Button
+              key={filter}
+              onClick={() => setStatusFilter(filter)}
+              variant={statusFilter === filter ? 'default' : 'outline'}
+              className={statusFilter === filter ? 'bg-gradient-to-r from-purple-500 to-pink-500 capitalize' : 'capitalize'}
+            >
+              {filter}
+            </Button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-red-700 text-sm mb-6">
+            {error}
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="capitalize">{statusFilter} payouts</CardTitle>
+            <CardDescription>
+              {payouts.length} payout{payouts.length === 1 ? '' : 's'} totalling ₹{total}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-purple-500"></div>
+              </div>
+            ) : payouts.length === 0 ? (
+              <p className="text-center text-slate-500 py-8">No {statusFilter} payouts</p>
+            ) : (
+              <div className="space-y-4">
+                {payouts.map(payout => (
+                  <div key={payout._id} className="border border-slate-200 rounded-lg p-4">
+                    <div className="flex flex-wrap items-start justify-between gap-4">
+                      <div>
+                        <p className="font-semibold text-slate-900">
+                          {payout.userId?.profile?.name || payout.userId?.email || 'Deleted user'}
+                        </p>
+                        <p className="text-sm text-slate-600">{payout.userId?.email}</p>
+                        <p className="text-sm text-slate-600 mt-1">
+                          UPI: <span className="font-mono">{payout.vpa}</span>
+                        </p>
+                        <p className="text-xs text-slate-500 mt-1">
+                          Requested {new Date(payout.createdAt).toLocaleString('en-IN')}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className="text-xl font-bold text-slate-900">₹{payout.amount}</p>
+                        <span className={`inline-block mt-1 px-2 py-1 rounded-full text-xs font-medium capitalize ${getStatusColor(payout.status)}`}>
+                          {payout.status}
+                        </span>
+                        {payout.providerPayoutId && (
+                          <p className="text-xs text-slate-500 mt-1 font-mono">{payout.providerPayoutId}</p>
+                        )}
+                      </div>
+                    </div>
+
+                    {(payout.rejectionReason || payout.failureReason) && (
+                      <p className="text-sm text-red-600 mt-3">{payout.rejectionReason || payout.failureReason}</p>
+                    )}
+
+                    {/* Audit trail */}
+                    <div className="mt-3 space-y-1">
+                      {payout.history.map((entry, index) => (
+                        <p key={index} className="text-xs text-slate-500">
+                          <Clock className="w-3 h-3 inline mr-1" />
+                          {new Date(entry.at).toLocaleString('en-IN')} - <span className="capitalize">{entry.status}</span> by {entry.actor}
+                          {entry.note ? ` (${entry.note})` : ''}
+                        </p>
+                      ))}
+                    </div>
+
+                    {payout.status === 'requested' && (
+                      <div className="mt-4 flex flex-wrap items-center gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => reviewPayout(payout._id, 'approve')}
+                          disabled={busyId === payout._id}
+                        >
+                          <CheckCircle className="w-4 h-4 mr-1" />
+                          Approve and pay
+                        </Button>
+                        {rejecting?.id === payout._id ? (
+                          <>
+                            <Input
+                              value={rejecting.reason}
+                              onChange={(e) => setRejecting({ id: payout._id, reason: e.target.value })}
+                              placeholder="Reason shown to the user"
+                              className="max-w-xs"
+                            />
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => reviewPayout(payout._id, 'reject', rejecting.reason)}
+                              disabled={busyId === payout._id || !rejecting.reason.trim()}
+                            >
+                              Confirm rejection
+                            </Button>
+                          </>
+                        ) : (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setRejecting({ id: payout._id, reason: '' })}
+                          >
+                            <XCircle className="w-4 h-4 mr-1" />
+                            Reject
+                          </Button>
+                        )}
+                      </div>
+                    )}
+
+                    {payout.status === 'processing' && (
+                      <div className="mt-4 flex gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => reviewPayout(payout._id, 'mark_paid')}
+                          disabled={busyId === payout._id}
+                        >
+                          Mark paid
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => reviewPayout(payout._id, 'mark_failed')}
+                          disabled={busyId === payout._id}
+                        >
+                          Mark failed
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -22,8 +22,9 @@ describe('/api/calculate', () => {
       const mockResult = {
         bodyFatPercentage: 15.2,
         bmi: 24.7,
-        category: 'Athletic',
+        category: 'Athletic' as const,
         healthStatus: 'Excellent' as const,
+        classificationVersion: 2,
         recommendations: ['Stay hydrated', 'Include strength training']
       }
 
@@ -189,8 +190,9 @@ describe('/api/calculate', () => {
       const mockResult = {
         bodyFatPercentage: 3.0, // Minimum bound
         bmi: 18.5,
-        category: 'Essential Fat',
+        category: 'Essential Fat' as const,
         healthStatus: 'Poor' as const,
+        classificationVersion: 2,
         recommendations: ['Consider increasing caloric intake']
       }
 
@@ -228,8 +230,9 @@ describe('/api/calculate', () => {
       const mockResult = {
         bodyFatPercentage: 20.5,
         bmi: 25.0,
-        category: 'Average',
+        category: 'Average' as const,
         healthStatus: 'Good' as const,
+        classificationVersion: 2,
         recommendations: ['Maintain current fitness level']
       }
 
@@ -272,8 +275,9 @@ describe('/api/calculate', () => {
       const mockResult = {
         bodyFatPercentage: 15.2,
         bmi: 24.7,
-        category: 'Athletic',
+        category: 'Athletic' as const,
         healthStatus: 'Excellent' as const,
+        classificationVersion: 2,
         recommendations: []
       }
 
@@ -312,8 +316,9 @@ describe('/api/calculate', () => {
       const mockResult = {
         bodyFatPercentage: 15.2,
         bmi: 24.7,
-        category: 'Athletic',
+        category: 'Athletic' as const,
         healthStatus: 'Excellent' as const,
+        classificationVersion: 2,
         recommendations: []
       }
 
@@ -350,8 +355,9 @@ describe('/api/calculate', () => {
       const mockResult = {
         bodyFatPercentage: 15.2,
         bmi: 24.7,
-        category: 'Athletic',
+        category: 'Athletic' as const,
         healthStatus: 'Excellent' as const,
+        classificationVersion: 2,
         recommendations: []
       }
 
@@ -415,8 +421,9 @@ describe('/api/calculate', () => {
       const mockResult = {
         bodyFatPercentage: 15.2,
         bmi: 24.7,
-        category: 'Athletic',
+        category: 'Athletic' as const,
         healthStatus: 'Excellent' as const,
+        classificationVersion: 2,
         recommendations: []
       }
 
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import connectDB from '@/lib/mongodb'
+import { isAdminSession } from '@/lib/admin'
+import { migrateClassifications } from '@/lib/classification-migration'
+
+// Re-classify stored body fat results under the current ranges. Run after
+// deploying a classification change; running it again changes nothing.
+export async function POST() {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!isAdminSession(session)) {
+      return NextResponse.json({ message: 'Admin access required' }, { status: 403 })
+    }
+
+    await connectDB()
+
+    const result = await migrateClassifications()
+
+    return NextResponse.json({ message: 'Classifications migrated', ...result }, { status: 200 })
+
+  } catch (error) {
+    console.error('Classification migration error:', error)
+    return NextResponse.json({ message: 'Classification migration failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import connectDB from '@/lib/mongodb'
+import Payment from '@/models/Payment'
+import { Types } from 'mongoose'
+import { isAdminSession } from '@/lib/admin'
+import { PRICING_PLANS, isPlanId } from '@/lib/plans'
+import { recordRefund } from '@/lib/payment-service'
+import { getRefundProvider } from '@/lib/razorpay-refunds'
+import { getRefundAmountError, getRefundableAmount } from '@/lib/refund-policy'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!isAdminSession(session)) {
+      return NextResponse.json({ message: 'Admin access required' }, { status: 403 })
+    }
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({ message: 'Invalid payment id' }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { amount, reason, downgradeTo } = body
+
+    if (typeof reason !== 'string' || !reason.trim()) {
+      return NextResponse.json({ message: 'Refund reason is required' }, { status: 400 })
+    }
+
+    await connectDB()
+
+    const payment = await Payment.findById(params.id)
+    if (!payment) {
+      return NextResponse.json({ message: 'Payment not found' }, { status: 404 })
+    }
+
+    if (payment.status !== 'completed' || !payment.razorpayPaymentId) {
+      return NextResponse.json({ message: 'Only completed payments can be refunded' }, { status: 400 })
+    }
+
+    // Defaults to refunding whatever is left
+    const refundable = getRefundableAmount(payment.amount, payment.refundedAmount)
+    const refundAmount = amount === undefined ? refundable : Number(amount)
+
+    const amountError = getRefundAmountError(refundAmount, refundable)
+    if (amountError) {
+      return NextResponse.json({ message: amountError }, { status: 400 })
+    }
+
+    const isFullRefund = refundAmount >= refundable
+
+    if (downgradeTo !== undefined) {
+      const currentPlan = payment.metadata?.planId
+      if (!isPlanId(downgradeTo) || !isPlanId(currentPlan) || PRICING_PLANS[downgradeTo].price >= PRICING_PLANS[currentPlan].price) {
+        return NextResponse.json({ message: 'Downgrade plan must be cheaper than the purchased plan' }, { status: 400 })
+      }
+      if (isFullRefund) {
+        return NextResponse.json({ message: 'A full refund cancels the subscription; downgrades need a partial refund' }, { status: 400 })
+      }
+    }
+
+    let refund
+    try {
+      refund = await getRefundProvider().createRefund({
+        razorpayPaymentId: payment.razorpayPaymentId,
+        amount: refundAmount,
+        reason: reason.trim(),
+        receipt: `refund_${Date.now()}`
+      })
+    } catch (error) {
+      console.error('Razorpay refund error:', error)
+      return NextResponse.json({ message: 'Razorpay could not process the refund' }, { status: 502 })
+    }
+
+    await recordRefund(payment.razorpayPaymentId, refund.refundId, refund.amount, {
+      status: refund.status,
+      reason: reason.trim(),
+      initiatedBy: session.user.email,
+      downgradeTo
+    })
+
+    const updated = await Payment.findById(params.id)
+
+    return NextResponse.json({
+      message: isFullRefund ? 'Payment refunded and subscription cancelled' : 'Partial refund issued',
+      refund,
+      payment: {
+        id: updated?._id,
+        status: updated?.status,
+        amount: updated?.amount,
+        refundedAmount: updated?.refundedAmount,
+        refunds: updated?.refunds
+      }
+    }, { status: 200 })
+
+  } catch (error) {
+    console.error('Admin refund error:', error)
+    return NextResponse.json({ message: 'Failed to refund payment' }, { status: 500 })
+  }
+}
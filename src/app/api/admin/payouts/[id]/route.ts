@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import connectDB from '@/lib/mongodb'
+import { Types } from 'mongoose'
+import { isAdminSession } from '@/lib/admin'
+import { approvePayout, rejectPayout, settlePayout } from '@/lib/referral-payout-service'
+
+// Review a payout: approve (and send), reject, or settle one still processing
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!isAdminSession(session)) {
+      return NextResponse.json({ message: 'Admin access required' }, { status: 403 })
+    }
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({ message: 'Invalid payout id' }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { action, reason } = body
+    const admin = session.user.email
+
+    if (reason !== undefined && typeof reason !== 'string') {
+      return NextResponse.json({ message: 'Reason must be text' }, { status: 400 })
+    }
+
+    await connectDB()
+
+    let result
+    switch (action) {
+      case 'approve':
+        result = await approvePayout(params.id, admin)
+        break
+
+      case 'reject':
+        if (typeof reason !== 'string' || !reason.trim()) {
+          return NextResponse.json({ message: 'A rejection reason is required' }, { status: 400 })
+        }
+        result = await rejectPayout(params.id, admin, reason.trim())
+        break
+
+      case 'mark_paid':
+      case 'mark_failed':
+        result = await settlePayout(params.id, admin, action === 'mark_paid' ? 'paid' : 'failed', reason?.trim())
+        break
+
+      default:
+        return NextResponse.json({ message: 'Unknown action' }, { status: 400 })
+    }
+
+    if (!result.success) {
+      return NextResponse.json({ message: result.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ payout: result.payout }, { status: 200 })
+
+  } catch (error) {
+    console.error('Admin payout review error:', error)
+    return NextResponse.json({ message: 'Failed to update payout' }, { status: 500 })
+  }
+}
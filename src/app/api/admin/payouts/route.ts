@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import connectDB from '@/lib/mongodb'
+import ReferralPayout from '@/models/ReferralPayout'
+import { isAdminSession } from '@/lib/admin'
+
+const STATUSES = ['requested', 'approved', 'processing', 'paid', 'rejected', 'failed']
+
+// Payout requests for review, oldest first so requests are handled in order
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!isAdminSession(session)) {
+      return NextResponse.json({ message: 'Admin access required' }, { status: 403 })
+    }
+
+    const status = request.nextUrl.searchParams.get('status')
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json({ message: 'Invalid status' }, { status: 400 })
+    }
+
+    await connectDB()
+
+    const payouts = await ReferralPayout.find(status ? { status } : {})
+      .populate('userId', 'email profile.name')
+      .sort({ createdAt: status === 'requested' ? 1 : -1 })
+      .limit(100)
+      .lean()
+
+    return NextResponse.json({ payouts }, { status: 200 })
+
+  } catch (error) {
+    console.error('Admin payouts error:', error)
+    return NextResponse.json({ message: 'Failed to fetch payouts' }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import connectDB from '@/lib/mongodb'
+import { isAdminSession } from '@/lib/admin'
+import { migrateReferralCodes } from '@/lib/referral-code-service'
+
+// Dedupe referral codes issued before they were unique and build the unique
+// index. Run once after deploying; running it again changes nothing.
+export async function POST() {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!isAdminSession(session)) {
+      return NextResponse.json({ message: 'Admin access required' }, { status: 403 })
+    }
+
+    await connectDB()
+
+    const result = await migrateReferralCodes()
+
+    return NextResponse.json({ message: 'Referral codes migrated', ...result }, { status: 200 })
+
+  } catch (error) {
+    console.error('Referral code migration error:', error)
+    return NextResponse.json({ message: 'Referral code migration failed' }, { status: 500 })
+  }
+}
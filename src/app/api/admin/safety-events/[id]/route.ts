@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import connectDB from '@/lib/mongodb'
+import { Types } from 'mongoose'
+import SafetyEvent from '@/models/SafetyEvent'
+import { isAdminSession } from '@/lib/admin'
+
+// Mark a safety event as reviewed, with an optional note
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!isAdminSession(session)) {
+      return NextResponse.json({ message: 'Admin access required' }, { status: 403 })
+    }
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({ message: 'Invalid safety event id' }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const note = typeof body.note === 'string' ? body.note.trim().slice(0, 1000) : undefined
+
+    await connectDB()
+
+    const event = await SafetyEvent.findOneAndUpdate(
+      { _id: params.id, reviewedAt: { $exists: false } },
+      { $set: { reviewedBy: session.user.email, reviewedAt: new Date(), ...(note && { reviewNote: note }) } },
+      { new: true }
+    )
+
+    if (!event) {
+      return NextResponse.json({ message: 'Safety event not found or already reviewed' }, { status: 404 })
+    }
+
+    return NextResponse.json({ event }, { status: 200 })
+
+  } catch (error) {
+    console.error('Admin safety event review error:', error)
+    return NextResponse.json({ message: 'Failed to review safety event' }, { status: 500 })
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import connectDB from '@/lib/mongodb'
+import SafetyEvent from '@/models/SafetyEvent'
+import { isAdminSession } from '@/lib/admin'
+
+// Chat safety events for review: unreviewed ones by default, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!isAdminSession(session)) {
+      return NextResponse.json({ message: 'Admin access required' }, { status: 403 })
+    }
+
+    const status = request.nextUrl.searchParams.get('status') || 'open'
+    if (!['open', 'reviewed'].includes(status)) {
+      return NextResponse.json({ message: 'Invalid status' }, { status: 400 })
+    }
+
+    await connectDB()
+
+    const events = await SafetyEvent.find({ reviewedAt: { $exists: status === 'reviewed' } })
+      .populate('userId', 'email profile.name')
+      .sort({ createdAt: -1 })
+      .limit(100)
+      .lean()
+
+    return NextResponse.json({ events }, { status: 200 })
+
+  } catch (error) {
+    console.error('Admin safety events error:', error)
+    return NextResponse.json({ message: 'Failed to fetch safety events' }, { status: 500 })
+  }
+}
@@ -2,8 +2,13 @@ import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import connectMongoDB from '@/lib/mongodb'
 import User from '@/models/User'
-import { calculateBodyFat } from '@/lib/body-fat-calculator'
+import { calculateBodyFat, validateMeasurements, validateSkinfolds, MeasurementData } from '@/lib/body-fat-calculator'
+import { fromMetricMeasurements, isUnitSystem, toMetricMeasurements, UnitSystem } from '@/lib/units'
+import { recordMeasurementEntry } from '@/lib/measurement-history'
+import { estimateAllMethods, getConsensusBodyFat, isBodyFatMethodId } from '@/lib/body-fat-methods'
+import { getCategoryRecommendations } from '@/lib/body-fat-classification'
 import ArogyaAI, { HealthContext } from '@/lib/claude-ai'
+import { getEntitlement, requireEntitlement } from '@/lib/entitlement-service'
 
 export async function POST(request: NextRequest) {
   try {
@@ -16,6 +21,35 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Optional body: preferred method, caliper skinfolds (not stored on the profile)
+    // and fresh measurements in either unit system
+    const body = await request.json().catch(() => ({}))
+    const { method, skinfolds, unitSystem } = body
+
+    if (method !== undefined && !isBodyFatMethodId(method)) {
+      return NextResponse.json(
+        { success: false, message: 'Unsupported body fat method' },
+        { status: 400 }
+      )
+    }
+
+    if (unitSystem !== undefined && !isUnitSystem(unitSystem)) {
+      return NextResponse.json(
+        { success: false, message: 'Unit system must be metric or imperial' },
+        { status: 400 }
+      )
+    }
+
+    if (skinfolds !== undefined) {
+      const skinfoldErrors = validateSkinfolds(skinfolds)
+      if (skinfoldErrors.length > 0) {
+        return NextResponse.json(
+          { success: false, message: 'Invalid skinfolds', errors: skinfoldErrors },
+          { status: 400 }
+        )
+      }
+    }
+
     await connectMongoDB()
 
     const user = await User.findOne({ email: session.user.email })
@@ -27,8 +61,44 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const preferredUnits: UnitSystem = unitSystem || user.profile?.unitSystem || 'metric'
+
+    // New measurements in the request replace the stored ones, but aren't saved
+    // until the calculation has succeeded
+    let updatedMeasurements
+    const submitted = toMetricMeasurements(body, preferredUnits)
+    if (submitted.height || submitted.weight || submitted.waist || submitted.neck || submitted.hip) {
+      const candidate: Partial<MeasurementData> = {
+        age: user.profile?.age,
+        gender: user.profile?.gender,
+        height: submitted.height ?? user.measurements?.height,
+        weight: submitted.weight ?? user.measurements?.weight,
+        waist: submitted.waist ?? user.measurements?.circumferences?.waist,
+        neck: submitted.neck ?? user.measurements?.circumferences?.neck,
+        hip: submitted.hip ?? user.measurements?.circumferences?.hip
+      }
+
+      const errors = validateMeasurements(candidate, preferredUnits)
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { success: false, message: 'Invalid measurements', errors },
+          { status: 400 }
+        )
+      }
+
+      updatedMeasurements = {
+        height: candidate.height,
+        weight: candidate.weight,
+        circumferences: {
+          waist: candidate.waist,
+          neck: candidate.neck,
+          ...(candidate.hip && { hip: candidate.hip })
+        }
+      }
+    }
+
     // Check if user has required measurements
-    const { measurements } = user
+    const measurements = updatedMeasurements || user.measurements
     if (!measurements?.height || !measurements?.weight || 
         !measurements?.circumferences?.waist || !measurements?.circumferences?.neck) {
       return NextResponse.json(
@@ -42,54 +112,44 @@ export async function POST(request: NextRequest) {
     }
 
     // Calculate body fat percentage
-    const bodyFatResult = calculateBodyFat({
+    const measurementData: MeasurementData = {
       age: user.profile?.age || 30,
       gender: user.profile?.gender || 'male',
       height: measurements.height,
       weight: measurements.weight,
       waist: measurements.circumferences.waist,
       neck: measurements.circumferences.neck,
-      hip: measurements.circumferences.hip
-    })
+      hip: measurements.circumferences.hip,
+      ...(skinfolds && { skinfolds })
+    }
 
-    // Get health category based on body fat percentage and gender
-    const getHealthCategory = (percentage: number, gender: string) => {
-      const ranges = gender === 'female' ? {
-        essential: [10, 13],
-        athletes: [14, 20],
-        fitness: [21, 24],
-        average: [25, 31],
-        obese: [32, 100]
-      } : {
-        essential: [2, 5],
-        athletes: [6, 13],
-        fitness: [14, 17],
-        average: [18, 24],
-        obese: [25, 100]
-      }
+    let bodyFatResult
+    try {
+      bodyFatResult = calculateBodyFat(measurementData, { method })
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, message: error instanceof Error ? error.message : 'Unable to apply the selected method' },
+        { status: 400 }
+      )
+    }
 
-      for (const [category, [min, max]] of Object.entries(ranges)) {
-        if (percentage >= min && percentage <= max) {
-          return category
-        }
-      }
-      return 'unknown'
+    // Free accounts get a monthly calculation allowance, used up only by
+    // calculations that succeed
+    const upgradeRequired = await requireEntitlement(user, 'bodyFatCalculation')
+    if (upgradeRequired) {
+      return upgradeRequired
     }
 
-    // Get health status
-    const getHealthStatus = (category: string) => {
-      switch (category) {
-        case 'athletes': return 'Excellent'
-        case 'fitness': return 'Good'
-        case 'average': return 'Fair'
-        case 'obese': return 'Poor'
-        case 'essential': return 'Very Low'
-        default: return 'Unknown'
-      }
+    if (updatedMeasurements) {
+      user.measurements = updatedMeasurements
+      await user.save()
     }
 
-    const category = getHealthCategory(bodyFatResult.bodyFatPercentage, user.profile?.gender || 'male')
-    const healthStatus = getHealthStatus(category)
+    // Every method the available measurements support, for side-by-side comparison
+    const estimates = estimateAllMethods(measurementData)
+    const consensus = getConsensusBodyFat(estimates)
+
+    const { category, healthStatus, classificationVersion } = bodyFatResult
 
     // Create user context for AI recommendations
     const userContext = {
@@ -110,38 +170,43 @@ export async function POST(request: NextRequest) {
       healthStatus
     }
 
-    // Get AI recommendations
+    // Get AI recommendations (paid plans only)
     let aiRecommendations: any = null
-    try {
-      const arogyaAI = ArogyaAI.getInstance()
-      const healthContext: HealthContext = {
-        age: userContext.profile.age,
-        gender: userContext.profile.gender,
-        height: userContext.measurements.height,
-        weight: measurements.weight,
-        bodyFatPercentage: userContext.measurements.bodyFatPercentage,
-        bmi: userContext.measurements.bmi,
-        activityLevel: userContext.lifestyle?.activityLevel || 'moderate',
-        goals: userContext.goals?.primary ? [userContext.goals.primary] : ['general fitness'],
-        dietaryRestrictions: userContext.lifestyle?.dietaryRestrictions || [],
-        medicalHistory: userContext.lifestyle?.medicalConditions || []
+    const aiEntitlement = await getEntitlement(user, 'aiRecommendations')
+    if (aiEntitlement.allowed) {
+      try {
+        const arogyaAI = ArogyaAI.getInstance()
+        const healthContext: HealthContext = {
+          age: userContext.profile.age,
+          gender: userContext.profile.gender,
+          height: userContext.measurements.height,
+          weight: measurements.weight,
+          bodyFatPercentage: userContext.measurements.bodyFatPercentage,
+          bmi: userContext.measurements.bmi,
+          activityLevel: userContext.lifestyle?.activityLevel || 'moderate',
+          goals: userContext.goals?.primary ? [userContext.goals.primary] : ['general fitness'],
+          dietaryRestrictions: userContext.lifestyle?.dietaryRestrictions || [],
+          medicalHistory: userContext.lifestyle?.medicalConditions || [],
+          language: user.profile?.language || 'en'
+        }
+        
+        aiRecommendations = await arogyaAI.generateHealthRecommendations(healthContext)
+      } catch (error) {
+        console.error('AI recommendations error:', error)
+        // Continue without AI recommendations
       }
-      
-      aiRecommendations = await arogyaAI.generateHealthRecommendations(healthContext)
-    } catch (error) {
-      console.error('AI recommendations error:', error)
-      // Continue without AI recommendations
     }
 
     // Basic recommendations based on category
-    const basicRecommendations = getBasicRecommendations(category, user.profile?.gender || 'male')
+    const basicRecommendations = getCategoryRecommendations(category)
 
     // Prepare results object
     const results = {
       bodyFatPercentage: Math.round(bodyFatResult.bodyFatPercentage * 10) / 10,
       bmi: Math.round(bodyFatResult.bmi * 10) / 10,
-      category: category.charAt(0).toUpperCase() + category.slice(1),
+      category,
       healthStatus,
+      classificationVersion,
       calculatedAt: new Date(),
       recommendations: {
         basic: basicRecommendations,
@@ -160,6 +225,20 @@ export async function POST(request: NextRequest) {
       }
     )
 
+    // Append this reading to the user's measurement history
+    try {
+      await recordMeasurementEntry(user._id, measurementData, {
+        ...bodyFatResult,
+        category: results.category,
+        healthStatus: results.healthStatus,
+        classificationVersion,
+        recommendations: basicRecommendations
+      }, 'calculation', results.calculatedAt)
+    } catch (error) {
+      console.error('Measurement history error:', error)
+      // Don't fail the calculation for history issues
+    }
+
     return NextResponse.json({
       success: true,
       results: {
@@ -167,8 +246,19 @@ export async function POST(request: NextRequest) {
         bmi: results.bmi,
         category: results.category,
         healthStatus: results.healthStatus,
-        recommendations: basicRecommendations
-      }
+        classificationVersion,
+        recommendations: basicRecommendations,
+        method: bodyFatResult.method,
+        estimates,
+        consensus
+      },
+      measurements: fromMetricMeasurements({
+        height: measurements.height,
+        weight: measurements.weight,
+        waist: measurements.circumferences.waist,
+        neck: measurements.circumferences.neck,
+        hip: measurements.circumferences.hip
+      }, preferredUnits)
     })
 
   } catch (error) {
@@ -179,41 +269,3 @@ export async function POST(request: NextRequest) {
     )
   }
 }
-
-function getBasicRecommendations(category: string, gender: string): string[] {
-  const recommendations: { [key: string]: string[] } = {
-    essential: [
-      "Your body fat is very low. Consider consulting a healthcare professional.",
-      "Focus on healthy weight gain with balanced nutrition.",
-      "Include healthy fats like nuts, avocados, and olive oil in your diet."
-    ],
-    athletes: [
-      "Excellent body composition! Maintain your current fitness routine.",
-      "Focus on performance-based nutrition and adequate protein intake.",
-      "Continue strength training to preserve lean muscle mass."
-    ],
-    fitness: [
-      "Great job! You're in the fitness range. Keep up the good work.",
-      "Maintain a balanced diet with adequate protein (0.8-1g per kg body weight).",
-      "Include both cardio and strength training in your routine."
-    ],
-    average: [
-      "You're in the average range. Small improvements can make a big difference.",
-      "Create a moderate caloric deficit through diet and exercise.",
-      "Include 150 minutes of moderate cardio per week.",
-      "Add 2-3 strength training sessions weekly."
-    ],
-    obese: [
-      "Focus on gradual, sustainable weight loss (0.5-1 kg per week).",
-      "Prioritize whole foods and reduce processed food intake.",
-      "Start with 30 minutes of walking daily and gradually increase.",
-      "Consider consulting a healthcare professional for a personalized plan."
-    ]
-  }
-
-  return recommendations[category] || [
-    "Complete your profile for personalized recommendations.",
-    "Maintain a balanced diet and regular exercise routine.",
-    "Consult healthcare professionals for personalized advice."
-  ]
-}
\ No newline at end of file
@@ -3,8 +3,18 @@ import { auth } from '@/lib/auth'
 import connectMongoDB from '@/lib/mongodb'
 import ChatSession from '@/models/ChatSession'
 import User from '@/models/User'
-import ArogyaAI, { HealthContext, ChatMessage } from '@/lib/claude-ai'
+import ArogyaAI, { ChatMessage } from '@/lib/claude-ai'
+import {
+  buildHealthContext,
+  getChatErrorResponse,
+  loadChatMemory,
+  recordSafetyEvents,
+  saveChatMessages,
+  titleChatSession
+} from '@/lib/chat-service'
+import { SafetyFinding } from '@/lib/chat-safety'
 import { Types } from 'mongoose'
+import { requireEntitlement } from '@/lib/entitlement-service'
 
 export async function POST(request: NextRequest) {
   try {
@@ -50,6 +60,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Daily message quota depends on the plan. Uses are logged separately, so
+    // deleting the chat doesn't give the message back.
+    const upgradeRequired = await requireEntitlement(user, 'aiChat')
+    if (upgradeRequired) {
+      return upgradeRequired
+    }
+
     // Prepare user message
     const userMessage: ChatMessage = {
       role: 'user',
@@ -57,32 +74,25 @@ export async function POST(request: NextRequest) {
       timestamp: new Date()
     }
 
-    // Get conversation history
-    const conversationHistory: ChatMessage[] = chatSession.messages || []
+    // Recent turns plus a summary of anything older
+    const memory = await loadChatMemory(chatSession)
 
     // Build health context for AI
-    const healthContext: HealthContext = {
-      age: chatSession.userProfile?.age || user.profile?.age || 30,
-      gender: chatSession.userProfile?.gender || user.profile?.gender || 'male',
-      height: chatSession.healthContext?.height || user.measurements?.height || 170,
-      weight: chatSession.healthContext?.weight || user.measurements?.weight || 70,
-      bodyFatPercentage: chatSession.healthContext?.bodyFatPercentage || user.results?.bodyFatPercentage,
-      bmi: chatSession.healthContext?.bmi || user.results?.bmi,
-      activityLevel: chatSession.healthContext?.activityLevel || user.lifestyle?.activityLevel || 'moderate',
-      goals: chatSession.healthContext?.goals || (user.goals?.primary ? [user.goals.primary] : ['general fitness']),
-      dietaryRestrictions: chatSession.healthContext?.dietaryRestrictions || user.lifestyle?.dietaryRestrictions || [],
-      medicalHistory: chatSession.healthContext?.medicalHistory || user.lifestyle?.medicalConditions || []
-    }
+    const healthContext = buildHealthContext(chatSession, user)
 
     // Get AI response
     const arogyaAI = ArogyaAI.getInstance()
     let aiResponse: string
+    const safetyFindings: SafetyFinding[] = []
 
     try {
-      aiResponse = await arogyaAI.chatWithArogya(message, healthContext, conversationHistory)
+      aiResponse = await arogyaAI.chatWithArogya(message, healthContext, memory.recent, {
+        summary: memory.summary,
+        onSafetyEvent: finding => safetyFindings.push(finding)
+      })
     } catch (error) {
       console.error('AI chat error:', error)
-      aiResponse = "I apologize, but I'm having trouble processing your request right now. Please try again in a moment, or feel free to ask me something else about your health and wellness journey."
+      aiResponse = getChatErrorResponse(message, healthContext)
     }
 
     // Prepare AI message
@@ -93,23 +103,21 @@ export async function POST(request: NextRequest) {
     }
 
     // Update chat session with new messages
-    const updatedMessages = [...conversationHistory, userMessage, aiMessage]
-    
-    await ChatSession.findByIdAndUpdate(
-      sessionId,
-      {
-        $set: {
-          messages: updatedMessages,
-          updatedAt: new Date(),
-          lastMessageAt: new Date()
-        }
-      }
-    )
+    await saveChatMessages(chatSession._id, [userMessage, aiMessage])
+    await recordSafetyEvents(user._id, chatSession._id, safetyFindings)
+
+    // Name the chat after its first exchange
+    const title = await titleChatSession(chatSession, {
+      message,
+      reply: aiResponse,
+      useAI: !safetyFindings.some(finding => finding.stage === 'input')
+    })
 
     return NextResponse.json({
       success: true,
       response: aiResponse,
-      messageId: aiMessage.timestamp.getTime().toString()
+      messageId: aiMessage.timestamp.getTime().toString(),
+      title
     })
 
   } catch (error) {
@@ -173,7 +181,9 @@ export async function GET(request: NextRequest) {
       sessionInfo: {
         createdAt: chatSession.createdAt,
         updatedAt: chatSession.updatedAt,
-        status: chatSession.status
+        status: chatSession.status,
+        title: chatSession.context?.conversationTopic,
+        archived: !chatSession.isActive
       }
     })
 
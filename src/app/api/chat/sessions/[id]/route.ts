@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import connectMongoDB from '@/lib/mongodb'
+import ChatSession from '@/models/ChatSession'
+import User from '@/models/User'
+import { validateChatTitle } from '@/lib/chat-sessions'
+import { Types } from 'mongoose'
+
+/**
+ * Rename a chat ({ title }) or move it in or out of the archive ({ archived })
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid chat ID' },
+        { status: 400 }
+      )
+    }
+
+    const { title, archived } = await request.json()
+    const updateData: Record<string, string | boolean> = {}
+
+    if (title !== undefined) {
+      const result = validateChatTitle(title)
+      if (!result.valid) {
+        return NextResponse.json(
+          { success: false, message: result.message },
+          { status: 400 }
+        )
+      }
+      updateData['context.conversationTopic'] = result.title
+    }
+
+    if (archived !== undefined) {
+      if (typeof archived !== 'boolean') {
+        return NextResponse.json(
+          { success: false, message: 'archived must be true or false' },
+          { status: 400 }
+        )
+      }
+      updateData.isActive = !archived
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json(
+        { success: false, message: 'Nothing to update' },
+        { status: 400 }
+      )
+    }
+
+    await connectMongoDB()
+
+    // Find user
+    const user = await User.findOne({ email: session.user.email })
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    // Update only if the chat belongs to this user
+    const chatSession = await ChatSession.findOneAndUpdate(
+      { _id: new Types.ObjectId(params.id), userId: user._id },
+      { $set: updateData },
+      { new: true, runValidators: true }
+    ).select('context.conversationTopic isActive')
+
+    if (!chatSession) {
+      return NextResponse.json(
+        { success: false, message: 'Chat session not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Chat updated successfully',
+      session: {
+        id: chatSession._id.toString(),
+        title: chatSession.context?.conversationTopic,
+        archived: !chatSession.isActive
+      }
+    })
+
+  } catch (error) {
+    console.error('Update chat session error:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to update chat' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Delete a chat and its messages for good. Safety events raised in it are
+ * kept for review.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid chat ID' },
+        { status: 400 }
+      )
+    }
+
+    await connectMongoDB()
+
+    // Find user
+    const user = await User.findOne({ email: session.user.email })
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    // Delete only if the chat belongs to this user
+    const chatSession = await ChatSession.findOneAndDelete({
+      _id: new Types.ObjectId(params.id),
+      userId: user._id
+    })
+
+    if (!chatSession) {
+      return NextResponse.json(
+        { success: false, message: 'Chat session not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Chat deleted successfully'
+    })
+
+  } catch (error) {
+    console.error('Delete chat session error:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to delete chat' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import connectMongoDB from '@/lib/mongodb'
+import User from '@/models/User'
+import { listChatSessions } from '@/lib/chat-service'
+
+// Longest search query passed to the database
+const MAX_SEARCH_LENGTH = 100
+
+/**
+ * The user's chats, most recent first. ?archived=true lists archived chats
+ * instead, and ?q= searches the titles and messages of all of them.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 50)
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+    const archived = searchParams.get('archived') === 'true'
+    const search = searchParams.get('q')?.trim().slice(0, MAX_SEARCH_LENGTH) || undefined
+
+    await connectMongoDB()
+
+    // Find user
+    const user = await User.findOne({ email: session.user.email })
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { sessions, totalCount } = await listChatSessions(user._id, {
+      archived,
+      search,
+      limit,
+      skip: (page - 1) * limit
+    })
+
+    return NextResponse.json({
+      success: true,
+      sessions,
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(totalCount / limit),
+        totalCount,
+        hasNext: page < Math.ceil(totalCount / limit),
+        hasPrev: page > 1
+      }
+    })
+
+  } catch (error) {
+    console.error('List chat sessions error:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch chats' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import connectMongoDB from '@/lib/mongodb'
+import ChatSession from '@/models/ChatSession'
+import User from '@/models/User'
+import ArogyaAI, { ChatMessage } from '@/lib/claude-ai'
+import { Types } from 'mongoose'
+import { requireEntitlement } from '@/lib/entitlement-service'
+import {
+  buildHealthContext,
+  getChatErrorResponse,
+  loadChatMemory,
+  recordSafetyEvents,
+  saveChatMessages,
+  titleChatSession
+} from '@/lib/chat-service'
+import { SafetyFinding } from '@/lib/chat-safety'
+import { formatServerSentEvent } from '@/lib/sse'
+
+/**
+ * Streaming version of /api/chat/message. Replies are sent as Server-Sent
+ * Events: "token" events carry text as it's generated and a final "done"
+ * event carries the complete reply once it's saved.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { message, sessionId } = await request.json()
+
+    if (!message || !sessionId) {
+      return NextResponse.json(
+        { success: false, message: 'Message and session ID are required' },
+        { status: 400 }
+      )
+    }
+
+    if (!Types.ObjectId.isValid(sessionId)) {
+      return NextResponse.json(
+        { success: false, message: 'Chat session not found' },
+        { status: 404 }
+      )
+    }
+
+    await connectMongoDB()
+
+    const user = await User.findOne({ email: session.user.email })
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const chatSession = await ChatSession.findOne({
+      _id: new Types.ObjectId(sessionId),
+      userId: user._id
+    })
+
+    if (!chatSession) {
+      return NextResponse.json(
+        { success: false, message: 'Chat session not found' },
+        { status: 404 }
+      )
+    }
+
+    // Daily message quota depends on the plan. Uses are logged separately, so
+    // deleting the chat doesn't give the message back.
+    const upgradeRequired = await requireEntitlement(user, 'aiChat')
+    if (upgradeRequired) {
+      return upgradeRequired
+    }
+
+    const userMessage: ChatMessage = {
+      role: 'user',
+      content: message,
+      timestamp: new Date()
+    }
+    const memory = await loadChatMemory(chatSession)
+    const healthContext = buildHealthContext(chatSession, user)
+
+    // Stop generating (and paying for) tokens nobody will read
+    const disconnect = new AbortController()
+    request.signal.addEventListener('abort', () => disconnect.abort())
+
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          if (disconnect.signal.aborted) return
+          controller.enqueue(encoder.encode(formatServerSentEvent(event, data)))
+        }
+
+        let response = ''
+        const safetyFindings: SafetyFinding[] = []
+        try {
+          const tokens = ArogyaAI.getInstance().streamChatWithArogya(
+            message,
+            healthContext,
+            memory.recent,
+            {
+              summary: memory.summary,
+              signal: disconnect.signal,
+              onSafetyEvent: finding => safetyFindings.push(finding)
+            }
+          )
+          for await (const text of tokens) {
+            response += text
+            send('token', { text })
+          }
+        } catch (error) {
+          console.error('AI chat stream error:', error)
+          response = response || getChatErrorResponse(message, healthContext)
+        }
+
+        // A reply stopped by the safety check is replaced outright; the
+        // "done" event below swaps it in on the client
+        const blocked = safetyFindings.find(finding => finding.stage === 'output')
+        if (blocked) {
+          response = blocked.response
+        }
+
+        // A reply cut short by a disconnect is kept as far as it got, so the
+        // history matches what the user saw
+        const aiMessage: ChatMessage = {
+          role: 'assistant',
+          content: response,
+          timestamp: new Date()
+        }
+
+        try {
+          await saveChatMessages(chatSession._id, response ? [userMessage, aiMessage] : [userMessage])
+          await recordSafetyEvents(user._id, chatSession._id, safetyFindings)
+          // Name the chat after its first exchange
+          const title = await titleChatSession(chatSession, {
+            message,
+            reply: response,
+            useAI: !disconnect.signal.aborted && !safetyFindings.some(finding => finding.stage === 'input')
+          })
+          send('done', {
+            response,
+            messageId: aiMessage.timestamp.getTime().toString(),
+            title
+          })
+        } catch (error) {
+          console.error('Chat stream save error:', error)
+          send('error', { message: 'Failed to save message' })
+        }
+
+        try {
+          controller.close()
+        } catch {
+          // Already cancelled by the client disconnecting
+        }
+      },
+      cancel() {
+        disconnect.abort()
+      }
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      }
+    })
+
+  } catch (error) {
+    console.error('Chat stream error:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to process message' },
+      { status: 500 }
+    )
+  }
+}
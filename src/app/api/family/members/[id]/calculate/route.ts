@@ -0,0 +1,245 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import connectMongoDB from '@/lib/mongodb'
+import User from '@/models/User'
+import FamilyMember from '@/models/FamilyMember'
+import { Types } from 'mongoose'
+import { calculateBodyFat, validateMeasurements, validateSkinfolds, MeasurementData } from '@/lib/body-fat-calculator'
+import { estimateAllMethods, getConsensusBodyFat, isBodyFatMethodId } from '@/lib/body-fat-methods'
+import { getCategoryRecommendations } from '@/lib/body-fat-classification'
+import { isPediatric } from '@/lib/pediatric-assessment'
+import { recordMeasurementEntry } from '@/lib/measurement-history'
+import { getEntitlement, requireEntitlement } from '@/lib/entitlement-service'
+import { fromMetricMeasurements, isUnitSystem, toMetricMeasurements, UnitSystem } from '@/lib/units'
+import ArogyaAI, { HealthContext } from '@/lib/claude-ai'
+import { HealthRecommendations } from '@/lib/recommendation-schema'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid family member id' },
+        { status: 400 }
+      )
+    }
+
+    // Same optional body as the account owner's calculation: method, skinfolds
+    // and fresh measurements in either unit system
+    const body = await request.json().catch(() => ({}))
+    const { method, skinfolds, unitSystem } = body
+
+    if (method !== undefined && !isBodyFatMethodId(method)) {
+      return NextResponse.json(
+        { success: false, message: 'Unsupported body fat method' },
+        { status: 400 }
+      )
+    }
+
+    if (unitSystem !== undefined && !isUnitSystem(unitSystem)) {
+      return NextResponse.json(
+        { success: false, message: 'Unit system must be metric or imperial' },
+        { status: 400 }
+      )
+    }
+
+    if (skinfolds !== undefined) {
+      const skinfoldErrors = validateSkinfolds(skinfolds)
+      if (skinfoldErrors.length > 0) {
+        return NextResponse.json(
+          { success: false, message: 'Invalid skinfolds', errors: skinfoldErrors },
+          { status: 400 }
+        )
+      }
+    }
+
+    await connectMongoDB()
+
+    // Find user
+    const user = await User.findOne({ email: session.user.email })
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const upgradeRequired = await requireEntitlement(user, 'familyCalculation')
+    if (upgradeRequired) return upgradeRequired
+
+    // Find family member and verify ownership
+    const familyMember = await FamilyMember.findOne({
+      _id: new Types.ObjectId(params.id),
+      userId: user._id,
+      isActive: true
+    })
+
+    if (!familyMember) {
+      return NextResponse.json(
+        { success: false, message: 'Family member not found' },
+        { status: 404 }
+      )
+    }
+
+    if (isPediatric(familyMember.age)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Body fat formulas are for ages 13 and over. Update measurements to see the growth assessment instead.',
+          assessmentType: 'pediatric'
+        },
+        { status: 400 }
+      )
+    }
+
+    const preferredUnits: UnitSystem = unitSystem || user.profile?.unitSystem || 'metric'
+    const submitted = toMetricMeasurements(body, preferredUnits)
+    const stored = familyMember.measurements || {}
+
+    const candidate: Partial<MeasurementData> = {
+      age: familyMember.age,
+      gender: familyMember.gender,
+      height: submitted.height ?? stored.height,
+      weight: submitted.weight ?? stored.weight,
+      waist: submitted.waist ?? stored.circumferences?.waist,
+      neck: submitted.neck ?? stored.circumferences?.neck,
+      hip: submitted.hip ?? stored.circumferences?.hip
+    }
+
+    const errors = validateMeasurements(candidate, preferredUnits)
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid measurements', errors },
+        { status: 400 }
+      )
+    }
+
+    const measurementData = {
+      ...candidate,
+      ...(skinfolds && { skinfolds })
+    } as MeasurementData
+
+    let bodyFatResult
+    try {
+      bodyFatResult = calculateBodyFat(measurementData, { method })
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, message: error instanceof Error ? error.message : 'Unable to apply the selected method' },
+        { status: 400 }
+      )
+    }
+
+    // Every method the available measurements support, for side-by-side comparison
+    const estimates = estimateAllMethods(measurementData)
+    const consensus = getConsensusBodyFat(estimates)
+    const { category, healthStatus, classificationVersion } = bodyFatResult
+    const basicRecommendations = getCategoryRecommendations(category)
+
+    // AI recommendations are based on the member, not the account owner
+    let aiRecommendations: HealthRecommendations | null = null
+    const aiEntitlement = await getEntitlement(user, 'aiRecommendations')
+    if (aiEntitlement.allowed) {
+      try {
+        const arogyaAI = ArogyaAI.getInstance()
+        const healthContext: HealthContext = {
+          age: familyMember.age,
+          gender: familyMember.gender,
+          height: measurementData.height,
+          weight: measurementData.weight,
+          bodyFatPercentage: bodyFatResult.bodyFatPercentage,
+          bmi: bodyFatResult.bmi,
+          // Members have no activity level or goals on record, so none are assumed
+          dietaryRestrictions: [],
+          medicalHistory: [],
+          // Recommendations come back in the account owner's chosen language
+          language: user.profile?.language || 'en'
+        }
+
+        aiRecommendations = await arogyaAI.generateHealthRecommendations(healthContext)
+      } catch (error) {
+        console.error('AI recommendations error:', error)
+        // Continue without AI recommendations
+      }
+    }
+
+    const calculatedAt = new Date()
+
+    familyMember.measurements = {
+      height: measurementData.height,
+      weight: measurementData.weight,
+      circumferences: {
+        waist: measurementData.waist,
+        neck: measurementData.neck,
+        ...(measurementData.hip && { hip: measurementData.hip })
+      },
+      bodyFatPercentage: bodyFatResult.bodyFatPercentage,
+      bmi: bodyFatResult.bmi
+    }
+    familyMember.results = {
+      bodyFatPercentage: bodyFatResult.bodyFatPercentage,
+      bmi: bodyFatResult.bmi,
+      category,
+      healthStatus,
+      classificationVersion,
+      assessment: 'adult',
+      calculatedAt,
+      recommendations: {
+        basic: basicRecommendations,
+        ai: aiRecommendations
+      }
+    }
+    await familyMember.save()
+
+    // Append this reading to the member's measurement history
+    try {
+      await recordMeasurementEntry(user._id, measurementData, {
+        ...bodyFatResult,
+        recommendations: basicRecommendations
+      }, 'calculation', calculatedAt, undefined, familyMember._id)
+    } catch (error) {
+      console.error('Measurement history error:', error)
+      // Don't fail the calculation for history issues
+    }
+
+    return NextResponse.json({
+      success: true,
+      results: {
+        bodyFatPercentage: bodyFatResult.bodyFatPercentage,
+        bmi: bodyFatResult.bmi,
+        category,
+        healthStatus,
+        classificationVersion,
+        recommendations: basicRecommendations,
+        aiRecommendations,
+        method: bodyFatResult.method,
+        estimates,
+        consensus
+      },
+      measurements: fromMetricMeasurements({
+        height: measurementData.height,
+        weight: measurementData.weight,
+        waist: measurementData.waist,
+        neck: measurementData.neck,
+        hip: measurementData.hip
+      }, preferredUnits)
+    })
+
+  } catch (error) {
+    console.error('Family member calculation error:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to calculate body fat percentage' },
+      { status: 500 }
+    )
+  }
+}
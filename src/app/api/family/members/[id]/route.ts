@@ -2,8 +2,10 @@ import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import connectMongoDB from '@/lib/mongodb'
 import User from '@/models/User'
-import FamilyMember from '@/models/FamilyMember'
+import FamilyMember, { IFamilyMember } from '@/models/FamilyMember'
 import { Types } from 'mongoose'
+import { fromMetricMeasurements, isUnitSystem, toMetricMeasurements, UnitSystem } from '@/lib/units'
+import { assessPediatric, isPediatric, validatePediatricMeasurements } from '@/lib/pediatric-assessment'
 
 export async function GET(
   request: NextRequest,
@@ -46,7 +48,10 @@ export async function GET(
 
     return NextResponse.json({
       success: true,
-      member: familyMember
+      member: familyMember,
+      displayMeasurements: toDisplayMeasurements(familyMember, user.profile?.unitSystem),
+      assessmentType: isPediatric(familyMember.age) ? 'pediatric' : 'adult',
+      pediatricAssessment: getPediatricAssessment(familyMember)
     })
 
   } catch (error) {
@@ -72,7 +77,14 @@ export async function PUT(
       )
     }
 
-    const { name, relationship, age, gender, measurements } = await request.json()
+    const { name, relationship, age, gender, measurements: rawMeasurements, unitSystem } = await request.json()
+
+    if (unitSystem !== undefined && !isUnitSystem(unitSystem)) {
+      return NextResponse.json(
+        { success: false, message: 'Unit system must be metric or imperial' },
+        { status: 400 }
+      )
+    }
 
     await connectMongoDB()
 
@@ -99,14 +111,46 @@ export async function PUT(
       )
     }
 
+    // Measurements may be sent in either unit system; store them in metric
+    const preferredUnits: UnitSystem = unitSystem || user.profile?.unitSystem || 'metric'
+    const measurements = rawMeasurements ? toMetricFamilyMeasurements(rawMeasurements, preferredUnits) : null
+
     // Update basic info if provided
     if (name?.trim()) familyMember.name = name.trim()
     if (relationship?.trim()) familyMember.relationship = relationship.trim()
     if (age && age >= 1 && age <= 120) familyMember.age = age
     if (gender && ['male', 'female'].includes(gender)) familyMember.gender = gender
 
-    // Update measurements if provided
-    if (measurements) {
+    // Children are measured against pediatric ranges rather than the adult limits below
+    if (measurements && isPediatric(familyMember.age)) {
+      const errors = validatePediatricMeasurements({
+        age: familyMember.age,
+        height: measurements.height ?? familyMember.measurements?.height,
+        weight: measurements.weight ?? familyMember.measurements?.weight,
+        waist: measurements.circumferences?.waist ?? familyMember.measurements?.circumferences?.waist
+      }, preferredUnits)
+
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { success: false, message: 'Invalid measurements', errors },
+          { status: 400 }
+        )
+      }
+
+      if (!familyMember.measurements) {
+        familyMember.measurements = {}
+      }
+      if (measurements.height) familyMember.measurements.height = measurements.height
+      if (measurements.weight) familyMember.measurements.weight = measurements.weight
+      if (measurements.circumferences) {
+        familyMember.measurements.circumferences = {
+          ...familyMember.measurements.circumferences,
+          ...(measurements.circumferences.waist && { waist: measurements.circumferences.waist }),
+          ...(measurements.circumferences.neck && { neck: measurements.circumferences.neck }),
+          ...(measurements.circumferences.hip && { hip: measurements.circumferences.hip })
+        }
+      }
+    } else if (measurements) {
       if (!familyMember.measurements) {
         familyMember.measurements = {}
       }
@@ -133,12 +177,45 @@ export async function PUT(
       }
     }
 
+    // Keep a child's growth assessment in step with their latest measurements
+    const pediatricAssessment = getPediatricAssessment(familyMember)
+    if (pediatricAssessment && familyMember.measurements) {
+      familyMember.measurements.bmi = pediatricAssessment.bmi
+      familyMember.results = {
+        bmi: pediatricAssessment.bmi,
+        category: pediatricAssessment.bmiCategory,
+        healthStatus: pediatricAssessment.healthStatus,
+        assessment: 'pediatric',
+        pediatric: {
+          bmiZScore: pediatricAssessment.bmiZScore,
+          bmiPercentile: pediatricAssessment.bmiPercentile,
+          ...(pediatricAssessment.waistToHeightRatio !== null && {
+            waistToHeightRatio: pediatricAssessment.waistToHeightRatio
+          }),
+          ...(pediatricAssessment.waistToHeightCategory && {
+            waistToHeightCategory: pediatricAssessment.waistToHeightCategory
+          }),
+          reference: pediatricAssessment.reference
+        },
+        calculatedAt: new Date(),
+        recommendations: pediatricAssessment.recommendations
+      }
+    } else if (familyMember.results && (familyMember.results.assessment === 'pediatric') !== isPediatric(familyMember.age)) {
+      // The age now falls on the other side of the pediatric limit, so the
+      // stored results used the wrong ranges; they're recalculated from the
+      // next measurements
+      familyMember.results = undefined
+    }
+
     await familyMember.save()
 
     return NextResponse.json({
       success: true,
       message: 'Family member updated successfully',
-      member: familyMember
+      member: familyMember,
+      displayMeasurements: toDisplayMeasurements(familyMember, preferredUnits),
+      assessmentType: isPediatric(familyMember.age) ? 'pediatric' : 'adult',
+      pediatricAssessment
     })
 
   } catch (error) {
@@ -205,4 +282,65 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+interface FamilyMeasurementInput {
+  height?: number
+  heightFeet?: number
+  heightInches?: number
+  weight?: number
+  circumferences?: {
+    waist?: number
+    neck?: number
+    hip?: number
+  }
+}
+
+function toMetricFamilyMeasurements(input: FamilyMeasurementInput, unitSystem: UnitSystem) {
+  const metric = toMetricMeasurements({
+    height: input.height,
+    heightFeet: input.heightFeet,
+    heightInches: input.heightInches,
+    weight: input.weight,
+    waist: input.circumferences?.waist,
+    neck: input.circumferences?.neck,
+    hip: input.circumferences?.hip
+  }, unitSystem)
+
+  return {
+    height: metric.height,
+    weight: metric.weight,
+    ...(input.circumferences && {
+      circumferences: {
+        waist: metric.waist,
+        neck: metric.neck,
+        hip: metric.hip
+      }
+    })
+  }
+}
+
+function toDisplayMeasurements(member: IFamilyMember, unitSystem: UnitSystem = 'metric') {
+  return fromMetricMeasurements({
+    height: member.measurements?.height,
+    weight: member.measurements?.weight,
+    waist: member.measurements?.circumferences?.waist,
+    neck: member.measurements?.circumferences?.neck,
+    hip: member.measurements?.circumferences?.hip
+  }, unitSystem)
+}
+
+// BMI-for-age assessment for members under 13 once height and weight are known
+function getPediatricAssessment(member: IFamilyMember) {
+  if (!isPediatric(member.age) || !member.measurements?.height || !member.measurements?.weight) {
+    return null
+  }
+
+  return assessPediatric({
+    age: member.age,
+    gender: member.gender,
+    height: member.measurements.height,
+    weight: member.measurements.weight,
+    waist: member.measurements.circumferences?.waist
+  })
+}
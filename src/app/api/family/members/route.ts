@@ -3,6 +3,8 @@ import { auth } from '@/lib/auth'
 import connectMongoDB from '@/lib/mongodb'
 import User from '@/models/User'
 import FamilyMember from '@/models/FamilyMember'
+import { requireEntitlement } from '@/lib/entitlement-service'
+import { checkEntitlement } from '@/lib/entitlements'
 
 export async function GET(request: NextRequest) {
   try {
@@ -34,10 +36,16 @@ export async function GET(request: NextRequest) {
     .sort({ createdAt: -1 })
     .lean()
 
+    // Lets the page show remaining slots using the effective (non-lapsed) plan
+    const entitlement = checkEntitlement(user.subscription, 'familyMembers', familyMembers.length)
+
     return NextResponse.json({
       success: true,
       members: familyMembers,
-      count: familyMembers.length
+      count: familyMembers.length,
+      limit: entitlement.limit,
+      plan: entitlement.plan,
+      subscriptionState: entitlement.state
     })
 
   } catch (error) {
@@ -96,22 +104,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Check subscription limits
-    const currentFamilyCount = await FamilyMember.countDocuments({ 
-      userId: user._id, 
-      isActive: true 
-    })
-
-    const allowedMembers = user.subscription?.additionalPeople || 0
-
-    if (currentFamilyCount >= allowedMembers) {
-      return NextResponse.json(
-        { 
-          success: false, 
-          message: `You can add up to ${allowedMembers} family members with your current subscription. Please upgrade to add more.`,
-          requiresUpgrade: true
-        },
-        { status: 403 }
-      )
+    const upgradeRequired = await requireEntitlement(user, 'familyMembers')
+    if (upgradeRequired) {
+      return upgradeRequired
     }
 
     // Check for duplicate names within the same family
@@ -0,0 +1,217 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import connectMongoDB from '@/lib/mongodb'
+import User, { IUser } from '@/models/User'
+import { buildGoalPlan } from '@/lib/goal-planner'
+import { formatWeightRange, isUnitSystem, poundsToKg, UnitSystem } from '@/lib/units'
+
+interface GoalOverrides {
+  targetWeight?: number
+  targetBodyFat?: number
+  weeklyRate?: number
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const unitSystem = searchParams.get('unitSystem') || undefined
+
+    if (unitSystem !== undefined && !isUnitSystem(unitSystem)) {
+      return NextResponse.json(
+        { success: false, message: 'Unit system must be metric or imperial' },
+        { status: 400 }
+      )
+    }
+
+    await connectMongoDB()
+
+    const user = await User.findOne({ email: session.user.email })
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    // Query params let the dashboard preview a different target or pace without saving it
+    const preferredUnits: UnitSystem = unitSystem || user.profile?.unitSystem || 'metric'
+    const overrides = parseOverrides({
+      targetWeight: searchParams.get('targetWeight'),
+      targetBodyFat: searchParams.get('targetBodyFat'),
+      weeklyRate: searchParams.get('weeklyRate')
+    }, preferredUnits)
+
+    return planResponse(user, overrides, preferredUnits)
+
+  } catch (error) {
+    console.error('Get goal plan error:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to build goal plan' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { unitSystem } = body
+
+    if (unitSystem !== undefined && !isUnitSystem(unitSystem)) {
+      return NextResponse.json(
+        { success: false, message: 'Unit system must be metric or imperial' },
+        { status: 400 }
+      )
+    }
+
+    await connectMongoDB()
+
+    const user = await User.findOne({ email: session.user.email })
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const preferredUnits: UnitSystem = unitSystem || user.profile?.unitSystem || 'metric'
+    const overrides = parseOverrides(body, preferredUnits)
+
+    if (!overrides.targetWeight && overrides.targetBodyFat === undefined) {
+      return NextResponse.json(
+        { success: false, message: 'A target weight or target body fat percentage is required' },
+        { status: 400 }
+      )
+    }
+
+    const response = planResponse(user, overrides, preferredUnits)
+    if (response.status !== 200) {
+      return response
+    }
+
+    // A weight target and a body fat target are alternatives; keep only the one just chosen
+    user.goals.targetWeight = overrides.targetWeight
+    user.goals.targetBodyFat = overrides.targetWeight ? undefined : overrides.targetBodyFat
+    if (overrides.weeklyRate) {
+      user.goals.weeklyRate = overrides.weeklyRate
+    }
+    await user.save()
+
+    return response
+
+  } catch (error) {
+    console.error('Save goal plan error:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to save goal plan' },
+      { status: 500 }
+    )
+  }
+}
+
+// Weights and rates arrive in the user's unit system and are planned in kg
+function parseOverrides(
+  raw: { targetWeight?: unknown; targetBodyFat?: unknown; weeklyRate?: unknown },
+  unitSystem: UnitSystem
+): GoalOverrides {
+  const toKg = (value: unknown) => {
+    const parsed = parseFloat(String(value))
+    if (value === null || value === undefined || value === '' || isNaN(parsed)) return undefined
+    return unitSystem === 'imperial' ? Math.round(poundsToKg(parsed) * 10) / 10 : parsed
+  }
+
+  const targetBodyFat = parseFloat(String(raw.targetBodyFat))
+
+  return {
+    targetWeight: toKg(raw.targetWeight),
+    targetBodyFat: isNaN(targetBodyFat) ? undefined : targetBodyFat,
+    weeklyRate: toKg(raw.weeklyRate)
+  }
+}
+
+function planResponse(user: IUser, overrides: GoalOverrides, unitSystem: UnitSystem) {
+  const { profile, measurements, goals, lifestyle, results } = user
+
+  if (!measurements?.height || !measurements?.weight || !profile?.age || !profile?.gender) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Missing required measurements. Please complete your profile first.',
+        requiresOnboarding: true
+      },
+      { status: 400 }
+    )
+  }
+
+  const targetWeight = overrides.targetWeight ?? (overrides.targetBodyFat === undefined ? goals?.targetWeight : undefined)
+  const targetBodyFat = overrides.targetBodyFat ?? (targetWeight ? undefined : goals?.targetBodyFat)
+  const weeklyRate = overrides.weeklyRate ?? goals?.weeklyRate
+
+  if (targetWeight !== undefined && (targetWeight < 30 || targetWeight > 300)) {
+    return NextResponse.json(
+      { success: false, message: `Target weight must be between ${formatWeightRange(30, 300, unitSystem)}` },
+      { status: 400 }
+    )
+  }
+
+  if (targetBodyFat !== undefined && (targetBodyFat < 3 || targetBodyFat > 50)) {
+    return NextResponse.json(
+      { success: false, message: 'Target body fat must be between 3 and 50%' },
+      { status: 400 }
+    )
+  }
+
+  if (weeklyRate !== undefined && (weeklyRate < 0.1 || weeklyRate > 2)) {
+    return NextResponse.json(
+      { success: false, message: `Weekly rate must be between ${formatWeightRange(0.1, 2, unitSystem)}` },
+      { status: 400 }
+    )
+  }
+
+  if (!targetWeight && targetBodyFat === undefined) {
+    return NextResponse.json(
+      { success: false, message: 'No goal set. Add a target weight to see your plan.', requiresGoal: true },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const plan = buildGoalPlan({
+      currentWeight: measurements.weight,
+      height: measurements.height,
+      age: profile.age,
+      gender: profile.gender,
+      activityLevel: lifestyle?.activityLevel || 'moderate',
+      bodyFatPercentage: results?.bodyFatPercentage,
+      targetWeight,
+      targetBodyFat,
+      weeklyRate,
+      unitSystem
+    })
+
+    // Which target the plan was built from, so clients can show the same kind
+    return NextResponse.json({ success: true, unitSystem, targetType: targetWeight ? 'weight' : 'bodyFat', plan })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, message: error instanceof Error ? error.message : 'Unable to build goal plan' },
+      { status: 400 }
+    )
+  }
+}
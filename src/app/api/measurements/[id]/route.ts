@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import connectMongoDB from '@/lib/mongodb'
+import User from '@/models/User'
+import MeasurementEntry from '@/models/MeasurementEntry'
+import { Types } from 'mongoose'
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid measurement ID' },
+        { status: 400 }
+      )
+    }
+
+    await connectMongoDB()
+
+    // Find user
+    const user = await User.findOne({ email: session.user.email })
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    // Delete only if the entry belongs to this user
+    const entry = await MeasurementEntry.findOneAndDelete({
+      _id: new Types.ObjectId(params.id),
+      userId: user._id
+    })
+
+    if (!entry) {
+      return NextResponse.json(
+        { success: false, message: 'Measurement not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Measurement deleted successfully'
+    })
+
+  } catch (error) {
+    console.error('Delete measurement error:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to delete measurement' },
+      { status: 500 }
+    )
+  }
+}
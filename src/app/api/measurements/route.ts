@@ -0,0 +1,221 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import connectMongoDB from '@/lib/mongodb'
+import User from '@/models/User'
+import FamilyMember from '@/models/FamilyMember'
+import { Types } from 'mongoose'
+import { calculateBodyFat, validateMeasurements, MeasurementData } from '@/lib/body-fat-calculator'
+import { getMeasurementHistory, recordMeasurementEntry, toDisplayUnits } from '@/lib/measurement-history'
+import { isUnitSystem, toMetricMeasurements, UnitSystem } from '@/lib/units'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const from = parseDateParam(searchParams.get('from'))
+    const to = parseDateParam(searchParams.get('to'))
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 200)
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+    const familyMemberId = searchParams.get('familyMemberId')
+    const unitSystem = searchParams.get('unitSystem') || undefined
+
+    if (unitSystem !== undefined && !isUnitSystem(unitSystem)) {
+      return NextResponse.json(
+        { success: false, message: 'Unit system must be metric or imperial' },
+        { status: 400 }
+      )
+    }
+
+    if (familyMemberId !== null && !Types.ObjectId.isValid(familyMemberId)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid family member id' },
+        { status: 400 }
+      )
+    }
+
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid date range' },
+        { status: 400 }
+      )
+    }
+
+    if (from && to && from > to) {
+      return NextResponse.json(
+        { success: false, message: 'Start date must be before end date' },
+        { status: 400 }
+      )
+    }
+
+    await connectMongoDB()
+
+    // Find user
+    const user = await User.findOne({ email: session.user.email })
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    // A member's history is only visible to the account they belong to
+    if (familyMemberId) {
+      const familyMember = await FamilyMember.exists({
+        _id: new Types.ObjectId(familyMemberId),
+        userId: user._id,
+        isActive: true
+      })
+      if (!familyMember) {
+        return NextResponse.json(
+          { success: false, message: 'Family member not found' },
+          { status: 404 }
+        )
+      }
+    }
+
+    const { entries, totalCount } = await getMeasurementHistory(user._id, {
+      ...(familyMemberId && { familyMemberId }),
+      from,
+      to,
+      limit,
+      skip: (page - 1) * limit
+    })
+
+    const preferredUnits: UnitSystem = unitSystem || user.profile?.unitSystem || 'metric'
+
+    return NextResponse.json({
+      success: true,
+      unitSystem: preferredUnits,
+      entries: entries.map(entry => toDisplayUnits(entry, preferredUnits)),
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(totalCount / limit),
+        totalCount,
+        hasNext: page < Math.ceil(totalCount / limit),
+        hasPrev: page > 1
+      }
+    })
+
+  } catch (error) {
+    console.error('Get measurements error:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch measurements' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { measuredAt, notes, unitSystem } = body
+
+    if (unitSystem !== undefined && !isUnitSystem(unitSystem)) {
+      return NextResponse.json(
+        { success: false, message: 'Unit system must be metric or imperial' },
+        { status: 400 }
+      )
+    }
+
+    const measurementDate = measuredAt ? new Date(measuredAt) : new Date()
+    if (isNaN(measurementDate.getTime()) || measurementDate > new Date()) {
+      return NextResponse.json(
+        { success: false, message: 'Measurement date must be a valid date that is not in the future' },
+        { status: 400 }
+      )
+    }
+
+    await connectMongoDB()
+
+    // Find user
+    const user = await User.findOne({ email: session.user.email })
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const preferredUnits: UnitSystem = unitSystem || user.profile?.unitSystem || 'metric'
+    const { height, weight, waist, neck, hip } = toMetricMeasurements(body, preferredUnits)
+
+    const data: MeasurementData = {
+      age: user.profile?.age,
+      gender: user.profile?.gender,
+      height: height || 0,
+      weight: weight || 0,
+      waist: waist || 0,
+      neck: neck || 0,
+      ...(hip && { hip })
+    }
+
+    const errors = validateMeasurements(data, preferredUnits)
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid measurements', errors },
+        { status: 400 }
+      )
+    }
+
+    const result = calculateBodyFat(data)
+    const entry = await recordMeasurementEntry(user._id, data, result, 'manual', measurementDate, notes)
+
+    // Keep the profile's current measurements in sync with the newest reading
+    const latestResultAt = user.results?.calculatedAt ? new Date(user.results.calculatedAt) : null
+    if (!latestResultAt || measurementDate >= latestResultAt) {
+      user.measurements = {
+        height: data.height,
+        weight: data.weight,
+        circumferences: {
+          waist: data.waist,
+          neck: data.neck,
+          ...(data.hip && { hip: data.hip })
+        }
+      }
+      user.results.bodyFatPercentage = result.bodyFatPercentage
+      user.results.bmi = result.bmi
+      user.results.category = result.category
+      user.results.healthStatus = result.healthStatus
+      user.results.classificationVersion = result.classificationVersion
+      user.results.calculatedAt = measurementDate
+      await user.save()
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Measurement recorded successfully',
+      entry
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Create measurement error:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to record measurement' },
+      { status: 500 }
+    )
+  }
+}
+
+// Returns undefined when the param is absent and null when it is malformed
+function parseDateParam(value: string | null): Date | undefined | null {
+  if (!value) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
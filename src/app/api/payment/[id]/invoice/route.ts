@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import connectDB from '@/lib/mongodb'
+import Payment from '@/models/Payment'
+import { Types } from 'mongoose'
+import { InvoicePendingError, findIssuedInvoice, issueInvoice, toInvoiceData } from '@/lib/invoice-service'
+import { renderInvoicePdf } from '@/lib/invoice-pdf'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({ message: 'Invalid payment id' }, { status: 400 })
+    }
+
+    await connectDB()
+
+    const payment = await Payment.findOne({
+      _id: new Types.ObjectId(params.id),
+      userId: session.user.id
+    })
+
+    if (!payment) {
+      return NextResponse.json({ message: 'Payment not found' }, { status: 404 })
+    }
+
+    // Refunded payments keep the invoice they were issued
+    if (payment.status !== 'completed' && payment.status !== 'refunded') {
+      return NextResponse.json({ message: 'Invoices are only available for completed payments' }, { status: 400 })
+    }
+
+    // A refund can come before any invoice was downloaded, e.g. for an upgrade
+    // that was never applied; those don't get a new one
+    const invoice = payment.status === 'refunded'
+      ? await findIssuedInvoice(payment)
+      : await issueInvoice(payment)
+    if (!invoice) {
+      return NextResponse.json({ message: 'No invoice was issued for this payment' }, { status: 404 })
+    }
+
+    const pdf = renderInvoicePdf(toInvoiceData(invoice, payment.razorpayPaymentId))
+    const filename = `${invoice.invoiceNumber.replace(/\//g, '-')}.pdf`
+
+    return new NextResponse(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'private, no-store'
+      }
+    })
+
+  } catch (error) {
+    if (error instanceof InvoicePendingError) {
+      return NextResponse.json({ message: error.message }, { status: 409 })
+    }
+    console.error('Invoice download error:', error)
+    return NextResponse.json({ message: 'Failed to generate invoice' }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import connectDB from '@/lib/mongodb'
+import { isPlanId } from '@/lib/plans'
+import { quoteUserPlanChange } from '@/lib/plan-change-service'
+
+// Prorated price preview for switching plans mid-term
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { planId } = await request.json()
+
+    if (!isPlanId(planId)) {
+      return NextResponse.json({ message: 'Invalid plan selected' }, { status: 400 })
+    }
+
+    await connectDB()
+
+    const result = await quoteUserPlanChange(session.user.id, planId)
+    if (!result.success) {
+      return NextResponse.json({ message: result.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ quote: result.quote }, { status: 200 })
+
+  } catch (error) {
+    console.error('Plan change quote error:', error)
+    return NextResponse.json({ message: 'Failed to price plan change' }, { status: 500 })
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import connectDB from '@/lib/mongodb'
+import Payment from '@/models/Payment'
+import Razorpay from 'razorpay'
+import { PRICING_PLANS, isPlanId } from '@/lib/plans'
+import { downgradePlan, quoteUserPlanChange } from '@/lib/plan-change-service'
+
+const razorpay = new Razorpay({
+  key_id: process.env.RAZORPAY_KEY_ID!,
+  key_secret: process.env.RAZORPAY_KEY_SECRET!,
+})
+
+/**
+ * Switch plans mid-term. Upgrades return a Razorpay order for the prorated
+ * difference, applied when the payment is verified. Downgrades apply now and
+ * refund the difference.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { planId, amount } = await request.json()
+
+    if (!isPlanId(planId)) {
+      return NextResponse.json({ message: 'Invalid plan selected' }, { status: 400 })
+    }
+    const plan = PRICING_PLANS[planId]
+
+    await connectDB()
+
+    const result = await quoteUserPlanChange(session.user.id, planId)
+    if (!result.success) {
+      return NextResponse.json({ message: result.message }, { status: 400 })
+    }
+    const { term, quote } = result
+
+    // The client sends the amount it displayed; proration moves daily
+    const displayed = quote.direction === 'upgrade' ? quote.amount : quote.refund
+    if (amount !== undefined && Number(amount) !== displayed) {
+      return NextResponse.json({
+        message: 'The prorated amount has changed. Please review the updated price.',
+        quote
+      }, { status: 400 })
+    }
+
+    if (quote.direction === 'downgrade') {
+      const downgrade = await downgradePlan(session.user.id, planId, session.user.email || session.user.id)
+      if (!downgrade.success) {
+        return NextResponse.json({ message: downgrade.message }, { status: 400 })
+      }
+
+      const refundDelayed = downgrade.quote.refund > 0 && !downgrade.refund
+      return NextResponse.json({
+        message: refundDelayed
+          ? `Switched to ${plan.name}. Your refund couldn't be issued automatically; our support team will process it.`
+          : `Switched to ${plan.name}`,
+        quote: downgrade.quote,
+        refund: downgrade.refund
+      }, { status: 200 })
+    }
+
+    const razorpayOrder = await razorpay.orders.create({
+      amount: quote.amount * 100, // Convert to paise
+      currency: 'INR',
+      receipt: `upgrade_${Date.now()}_${session.user.id}`,
+      payment_capture: true
+    })
+
+    await Payment.create({
+      userId: session.user.id,
+      razorpayOrderId: razorpayOrder.id,
+      amount: quote.amount,
+      currency: 'INR',
+      status: 'pending',
+      additionalPeople: plan.additionalPeople,
+      metadata: {
+        planId,
+        planName: plan.name,
+        purchaseType: 'upgrade',
+        basePaymentId: term.subscriptionPaymentId,
+        fromPlanId: quote.fromPlan,
+        basePrice: quote.newPlanCost,
+        proratedCredit: quote.credit,
+        termValue: quote.termValue
+      }
+    })
+
+    return NextResponse.json({
+      orderId: razorpayOrder.id,
+      amount: razorpayOrder.amount,
+      currency: razorpayOrder.currency,
+      quote
+    }, { status: 200 })
+
+  } catch (error) {
+    console.error('Plan change error:', error)
+    return NextResponse.json({ message: 'Failed to change plan' }, { status: 500 })
+  }
+}
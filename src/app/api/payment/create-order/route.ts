@@ -2,19 +2,20 @@ import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import connectDB from '@/lib/mongodb'
 import Payment from '@/models/Payment'
+import User from '@/models/User'
 import Razorpay from 'razorpay'
+import { PRICING_PLANS, isPlanId } from '@/lib/plans'
+import { quoteOrder, releasePromoRedemption, reservePromoRedemption } from '@/lib/pricing-service'
+import { getStateCodeFromGstin, isGstStateCode, isValidGstin } from '@/lib/gst'
+import { getSubscriptionPhase } from '@/lib/subscription-lifecycle'
+import { getDeviceId } from '@/lib/device'
+import { rememberDevice } from '@/lib/referral-service'
 
 const razorpay = new Razorpay({
   key_id: process.env.RAZORPAY_KEY_ID!,
   key_secret: process.env.RAZORPAY_KEY_SECRET!,
 })
 
-const PRICING_PLANS = {
-  basic: { price: 99, name: 'Personal Analysis', additionalPeople: 0 },
-  family: { price: 299, name: 'Family Plan', additionalPeople: 3 },
-  premium: { price: 499, name: 'Premium Care', additionalPeople: 7 }
-}
-
 export async function POST(request: NextRequest) {
   try {
     const session = await auth()
@@ -24,52 +25,119 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { planId, amount, referralCode } = body
+    const { planId, amount, promoCode, referralCode, billing } = body
 
     // Validate plan
-    const plan = PRICING_PLANS[planId as keyof typeof PRICING_PLANS]
-    if (!plan) {
+    if (!isPlanId(planId)) {
       return NextResponse.json({ message: 'Invalid plan selected' }, { status: 400 })
     }
+    const plan = PRICING_PLANS[planId]
+
+    if ((promoCode != null && typeof promoCode !== 'string') || (referralCode != null && typeof referralCode !== 'string')) {
+      return NextResponse.json({ message: 'Invalid promo or referral code' }, { status: 400 })
+    }
 
-    // Validate amount
-    if (amount < 99 || amount > plan.price) {
-      return NextResponse.json({ message: 'Invalid amount' }, { status: 400 })
+    // Optional GST details for the invoice. A GSTIN determines the state.
+    const billingText = [billing?.name, billing?.gstin, billing?.address]
+    if ((billing != null && typeof billing !== 'object') || billingText.some(field => field != null && typeof field !== 'string')) {
+      return NextResponse.json({ message: 'Invalid billing details' }, { status: 400 })
+    }
+    const gstin = billing?.gstin?.trim().toUpperCase() || undefined
+    if (gstin && !isValidGstin(gstin)) {
+      return NextResponse.json({ message: 'Invalid GSTIN' }, { status: 400 })
+    }
+    const stateCode = gstin ? getStateCodeFromGstin(gstin) : billing?.stateCode
+    if (stateCode !== undefined && stateCode !== '' && !isGstStateCode(stateCode)) {
+      return NextResponse.json({ message: 'Invalid billing state' }, { status: 400 })
     }
 
     await connectDB()
 
-    // Create Razorpay order
-    const orderOptions = {
-      amount: amount * 100, // Convert to paise
-      currency: 'INR',
-      receipt: `order_${Date.now()}_${session.user.id}`,
-      payment_capture: true
+    // The amount charged always comes from the pricing engine
+    const quote = await quoteOrder(session.user.id, planId, { promoCode, referralCode })
+    if (!quote.success) {
+      return NextResponse.json({ message: quote.message }, { status: 400 })
+    }
+    const { pricing } = quote
+
+    // The client sends the amount it displayed; a mismatch means the price or
+    // a code changed since it was quoted
+    if (amount !== undefined && Number(amount) !== pricing.amount) {
+      return NextResponse.json({
+        message: 'The payable amount has changed. Please review the updated price.',
+        pricing
+      }, { status: 400 })
     }
 
-    const razorpayOrder = await razorpay.orders.create(orderOptions)
-
-    // Save payment record
-    const payment = new Payment({
-      userId: session.user.id,
-      razorpayOrderId: razorpayOrder.id,
-      amount: amount,
-      currency: 'INR',
-      status: 'pending',
-      additionalPeople: plan.additionalPeople,
-      metadata: {
-        planId,
-        planName: plan.name,
-        ...(referralCode && { referralCode })
+    // Paying before the grace period ends renews the current subscription
+    const user = await User.findById(session.user.id).select('subscription').lean<{
+      subscription?: { status?: string; expiresAt?: Date }
+    }>()
+    const currentExpiry = user?.subscription?.status === 'active' ? user.subscription.expiresAt : null
+    const purchaseType = currentExpiry && getSubscriptionPhase(currentExpiry) !== 'expired' ? 'renewal' : 'new'
+
+    // The quote checked the limit, but another checkout may have taken the
+    // last redemption since
+    if (pricing.promoCode && !(await reservePromoRedemption(pricing.promoCode))) {
+      return NextResponse.json({ message: 'This promo code has reached its usage limit' }, { status: 400 })
+    }
+
+    let razorpayOrder
+    try {
+      // Create Razorpay order
+      const orderOptions = {
+        amount: pricing.amount * 100, // Convert to paise
+        currency: 'INR',
+        receipt: `order_${Date.now()}_${session.user.id}`,
+        payment_capture: true
       }
-    })
 
-    await payment.save()
+      razorpayOrder = await razorpay.orders.create(orderOptions)
+
+      const deviceId = getDeviceId(request)
+      await rememberDevice(session.user.id, deviceId)
+
+      // Save payment record
+      const payment = new Payment({
+        userId: session.user.id,
+        razorpayOrderId: razorpayOrder.id,
+        amount: pricing.amount,
+        currency: 'INR',
+        status: 'pending',
+        additionalPeople: plan.additionalPeople,
+        deviceId: deviceId || undefined,
+        billing: {
+          name: billing?.name?.trim() || undefined,
+          gstin,
+          address: billing?.address?.trim() || undefined,
+          stateCode: stateCode || undefined
+        },
+        metadata: {
+          planId,
+          planName: plan.name,
+          purchaseType,
+          basePrice: pricing.basePrice,
+          promoDiscount: pricing.promoDiscount,
+          referralDiscount: pricing.referralDiscount,
+          discountApplied: pricing.totalDiscount,
+          ...(pricing.promoCode && { promocode: pricing.promoCode, promoReserved: true }),
+          ...(pricing.referralCode && { referralCode: pricing.referralCode })
+        }
+      })
+
+      await payment.save()
+    } catch (error) {
+      if (pricing.promoCode) {
+        await releasePromoRedemption(pricing.promoCode)
+      }
+      throw error
+    }
 
     return NextResponse.json({
       orderId: razorpayOrder.id,
       amount: razorpayOrder.amount,
-      currency: razorpayOrder.currency
+      currency: razorpayOrder.currency,
+      pricing
     }, { status: 200 })
 
   } catch (error: any) {
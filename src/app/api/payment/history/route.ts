@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import connectDB from '@/lib/mongodb'
+import Payment from '@/models/Payment'
+import Invoice from '@/models/Invoice'
+
+// Paid orders for the signed-in user, with their invoice numbers
+export async function GET() {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    await connectDB()
+
+    const payments = await Payment.find({
+      userId: session.user.id,
+      status: { $in: ['completed', 'refunded'] }
+    })
+      .select('amount status metadata.planName completedAt createdAt refundedAmount')
+      .sort({ createdAt: -1 })
+      .limit(20)
+      .lean<Array<{
+        _id: string
+        amount: number
+        status: string
+        metadata?: { planName?: string }
+        completedAt?: Date
+        createdAt: Date
+        refundedAmount?: number
+      }>>()
+
+    const invoices = await Invoice.find({ paymentId: { $in: payments.map(p => p._id) } })
+      .select('paymentId invoiceNumber')
+      .lean<Array<{ paymentId: string; invoiceNumber: string }>>()
+    const invoiceNumbers = new Map(invoices.map(invoice => [String(invoice.paymentId), invoice.invoiceNumber]))
+
+    return NextResponse.json({
+      payments: payments.map(payment => ({
+        id: payment._id,
+        planName: payment.metadata?.planName,
+        amount: payment.amount,
+        status: payment.status,
+        refundedAmount: payment.refundedAmount || 0,
+        paidAt: payment.completedAt || payment.createdAt,
+        invoiceNumber: invoiceNumbers.get(String(payment._id)) || null
+      }))
+    }, { status: 200 })
+
+  } catch (error) {
+    console.error('Payment history error:', error)
+    return NextResponse.json({ message: 'Failed to fetch payments' }, { status: 500 })
+  }
+}
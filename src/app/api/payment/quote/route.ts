@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import connectDB from '@/lib/mongodb'
+import { isPlanId } from '@/lib/plans'
+import { quoteOrder } from '@/lib/pricing-service'
+
+// Price preview for the checkout page; create-order recomputes the same quote
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { planId, promoCode, referralCode } = await request.json()
+
+    if (!isPlanId(planId)) {
+      return NextResponse.json({ message: 'Invalid plan selected' }, { status: 400 })
+    }
+
+    if ((promoCode != null && typeof promoCode !== 'string') || (referralCode != null && typeof referralCode !== 'string')) {
+      return NextResponse.json({ message: 'Invalid promo or referral code' }, { status: 400 })
+    }
+
+    await connectDB()
+
+    const quote = await quoteOrder(session.user.id, planId, { promoCode, referralCode })
+    if (!quote.success) {
+      return NextResponse.json({ message: quote.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ pricing: quote.pricing }, { status: 200 })
+
+  } catch (error) {
+    console.error('Price quote error:', error)
+    return NextResponse.json({ message: 'Failed to calculate price' }, { status: 500 })
+  }
+}
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import connectDB from '@/lib/mongodb'
 import Payment from '@/models/Payment'
-import User from '@/models/User'
+import { completePayment } from '@/lib/payment-service'
 import crypto from 'crypto'
 
 export async function POST(request: NextRequest) {
@@ -40,49 +40,22 @@ export async function POST(request: NextRequest) {
 
     if (generatedSignature !== signature) {
       // Update payment status to failed
-      payment.status = 'failed'
-      await payment.save()
+      if (payment.status === 'pending') {
+        payment.status = 'failed'
+        await payment.save()
+      }
       
       return NextResponse.json({ message: 'Invalid payment signature' }, { status: 400 })
     }
 
-    // Payment verified successfully
-    payment.razorpayPaymentId = paymentId
-    payment.razorpaySignature = signature
-    payment.status = 'completed'
-    await payment.save()
-
-    // Update user subscription status
-    const user = await User.findById(session.user.id)
-    if (user) {
-      const expiryDate = new Date()
-      expiryDate.setFullYear(expiryDate.getFullYear() + 1) // 1 year validity
-
-      user.subscription = {
-        status: 'active',
-        paymentId: paymentId,
-        expiresAt: expiryDate,
-        additionalPeople: payment.additionalPeople
-      }
-
-      await user.save()
-    }
-
-    // Handle referral rewards if applicable
-    if (payment.metadata?.referralCode) {
-      try {
-        const referrer = await User.findOne({ 'referrals.code': payment.metadata.referralCode })
-        if (referrer) {
-          // Add referral earnings (10% of payment amount)
-          const earningsAmount = Math.floor(payment.amount * 0.1)
-          referrer.referrals.earnings += earningsAmount
-          referrer.referrals.referred.push(session.user.id)
-          await referrer.save()
-        }
-      } catch (error) {
-        console.error('Referral processing error:', error)
-        // Don't fail the payment for referral issues
-      }
+    // Payment verified successfully. The webhook may already have completed
+    // it, in which case this is a no-op.
+    const completed = await completePayment(orderId, paymentId, signature)
+    if (completed?.status === 'refunded') {
+      return NextResponse.json({
+        message: 'Your subscription changed before this upgrade could be applied, so the payment has been refunded',
+        paymentId
+      }, { status: 409 })
     }
 
     return NextResponse.json({
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/mongodb'
+import Payment from '@/models/Payment'
+import { completePayment, failPayment, recordRefund } from '@/lib/payment-service'
+import { recordPaymentMethod } from '@/lib/referral-service'
+import {
+  RazorpayWebhookEvent,
+  getWebhookEventId,
+  getPaymentMethodFingerprint,
+  getWebhookReferences,
+  isHandledWebhookEvent,
+  paiseToRupees,
+  verifyWebhookSignature
+} from '@/lib/razorpay-webhook'
+
+// Razorpay server-to-server notifications. Activates subscriptions even when
+// the browser never reaches /api/payment/verify.
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.RAZORPAY_WEBHOOK_SECRET
+    if (!secret) {
+      console.error('RAZORPAY_WEBHOOK_SECRET is not configured')
+      return NextResponse.json({ message: 'Webhook not configured' }, { status: 500 })
+    }
+
+    const rawBody = await request.text()
+    const signature = request.headers.get('x-razorpay-signature')
+
+    if (!verifyWebhookSignature(rawBody, signature, secret)) {
+      return NextResponse.json({ message: 'Invalid webhook signature' }, { status: 400 })
+    }
+
+    let event: RazorpayWebhookEvent
+    try {
+      event = JSON.parse(rawBody)
+    } catch {
+      return NextResponse.json({ message: 'Invalid webhook payload' }, { status: 400 })
+    }
+
+    // Acknowledge events we don't subscribe to so Razorpay doesn't retry them
+    if (!isHandledWebhookEvent(event.event)) {
+      return NextResponse.json({ received: true, ignored: true }, { status: 200 })
+    }
+
+    await connectDB()
+
+    const eventId = getWebhookEventId(event, request.headers.get('x-razorpay-event-id'))
+    const { orderId, paymentId } = getWebhookReferences(event)
+
+    const payment = orderId
+      ? await Payment.findOne({ razorpayOrderId: orderId })
+      : await Payment.findOne({ razorpayPaymentId: paymentId })
+
+    if (!payment) {
+      // Orders created outside this app share the account's webhook
+      return NextResponse.json({ received: true, ignored: true }, { status: 200 })
+    }
+
+    // Claim the event. If it's already recorded this is a retried delivery.
+    const claimed = await Payment.updateOne(
+      { _id: payment._id, 'webhookEvents.eventId': { $ne: eventId } },
+      {
+        $push: {
+          webhookEvents: {
+            eventId,
+            event: event.event,
+            data: event.payload,
+            timestamp: new Date()
+          }
+        }
+      }
+    )
+
+    if (claimed.modifiedCount === 0) {
+      return NextResponse.json({ received: true, duplicate: true }, { status: 200 })
+    }
+
+    try {
+      switch (event.event) {
+        case 'payment.captured':
+        case 'order.paid': {
+          const entity = event.payload.payment?.entity
+          if (!entity) break
+
+          // Never activate a subscription for less than the order was created for
+          if (entity.amount !== Math.round(payment.amount * 100)) {
+            console.error(`Webhook amount mismatch for order ${payment.razorpayOrderId}: ${entity.amount} paise`)
+            break
+          }
+
+          // Stored first so the referral fraud check at completion can use it
+          await recordPaymentMethod(payment._id, entity.method, getPaymentMethodFingerprint(entity))
+          await completePayment(payment.razorpayOrderId, entity.id)
+          break
+        }
+
+        case 'payment.failed':
+          await failPayment(payment.razorpayOrderId)
+          break
+
+        case 'refund.processed': {
+          const refund = event.payload.refund?.entity
+          if (!refund) break
+
+          await recordRefund(refund.payment_id, refund.id, paiseToRupees(refund.amount), { status: refund.status })
+          break
+        }
+      }
+    } catch (error) {
+      // Release the claim so Razorpay's retry is processed again
+      await Payment.updateOne(
+        { _id: payment._id },
+        { $pull: { webhookEvents: { eventId } } }
+      )
+      throw error
+    }
+
+    return NextResponse.json({ received: true }, { status: 200 })
+
+  } catch (error) {
+    console.error('Payment webhook error:', error)
+    return NextResponse.json({ message: 'Webhook processing failed' }, { status: 500 })
+  }
+}
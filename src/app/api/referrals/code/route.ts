@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import { auth } from '@/lib/auth'
+import connectMongoDB from '@/lib/mongodb'
+import User from '@/models/User'
+import { claimVanityCode } from '@/lib/referral-code-service'
+
+// Replace the generated referral code with one the user picks (once)
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { code } = await request.json()
+
+    if (typeof code !== 'string' || !code.trim()) {
+      return NextResponse.json(
+        { success: false, message: 'Code is required' },
+        { status: 400 }
+      )
+    }
+
+    await connectMongoDB()
+
+    const user = await User.findOne({ email: session.user.email })
+      .select('_id')
+      .lean<{ _id: mongoose.Types.ObjectId }>()
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = await claimVanityCode(user._id, code)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: result.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      code: result.code
+    })
+
+  } catch (error) {
+    console.error('Claim referral code error:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to update referral code' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,12 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
 import { auth } from '@/lib/auth'
 import connectMongoDB from '@/lib/mongodb'
 import User from '@/models/User'
+import ReferralTransaction from '@/models/ReferralTransaction'
+import { ReferralLedgerEntry, summarizeLedger } from '@/lib/referral-ledger'
+import { recordAttribution, rememberDevice } from '@/lib/referral-service'
+import { getDeviceId } from '@/lib/device'
+import { normalizeCode } from '@/lib/pricing'
+import { findUserByReferralCode } from '@/lib/referral-code-service'
+
+type LedgerRow = ReferralLedgerEntry & {
+  referredUserId?: mongoose.Types.ObjectId
+  createdAt: Date
+}
+
+interface ReferredUser {
+  _id: mongoose.Types.ObjectId
+  profile?: { name?: string }
+  createdAt: Date
+  subscription?: { status?: string }
+}
 
 export async function GET(request: NextRequest) {
   try {
     const session = await auth()
-    
+
     if (!session?.user?.email) {
       return NextResponse.json(
         { success: false, message: 'Unauthorized' },
@@ -16,10 +35,9 @@ export async function GET(request: NextRequest) {
 
     await connectMongoDB()
 
-    // Find user with referral data
     const user = await User.findOne({ email: session.user.email })
-      .select('referrals')
-      .lean() as any
+      .select('referrals.code referrals.vanityClaimedAt')
+      .lean<{ _id: mongoose.Types.ObjectId; referrals?: { code?: string; vanityClaimedAt?: Date } }>()
 
     if (!user) {
       return NextResponse.json(
@@ -28,38 +46,61 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Get referred users for detailed stats
-    const referredUsers = await User.find({
-      'referrals.referredBy': user.referrals?.code
+    await rememberDevice(user._id, getDeviceId(request))
+
+    // Everything below is derived from the referral ledger
+    const transactions = await ReferralTransaction.find({ referrerId: user._id })
+      .select('type status amount availableAt referredUserId createdAt')
+      .sort({ createdAt: -1 })
+      .lean<LedgerRow[]>()
+
+    const summary = summarizeLedger(transactions)
+
+    // Referred users in order of latest activity, leaving out blocked referrals
+    const byReferredUser = new Map<string, { earnings: number; qualified: boolean; firstSeen: Date }>()
+    for (const transaction of transactions) {
+      if (!transaction.referredUserId || transaction.status !== 'posted') continue
+
+      const key = transaction.referredUserId.toString()
+      const entry = byReferredUser.get(key) || { earnings: 0, qualified: false, firstSeen: transaction.createdAt }
+      if (transaction.type === 'commission' || transaction.type === 'reversal') {
+        entry.earnings += transaction.amount
+      }
+      if (transaction.type === 'commission') {
+        entry.qualified = true
+      }
+      entry.firstSeen = transaction.createdAt
+      byReferredUser.set(key, entry)
+    }
+
+    const referredIds = Array.from(byReferredUser.keys())
+    const referredUsers = await User.find({ _id: { $in: referredIds } })
+      .select('profile.name createdAt subscription.status')
+      .lean<ReferredUser[]>()
+    const usersById = new Map(referredUsers.map(referred => [referred._id.toString(), referred]))
+
+    const recentReferrals = referredIds.slice(0, 10).map(id => {
+      const entry = byReferredUser.get(id)!
+      const referred = usersById.get(id)
+      return {
+        name: referred?.profile?.name || 'New User',
+        joinedAt: referred?.createdAt || entry.firstSeen,
+        earnings: Math.round(entry.earnings * 100) / 100,
+        status: entry.qualified ? 'active' : 'pending'
+      }
     })
-    .select('name email createdAt subscription')
-    .sort({ createdAt: -1 })
-    .limit(10)
-    .lean() as any[]
-
-    // Calculate referral stats
-    const totalReferred = user.referrals?.referred?.length || 0
-    const activeReferrals = referredUsers.filter(u => u.subscription?.status === 'active').length
-    const totalEarnings = user.referrals?.earnings || 0
-    
-    // Calculate pending earnings (referrals who haven't activated subscription yet)
-    const pendingReferrals = referredUsers.filter(u => !u.subscription?.status || u.subscription.status !== 'active').length
-    const pendingEarnings = pendingReferrals * 20 // ₹20 per referral
-
-    // Format recent referrals
-    const recentReferrals = referredUsers.map(referredUser => ({
-      name: referredUser.name || 'New User',
-      joinedAt: referredUser.createdAt,
-      earnings: referredUser.subscription?.status === 'active' ? 20 : 0,
-      status: referredUser.subscription?.status === 'active' ? 'active' : 'pending'
-    }))
 
     const referralData = {
       code: user.referrals?.code || '',
-      totalReferred,
-      activeReferrals,
-      totalEarnings,
-      pendingEarnings,
+      canCustomizeCode: !user.referrals?.vanityClaimedAt,
+      totalReferred: referredIds.length,
+      activeReferrals: referredIds.filter(id =>
+        byReferredUser.get(id)?.qualified && usersById.get(id)?.subscription?.status === 'active'
+      ).length,
+      totalEarnings: summary.totalEarnings,
+      pendingEarnings: summary.pendingEarnings,
+      availableBalance: summary.availableBalance,
+      paidOut: summary.paidOut,
       recentReferrals
     }
 
@@ -80,7 +121,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const session = await auth()
-    
+
     if (!session?.user?.email) {
       return NextResponse.json(
         { success: false, message: 'Unauthorized' },
@@ -99,10 +140,10 @@ export async function POST(request: NextRequest) {
 
     await connectMongoDB()
 
+    const code = normalizeCode(referralCode)
+
     // Find the referring user
-    const referringUser = await User.findOne({ 
-      'referrals.code': referralCode.trim().toUpperCase()
-    })
+    const referringUser = await findUserByReferralCode(code)
 
     if (!referringUser) {
       return NextResponse.json(
@@ -112,7 +153,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Find current user
-    const currentUser = await User.findOne({ email: session.user.email })
+    const currentUser = await User.findOne({ email: session.user.email }).select('_id')
 
     if (!currentUser) {
       return NextResponse.json(
@@ -121,14 +162,6 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Check if user already used a referral code
-    if (currentUser.referrals?.referredBy) {
-      return NextResponse.json(
-        { success: false, message: 'You have already used a referral code' },
-        { status: 400 }
-      )
-    }
-
     // Check if user is trying to refer themselves
     if (referringUser._id.equals(currentUser._id)) {
       return NextResponse.json(
@@ -137,32 +170,30 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Update current user with referral info
-    currentUser.referrals = {
-      ...currentUser.referrals,
-      referredBy: referralCode.trim().toUpperCase(),
-      referralUsedAt: new Date()
-    }
-    await currentUser.save()
+    const deviceId = getDeviceId(request)
+    await rememberDevice(currentUser._id, deviceId)
+
+    const attribution = await recordAttribution(referringUser._id, currentUser._id, code, deviceId)
 
-    // Update referring user's referral stats
-    if (!referringUser.referrals.referred) {
-      referringUser.referrals.referred = []
+    // Check if user already used a referral code
+    if (!attribution.recorded) {
+      return NextResponse.json(
+        { success: false, message: 'You have already used a referral code' },
+        { status: 400 }
+      )
     }
-    
-    referringUser.referrals.referred.push(currentUser._id.toString())
-    
-    // Add earnings when the referred user activates subscription
-    if (currentUser.subscription?.status === 'active') {
-      referringUser.referrals.earnings = (referringUser.referrals.earnings || 0) + 20
+
+    if (attribution.fraudFlags.length > 0) {
+      return NextResponse.json(
+        { success: false, message: 'This referral code cannot be applied to your account' },
+        { status: 400 }
+      )
     }
-    
-    await referringUser.save()
 
+    // Commission is credited to the referrer when this user pays
     return NextResponse.json({
       success: true,
-      message: 'Referral code applied successfully',
-      referralBonus: currentUser.subscription?.status === 'active' ? 20 : 0
+      message: 'Referral code applied successfully'
     })
 
   } catch (error) {
@@ -172,4 +203,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import { auth } from '@/lib/auth'
+import connectMongoDB from '@/lib/mongodb'
+import User from '@/models/User'
+import ReferralPayout from '@/models/ReferralPayout'
+import { MIN_PAYOUT_AMOUNT } from '@/lib/referral-payouts'
+import { getReferralBalance } from '@/lib/referral-service'
+import { requestPayout } from '@/lib/referral-payout-service'
+
+async function findUser(email: string) {
+  return User.findOne({ email })
+    .select('referrals.payoutVpa')
+    .lean<{ _id: mongoose.Types.ObjectId; referrals?: { payoutVpa?: string } }>()
+}
+
+// Withdrawal balance, UPI ID and past withdrawals
+export async function GET() {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    await connectMongoDB()
+
+    const user = await findUser(session.user.email)
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const [balance, payouts] = await Promise.all([
+      getReferralBalance(user._id),
+      ReferralPayout.find({ userId: user._id })
+        .select('amount vpa status rejectionReason failureReason createdAt paidAt')
+        .sort({ createdAt: -1 })
+        .limit(20)
+        .lean()
+    ])
+
+    return NextResponse.json({
+      success: true,
+      vpa: user.referrals?.payoutVpa || null,
+      minimumAmount: MIN_PAYOUT_AMOUNT,
+      balance,
+      payouts
+    })
+
+  } catch (error) {
+    console.error('Get payouts error:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch withdrawals' },
+      { status: 500 }
+    )
+  }
+}
+
+// Request a withdrawal of referral earnings
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { amount } = await request.json()
+
+    await connectMongoDB()
+
+    const user = await findUser(session.user.email)
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = await requestPayout(user._id, Number(amount))
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: result.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Withdrawal requested. It will be reviewed within 2 working days.',
+      payout: result.payout
+    })
+
+  } catch (error) {
+    console.error('Request payout error:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to request withdrawal' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import connectMongoDB from '@/lib/mongodb'
+import User from '@/models/User'
+import { isValidVpa, normalizeVpa } from '@/lib/referral-payouts'
+
+// Save the UPI ID referral earnings are withdrawn to
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { vpa } = await request.json()
+
+    if (typeof vpa !== 'string' || !isValidVpa(vpa)) {
+      return NextResponse.json(
+        { success: false, message: 'Enter a valid UPI ID, like name@okhdfcbank' },
+        { status: 400 }
+      )
+    }
+
+    await connectMongoDB()
+
+    const result = await User.updateOne(
+      { email: session.user.email },
+      { $set: { 'referrals.payoutVpa': normalizeVpa(vpa) } }
+    )
+
+    if (result.matchedCount === 0) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      vpa: normalizeVpa(vpa)
+    })
+
+  } catch (error) {
+    console.error('Save UPI ID error:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to save UPI ID' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import connectDB from '@/lib/mongodb'
+import User from '@/models/User'
+import { getRenewalExpiry, getRenewalStatus } from '@/lib/subscription-lifecycle'
+
+// Current subscription with renewal details for the dashboard and checkout
+export async function GET() {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    await connectDB()
+
+    const user = await User.findById(session.user.id).select('subscription').lean<{
+      subscription?: { status?: string; plan?: string; expiresAt?: Date; additionalPeople?: number }
+    }>()
+
+    const subscription = user?.subscription
+    if (!subscription?.expiresAt || !subscription.status || subscription.status === 'inactive') {
+      return NextResponse.json({ subscription: null }, { status: 200 })
+    }
+
+    const renewal = getRenewalStatus(subscription.expiresAt)
+    // Once the renewal job has expired it, renewing starts a new term today
+    const lapsed = subscription.status === 'expired'
+
+    return NextResponse.json({
+      subscription: {
+        status: subscription.status,
+        plan: subscription.plan || null,
+        additionalPeople: subscription.additionalPeople || 0,
+        expiresAt: subscription.expiresAt,
+        phase: lapsed ? 'expired' : renewal.phase,
+        daysLeft: renewal.daysLeft,
+        graceEndsAt: renewal.graceEndsAt,
+        renewalExpiresAt: lapsed ? getRenewalExpiry(null) : renewal.renewalExpiresAt
+      }
+    }, { status: 200 })
+
+  } catch (error) {
+    console.error('Subscription fetch error:', error)
+    return NextResponse.json({ message: 'Failed to load subscription' }, { status: 500 })
+  }
+}
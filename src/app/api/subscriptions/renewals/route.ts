@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectToDatabase from '@/lib/mongodb'
+import { runRenewalJob } from '@/lib/subscription-service'
+import { releaseStalePromoReservations } from '@/lib/pricing-service'
+
+// Cron job for renewal reminders, grace periods and expiring subscriptions
+export async function GET(request: NextRequest) {
+  try {
+    // Verify this is a Vercel cron request
+    const authHeader = request.headers.get('authorization')
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    const result = await runRenewalJob()
+    console.log(
+      `Renewal job: ${result.remindersQueued} reminders queued, ` +
+      `${result.graceStarted} in grace period, ${result.expired} expired`
+    )
+
+    // Unpaid orders stop holding promo code redemptions
+    const promoReservationsReleased = await releaseStalePromoReservations()
+    console.log(`Released ${promoReservationsReleased} promo code reservations from unpaid orders`)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Renewal job completed successfully',
+      ...result,
+      promoReservationsReleased,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Renewal job failed:', error)
+    return NextResponse.json(
+      { error: 'Renewal job failed', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
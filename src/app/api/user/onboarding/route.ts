@@ -2,7 +2,11 @@ import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import connectDB from '@/lib/mongodb'
 import User from '@/models/User'
-import { generateReferralCode } from '@/lib/utils'
+import { assignReferralCode } from '@/lib/referral-code-service'
+import { calculateBodyFat, validateMeasurements, MeasurementData } from '@/lib/body-fat-calculator'
+import { isUnitSystem, toMetricMeasurements } from '@/lib/units'
+import { isLanguageCode } from '@/lib/languages'
+import { recordMeasurementEntry } from '@/lib/measurement-history'
 
 export async function POST(request: NextRequest) {
   try {
@@ -18,11 +22,8 @@ export async function POST(request: NextRequest) {
       age,
       gender,
       phone,
-      height,
-      weight,
-      waist,
-      neck,
-      hip,
+      unitSystem = 'metric',
+      language,
       activityLevel,
       dietaryHabits,
       sleepHours,
@@ -33,10 +34,20 @@ export async function POST(request: NextRequest) {
       alcohol,
       primaryObjective,
       dietaryRestrictions,
-      exercisePreferences,
-      targetWeight
+      exercisePreferences
     } = body
 
+    if (!isUnitSystem(unitSystem)) {
+      return NextResponse.json({ message: 'Unit system must be metric or imperial' }, { status: 400 })
+    }
+
+    if (language !== undefined && !isLanguageCode(language)) {
+      return NextResponse.json({ message: 'Unsupported language' }, { status: 400 })
+    }
+
+    // Measurements arrive in the user's chosen units and are stored in metric
+    const { height, weight, waist, neck, hip, targetWeight } = toMetricMeasurements(body, unitSystem)
+
     // Validate required fields
     if (!name || !age || !gender || !height || !weight || !waist || !neck) {
       return NextResponse.json({ message: 'Missing required fields' }, { status: 400 })
@@ -47,6 +58,12 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ message: 'Hip measurement is required for females' }, { status: 400 })
     }
 
+    const measurementData: MeasurementData = { age, gender, height, weight, waist, neck, ...(hip && { hip }) }
+    const validationErrors = validateMeasurements(measurementData, unitSystem)
+    if (validationErrors.length > 0) {
+      return NextResponse.json({ message: validationErrors[0], errors: validationErrors }, { status: 400 })
+    }
+
     await connectDB()
 
     // Find user and update their profile
@@ -61,7 +78,9 @@ export async function POST(request: NextRequest) {
       age,
       gender,
       phone,
-      avatar: user.profile?.avatar || null
+      avatar: user.profile?.avatar || null,
+      unitSystem,
+      language: language || user.profile?.language || 'en'
     }
 
     user.measurements = {
@@ -96,16 +115,20 @@ export async function POST(request: NextRequest) {
       ...(targetWeight && { targetWeight })
     }
 
+    await user.save()
+
     // Generate referral code if not exists
     if (!user.referrals?.code) {
-      user.referrals = {
-        code: generateReferralCode(name),
-        referred: [],
-        earnings: 0
-      }
+      await assignReferralCode(user._id, name)
     }
 
-    await user.save()
+    // Keep the onboarding reading as the first point in the user's history
+    try {
+      await recordMeasurementEntry(user._id, measurementData, calculateBodyFat(measurementData), 'onboarding')
+    } catch (error) {
+      console.error('Measurement history error:', error)
+      // Don't fail onboarding for history issues
+    }
 
     return NextResponse.json({ 
       message: 'Profile updated successfully',
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import connectMongoDB from '@/lib/mongodb'
-import User from '@/models/User'
+import User, { IUser } from '@/models/User'
+import { isLanguageCode } from '@/lib/languages'
+import { fromMetricMeasurements, isUnitSystem, toMetricMeasurements, UnitSystem } from '@/lib/units'
 
 export async function GET(request: NextRequest) {
   try {
@@ -27,45 +29,9 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Format the response
-    const userData = {
-      _id: user._id,
-      profile: {
-        name: user.profile?.name || user.name || 'User',
-        age: user.profile?.age || null,
-        gender: user.profile?.gender || null,
-        avatar: user.profile?.avatar || null
-      },
-      measurements: {
-        height: user.measurements?.height || null,
-        weight: user.measurements?.weight || null,
-        circumferences: {
-          waist: user.measurements?.circumferences?.waist || null,
-          neck: user.measurements?.circumferences?.neck || null,
-          hip: user.measurements?.circumferences?.hip || null
-        }
-      },
-      results: user.results || null,
-      subscription: {
-        status: user.subscription?.status || 'inactive',
-        plan: user.subscription?.plan || null,
-        additionalPeople: user.subscription?.additionalPeople || 0,
-        expiresAt: user.subscription?.expiresAt || null
-      },
-      referrals: {
-        code: user.referrals?.code || '',
-        referred: user.referrals?.referred || [],
-        earnings: user.referrals?.earnings || 0
-      },
-      lifestyle: user.lifestyle || null,
-      goals: user.goals || null,
-      createdAt: user.createdAt,
-      updatedAt: user.updatedAt
-    }
-
     return NextResponse.json({
       success: true,
-      user: userData
+      user: formatProfile(user)
     })
 
   } catch (error) {
@@ -99,29 +65,49 @@ export async function PUT(request: NextRequest) {
 
     // Update profile data
     if (profile) {
-      updateData['profile.name'] = profile.name
-      updateData['profile.age'] = profile.age
-      updateData['profile.gender'] = profile.gender
+      if (profile.name) updateData['profile.name'] = profile.name
+      if (profile.age) updateData['profile.age'] = profile.age
+      if (profile.gender) updateData['profile.gender'] = profile.gender
       if (profile.avatar) updateData['profile.avatar'] = profile.avatar
-    }
-
-    // Update measurements
-    if (measurements) {
-      if (measurements.height) updateData['measurements.height'] = measurements.height
-      if (measurements.weight) updateData['measurements.weight'] = measurements.weight
-      if (measurements.circumferences) {
-        if (measurements.circumferences.waist) {
-          updateData['measurements.circumferences.waist'] = measurements.circumferences.waist
+      if (profile.unitSystem) {
+        if (!isUnitSystem(profile.unitSystem)) {
+          return NextResponse.json(
+            { success: false, message: 'Unit system must be metric or imperial' },
+            { status: 400 }
+          )
         }
-        if (measurements.circumferences.neck) {
-          updateData['measurements.circumferences.neck'] = measurements.circumferences.neck
-        }
-        if (measurements.circumferences.hip) {
-          updateData['measurements.circumferences.hip'] = measurements.circumferences.hip
+        updateData['profile.unitSystem'] = profile.unitSystem
+      }
+      if (profile.language) {
+        if (!isLanguageCode(profile.language)) {
+          return NextResponse.json(
+            { success: false, message: 'Unsupported language' },
+            { status: 400 }
+          )
         }
+        updateData['profile.language'] = profile.language
       }
     }
 
+    // Measurements are sent in the user's units, like the profile returns them
+    if (measurements) {
+      const current = await User.findOne({ email: session.user.email }).select('profile.unitSystem').lean<{
+        profile?: { unitSystem?: UnitSystem }
+      }>()
+      const unitSystem: UnitSystem = profile?.unitSystem || current?.profile?.unitSystem || 'metric'
+      const metric = toMetricMeasurements({
+        height: measurements.height,
+        weight: measurements.weight,
+        ...measurements.circumferences
+      }, unitSystem)
+
+      if (metric.height) updateData['measurements.height'] = metric.height
+      if (metric.weight) updateData['measurements.weight'] = metric.weight
+      if (metric.waist) updateData['measurements.circumferences.waist'] = metric.waist
+      if (metric.neck) updateData['measurements.circumferences.neck'] = metric.neck
+      if (metric.hip) updateData['measurements.circumferences.hip'] = metric.hip
+    }
+
     // Update lifestyle data
     if (lifestyle) {
       updateData.lifestyle = lifestyle
@@ -136,7 +122,7 @@ export async function PUT(request: NextRequest) {
       { email: session.user.email },
       { $set: updateData },
       { new: true, runValidators: true }
-    ).select('-password')
+    ).select('-password').lean<IUser>()
 
     if (!updatedUser) {
       return NextResponse.json(
@@ -148,7 +134,7 @@ export async function PUT(request: NextRequest) {
     return NextResponse.json({
       success: true,
       message: 'Profile updated successfully',
-      user: updatedUser
+      user: formatProfile(updatedUser)
     })
 
   } catch (error) {
@@ -158,4 +144,53 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+// Measurements are stored in metric and returned in the user's units. Older accounts may only have a top-level name
+function formatProfile(user: IUser & { name?: string }) {
+  const unitSystem: UnitSystem = user.profile?.unitSystem || 'metric'
+  const display = fromMetricMeasurements({
+    height: user.measurements?.height,
+    weight: user.measurements?.weight,
+    ...user.measurements?.circumferences
+  }, unitSystem)
+
+  return {
+    _id: user._id,
+    profile: {
+      name: user.profile?.name || user.name || 'User',
+      age: user.profile?.age || null,
+      gender: user.profile?.gender || null,
+      avatar: user.profile?.avatar || null,
+      unitSystem,
+      language: user.profile?.language || 'en'
+    },
+    measurements: {
+      height: display.height || null,
+      weight: display.weight || null,
+      lengthUnit: display.lengthUnit,
+      weightUnit: display.weightUnit,
+      circumferences: {
+        waist: display.waist || null,
+        neck: display.neck || null,
+        hip: display.hip || null
+      }
+    },
+    results: user.results || null,
+    subscription: {
+      status: user.subscription?.status || 'inactive',
+      plan: user.subscription?.plan || null,
+      additionalPeople: user.subscription?.additionalPeople || 0,
+      expiresAt: user.subscription?.expiresAt || null
+    },
+    referrals: {
+      code: user.referrals?.code || '',
+      referred: user.referrals?.referred || [],
+      earnings: user.referrals?.earnings || 0
+    },
+    lifestyle: user.lifestyle || null,
+    goals: user.goals || null,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt
+  }
+}
@@ -2,7 +2,7 @@
 
 import { useState } from 'react'
 import { signIn } from 'next-auth/react'
-import { useRouter } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { motion } from 'framer-motion'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -26,6 +26,8 @@ export default function SignUpPage() {
     feedback: string[]
   }>({ score: 0, feedback: [] })
   const router = useRouter()
+  const searchParams = useSearchParams()
+  const referralCode = searchParams.get('ref')
 
   const validatePassword = (password: string) => {
     const feedback: string[] = []
@@ -87,6 +89,7 @@ export default function SignUpPage() {
         email: formData.email,
         password: formData.password,
         action: 'signup',
+        ...(referralCode && { referralCode }),
         redirect: false
       })
 
@@ -179,6 +182,12 @@ export default function SignUpPage() {
                 </motion.div>
               )}
 
+              {referralCode && (
+                <div className="bg-emerald-50 border border-emerald-200 rounded-xl p-4 text-emerald-700 text-sm">
+                  You&apos;re joining with referral code <span className="font-mono font-semibold">{referralCode.toUpperCase()}</span>
+                </div>
+              )}
+
               <div className="space-y-4">
                 <div>
                   <label htmlFor="name" className="block text-sm font-medium text-slate-700 mb-2">
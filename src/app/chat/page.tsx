@@ -6,6 +6,10 @@ import { useRouter } from 'next/navigation'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
+import UpgradePrompt, { UpgradeDetails } from '@/components/subscription/UpgradePrompt'
+import ChatSessionSidebar from '@/components/chat/ChatSessionSidebar'
+import { parseServerSentEvents } from '@/lib/sse'
+import { LANGUAGE_CODES, LANGUAGE_NAMES, LanguageCode } from '@/lib/languages'
 import { 
   Send, 
   Brain, 
@@ -19,7 +23,8 @@ import {
   Share,
   RefreshCw,
   User,
-  Bot
+  Bot,
+  MessageSquare
 } from 'lucide-react'
 
 interface ChatMessage {
@@ -34,6 +39,7 @@ interface UserProfile {
   name: string
   age: number
   gender: 'male' | 'female'
+  language: LanguageCode
   healthMetrics?: {
     bodyFatPercentage?: number
     bmi?: number
@@ -50,8 +56,12 @@ export default function ChatPage() {
   const [isTyping, setIsTyping] = useState(false)
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null)
   const [sessionId, setSessionId] = useState<string | null>(null)
+  const [upgradePrompt, setUpgradePrompt] = useState<{ message: string; upgrade: UpgradeDetails } | null>(null)
+  const [showSessions, setShowSessions] = useState(false)
+  const [sessionsRefreshKey, setSessionsRefreshKey] = useState(0)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLTextAreaElement>(null)
+  const streamAbortRef = useRef<AbortController | null>(null)
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -65,6 +75,11 @@ export default function ChatPage() {
     scrollToBottom()
   }, [messages])
 
+  // Stop reading a reply if the user leaves the page mid-stream
+  useEffect(() => {
+    return () => streamAbortRef.current?.abort()
+  }, [])
+
   const initializeChat = async () => {
     try {
       // Fetch user profile
@@ -75,6 +90,7 @@ export default function ChatPage() {
           name: profileData.user.profile.name,
           age: profileData.user.profile.age,
           gender: profileData.user.profile.gender,
+          language: profileData.user.profile.language || 'en',
           healthMetrics: profileData.user.results ? {
             bodyFatPercentage: profileData.user.results.bodyFatPercentage,
             bmi: profileData.user.results.bmi,
@@ -83,6 +99,17 @@ export default function ChatPage() {
         })
       }
 
+      await startNewChat()
+    } catch (error) {
+      console.error('Failed to initialize chat:', error)
+    }
+  }
+
+  const startNewChat = async () => {
+    streamAbortRef.current?.abort()
+    setUpgradePrompt(null)
+
+    try {
       // Create new chat session
       const sessionResponse = await fetch('/api/chat/create-session', {
         method: 'POST'
@@ -107,9 +134,42 @@ How can I help you on your health journey today? 💪✨`,
           timestamp: new Date()
         }
         setMessages([welcomeMessage])
+        setShowSessions(false)
       }
     } catch (error) {
-      console.error('Failed to initialize chat:', error)
+      console.error('Failed to start chat:', error)
+    }
+  }
+
+  const openSession = async (id: string) => {
+    if (id === sessionId) {
+      setShowSessions(false)
+      return
+    }
+    streamAbortRef.current?.abort()
+
+    try {
+      const response = await fetch(`/api/chat/message?sessionId=${id}`)
+      if (response.ok) {
+        const data = await response.json()
+        setSessionId(id)
+        setUpgradePrompt(null)
+        setMessages(data.messages.map((msg: { role: 'user' | 'assistant'; content: string; timestamp: string }, i: number) => ({
+          id: `${msg.role}-${id}-${i}`,
+          role: msg.role,
+          content: msg.content,
+          timestamp: new Date(msg.timestamp)
+        })))
+        setShowSessions(false)
+      }
+    } catch (error) {
+      console.error('Failed to open chat:', error)
+    }
+  }
+
+  const handleSessionDeleted = (id: string) => {
+    if (id === sessionId) {
+      startNewChat()
     }
   }
 
@@ -142,8 +202,31 @@ How can I help you on your health journey today? 💪✨`,
     }
     setMessages(prev => [...prev, typingMessage])
 
+    const errorMessage = 'I apologize, but I encountered an issue processing your request. Please try again in a moment.'
+    const replyId = 'ai-' + Date.now()
+    const abort = new AbortController()
+    streamAbortRef.current = abort
+
+    // Replace the typing indicator with the reply on the first token, then
+    // keep updating it as more text arrives
+    const showReply = (content: string) => {
+      setMessages(prev => {
+        const filteredMessages = prev.filter(msg => !msg.typing)
+        const existing = filteredMessages.find(msg => msg.id === replyId)
+        if (existing) {
+          return filteredMessages.map(msg => msg.id === replyId ? { ...msg, content } : msg)
+        }
+        return [...filteredMessages, {
+          id: replyId,
+          role: 'assistant',
+          content,
+          timestamp: new Date()
+        }]
+      })
+    }
+
     try {
-      const response = await fetch('/api/chat/message', {
+      const response = await fetch('/api/chat/stream', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
@@ -151,48 +234,61 @@ How can I help you on your health journey today? 💪✨`,
         body: JSON.stringify({
           message: userMessage.content,
           sessionId
-        })
+        }),
+        signal: abort.signal
       })
 
-      if (response.ok) {
+      if (response.ok && response.body) {
+        const reader = response.body.getReader()
+        const decoder = new TextDecoder()
+        let buffer = ''
+        let reply = ''
+
+        while (true) {
+          const { done, value } = await reader.read()
+          if (done) break
+
+          const parsed = parseServerSentEvents(buffer + decoder.decode(value, { stream: true }))
+          buffer = parsed.rest
+
+          for (const event of parsed.events) {
+            const data = JSON.parse(event.data)
+            if (event.event === 'token') {
+              reply += data.text
+              setIsTyping(false)
+              showReply(reply)
+            } else if (event.event === 'done') {
+              reply = data.response
+              showReply(reply)
+            } else if (event.event === 'error' && !reply) {
+              reply = errorMessage
+              showReply(reply)
+            }
+          }
+        }
+
+        if (!reply) {
+          showReply(errorMessage)
+        }
+      } else if (response.status === 402) {
+        // Daily message allowance used up or subscription lapsed
         const data = await response.json()
-        
-        // Remove typing indicator and add AI response
-        setMessages(prev => {
-          const filteredMessages = prev.filter(msg => !msg.typing)
-          return [...filteredMessages, {
-            id: 'ai-' + Date.now(),
-            role: 'assistant',
-            content: data.response,
-            timestamp: new Date()
-          }]
-        })
+        setMessages(prev => prev.filter(msg => !msg.typing))
+        setUpgradePrompt({ message: data.message, upgrade: data.upgrade })
       } else {
         // Handle error
-        setMessages(prev => {
-          const filteredMessages = prev.filter(msg => !msg.typing)
-          return [...filteredMessages, {
-            id: 'error-' + Date.now(),
-            role: 'assistant',
-            content: 'I apologize, but I encountered an issue processing your request. Please try again in a moment.',
-            timestamp: new Date()
-          }]
-        })
+        showReply(errorMessage)
       }
     } catch (error) {
+      if (abort.signal.aborted) return
       console.error('Failed to send message:', error)
-      setMessages(prev => {
-        const filteredMessages = prev.filter(msg => !msg.typing)
-        return [...filteredMessages, {
-          id: 'error-' + Date.now(),
-          role: 'assistant',
-          content: 'I apologize, but I encountered an issue processing your request. Please try again in a moment.',
-          timestamp: new Date()
-        }]
-      })
+      showReply(errorMessage)
     } finally {
+      streamAbortRef.current = null
       setIsLoading(false)
       setIsTyping(false)
+      // Picks up the chat's new title and moves it to the top of the list
+      setSessionsRefreshKey(key => key + 1)
     }
   }
 
@@ -226,6 +322,26 @@ How can I help you on your health journey today? 💪✨`,
     return null
   }
 
+  // Arogya replies in the language each message is written in; this is the
+  // fallback for messages it can't tell, and the language for plans
+  const changeLanguage = async (language: LanguageCode) => {
+    if (!userProfile) return
+    const previous = userProfile.language
+    setUserProfile({ ...userProfile, language })
+
+    try {
+      const response = await fetch('/api/user/profile', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ profile: { language } })
+      })
+      if (!response.ok) throw new Error('Failed to update language')
+    } catch (error) {
+      console.error('Error updating language:', error)
+      setUserProfile({ ...userProfile, language: previous })
+    }
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-emerald-50 via-white to-teal-50">
       {/* Header */}
@@ -239,6 +355,14 @@ How can I help you on your health journey today? 💪✨`,
             >
               <ArrowLeft className="w-4 h-4" />
             </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowSessions(!showSessions)}
+              aria-label="Your chats"
+            >
+              <MessageSquare className="w-4 h-4" />
+            </Button>
             <div className="w-10 h-10 bg-gradient-to-r from-purple-500 to-pink-500 rounded-xl flex items-center justify-center">
               <Brain className="w-5 h-5 text-white" />
             </div>
@@ -252,6 +376,18 @@ How can I help you on your health journey today? 💪✨`,
           </div>
           
           <div className="flex items-center space-x-2">
+            {userProfile && (
+              <select
+                value={userProfile.language}
+                onChange={(e) => changeLanguage(e.target.value as LanguageCode)}
+                aria-label="Preferred language"
+                className="p-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                {LANGUAGE_CODES.map(code => (
+                  <option key={code} value={code}>{LANGUAGE_NAMES[code].native}</option>
+                ))}
+              </select>
+            )}
             <Button variant="ghost" size="sm">
               <Share className="w-4 h-4" />
             </Button>
@@ -262,6 +398,17 @@ How can I help you on your health journey today? 💪✨`,
         </div>
       </header>
 
+      {showSessions && (
+        <ChatSessionSidebar
+          activeSessionId={sessionId}
+          refreshKey={sessionsRefreshKey}
+          onSelect={openSession}
+          onNewChat={startNewChat}
+          onDeleted={handleSessionDeleted}
+          onClose={() => setShowSessions(false)}
+        />
+      )}
+
       {/* Chat Messages */}
       <div className="max-w-4xl mx-auto px-4 py-6 pb-24">
         <div className="space-y-6">
@@ -319,6 +466,13 @@ How can I help you on your health journey today? 💪✨`,
               </motion.div>
             ))}
           </AnimatePresence>
+          {upgradePrompt && (
+            <UpgradePrompt
+              message={upgradePrompt.message}
+              upgrade={upgradePrompt.upgrade}
+              onDismiss={() => setUpgradePrompt(null)}
+            />
+          )}
           <div ref={messagesEndRef} />
         </div>
       </div>
@@ -7,6 +7,10 @@ import { motion } from 'framer-motion'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Progress } from '@/components/ui/progress'
+import ProgressChart, { ProgressPoint } from '@/components/dashboard/ProgressChart'
+import GoalPlanPanel from '@/components/dashboard/GoalPlanPanel'
+import MeasurementForm from '@/components/dashboard/MeasurementForm'
+import { UnitSystem } from '@/lib/units'
 import { 
   Sparkles, 
   TrendingUp, 
@@ -35,10 +39,14 @@ interface UserData {
     age: number
     gender: 'male' | 'female'
     avatar?: string
+    unitSystem?: UnitSystem
   }
+  // In the user's units
   measurements: {
     height: number
     weight: number
+    lengthUnit: 'cm' | 'in'
+    weightUnit: 'kg' | 'lb'
     circumferences: {
       waist: number
       neck: number
@@ -53,7 +61,9 @@ interface UserData {
   }
   subscription: {
     status: string
+    plan: string | null
     additionalPeople: number
+    expiresAt: string | null
   }
   referrals: {
     code: string
@@ -62,6 +72,27 @@ interface UserData {
   }
 }
 
+// Returned by /api/subscription
+interface SubscriptionRenewal {
+  plan: string | null
+  phase: 'active' | 'grace' | 'expired'
+  daysLeft: number
+  graceEndsAt: string
+}
+
+// Start prompting for renewal this many days before expiry
+const RENEWAL_BANNER_DAYS = 30
+
+interface MeasurementHistoryEntry {
+  _id: string
+  measuredAt: string
+  weight: number
+  results: {
+    bodyFatPercentage: number
+    bmi: number
+  }
+}
+
 interface HealthMetrics {
   bodyFatPercentage: number
   bmi: number
@@ -79,12 +110,18 @@ export default function DashboardPage() {
   const [isLoading, setIsLoading] = useState(true)
   const [isCalculating, setIsCalculating] = useState(false)
   const [showWelcome, setShowWelcome] = useState(false)
+  const [progressPoints, setProgressPoints] = useState<ProgressPoint[]>([])
+  const [progressUnits, setProgressUnits] = useState<UnitSystem>('metric')
+  const [renewal, setRenewal] = useState<SubscriptionRenewal | null>(null)
+  const [showMeasurementForm, setShowMeasurementForm] = useState(false)
 
   useEffect(() => {
     if (status === 'unauthenticated') {
       router.push('/auth/signin')
     } else if (status === 'authenticated') {
       fetchUserData()
+      fetchMeasurementHistory()
+      fetchRenewal()
       // Show welcome message for new users
       if (searchParams.get('welcome') === 'true') {
         setShowWelcome(true)
@@ -120,6 +157,37 @@ export default function DashboardPage() {
     }
   }
 
+  const fetchMeasurementHistory = async () => {
+    try {
+      const response = await fetch('/api/measurements?limit=30')
+      if (response.ok) {
+        const data = await response.json()
+        setProgressUnits(data.unitSystem)
+        setProgressPoints(
+          (data.entries as MeasurementHistoryEntry[]).map(entry => ({
+            measuredAt: entry.measuredAt,
+            weight: entry.weight,
+            bodyFatPercentage: entry.results.bodyFatPercentage
+          }))
+        )
+      }
+    } catch (error) {
+      console.error('Failed to fetch measurement history:', error)
+    }
+  }
+
+  const fetchRenewal = async () => {
+    try {
+      const response = await fetch('/api/subscription')
+      if (response.ok) {
+        const data = await response.json()
+        setRenewal(data.subscription)
+      }
+    } catch (error) {
+      console.error('Failed to fetch subscription:', error)
+    }
+  }
+
   const calculateBodyFat = async () => {
     if (!userData && !session) return
     
@@ -135,6 +203,7 @@ export default function DashboardPage() {
         
         // Refresh user data to get updated results
         fetchUserData()
+        fetchMeasurementHistory()
       }
     } catch (error) {
       console.error('Failed to calculate body fat:', error)
@@ -234,6 +303,31 @@ export default function DashboardPage() {
         </motion.div>
       )}
 
+      {/* Renewal Reminder */}
+      {renewal && (renewal.phase !== 'active' || renewal.daysLeft <= RENEWAL_BANNER_DAYS) && (
+        <div className="max-w-7xl mx-auto px-4 pt-4">
+          <Card className={renewal.phase === 'active' ? 'border-amber-200 bg-amber-50' : 'border-red-200 bg-red-50'}>
+            <CardContent className="p-4 flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <Calendar className={`w-5 h-5 ${renewal.phase === 'active' ? 'text-amber-600' : 'text-red-600'}`} />
+                <p className="text-sm text-slate-700">
+                  {renewal.phase === 'active' && (
+                    `Your subscription expires in ${renewal.daysLeft} day${renewal.daysLeft === 1 ? '' : 's'}. Renew now to keep your plan without a break.`
+                  )}
+                  {renewal.phase === 'grace' && (
+                    `Your subscription has expired. You still have access until ${new Date(renewal.graceEndsAt).toLocaleDateString('en-IN')}; renew to keep it.`
+                  )}
+                  {renewal.phase === 'expired' && 'Your subscription has expired. Renew to get your plan features back.'}
+                </p>
+              </div>
+              <Button size="sm" onClick={() => router.push(`/payment?plan=${renewal.plan || 'basic'}&renew=1`)}>
+                Renew
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       <div className="max-w-7xl mx-auto px-4 py-8">
         <div className="grid lg:grid-cols-3 gap-8">
           {/* Main Content */}
@@ -342,16 +436,60 @@ export default function DashboardPage() {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="text-center py-8">
-                  <BarChart3 className="w-16 h-16 text-slate-400 mx-auto mb-4" />
-                  <p className="text-slate-600 mb-4">
-                    Start tracking your progress by taking regular measurements
-                  </p>
-                  <Button variant="outline">
-                    <Activity className="w-4 h-4 mr-2" />
-                    Add New Measurement
-                  </Button>
-                </div>
+                {showMeasurementForm ? (
+                  <MeasurementForm
+                    current={{
+                      unitSystem: userData.profile.unitSystem || 'metric',
+                      lengthUnit: userData.measurements.lengthUnit,
+                      weightUnit: userData.measurements.weightUnit,
+                      height: userData.measurements.height,
+                      weight: userData.measurements.weight,
+                      ...userData.measurements.circumferences
+                    }}
+                    gender={userData.profile.gender}
+                    onSaved={() => {
+                      setShowMeasurementForm(false)
+                      fetchUserData()
+                      fetchMeasurementHistory()
+                    }}
+                    onCancel={() => setShowMeasurementForm(false)}
+                  />
+                ) : progressPoints.length > 1 ? (
+                  <>
+                    <ProgressChart points={progressPoints} unitSystem={progressUnits} />
+                    <Button variant="outline" size="sm" className="mt-4" onClick={() => setShowMeasurementForm(true)}>
+                      <Activity className="w-4 h-4 mr-2" />
+                      Add New Measurement
+                    </Button>
+                  </>
+                ) : (
+                  <div className="text-center py-8">
+                    <BarChart3 className="w-16 h-16 text-slate-400 mx-auto mb-4" />
+                    <p className="text-slate-600 mb-4">
+                      Start tracking your progress by taking regular measurements
+                    </p>
+                    <Button variant="outline" onClick={() => setShowMeasurementForm(true)}>
+                      <Activity className="w-4 h-4 mr-2" />
+                      Add New Measurement
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Goal Plan */}
+            <Card className="shadow-xl">
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Target className="w-5 h-5 mr-2 text-teal-600" />
+                  Goal Plan
+                </CardTitle>
+                <CardDescription>
+                  Your week-by-week path to your target weight
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <GoalPlanPanel />
               </CardContent>
             </Card>
           </div>
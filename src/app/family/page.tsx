@@ -7,6 +7,10 @@ import { motion, AnimatePresence } from 'framer-motion'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
+import { getHealthStatus, HealthStatus } from '@/lib/body-fat-classification'
+import UpgradePrompt, { UpgradeDetails } from '@/components/subscription/UpgradePrompt'
+import ProgressChart, { ProgressPoint } from '@/components/dashboard/ProgressChart'
+import { UnitSystem } from '@/lib/units'
 import { 
   Users, 
   Plus, 
@@ -22,7 +26,8 @@ import {
   Eye,
   Crown,
   Baby,
-  UserCheck
+  UserCheck,
+  RefreshCw
 } from 'lucide-react'
 
 interface FamilyMember {
@@ -38,11 +43,27 @@ interface FamilyMember {
     bmi?: number
     lastUpdated?: Date
   }
+  results?: {
+    category?: string
+    healthStatus?: string
+    assessment?: 'adult' | 'pediatric'
+    pediatric?: {
+      bmiPercentile: number
+    }
+  }
   avatar?: string
   isActive: boolean
   createdAt: Date
 }
 
+interface MeasurementHistoryEntry {
+  measuredAt: string
+  weight: number
+  results: {
+    bodyFatPercentage: number
+  }
+}
+
 interface UserData {
   subscription: {
     additionalPeople: number
@@ -55,6 +76,9 @@ export default function FamilyPage() {
   const router = useRouter()
   const [familyMembers, setFamilyMembers] = useState<FamilyMember[]>([])
   const [userData, setUserData] = useState<UserData | null>(null)
+  // Member limit of the effective plan, so lapsed subscriptions show as free
+  const [memberLimit, setMemberLimit] = useState<number | null>(null)
+  const [upgradePrompt, setUpgradePrompt] = useState<{ message: string; upgrade: UpgradeDetails } | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [showAddMember, setShowAddMember] = useState(false)
   const [newMember, setNewMember] = useState({
@@ -64,6 +88,10 @@ export default function FamilyPage() {
     gender: 'male' as 'male' | 'female'
   })
   const [isAddingMember, setIsAddingMember] = useState(false)
+  // Member whose progress chart is open, and the history loaded for it
+  const [trendMemberId, setTrendMemberId] = useState<string | null>(null)
+  const [trendPoints, setTrendPoints] = useState<ProgressPoint[] | null>(null)
+  const [trendUnits, setTrendUnits] = useState<UnitSystem>('metric')
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -87,6 +115,7 @@ export default function FamilyPage() {
       if (familyResponse.ok) {
         const familyData = await familyResponse.json()
         setFamilyMembers(familyData.members || [])
+        setMemberLimit(familyData.limit ?? null)
       }
     } catch (error) {
       console.error('Failed to fetch data:', error)
@@ -122,7 +151,12 @@ export default function FamilyPage() {
         setShowAddMember(false)
       } else {
         const error = await response.json()
-        alert(error.message || 'Failed to add family member')
+        if (error.requiresUpgrade) {
+          setUpgradePrompt({ message: error.message, upgrade: error.upgrade })
+          setShowAddMember(false)
+        } else {
+          alert(error.message || 'Failed to add family member')
+        }
       }
     } catch (error) {
       console.error('Failed to add family member:', error)
@@ -150,6 +184,56 @@ export default function FamilyPage() {
     }
   }
 
+  const handleCalculateMember = async (memberId: string) => {
+    try {
+      const response = await fetch(`/api/family/members/${memberId}/calculate`, {
+        method: 'POST'
+      })
+
+      if (response.ok) {
+        fetchData()
+      } else {
+        const error = await response.json()
+        if (error.requiresUpgrade) {
+          setUpgradePrompt({ message: error.message, upgrade: error.upgrade })
+        } else {
+          alert(error.message || 'Failed to calculate body fat')
+        }
+      }
+    } catch (error) {
+      console.error('Failed to calculate family member body fat:', error)
+    }
+  }
+
+  const handleToggleTrend = async (memberId: string) => {
+    if (trendMemberId === memberId) {
+      setTrendMemberId(null)
+      return
+    }
+
+    setTrendMemberId(memberId)
+    setTrendPoints(null)
+    try {
+      const response = await fetch(`/api/measurements?familyMemberId=${memberId}&limit=30`)
+      if (response.ok) {
+        const data = await response.json()
+        setTrendUnits(data.unitSystem)
+        setTrendPoints(
+          (data.entries as MeasurementHistoryEntry[]).map(entry => ({
+            measuredAt: entry.measuredAt,
+            weight: entry.weight,
+            bodyFatPercentage: entry.results.bodyFatPercentage
+          }))
+        )
+      } else {
+        setTrendPoints([])
+      }
+    } catch (error) {
+      console.error('Failed to fetch family member history:', error)
+      setTrendPoints([])
+    }
+  }
+
   const getRelationshipIcon = (relationship: string) => {
     const rel = relationship.toLowerCase()
     if (rel.includes('child') || rel.includes('son') || rel.includes('daughter')) {
@@ -163,27 +247,26 @@ export default function FamilyPage() {
   }
 
   const getHealthStatusColor = (member: FamilyMember) => {
-    if (!member.measurements?.bodyFatPercentage) return 'bg-slate-100'
-    
-    const bf = member.measurements.bodyFatPercentage
-    const gender = member.gender
-    
-    if (gender === 'female') {
-      if (bf <= 20) return 'bg-green-100 text-green-800'
-      if (bf <= 24) return 'bg-emerald-100 text-emerald-800'
-      if (bf <= 31) return 'bg-yellow-100 text-yellow-800'
-      return 'bg-red-100 text-red-800'
-    } else {
-      if (bf <= 13) return 'bg-green-100 text-green-800'
-      if (bf <= 17) return 'bg-emerald-100 text-emerald-800'
-      if (bf <= 24) return 'bg-yellow-100 text-yellow-800'
-      return 'bg-red-100 text-red-800'
+    const status = member.results?.assessment === 'pediatric'
+      ? member.results.healthStatus
+      : member.measurements?.bodyFatPercentage
+        ? getHealthStatus(member.measurements.bodyFatPercentage, member.gender, member.age)
+        : null
+    if (!status) return 'bg-slate-100'
+
+    switch (status) {
+      case HealthStatus.Excellent: return 'bg-green-100 text-green-800'
+      case HealthStatus.Good: return 'bg-emerald-100 text-emerald-800'
+      case HealthStatus.Fair: return 'bg-yellow-100 text-yellow-800'
+      default: return 'bg-red-100 text-red-800'
     }
   }
 
+  const getMemberLimit = () => memberLimit ?? userData?.subscription.additionalPeople ?? 0
+
   const canAddMoreMembers = () => {
     if (!userData) return false
-    return familyMembers.length < (userData.subscription.additionalPeople || 0)
+    return familyMembers.length < getMemberLimit()
   }
 
   if (status === 'loading' || isLoading) {
@@ -220,7 +303,7 @@ export default function FamilyPage() {
             <div>
               <h1 className="text-xl font-bold text-slate-900">Family Health Center</h1>
               <p className="text-sm text-slate-600">
-                Track health for {familyMembers.length} of {userData?.subscription.additionalPeople || 0} members
+                Track health for {familyMembers.length} of {getMemberLimit()} members
               </p>
             </div>
           </div>
@@ -228,6 +311,16 @@ export default function FamilyPage() {
       </header>
 
       <div className="max-w-6xl mx-auto px-4 py-8">
+        {upgradePrompt && (
+          <div className="mb-8">
+            <UpgradePrompt
+              message={upgradePrompt.message}
+              upgrade={upgradePrompt.upgrade}
+              onDismiss={() => setUpgradePrompt(null)}
+            />
+          </div>
+        )}
+
         {/* Add Member Card */}
         {canAddMoreMembers() && (
           <Card className="mb-8 shadow-xl">
@@ -363,9 +456,9 @@ export default function FamilyPage() {
               ) : (
                 <div className="text-center">
                   <p className="text-sm text-slate-500 mb-4">
-                    Your current plan allows {userData?.subscription.additionalPeople || 0} additional family members.
+                    Your current plan allows {getMemberLimit()} additional family members.
                   </p>
-                  <Button variant="outline">
+                  <Button variant="outline" onClick={() => router.push('/payment?plan=family')}>
                     Upgrade Plan
                   </Button>
                 </div>
@@ -408,7 +501,29 @@ export default function FamilyPage() {
                 </CardHeader>
                 
                 <CardContent>
-                  {member.measurements?.bodyFatPercentage ? (
+                  {member.results?.assessment === 'pediatric' && member.results.pediatric ? (
+                    <div className="space-y-4">
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="text-center p-3 bg-slate-50 rounded-lg">
+                          <div className="text-lg font-bold text-slate-900">
+                            {Math.round(member.results.pediatric.bmiPercentile)}
+                          </div>
+                          <p className="text-xs text-slate-600">BMI-for-age Percentile</p>
+                        </div>
+                        <div className="text-center p-3 bg-slate-50 rounded-lg">
+                          <div className="text-lg font-bold text-slate-900">
+                            {member.measurements?.bmi}
+                          </div>
+                          <p className="text-xs text-slate-600">BMI</p>
+                        </div>
+                      </div>
+
+                      <div className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium ${getHealthStatusColor(member)}`}>
+                        <UserCheck className="w-3 h-3 mr-1" />
+                        {member.results.category}
+                      </div>
+                    </div>
+                  ) : member.measurements?.bodyFatPercentage ? (
                     <div className="space-y-4">
                       <div className="grid grid-cols-2 gap-4">
                         <div className="text-center p-3 bg-slate-50 rounded-lg">
@@ -435,10 +550,35 @@ export default function FamilyPage() {
                           <Eye className="w-4 h-4 mr-2" />
                           View Details
                         </Button>
-                        <Button variant="outline" size="sm">
+                        <Button
+                          variant={trendMemberId === member._id ? 'default' : 'outline'}
+                          size="sm"
+                          title="Progress"
+                          onClick={() => handleToggleTrend(member._id)}
+                        >
                           <TrendingUp className="w-4 h-4" />
                         </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Recalculate"
+                          onClick={() => handleCalculateMember(member._id)}
+                        >
+                          <RefreshCw className="w-4 h-4" />
+                        </Button>
                       </div>
+
+                      {trendMemberId === member._id && (
+                        trendPoints === null ? (
+                          <p className="text-sm text-center text-slate-500">Loading progress...</p>
+                        ) : trendPoints.length > 1 ? (
+                          <ProgressChart points={trendPoints} height={160} unitSystem={trendUnits} />
+                        ) : (
+                          <p className="text-sm text-center text-slate-500">
+                            Recalculate after new measurements to see {member.name}&apos;s progress
+                          </p>
+                        )
+                      )}
                     </div>
                   ) : (
                     <div className="text-center py-6">
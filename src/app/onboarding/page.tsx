@@ -8,6 +8,8 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Progress } from '@/components/ui/progress'
+import { UnitSystem, fromMetricMeasurements, toMetricMeasurements } from '@/lib/units'
+import { LANGUAGE_CODES, LANGUAGE_NAMES, LanguageCode } from '@/lib/languages'
 import { 
   ArrowRight, 
   ArrowLeft, 
@@ -26,9 +28,13 @@ interface OnboardingData {
   age: number
   gender: 'male' | 'female'
   phone: string
+  language: LanguageCode
   
-  // Measurements
+  // Measurements (in the selected unit system)
+  unitSystem: UnitSystem
   height: number
+  heightFeet?: number
+  heightInches?: number
   weight: number
   waist: number
   neck: number
@@ -65,6 +71,8 @@ export default function OnboardingPage() {
     age: 25,
     gender: 'male',
     phone: '',
+    language: 'en',
+    unitSystem: 'metric',
     height: 170,
     weight: 70,
     waist: 80,
@@ -99,7 +107,10 @@ export default function OnboardingPage() {
       case 1: // Personal Info
         return !!(formData.name && formData.age && formData.gender && formData.phone)
       case 2: // Measurements
-        return !!(formData.height && formData.weight && formData.waist && formData.neck)
+        return !!(
+          (formData.unitSystem === 'imperial' ? formData.heightFeet : formData.height) &&
+          formData.weight && formData.waist && formData.neck
+        )
       case 3: // Lifestyle
         return !!(formData.activityLevel && formData.sleepHours)
       case 4: // Goals
@@ -285,6 +296,33 @@ export default function OnboardingPage() {
   )
 }
 
+const lengthUnit = (unitSystem: UnitSystem) => unitSystem === 'imperial' ? 'in' : 'cm'
+const weightUnit = (unitSystem: UnitSystem) => unitSystem === 'imperial' ? 'lb' : 'kg'
+
+// Convert the values already entered so switching units doesn't lose them
+const switchUnitSystem = (
+  formData: OnboardingData,
+  updateFormData: (updates: Partial<OnboardingData>) => void,
+  next: UnitSystem
+) => {
+  if (formData.unitSystem === next) return
+
+  const metric = toMetricMeasurements(formData, formData.unitSystem)
+  const converted = fromMetricMeasurements(metric, next)
+
+  updateFormData({
+    unitSystem: next,
+    height: converted.height || 0,
+    heightFeet: converted.heightFeet,
+    heightInches: converted.heightInches,
+    weight: converted.weight || 0,
+    waist: converted.waist || 0,
+    neck: converted.neck || 0,
+    hip: converted.hip,
+    targetWeight: converted.targetWeight
+  })
+}
+
 // Step Components
 const PersonalInfoStep = ({ 
   formData, 
@@ -371,6 +409,25 @@ const PersonalInfoStep = ({
           required
         />
       </div>
+
+      <div className="md:col-span-2">
+        <label className="block text-sm font-medium text-slate-700 mb-2">
+          Preferred Language
+        </label>
+        <div className="grid grid-cols-3 md:grid-cols-6 gap-3">
+          {LANGUAGE_CODES.map(code => (
+            <Button
+              key={code}
+              type="button"
+              variant={formData.language === code ? 'default' : 'outline'}
+              onClick={() => updateFormData({ language: code })}
+            >
+              {LANGUAGE_NAMES[code].native}
+            </Button>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500 mt-2">Arogya AI and your recommendations will use this language</p>
+      </div>
     </div>
   </motion.div>
 )
@@ -397,63 +454,108 @@ const MeasurementsStep = ({
       <p className="text-slate-600">Accurate measurements ensure precise body fat calculation</p>
     </div>
 
+    <div className="grid grid-cols-2 gap-3 max-w-xs mx-auto">
+      <Button
+        type="button"
+        variant={formData.unitSystem === 'metric' ? 'default' : 'outline'}
+        onClick={() => switchUnitSystem(formData, updateFormData, 'metric')}
+      >
+        cm / kg
+      </Button>
+      <Button
+        type="button"
+        variant={formData.unitSystem === 'imperial' ? 'default' : 'outline'}
+        onClick={() => switchUnitSystem(formData, updateFormData, 'imperial')}
+      >
+        ft, in / lb
+      </Button>
+    </div>
+
     <div className="grid md:grid-cols-2 gap-6">
-      <div>
-        <label className="block text-sm font-medium text-slate-700 mb-2">
-          Height (cm) *
-        </label>
-        <Input
-          type="number"
-          value={formData.height}
-          onChange={(e) => updateFormData({ height: parseInt(e.target.value) || 0 })}
-          placeholder="Enter your height"
-          min={100}
-          max={250}
-          required
-        />
-      </div>
+      {formData.unitSystem === 'imperial' ? (
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">
+            Height (ft, in) *
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              type="number"
+              value={formData.heightFeet || ''}
+              onChange={(e) => updateFormData({ heightFeet: parseInt(e.target.value) || undefined })}
+              placeholder="Feet"
+              min={3}
+              max={8}
+              required
+            />
+            <Input
+              type="number"
+              value={formData.heightInches ?? ''}
+              onChange={(e) => updateFormData({ heightInches: parseFloat(e.target.value) || 0 })}
+              placeholder="Inches"
+              min={0}
+              max={11.9}
+              step={0.5}
+            />
+          </div>
+        </div>
+      ) : (
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">
+            Height (cm) *
+          </label>
+          <Input
+            type="number"
+            value={formData.height}
+            onChange={(e) => updateFormData({ height: parseInt(e.target.value) || 0 })}
+            placeholder="Enter your height"
+            min={100}
+            max={250}
+            required
+          />
+        </div>
+      )}
 
       <div>
         <label className="block text-sm font-medium text-slate-700 mb-2">
-          Weight (kg) *
+          Weight ({weightUnit(formData.unitSystem)}) *
         </label>
         <Input
           type="number"
           value={formData.weight}
-          onChange={(e) => updateFormData({ weight: parseInt(e.target.value) || 0 })}
+          onChange={(e) => updateFormData({ weight: parseFloat(e.target.value) || 0 })}
           placeholder="Enter your weight"
-          min={30}
-          max={300}
+          min={formData.unitSystem === 'imperial' ? 66 : 30}
+          max={formData.unitSystem === 'imperial' ? 661 : 300}
           required
         />
       </div>
 
       <div>
         <label className="block text-sm font-medium text-slate-700 mb-2">
-          Waist Circumference (cm) *
+          Waist Circumference ({lengthUnit(formData.unitSystem)}) *
         </label>
         <Input
           type="number"
           value={formData.waist}
-          onChange={(e) => updateFormData({ waist: parseInt(e.target.value) || 0 })}
+          onChange={(e) => updateFormData({ waist: parseFloat(e.target.value) || 0 })}
           placeholder="Measure at narrowest point"
-          min={50}
-          max={200}
+          min={formData.unitSystem === 'imperial' ? 19.7 : 50}
+          max={formData.unitSystem === 'imperial' ? 78.7 : 200}
           required
         />
       </div>
 
       <div>
         <label className="block text-sm font-medium text-slate-700 mb-2">
-          Neck Circumference (cm) *
+          Neck Circumference ({lengthUnit(formData.unitSystem)}) *
         </label>
         <Input
           type="number"
           value={formData.neck}
-          onChange={(e) => updateFormData({ neck: parseInt(e.target.value) || 0 })}
+          onChange={(e) => updateFormData({ neck: parseFloat(e.target.value) || 0 })}
           placeholder="Measure below Adam's apple"
-          min={20}
-          max={60}
+          min={formData.unitSystem === 'imperial' ? 7.9 : 20}
+          max={formData.unitSystem === 'imperial' ? 23.6 : 60}
           required
         />
       </div>
@@ -461,15 +563,15 @@ const MeasurementsStep = ({
       {formData.gender === 'female' && (
         <div className="md:col-span-2">
           <label className="block text-sm font-medium text-slate-700 mb-2">
-            Hip Circumference (cm) *
+            Hip Circumference ({lengthUnit(formData.unitSystem)}) *
           </label>
           <Input
             type="number"
             value={formData.hip || ''}
-            onChange={(e) => updateFormData({ hip: parseInt(e.target.value) || undefined })}
+            onChange={(e) => updateFormData({ hip: parseFloat(e.target.value) || undefined })}
             placeholder="Measure at widest point"
-            min={60}
-            max={200}
+            min={formData.unitSystem === 'imperial' ? 23.6 : 60}
+            max={formData.unitSystem === 'imperial' ? 78.7 : 200}
             required
           />
         </div>
@@ -707,15 +809,15 @@ const GoalsStep = ({
       {(formData.primaryObjective === 'weightLoss' || formData.primaryObjective === 'weightGain') && (
         <div>
           <label className="block text-sm font-medium text-slate-700 mb-2">
-            Target Weight (kg)
+            Target Weight ({weightUnit(formData.unitSystem)})
           </label>
           <Input
             type="number"
             value={formData.targetWeight || ''}
-            onChange={(e) => updateFormData({ targetWeight: parseInt(e.target.value) || undefined })}
+            onChange={(e) => updateFormData({ targetWeight: parseFloat(e.target.value) || undefined })}
             placeholder="Enter your target weight"
-            min={30}
-            max={300}
+            min={formData.unitSystem === 'imperial' ? 66 : 30}
+            max={formData.unitSystem === 'imperial' ? 661 : 300}
           />
         </div>
       )}
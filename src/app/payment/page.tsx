@@ -19,9 +19,12 @@ import {
   ArrowLeft,
   Lock,
   Star,
-  Heart
+  Heart,
+  FileText,
+  Download
 } from 'lucide-react'
 import Link from 'next/link'
+import { GST_STATES } from '@/lib/gst'
 
 declare global {
   interface Window {
@@ -29,6 +32,49 @@ declare global {
   }
 }
 
+// Breakdown returned by /api/payment/quote and create-order
+interface PriceQuote {
+  planId: string
+  basePrice: number
+  promoCode: string | null
+  promoDiscount: number
+  referralCode: string | null
+  referralDiscount: number
+  totalDiscount: number
+  amount: number
+}
+
+// Returned by /api/payment/change-plan/quote
+interface PlanChangeQuote {
+  fromPlan: string
+  toPlan: string
+  direction: 'upgrade' | 'downgrade'
+  remainingDays: number
+  credit: number
+  newPlanCost: number
+  amount: number
+  refund: number
+}
+
+interface PastPayment {
+  id: string
+  planName?: string
+  amount: number
+  status: string
+  refundedAmount: number
+  paidAt: string
+  invoiceNumber: string | null
+}
+
+// Returned by /api/subscription
+interface CurrentSubscription {
+  plan: string | null
+  phase: 'active' | 'grace' | 'expired'
+  daysLeft: number
+  expiresAt: string
+  renewalExpiresAt: string
+}
+
 interface PricingPlan {
   id: string
   name: string
@@ -90,6 +136,32 @@ const PRICING_PLANS: PricingPlan[] = [
   }
 ]
 
+async function fetchPlanChangeQuote(planId: string) {
+  const response = await fetch('/api/payment/change-plan/quote', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ planId })
+  })
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || 'Failed to price plan change')
+  }
+  return data.quote as PlanChangeQuote
+}
+
+async function fetchQuote(planId: string, codes: { promoCode: string | null; referralCode: string | null }) {
+  const response = await fetch('/api/payment/quote', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ planId, ...codes })
+  })
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || 'Failed to apply code')
+  }
+  return data.pricing as PriceQuote
+}
+
 export default function PaymentPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
@@ -98,7 +170,19 @@ export default function PaymentPage() {
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState('')
   const [referralCode, setReferralCode] = useState('')
-  const [discount, setDiscount] = useState(0)
+  const [promoCode, setPromoCode] = useState('')
+  // Codes the server has accepted; only these are sent with the order
+  const [appliedCodes, setAppliedCodes] = useState<{ promoCode: string | null; referralCode: string | null }>({
+    promoCode: null,
+    referralCode: null
+  })
+  const [quote, setQuote] = useState<PriceQuote | null>(null)
+  const [showBilling, setShowBilling] = useState(false)
+  const [billing, setBilling] = useState({ name: '', gstin: '', stateCode: '' })
+  const [pastPayments, setPastPayments] = useState<PastPayment[]>([])
+  const [currentSubscription, setCurrentSubscription] = useState<CurrentSubscription | null>(null)
+  const [planChange, setPlanChange] = useState<PlanChangeQuote | null>(null)
+  const [planChangeMessage, setPlanChangeMessage] = useState('')
 
   useEffect(() => {
     // Get plan from URL params
@@ -121,33 +205,158 @@ export default function PaymentPage() {
   useEffect(() => {
     if (status === 'unauthenticated') {
       router.push('/auth/signin')
+    } else if (status === 'authenticated') {
+      // Earlier purchases, for invoice downloads
+      fetch('/api/payment/history')
+        .then(response => response.ok ? response.json() : { payments: [] })
+        .then(data => setPastPayments(data.payments || []))
+        .catch(() => setPastPayments([]))
+
+      fetch('/api/subscription')
+        .then(response => response.ok ? response.json() : { subscription: null })
+        .then(data => setCurrentSubscription(data.subscription))
+        .catch(() => setCurrentSubscription(null))
     }
   }, [status, router])
 
   const selectedPlanData = PRICING_PLANS.find(p => p.id === selectedPlan)
-  const finalAmount = selectedPlanData ? selectedPlanData.price - discount : 0
+  const activeQuote = quote?.planId === selectedPlan ? quote : null
+  const finalAmount = activeQuote ? activeQuote.amount : selectedPlanData?.price || 0
+
+  // Discounts depend on the plan, so re-price when it changes
+  useEffect(() => {
+    if (!appliedCodes.promoCode && !appliedCodes.referralCode) {
+      setQuote(null)
+      return
+    }
+
+    fetchQuote(selectedPlan, appliedCodes)
+      .then(setQuote)
+      .catch((error) => {
+        setError(error.message)
+        setQuote(null)
+      })
+  }, [selectedPlan, appliedCodes])
+
+  // Active subscribers switching plans pay or get back the prorated difference
+  const canChangePlan = currentSubscription?.phase === 'active' &&
+    !!currentSubscription.plan &&
+    currentSubscription.plan !== selectedPlan
+
+  useEffect(() => {
+    if (!canChangePlan) {
+      setPlanChange(null)
+      return
+    }
+
+    fetchPlanChangeQuote(selectedPlan)
+      .then(setPlanChange)
+      .catch(() => setPlanChange(null))
+  }, [canChangePlan, selectedPlan])
+
+  const applyCodes = async () => {
+    const codes = {
+      promoCode: promoCode.trim() || null,
+      referralCode: referralCode.trim() || null
+    }
+    if (!codes.promoCode && !codes.referralCode) return
+
+    try {
+      await fetchQuote(selectedPlan, codes)
+      setAppliedCodes(codes)
+      setError('')
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to apply code')
+    }
+  }
+
+  const openCheckout = (order: { orderId: string; amount: number }, description: string) => {
+    const options = {
+      key: process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID,
+      amount: order.amount,
+      currency: 'INR',
+      name: 'FitXGen',
+      description,
+      order_id: order.orderId,
+      prefill: {
+        name: session?.user?.name || '',
+        email: session?.user?.email || ''
+      },
+      theme: {
+        color: '#059669' // emerald-600
+      },
+      handler: async (response: any) => {
+        // Verify payment
+        const verifyResponse = await fetch('/api/payment/verify', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            orderId: order.orderId,
+            paymentId: response.razorpay_payment_id,
+            signature: response.razorpay_signature
+          })
+        })
+
+        if (verifyResponse.ok) {
+          // Payment successful, redirect to results
+          router.push('/dashboard?welcome=true')
+        } else if (verifyResponse.status === 409) {
+          // An upgrade that no longer applied and was refunded
+          const data = await verifyResponse.json()
+          setError(data.message)
+        } else {
+          setError('Payment verification failed. Please contact support.')
+        }
+      },
+      modal: {
+        ondismiss: () => {
+          setIsLoading(false)
+        }
+      }
+    }
+
+    const rzp = new window.Razorpay(options)
+    rzp.open()
+  }
 
-  const applyReferralCode = async () => {
-    if (!referralCode.trim()) return
+  const changePlan = async () => {
+    if (!planChange || !selectedPlanData) return
+
+    setIsLoading(true)
+    setError('')
+    setPlanChangeMessage('')
 
     try {
-      const response = await fetch('/api/referral/apply', {
+      const response = await fetch('/api/payment/change-plan', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ code: referralCode.trim() })
+        body: JSON.stringify({
+          planId: selectedPlan,
+          amount: planChange.direction === 'upgrade' ? planChange.amount : planChange.refund
+        })
       })
 
       const data = await response.json()
-      if (response.ok) {
-        setDiscount(data.discount)
-        setError('')
-      } else {
-        setError(data.message || 'Invalid referral code')
-        setDiscount(0)
+      if (!response.ok) {
+        if (data.quote) {
+          setPlanChange(data.quote)
+        }
+        throw new Error(data.message || 'Failed to change plan')
       }
+
+      if (planChange.direction === 'upgrade') {
+        openCheckout(data, `Upgrade to ${selectedPlanData.name}`)
+        return
+      }
+
+      setCurrentSubscription(prev => prev && { ...prev, plan: selectedPlan })
+      setPlanChangeMessage(
+        data.refund ? `${data.message}. ₹${data.refund.amount} will be refunded to your original payment method.` : data.message
+      )
+      setIsLoading(false)
     } catch (error) {
-      setError('Failed to apply referral code')
-      setDiscount(0)
+      setError(error instanceof Error ? error.message : 'Failed to change plan')
+      setIsLoading(false)
     }
   }
 
@@ -165,58 +374,21 @@ export default function PaymentPage() {
         body: JSON.stringify({
           planId: selectedPlan,
           amount: finalAmount,
-          referralCode: referralCode.trim() || null
+          ...appliedCodes,
+          ...(showBilling && { billing })
         })
       })
 
       const orderData = await orderResponse.json()
       if (!orderResponse.ok) {
-        throw new Error(orderData.message || 'Failed to create order')
-      }
-
-      // Initialize Razorpay
-      const options = {
-        key: process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID,
-        amount: orderData.amount,
-        currency: 'INR',
-        name: 'FitXGen',
-        description: `${selectedPlanData.name} - Body Fat Analysis & AI Health Plan`,
-        order_id: orderData.orderId,
-        prefill: {
-          name: session?.user?.name || '',
-          email: session?.user?.email || ''
-        },
-        theme: {
-          color: '#059669' // emerald-600
-        },
-        handler: async (response: any) => {
-          // Verify payment
-          const verifyResponse = await fetch('/api/payment/verify', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              orderId: orderData.orderId,
-              paymentId: response.razorpay_payment_id,
-              signature: response.razorpay_signature
-            })
-          })
-
-          if (verifyResponse.ok) {
-            // Payment successful, redirect to results
-            router.push('/dashboard?welcome=true')
-          } else {
-            setError('Payment verification failed. Please contact support.')
-          }
-        },
-        modal: {
-          ondismiss: () => {
-            setIsLoading(false)
-          }
+        // Show the server's current price so the user can confirm it
+        if (orderData.pricing) {
+          setQuote(orderData.pricing)
         }
+        throw new Error(orderData.message || 'Failed to create order')
       }
 
-      const rzp = new window.Razorpay(options)
-      rzp.open()
+      openCheckout(orderData, `${selectedPlanData.name} - Body Fat Analysis & AI Health Plan`)
 
     } catch (error: any) {
       setError(error.message || 'Payment initiation failed')
@@ -325,14 +497,20 @@ export default function PaymentPage() {
           <CardHeader>
             <CardTitle className="text-lg flex items-center">
               <Heart className="w-5 h-5 mr-2 text-red-500" />
-              Have a Referral Code?
+              Have a Promo or Referral Code?
             </CardTitle>
             <CardDescription>
-              Apply a referral code to get additional discounts on your purchase
+              Apply a promo code or a friend&apos;s referral code to get additional discounts on your purchase
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="flex gap-3">
+            <div className="flex flex-col sm:flex-row gap-3">
+              <Input
+                placeholder="Enter promo code"
+                value={promoCode}
+                onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+                className="flex-1"
+              />
               <Input
                 placeholder="Enter referral code"
                 value={referralCode}
@@ -340,22 +518,105 @@ export default function PaymentPage() {
                 className="flex-1"
               />
               <Button 
-                onClick={applyReferralCode}
+                onClick={applyCodes}
                 variant="outline"
-                disabled={!referralCode.trim()}
+                disabled={!promoCode.trim() && !referralCode.trim()}
               >
                 Apply
               </Button>
             </div>
-            {discount > 0 && (
+            {activeQuote && activeQuote.totalDiscount > 0 && (
               <div className="mt-3 text-green-600 text-sm flex items-center">
                 <CheckCircle className="w-4 h-4 mr-2" />
-                Referral discount of ₹{discount} applied!
+                Discount of ₹{activeQuote.totalDiscount} applied!
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* GST Invoice Details */}
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center">
+              <FileText className="w-5 h-5 mr-2 text-slate-600" />
+              Need a GST Invoice?
+            </CardTitle>
+            <CardDescription>
+              Every payment gets a GST invoice. Add your company details to claim input tax credit or reimbursement.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {showBilling ? (
+              <div className="grid sm:grid-cols-3 gap-3">
+                <Input
+                  placeholder="Company or billing name"
+                  value={billing.name}
+                  onChange={(e) => setBilling(prev => ({ ...prev, name: e.target.value }))}
+                />
+                <Input
+                  placeholder="GSTIN (optional)"
+                  value={billing.gstin}
+                  onChange={(e) => setBilling(prev => ({ ...prev, gstin: e.target.value.toUpperCase() }))}
+                />
+                <select
+                  value={billing.stateCode}
+                  onChange={(e) => setBilling(prev => ({ ...prev, stateCode: e.target.value }))}
+                  disabled={billing.gstin.length >= 2}
+                  className="px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                >
+                  <option value="">Billing state</option>
+                  {Object.entries(GST_STATES).map(([code, name]) => (
+                    <option key={code} value={code}>{name}</option>
+                  ))}
+                </select>
               </div>
+            ) : (
+              <Button variant="outline" onClick={() => setShowBilling(true)}>
+                Add Billing Details
+              </Button>
             )}
           </CardContent>
         </Card>
 
+        {/* Plan Change */}
+        {selectedPlanData && planChange && (
+          <Card className="mb-8 border-emerald-200">
+            <CardHeader>
+              <CardTitle>
+                {planChange.direction === 'upgrade' ? 'Upgrade' : 'Switch'} to {selectedPlanData.name} now
+              </CardTitle>
+              <CardDescription>
+                Your current plan has {planChange.remainingDays} days left. You only pay the difference for those days, and your renewal date stays the same.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                <div className="flex justify-between items-center">
+                  <span>{selectedPlanData.name} for {planChange.remainingDays} days</span>
+                  <span>₹{planChange.newPlanCost}</span>
+                </div>
+                <div className="flex justify-between items-center text-green-600">
+                  <span>Credit for your current plan</span>
+                  <span>-₹{planChange.credit}</span>
+                </div>
+                <div className="border-t pt-3 flex justify-between items-center font-bold text-lg">
+                  <span>{planChange.direction === 'upgrade' ? 'Pay now' : 'Refund'}</span>
+                  <span>₹{planChange.direction === 'upgrade' ? planChange.amount : planChange.refund}</span>
+                </div>
+                <Button onClick={changePlan} disabled={isLoading} className="w-full">
+                  {planChange.direction === 'upgrade' ? `Upgrade for ₹${planChange.amount}` : `Switch to ${selectedPlanData.name}`}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {planChangeMessage && (
+          <div className="bg-emerald-50 border border-emerald-200 rounded-xl p-4 text-emerald-700 text-sm mb-6">
+            {planChangeMessage}
+          </div>
+        )}
+
         {/* Payment Summary */}
         {selectedPlanData && (
           <Card className="mb-8">
@@ -371,16 +632,31 @@ export default function PaymentPage() {
                   <span>{selectedPlanData.name}</span>
                   <span>₹{selectedPlanData.price}</span>
                 </div>
-                {discount > 0 && (
+                {activeQuote && activeQuote.promoDiscount > 0 && (
+                  <div className="flex justify-between items-center text-green-600">
+                    <span>Promo Code ({activeQuote.promoCode})</span>
+                    <span>-₹{activeQuote.promoDiscount}</span>
+                  </div>
+                )}
+                {activeQuote && activeQuote.referralDiscount > 0 && (
                   <div className="flex justify-between items-center text-green-600">
                     <span>Referral Discount</span>
-                    <span>-₹{discount}</span>
+                    <span>-₹{activeQuote.referralDiscount}</span>
                   </div>
                 )}
                 <div className="border-t pt-3 flex justify-between items-center font-bold text-lg">
                   <span>Total Amount</span>
                   <span>₹{finalAmount}</span>
                 </div>
+                {currentSubscription && currentSubscription.phase !== 'expired' && (
+                  <p className="text-sm text-slate-600">
+                    Renewing extends your subscription to{' '}
+                    {new Date(currentSubscription.renewalExpiresAt).toLocaleDateString('en-IN', {
+                      day: 'numeric', month: 'short', year: 'numeric'
+                    })}
+                    {currentSubscription.phase === 'grace' ? ' (your plan has expired and is in its grace period)' : ''}.
+                  </p>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -433,6 +709,40 @@ export default function PaymentPage() {
           </div>
         </div>
 
+        {/* Past Payments */}
+        {pastPayments.length > 0 && (
+          <Card className="mt-12">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center">
+                <FileText className="w-5 h-5 mr-2 text-slate-600" />
+                Your Payments
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="divide-y divide-slate-100">
+                {pastPayments.map(payment => (
+                  <div key={payment.id} className="flex items-center justify-between py-3">
+                    <div>
+                      <p className="font-medium text-slate-900">{payment.planName || 'Subscription'}</p>
+                      <p className="text-sm text-slate-500">
+                        ₹{payment.amount} • {new Date(payment.paidAt).toLocaleDateString('en-IN')}
+                        {payment.status === 'refunded' && ' • Refunded'}
+                        {payment.invoiceNumber && ` • ${payment.invoiceNumber}`}
+                      </p>
+                    </div>
+                    <a href={`/api/payment/${payment.id}/invoice`}>
+                      <Button variant="outline" size="sm">
+                        <Download className="w-4 h-4 mr-2" />
+                        Download invoice
+                      </Button>
+                    </a>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Trust Indicators */}
         <div className="mt-12 grid md:grid-cols-3 gap-6 text-center">
           <div className="flex flex-col items-center">
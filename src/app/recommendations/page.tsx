@@ -6,6 +6,7 @@ import { useRouter } from 'next/navigation'
 import { motion } from 'framer-motion'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import UpgradePrompt, { UpgradeDetails } from '@/components/subscription/UpgradePrompt'
 import { 
   Utensils, 
   Dumbbell, 
@@ -31,6 +32,11 @@ import {
   Shield,
   MessageCircle
 } from 'lucide-react'
+import type {
+  ExerciseRecommendation,
+  LifestyleCategory,
+  StoredRecommendations
+} from '@/lib/recommendation-schema'
 
 interface UserProfile {
   name: string
@@ -52,43 +58,26 @@ interface UserProfile {
   }
 }
 
-interface RecommendationData {
-  diet: {
-    dailyCalories: number
-    macros: {
-      protein: number
-      carbs: number
-      fats: number
-    }
-    mealPlan: Array<{
-      meal: string
-      time: string
-      items: string[]
-      calories: number
-    }>
-    tips: string[]
-  }
-  exercise: {
-    weeklyPlan: Array<{
-      day: string
-      type: string
-      duration: number
-      exercises: Array<{
-        name: string
-        sets?: number
-        reps?: string
-        duration?: number
-      }>
-    }>
-    tips: string[]
+// As saved by /api/recommendations/generate, after a trip through JSON
+type RecommendationData = Omit<StoredRecommendations, 'generatedAt'> & { generatedAt: string }
+
+const LIFESTYLE_SECTIONS: Array<{ category: LifestyleCategory; title: string; icon: typeof Moon; color: string }> = [
+  { category: 'sleep', title: 'Sleep Optimization', icon: Moon, color: 'text-indigo-600' },
+  { category: 'stress', title: 'Stress Management', icon: Shield, color: 'text-green-600' },
+  { category: 'hydration', title: 'Hydration', icon: Droplets, color: 'text-blue-600' },
+  { category: 'habits', title: 'Daily Habits', icon: Heart, color: 'text-red-600' },
+  { category: 'supplements', title: 'Supplements', icon: Star, color: 'text-yellow-600' }
+]
+
+const formatExercise = (exercise: ExerciseRecommendation) => {
+  const parts = []
+  if (exercise.reps) {
+    parts.push(exercise.sets ? `${exercise.sets} sets × ${exercise.reps}` : exercise.reps)
   }
-  wellness: {
-    sleepRecommendations: string[]
-    stressManagement: string[]
-    hydrationGoal: number
-    supplements: string[]
+  if (exercise.durationMinutes) {
+    parts.push(`${exercise.durationMinutes} minutes`)
   }
-  aiInsights: string
+  return parts.join(', ')
 }
 
 export default function RecommendationsPage() {
@@ -97,8 +86,9 @@ export default function RecommendationsPage() {
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null)
   const [recommendations, setRecommendations] = useState<RecommendationData | null>(null)
   const [isLoading, setIsLoading] = useState(true)
-  const [activeTab, setActiveTab] = useState<'diet' | 'exercise' | 'wellness' | 'ai'>('diet')
+  const [activeTab, setActiveTab] = useState<'diet' | 'exercise' | 'wellness' | 'summary'>('diet')
   const [isGenerating, setIsGenerating] = useState(false)
+  const [upgradePrompt, setUpgradePrompt] = useState<{ message: string; upgrade: UpgradeDetails } | null>(null)
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -144,6 +134,9 @@ export default function RecommendationsPage() {
       if (response.ok) {
         const data = await response.json()
         setRecommendations(data.recommendations)
+      } else if (response.status === 402) {
+        const data = await response.json()
+        setUpgradePrompt({ message: data.message, upgrade: data.upgrade })
       }
     } catch (error) {
       console.error('Failed to generate recommendations:', error)
@@ -156,7 +149,7 @@ export default function RecommendationsPage() {
     { id: 'diet', label: 'Diet Plan', icon: Utensils, color: 'text-green-600' },
     { id: 'exercise', label: 'Exercise', icon: Dumbbell, color: 'text-blue-600' },
     { id: 'wellness', label: 'Wellness', icon: Heart, color: 'text-red-600' },
-    { id: 'ai', label: 'AI Insights', icon: Brain, color: 'text-purple-600' }
+    { id: 'summary', label: 'Summary', icon: Brain, color: 'text-purple-600' }
   ]
 
   if (status === 'loading' || isLoading) {
@@ -265,6 +258,16 @@ export default function RecommendationsPage() {
                     </>
                   )}
                 </Button>
+
+                {upgradePrompt && (
+                  <div className="mt-6 text-left">
+                    <UpgradePrompt
+                      message={upgradePrompt.message}
+                      upgrade={upgradePrompt.upgrade}
+                      onDismiss={() => setUpgradePrompt(null)}
+                    />
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -274,7 +277,7 @@ export default function RecommendationsPage() {
         {recommendations && (
           <>
             {/* Navigation Tabs */}
-            <div className="flex flex-wrap gap-2 mb-8">
+            <div className="flex flex-wrap items-center gap-2 mb-8">
               {tabs.map((tab) => (
                 <Button
                   key={tab.id}
@@ -286,6 +289,9 @@ export default function RecommendationsPage() {
                   {tab.label}
                 </Button>
               ))}
+              <span className={`ml-auto px-3 py-1 rounded-full text-xs font-medium ${recommendations.source === 'ai' ? 'text-purple-700 bg-purple-100' : 'text-slate-700 bg-slate-100'}`}>
+                {recommendations.source === 'ai' ? 'Personalized by Arogya AI' : 'Standard plan'}
+              </span>
             </div>
 
             {/* Diet Plan Tab */}
@@ -341,6 +347,11 @@ export default function RecommendationsPage() {
                               </span>
                             ))}
                           </div>
+                          <div className="flex space-x-4 mt-2 text-xs text-slate-500">
+                            <span>Protein {meal.macros.protein}g</span>
+                            <span>Carbs {meal.macros.carbs}g</span>
+                            <span>Fats {meal.macros.fats}g</span>
+                          </div>
                         </div>
                       ))}
                     </div>
@@ -384,17 +395,14 @@ export default function RecommendationsPage() {
                             <h3 className="font-semibold text-slate-900">{day.day}</h3>
                             <div className="flex items-center space-x-4 text-sm text-slate-600">
                               <span>{day.type}</span>
-                              <span>{day.duration} min</span>
+                              <span>{day.durationMinutes} min</span>
                             </div>
                           </div>
                           <div className="grid md:grid-cols-2 gap-3">
                             {day.exercises.map((exercise, idx) => (
                               <div key={idx} className="p-3 bg-white rounded border">
                                 <h4 className="font-medium text-slate-800 mb-1">{exercise.name}</h4>
-                                <p className="text-sm text-slate-600">
-                                  {exercise.sets && exercise.reps && `${exercise.sets} sets × ${exercise.reps}`}
-                                  {exercise.duration && `${exercise.duration} minutes`}
-                                </p>
+                                <p className="text-sm text-slate-600">{formatExercise(exercise)}</p>
                               </div>
                             ))}
                           </div>
@@ -429,87 +437,52 @@ export default function RecommendationsPage() {
                 animate={{ opacity: 1, y: 0 }}
                 className="space-y-6"
               >
-                <div className="grid md:grid-cols-2 gap-6">
-                  <Card className="shadow-xl">
-                    <CardHeader>
-                      <CardTitle className="flex items-center">
-                        <Moon className="w-5 h-5 mr-2 text-indigo-600" />
-                        Sleep Optimization
-                      </CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="space-y-2">
-                        {recommendations.wellness.sleepRecommendations.map((rec, index) => (
-                          <div key={index} className="flex items-start space-x-2">
-                            <CheckCircle className="w-4 h-4 text-indigo-600 mt-1 flex-shrink-0" />
-                            <p className="text-sm text-slate-700">{rec}</p>
-                          </div>
-                        ))}
-                      </div>
-                    </CardContent>
-                  </Card>
-
-                  <Card className="shadow-xl">
-                    <CardHeader>
-                      <CardTitle className="flex items-center">
-                        <Shield className="w-5 h-5 mr-2 text-green-600" />
-                        Stress Management
-                      </CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="space-y-2">
-                        {recommendations.wellness.stressManagement.map((rec, index) => (
-                          <div key={index} className="flex items-start space-x-2">
-                            <Heart className="w-4 h-4 text-green-600 mt-1 flex-shrink-0" />
-                            <p className="text-sm text-slate-700">{rec}</p>
-                          </div>
-                        ))}
+                <Card className="shadow-xl">
+                  <CardContent className="p-6 flex items-center justify-center space-x-4">
+                    <Droplets className="w-8 h-8 text-blue-600" />
+                    <div>
+                      <div className="text-3xl font-bold text-blue-600">
+                        {recommendations.lifestyle.hydrationLitres}L
                       </div>
-                    </CardContent>
-                  </Card>
-                </div>
+                      <p className="text-sm text-slate-600">Daily water intake</p>
+                    </div>
+                  </CardContent>
+                </Card>
 
                 <div className="grid md:grid-cols-2 gap-6">
-                  <Card className="shadow-xl">
-                    <CardHeader>
-                      <CardTitle className="flex items-center">
-                        <Droplets className="w-5 h-5 mr-2 text-blue-600" />
-                        Hydration Goal
-                      </CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="text-center">
-                        <div className="text-3xl font-bold text-blue-600 mb-2">
-                          {recommendations.wellness.hydrationGoal}L
-                        </div>
-                        <p className="text-sm text-slate-600">Daily water intake</p>
-                      </div>
-                    </CardContent>
-                  </Card>
-
-                  <Card className="shadow-xl">
-                    <CardHeader>
-                      <CardTitle className="flex items-center">
-                        <Star className="w-5 h-5 mr-2 text-yellow-600" />
-                        Supplements
-                      </CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="space-y-2">
-                        {recommendations.wellness.supplements.map((supplement, index) => (
-                          <div key={index} className="p-2 bg-slate-50 rounded text-sm">
-                            {supplement}
+                  {LIFESTYLE_SECTIONS.map(section => {
+                    const actions = recommendations.lifestyle.actions.filter(action => action.category === section.category)
+                    if (actions.length === 0) return null
+                    return (
+                      <Card key={section.category} className="shadow-xl">
+                        <CardHeader>
+                          <CardTitle className="flex items-center">
+                            <section.icon className={`w-5 h-5 mr-2 ${section.color}`} />
+                            {section.title}
+                          </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          <div className="space-y-2">
+                            {actions.map((action, index) => (
+                              <div key={index} className="flex items-start space-x-2">
+                                <CheckCircle className={`w-4 h-4 mt-1 flex-shrink-0 ${section.color}`} />
+                                <div>
+                                  <p className="text-sm text-slate-700">{action.title}</p>
+                                  {action.detail && <p className="text-xs text-slate-500">{action.detail}</p>}
+                                </div>
+                              </div>
+                            ))}
                           </div>
-                        ))}
-                      </div>
-                    </CardContent>
-                  </Card>
+                        </CardContent>
+                      </Card>
+                    )
+                  })}
                 </div>
               </motion.div>
             )}
 
-            {/* AI Insights Tab */}
-            {activeTab === 'ai' && (
+            {/* Summary Tab */}
+            {activeTab === 'summary' && (
               <motion.div
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
@@ -518,16 +491,18 @@ export default function RecommendationsPage() {
                   <CardHeader>
                     <CardTitle className="flex items-center">
                       <Brain className="w-5 h-5 mr-2 text-purple-600" />
-                      AI-Generated Health Insights
+                      Your Plan at a Glance
                     </CardTitle>
                     <CardDescription>
-                      Personalized analysis from Arogya AI based on your health profile
+                      {recommendations.source === 'ai'
+                        ? 'Personalized by Arogya AI based on your health profile'
+                        : 'Our standard plan for your profile, as AI recommendations were unavailable'}
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
                     <div className="prose prose-slate max-w-none">
                       <div className="whitespace-pre-wrap text-slate-700 leading-relaxed">
-                        {recommendations.aiInsights}
+                        {recommendations.summary}
                       </div>
                     </div>
                     <div className="mt-6 pt-6 border-t border-slate-200">
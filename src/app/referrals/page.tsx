@@ -7,6 +7,7 @@ import { motion } from 'framer-motion'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
+import PayoutPanel from '@/components/referrals/PayoutPanel'
 import { 
   Gift, 
   Heart, 
@@ -31,10 +32,13 @@ import {
 
 interface ReferralData {
   code: string
+  canCustomizeCode: boolean
   totalReferred: number
   activeReferrals: number
   totalEarnings: number
   pendingEarnings: number
+  availableBalance: number
+  paidOut: number
   recentReferrals: Array<{
     name: string
     joinedAt: Date
@@ -61,6 +65,8 @@ export default function ReferralsPage() {
   const [selectedTrigger, setSelectedTrigger] = useState<EmotionalTrigger | null>(null)
   const [shareMessage, setShareMessage] = useState('')
   const [copied, setCopied] = useState(false)
+  const [customCode, setCustomCode] = useState<string | null>(null)
+  const [customCodeError, setCustomCodeError] = useState('')
 
   const emotionalTriggers: EmotionalTrigger[] = [
     {
@@ -204,6 +210,25 @@ Trust me, यह investment है आपकी health में! 💯`,
     }
   }
 
+  const saveCustomCode = async () => {
+    setCustomCodeError('')
+    try {
+      const response = await fetch('/api/referrals/code', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: customCode })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to update referral code')
+      }
+      setReferralData(prev => prev && { ...prev, code: data.code, canCustomizeCode: false })
+      setCustomCode(null)
+    } catch (error) {
+      setCustomCodeError(error instanceof Error ? error.message : 'Failed to update referral code')
+    }
+  }
+
   const copyToClipboard = async (text: string) => {
     try {
       await navigator.clipboard.writeText(text)
@@ -282,6 +307,7 @@ Trust me, यह investment है आपकी health में! 💯`,
               </div>
               <div className="text-2xl font-bold text-slate-900">₹{referralData.totalEarnings}</div>
               <p className="text-sm text-slate-600">Total Earnings</p>
+              <p className="text-xs text-slate-500 mt-1">₹{referralData.availableBalance} available</p>
             </CardContent>
           </Card>
 
@@ -391,6 +417,36 @@ Trust me, यह investment है आपकी health में! 💯`,
                     {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
                   </Button>
                 </div>
+                {referralData.canCustomizeCode && (
+                  customCode === null ? (
+                    <button
+                      type="button"
+                      onClick={() => setCustomCode('')}
+                      className="text-sm text-emerald-600 hover:text-emerald-700 mt-2"
+                    >
+                      Choose a custom code
+                    </button>
+                  ) : (
+                    <div className="mt-3">
+                      <div className="flex gap-2">
+                        <Input
+                          value={customCode}
+                          onChange={(e) => setCustomCode(e.target.value.toUpperCase())}
+                          placeholder="e.g. PRIYAFIT"
+                          maxLength={12}
+                          className="font-mono"
+                        />
+                        <Button onClick={saveCustomCode} disabled={customCode.trim().length < 4}>
+                          Save
+                        </Button>
+                      </div>
+                      <p className="text-xs text-slate-500 mt-1">
+                        You can only change your code once. Your current code will keep working.
+                      </p>
+                      {customCodeError && <p className="text-xs text-red-600 mt-1">{customCodeError}</p>}
+                    </div>
+                  )
+                )}
               </div>
 
               {/* Message Preview */}
@@ -479,6 +535,9 @@ Trust me, यह investment है आपकी health में! 💯`,
           </Card>
         )}
 
+        {/* Withdrawals */}
+        <PayoutPanel />
+
         {/* How It Works */}
         <Card className="shadow-xl mt-8">
           <CardHeader>
@@ -0,0 +1,259 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { CHAT_TITLE_MAX_LENGTH, ChatSessionListItem } from '@/lib/chat-sessions'
+import { Archive, ArchiveRestore, Check, Pencil, Plus, Search, Trash2, X } from 'lucide-react'
+
+// Dates arrive as strings over JSON
+type ChatSessionSummary = Omit<ChatSessionListItem, 'lastActivity' | 'createdAt'> & {
+  lastActivity: string
+  createdAt: string
+}
+
+interface ChatSessionSidebarProps {
+  activeSessionId: string | null
+  refreshKey: number // bump to reload, e.g. after a reply
+  onSelect: (sessionId: string) => void
+  onNewChat: () => void
+  onDeleted: (sessionId: string) => void
+  onClose: () => void
+}
+
+const PAGE_SIZE = 20
+
+export default function ChatSessionSidebar({
+  activeSessionId,
+  refreshKey,
+  onSelect,
+  onNewChat,
+  onDeleted,
+  onClose
+}: ChatSessionSidebarProps) {
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([])
+  const [page, setPage] = useState(1)
+  const [hasNext, setHasNext] = useState(false)
+  const [showArchived, setShowArchived] = useState(false)
+  const [searchInput, setSearchInput] = useState('')
+  const [search, setSearch] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editTitle, setEditTitle] = useState('')
+
+  // Wait for the user to stop typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), 300)
+    return () => clearTimeout(timeout)
+  }, [searchInput])
+
+  const fetchSessions = useCallback(async (pageToLoad: number) => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams({ page: String(pageToLoad), limit: String(PAGE_SIZE) })
+      if (search) params.set('q', search)
+      if (showArchived) params.set('archived', 'true')
+
+      const response = await fetch(`/api/chat/sessions?${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setSessions(prev => pageToLoad === 1 ? data.sessions : [...prev, ...data.sessions])
+        setPage(pageToLoad)
+        setHasNext(data.pagination.hasNext)
+      }
+    } catch (error) {
+      console.error('Error fetching chats:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [search, showArchived])
+
+  // refreshKey changes when the parent wants the list reloaded
+  useEffect(() => {
+    fetchSessions(1)
+  }, [fetchSessions, refreshKey])
+
+  const updateSession = async (sessionId: string, update: { title?: string; archived?: boolean }) => {
+    try {
+      const response = await fetch(`/api/chat/sessions/${sessionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update)
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        alert(data.message || 'Failed to update chat')
+        return
+      }
+
+      if (update.archived !== undefined && !search) {
+        // It now belongs to the other list
+        setSessions(prev => prev.filter(session => session.id !== sessionId))
+      } else {
+        setSessions(prev => prev.map(session => session.id === sessionId ? { ...session, ...data.session } : session))
+      }
+    } catch (error) {
+      console.error('Error updating chat:', error)
+    }
+  }
+
+  const saveTitle = async (sessionId: string) => {
+    if (editTitle.trim()) {
+      await updateSession(sessionId, { title: editTitle })
+    }
+    setEditingId(null)
+  }
+
+  const deleteSession = async (sessionId: string) => {
+    if (!confirm('Delete this chat? This cannot be undone.')) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/chat/sessions/${sessionId}`, { method: 'DELETE' })
+      if (response.ok) {
+        setSessions(prev => prev.filter(session => session.id !== sessionId))
+        onDeleted(sessionId)
+      }
+    } catch (error) {
+      console.error('Error deleting chat:', error)
+    }
+  }
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })
+  }
+
+  return (
+    <aside className="fixed top-[73px] bottom-0 left-0 z-40 w-80 max-w-full bg-white border-r border-slate-200 shadow-lg flex flex-col">
+      <div className="p-4 space-y-3 border-b border-slate-100">
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold text-slate-900">Your chats</h2>
+          <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close chats">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+        <Button
+          onClick={onNewChat}
+          className="w-full bg-gradient-to-r from-emerald-500 to-teal-500 hover:from-emerald-600 hover:to-teal-600"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          New chat
+        </Button>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-4 h-4" />
+          <Input
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search your chats..."
+            className="pl-10"
+          />
+        </div>
+        {!search && (
+          <div className="flex space-x-2 text-sm">
+            <button
+              onClick={() => setShowArchived(false)}
+              className={`px-3 py-1 rounded-full ${!showArchived ? 'bg-emerald-100 text-emerald-700' : 'text-slate-600 hover:bg-slate-100'}`}
+            >
+              Active
+            </button>
+            <button
+              onClick={() => setShowArchived(true)}
+              className={`px-3 py-1 rounded-full ${showArchived ? 'bg-emerald-100 text-emerald-700' : 'text-slate-600 hover:bg-slate-100'}`}
+            >
+              Archived
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {sessions.map(chat => (
+          <div
+            key={chat.id}
+            className={`group rounded-lg p-3 cursor-pointer ${chat.id === activeSessionId ? 'bg-emerald-50 border border-emerald-200' : 'hover:bg-slate-50'}`}
+            onClick={() => editingId !== chat.id && onSelect(chat.id)}
+          >
+            {editingId === chat.id ? (
+              <div className="flex items-center space-x-1" onClick={(e) => e.stopPropagation()}>
+                <Input
+                  value={editTitle}
+                  onChange={(e) => setEditTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') saveTitle(chat.id)
+                    if (e.key === 'Escape') setEditingId(null)
+                  }}
+                  maxLength={CHAT_TITLE_MAX_LENGTH}
+                  autoFocus
+                  className="h-8 text-sm"
+                />
+                <Button variant="ghost" size="sm" onClick={() => saveTitle(chat.id)} aria-label="Save title">
+                  <Check className="w-4 h-4" />
+                </Button>
+              </div>
+            ) : (
+              <div className="flex items-start justify-between">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-slate-900 truncate">{chat.title}</p>
+                  <p className="text-xs text-slate-500">
+                    {formatDate(chat.lastActivity)} · {chat.messageCount} messages{chat.archived && search ? ' · Archived' : ''}
+                  </p>
+                </div>
+                <div className="flex items-center opacity-0 group-hover:opacity-100" onClick={(e) => e.stopPropagation()}>
+                  <button
+                    onClick={() => {
+                      setEditingId(chat.id)
+                      setEditTitle(chat.title)
+                    }}
+                    className="p-1 text-slate-400 hover:text-slate-700"
+                    aria-label="Rename chat"
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => updateSession(chat.id, { archived: !chat.archived })}
+                    className="p-1 text-slate-400 hover:text-slate-700"
+                    aria-label={chat.archived ? 'Unarchive chat' : 'Archive chat'}
+                  >
+                    {chat.archived ? <ArchiveRestore className="w-3.5 h-3.5" /> : <Archive className="w-3.5 h-3.5" />}
+                  </button>
+                  <button
+                    onClick={() => deleteSession(chat.id)}
+                    className="p-1 text-slate-400 hover:text-red-600"
+                    aria-label="Delete chat"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {chat.matches?.map((match, i) => (
+              <p key={i} className="mt-1 text-xs text-slate-600 line-clamp-2">
+                <span className="font-medium">{match.role === 'user' ? 'You' : 'Arogya'}:</span> {match.snippet}
+              </p>
+            ))}
+          </div>
+        ))}
+
+        {!isLoading && sessions.length === 0 && (
+          <p className="p-4 text-sm text-center text-slate-500">
+            {search ? 'No chats match your search' : showArchived ? 'No archived chats' : 'No chats yet'}
+          </p>
+        )}
+
+        {hasNext && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={() => fetchSessions(page + 1)}
+            disabled={isLoading}
+          >
+            {isLoading ? 'Loading...' : 'Load more'}
+          </Button>
+        )}
+      </div>
+    </aside>
+  )
+}
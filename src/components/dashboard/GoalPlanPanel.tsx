@@ -0,0 +1,245 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { formatWeight, kgToPounds, UnitSystem } from '@/lib/units'
+import { AlertTriangle, CalendarCheck, Flame } from 'lucide-react'
+
+interface GoalPlanWeek {
+  week: number
+  date: string
+  weight: number
+  bodyFatPercentage: number | null
+  tdee: number
+  calorieTarget: number
+}
+
+interface GoalPlan {
+  direction: 'lose' | 'gain' | 'maintain'
+  startWeight: number
+  targetWeight: number
+  targetBodyFat: number | null
+  weeklyRate: number
+  dailyCalorieAdjustment: number
+  totalWeeks: number
+  estimatedCompletionDate: string
+  weeks: GoalPlanWeek[]
+  warnings: { code: string; message: string }[]
+  isSafe: boolean
+}
+
+// Show a milestone roughly every month of the plan
+const MILESTONE_INTERVAL = 4
+
+type TargetType = 'weight' | 'bodyFat'
+
+interface GoalPlanResponse {
+  success: boolean
+  plan?: GoalPlan
+  unitSystem?: UnitSystem
+  targetType?: TargetType
+  message?: string
+}
+
+export default function GoalPlanPanel() {
+  const [plan, setPlan] = useState<GoalPlan | null>(null)
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>('metric')
+  const [message, setMessage] = useState('')
+  const [targetType, setTargetType] = useState<TargetType>('weight')
+  const [targetWeight, setTargetWeight] = useState('')
+  const [targetBodyFat, setTargetBodyFat] = useState('')
+  const [weeklyRate, setWeeklyRate] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const applyResponse = useCallback((data: GoalPlanResponse) => {
+    if (data.success && data.plan) {
+      const units = data.unitSystem || 'metric'
+      const toDisplay = (kg: number) => units === 'imperial' ? Math.round(kgToPounds(kg) * 10) / 10 : kg
+      setPlan(data.plan)
+      setUnitSystem(units)
+      setTargetType(data.targetType || 'weight')
+      setTargetWeight(String(toDisplay(data.plan.targetWeight)))
+      setTargetBodyFat(data.plan.targetBodyFat !== null ? String(data.plan.targetBodyFat) : '')
+      setWeeklyRate(data.plan.weeklyRate ? String(toDisplay(data.plan.weeklyRate)) : '')
+      setMessage('')
+    } else {
+      setPlan(null)
+      setMessage(data.message || 'Unable to build your plan')
+    }
+  }, [])
+
+  const fetchPlan = useCallback(async () => {
+    try {
+      const response = await fetch('/api/goals/plan')
+      applyResponse(await response.json())
+    } catch (error) {
+      console.error('Failed to fetch goal plan:', error)
+    }
+  }, [applyResponse])
+
+  useEffect(() => {
+    fetchPlan()
+  }, [fetchPlan])
+
+  const savePlan = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch('/api/goals/plan', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(targetType === 'weight'
+            ? { targetWeight: parseFloat(targetWeight) }
+            : { targetBodyFat: parseFloat(targetBodyFat) }),
+          ...(weeklyRate && { weeklyRate: parseFloat(weeklyRate) })
+        })
+      })
+      applyResponse(await response.json())
+    } catch (error) {
+      console.error('Failed to save goal plan:', error)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const weightUnit = unitSystem === 'imperial' ? 'lb' : 'kg'
+  const milestones = plan
+    ? plan.weeks.filter((week, index) =>
+        week.week > 0 && (week.week % MILESTONE_INTERVAL === 0 || index === plan.weeks.length - 1)
+      )
+    : []
+
+  return (
+    <div className="space-y-4">
+      {plan && (
+        <>
+          <div className="bg-gradient-to-r from-emerald-50 to-teal-50 p-4 rounded-xl border border-emerald-100">
+            <div className="flex items-center mb-1">
+              <CalendarCheck className="w-5 h-5 mr-2 text-emerald-600" />
+              <span className="font-semibold text-slate-900">
+                {plan.direction === 'maintain'
+                  ? `You're at your target of ${formatWeight(plan.targetWeight, unitSystem)}`
+                  : `You reach ${formatWeight(plan.targetWeight, unitSystem)} around ${formatDate(plan.estimatedCompletionDate)}`}
+              </span>
+            </div>
+            {plan.direction !== 'maintain' && (
+              <p className="text-sm text-slate-600">
+                {plan.direction === 'lose' ? 'Losing' : 'Gaining'} {formatWeight(plan.weeklyRate, unitSystem)} a week
+                over {plan.totalWeeks} weeks
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center text-sm text-slate-700">
+            <Flame className="w-4 h-4 mr-2 text-orange-500" />
+            Aim for about <span className="font-semibold mx-1">{plan.weeks[0].calorieTarget} kcal</span> a day
+            ({plan.dailyCalorieAdjustment > 0 ? '+' : ''}{plan.dailyCalorieAdjustment} kcal vs maintenance)
+          </div>
+
+          {plan.warnings.length > 0 && (
+            <div className="bg-orange-50 border border-orange-200 rounded-xl p-3 space-y-1">
+              {plan.warnings.map(warning => (
+                <div key={warning.code} className="flex items-start text-sm text-orange-700">
+                  <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                  {warning.message}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {milestones.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500">
+                    <th className="py-1 font-medium">Week</th>
+                    <th className="py-1 font-medium">Date</th>
+                    <th className="py-1 font-medium">Weight</th>
+                    <th className="py-1 font-medium">Body Fat</th>
+                    <th className="py-1 font-medium">Calories</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {milestones.map(week => (
+                    <tr key={week.week} className="border-t border-slate-100 text-slate-700">
+                      <td className="py-1">{week.week}</td>
+                      <td className="py-1">{formatDate(week.date)}</td>
+                      <td className="py-1">{formatWeight(week.weight, unitSystem)}</td>
+                      <td className="py-1">{week.bodyFatPercentage !== null ? `${week.bodyFatPercentage}%` : '-'}</td>
+                      <td className="py-1">{week.calorieTarget}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+
+      {!plan && message && (
+        <p className="text-sm text-slate-600">{message}</p>
+      )}
+
+      <div className="flex space-x-2 text-sm">
+        {(['weight', 'bodyFat'] as TargetType[]).map(type => (
+          <button
+            key={type}
+            onClick={() => setTargetType(type)}
+            className={`px-3 py-1 rounded-full ${targetType === type ? 'bg-emerald-100 text-emerald-700' : 'text-slate-600 hover:bg-slate-100'}`}
+          >
+            {type === 'weight' ? 'Target weight' : 'Target body fat'}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {targetType === 'weight' ? (
+          <div>
+            <label className="block text-xs font-medium text-slate-600 mb-1">
+              Target weight ({weightUnit})
+            </label>
+            <Input
+              type="number"
+              value={targetWeight}
+              onChange={(e) => setTargetWeight(e.target.value)}
+              placeholder="e.g. 72"
+            />
+          </div>
+        ) : (
+          <div>
+            <label className="block text-xs font-medium text-slate-600 mb-1">
+              Target body fat (%)
+            </label>
+            <Input
+              type="number"
+              value={targetBodyFat}
+              onChange={(e) => setTargetBodyFat(e.target.value)}
+              placeholder="e.g. 18"
+              step={0.5}
+            />
+          </div>
+        )}
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1">
+            Per week ({weightUnit})
+          </label>
+          <Input
+            type="number"
+            value={weeklyRate}
+            onChange={(e) => setWeeklyRate(e.target.value)}
+            placeholder={unitSystem === 'imperial' ? '1' : '0.5'}
+            step={0.1}
+          />
+        </div>
+      </div>
+      <Button className="w-full" variant="outline" onClick={savePlan} disabled={!(targetType === 'weight' ? targetWeight : targetBodyFat) || isSaving}>
+        {isSaving ? 'Updating...' : 'Update Goal'}
+      </Button>
+    </div>
+  )
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-IN', { day: 'numeric', month: 'long' })
+}
@@ -0,0 +1,118 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { DisplayMeasurements } from '@/lib/units'
+
+interface MeasurementFormProps {
+  // The latest readings in the user's units, to start from
+  current: DisplayMeasurements
+  gender: 'male' | 'female'
+  onSaved: () => void
+  onCancel: () => void
+}
+
+type Field = 'height' | 'weight' | 'waist' | 'neck' | 'hip'
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+export default function MeasurementForm({ current, gender, onSaved, onCancel }: MeasurementFormProps) {
+  const [values, setValues] = useState<Record<Field, string>>({
+    height: current.height ? String(current.height) : '',
+    weight: current.weight ? String(current.weight) : '',
+    waist: current.waist ? String(current.waist) : '',
+    neck: current.neck ? String(current.neck) : '',
+    hip: current.hip ? String(current.hip) : ''
+  })
+  const [measuredOn, setMeasuredOn] = useState(today())
+  const [errors, setErrors] = useState<string[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+
+  const fields: { field: Field; label: string; unit: string }[] = [
+    { field: 'height', label: 'Height', unit: current.lengthUnit },
+    { field: 'weight', label: 'Weight', unit: current.weightUnit },
+    { field: 'waist', label: 'Waist', unit: current.lengthUnit },
+    { field: 'neck', label: 'Neck', unit: current.lengthUnit },
+    ...(gender === 'female' ? [{ field: 'hip' as const, label: 'Hip', unit: current.lengthUnit }] : [])
+  ]
+
+  const save = async () => {
+    setIsSaving(true)
+    setErrors([])
+    try {
+      const response = await fetch('/api/measurements', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          unitSystem: current.unitSystem,
+          measuredAt: measuredOn === today() ? undefined : measuredOn,
+          ...Object.fromEntries(
+            fields.filter(({ field }) => values[field]).map(({ field }) => [field, parseFloat(values[field])])
+          )
+        })
+      })
+      const data = await response.json()
+      if (response.ok) {
+        onSaved()
+      } else {
+        setErrors(data.errors || [data.message || 'Failed to save measurement'])
+      }
+    } catch (error) {
+      console.error('Failed to save measurement:', error)
+      setErrors(['Failed to save measurement'])
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4 text-left">
+      <div className="grid grid-cols-2 gap-3">
+        {fields.map(({ field, label, unit }) => (
+          <div key={field}>
+            <label className="block text-xs font-medium text-slate-600 mb-1">
+              {label} ({unit})
+            </label>
+            <Input
+              type="number"
+              value={values[field]}
+              onChange={(e) => setValues(prev => ({ ...prev, [field]: e.target.value }))}
+              step={0.1}
+            />
+          </div>
+        ))}
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1">
+            Measured on
+          </label>
+          <Input
+            type="date"
+            value={measuredOn}
+            onChange={(e) => setMeasuredOn(e.target.value)}
+            max={today()}
+          />
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-600 space-y-1">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <Button variant="outline" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button
+          onClick={save}
+          disabled={isSaving || fields.some(({ field }) => !values[field])}
+          className="bg-gradient-to-r from-emerald-500 to-teal-500"
+        >
+          {isSaving ? 'Saving...' : 'Save Measurement'}
+        </Button>
+      </div>
+    </div>
+  )
+}
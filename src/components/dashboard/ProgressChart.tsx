@@ -0,0 +1,138 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { UnitSystem } from '@/lib/units'
+
+export interface ProgressPoint {
+  measuredAt: string
+  weight: number
+  bodyFatPercentage: number
+}
+
+interface ProgressChartProps {
+  points: ProgressPoint[]
+  height?: number
+  unitSystem?: UnitSystem // the units the points' weights are in
+}
+
+type Metric = 'bodyFatPercentage' | 'weight'
+
+const METRICS: Record<Metric, { label: string; color: string }> = {
+  bodyFatPercentage: { label: 'Body Fat', color: '#10b981' },
+  weight: { label: 'Weight', color: '#3b82f6' }
+}
+
+const WIDTH = 600
+const PADDING = 32
+
+export default function ProgressChart({ points, height = 220, unitSystem = 'metric' }: ProgressChartProps) {
+  const [metric, setMetric] = useState<Metric>('bodyFatPercentage')
+
+  // Oldest first so the line reads left to right
+  const sorted = useMemo(
+    () => [...points].sort((a, b) => new Date(a.measuredAt).getTime() - new Date(b.measuredAt).getTime()),
+    [points]
+  )
+
+  const values = sorted.map(point => point[metric])
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const range = max - min || 1
+  const first = values[0]
+  const last = values[values.length - 1]
+  const change = Math.round((last - first) * 10) / 10
+
+  const coordinates = sorted.map((point, index) => ({
+    x: sorted.length === 1
+      ? WIDTH / 2
+      : PADDING + (index / (sorted.length - 1)) * (WIDTH - PADDING * 2),
+    y: PADDING + (1 - (point[metric] - min) / range) * (height - PADDING * 2),
+    point
+  }))
+
+  const path = coordinates
+    .map(({ x, y }, index) => `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`)
+    .join(' ')
+
+  const { label, color } = METRICS[metric]
+  const unit = metric === 'weight' ? (unitSystem === 'imperial' ? 'lb' : 'kg') : '%'
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex space-x-2">
+          {(Object.keys(METRICS) as Metric[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setMetric(key)}
+              className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                metric === key
+                  ? 'bg-emerald-100 text-emerald-700'
+                  : 'text-slate-600 hover:bg-slate-100'
+              }`}
+            >
+              {METRICS[key].label}
+            </button>
+          ))}
+        </div>
+        {sorted.length > 1 && (
+          <span className={`text-sm font-medium ${change <= 0 ? 'text-emerald-600' : 'text-orange-600'}`}>
+            {change > 0 ? '+' : ''}{change}{unit} since {formatShortDate(sorted[0].measuredAt)}
+          </span>
+        )}
+      </div>
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full"
+        role="img"
+        aria-label={`${label} over time`}
+      >
+        <line
+          x1={PADDING}
+          y1={height - PADDING}
+          x2={WIDTH - PADDING}
+          y2={height - PADDING}
+          stroke="#e2e8f0"
+        />
+        <text x={4} y={PADDING + 4} className="fill-slate-400" fontSize="11">
+          {max}{unit}
+        </text>
+        <text x={4} y={height - PADDING + 4} className="fill-slate-400" fontSize="11">
+          {min}{unit}
+        </text>
+
+        <path d={path} fill="none" stroke={color} strokeWidth={2.5} strokeLinejoin="round" />
+
+        {coordinates.map(({ x, y, point }) => (
+          <circle key={point.measuredAt} cx={x} cy={y} r={4} fill="white" stroke={color} strokeWidth={2}>
+            <title>{`${formatShortDate(point.measuredAt)}: ${point[metric]}${unit}`}</title>
+          </circle>
+        ))}
+
+        {coordinates.length > 0 && (
+          <>
+            <text x={coordinates[0].x} y={height - 8} textAnchor="middle" className="fill-slate-500" fontSize="11">
+              {formatShortDate(coordinates[0].point.measuredAt)}
+            </text>
+            {coordinates.length > 1 && (
+              <text
+                x={coordinates[coordinates.length - 1].x}
+                y={height - 8}
+                textAnchor="middle"
+                className="fill-slate-500"
+                fontSize="11"
+              >
+                {formatShortDate(coordinates[coordinates.length - 1].point.measuredAt)}
+              </text>
+            )}
+          </>
+        )}
+      </svg>
+    </div>
+  )
+}
+
+function formatShortDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })
+}
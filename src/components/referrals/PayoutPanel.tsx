@@ -0,0 +1,194 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Wallet } from 'lucide-react'
+
+interface ReferralPayout {
+  _id: string
+  amount: number
+  vpa: string
+  status: 'requested' | 'approved' | 'processing' | 'paid' | 'rejected' | 'failed'
+  rejectionReason?: string
+  failureReason?: string
+  createdAt: string
+}
+
+interface PayoutInfo {
+  vpa: string | null
+  minimumAmount: number
+  balance: {
+    availableBalance: number
+    pendingEarnings: number
+  }
+  payouts: ReferralPayout[]
+}
+
+const STATUS_LABELS: Record<ReferralPayout['status'], string> = {
+  requested: 'Under review',
+  approved: 'Approved',
+  processing: 'Processing',
+  paid: 'Paid',
+  rejected: 'Rejected',
+  failed: 'Failed'
+}
+
+export default function PayoutPanel() {
+  const [info, setInfo] = useState<PayoutInfo | null>(null)
+  const [vpa, setVpa] = useState('')
+  const [editingVpa, setEditingVpa] = useState(false)
+  const [amount, setAmount] = useState('')
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadPayouts = async () => {
+    try {
+      const response = await fetch('/api/referrals/payouts')
+      if (response.ok) {
+        const data = await response.json()
+        setInfo(data)
+        setVpa(data.vpa || '')
+      }
+    } catch (error) {
+      console.error('Failed to fetch withdrawals:', error)
+    }
+  }
+
+  useEffect(() => {
+    loadPayouts()
+  }, [])
+
+  const saveVpa = async () => {
+    setIsSaving(true)
+    setError('')
+    try {
+      const response = await fetch('/api/referrals/vpa', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ vpa })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to save UPI ID')
+      }
+      setEditingVpa(false)
+      setInfo(prev => prev && { ...prev, vpa: data.vpa })
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save UPI ID')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const requestWithdrawal = async () => {
+    setIsSaving(true)
+    setError('')
+    setMessage('')
+    try {
+      const response = await fetch('/api/referrals/payouts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ amount: Number(amount) })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to request withdrawal')
+      }
+      setMessage(data.message)
+      setAmount('')
+      await loadPayouts()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to request withdrawal')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (!info) {
+    return null
+  }
+
+  const { availableBalance, pendingEarnings } = info.balance
+  const canWithdraw = !!info.vpa && availableBalance >= info.minimumAmount
+
+  return (
+    <Card className="shadow-xl mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Wallet className="w-5 h-5 mr-2 text-emerald-600" />
+          Withdraw Earnings
+        </CardTitle>
+        <CardDescription>
+          ₹{availableBalance} available to withdraw to UPI
+          {pendingEarnings > 0 && `, ₹${pendingEarnings} becomes available after the 7-day refund window`}.
+          Minimum withdrawal is ₹{info.minimumAmount}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {info.vpa && !editingVpa ? (
+          <div className="flex items-center justify-between p-3 bg-slate-50 rounded-lg">
+            <div>
+              <p className="text-sm text-slate-600">Paid to</p>
+              <p className="font-mono text-slate-900">{info.vpa}</p>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setEditingVpa(true)}>
+              Change
+            </Button>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <Input
+              value={vpa}
+              onChange={(e) => setVpa(e.target.value)}
+              placeholder="yourname@okhdfcbank"
+            />
+            <Button onClick={saveVpa} disabled={isSaving || !vpa.trim()}>
+              Save UPI ID
+            </Button>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            min={info.minimumAmount}
+            max={Math.floor(availableBalance)}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder={`Amount (min ₹${info.minimumAmount})`}
+            disabled={!canWithdraw}
+          />
+          <Button onClick={requestWithdrawal} disabled={isSaving || !canWithdraw || !amount}>
+            Withdraw
+          </Button>
+        </div>
+
+        {message && <p className="text-sm text-emerald-600">{message}</p>}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {info.payouts.length > 0 && (
+          <div className="space-y-2 pt-2">
+            <p className="text-sm font-semibold text-slate-700">Your withdrawals</p>
+            {info.payouts.map(payout => (
+              <div key={payout._id} className="flex items-center justify-between text-sm p-2 border border-slate-100 rounded-lg">
+                <div>
+                  <p className="text-slate-900">₹{payout.amount} to {payout.vpa}</p>
+                  <p className="text-xs text-slate-500">{new Date(payout.createdAt).toLocaleDateString('en-IN')}</p>
+                  {(payout.rejectionReason || payout.failureReason) && (
+                    <p className="text-xs text-red-600">{payout.rejectionReason || payout.failureReason}</p>
+                  )}
+                </div>
+                <span className={payout.status === 'paid' ? 'text-green-600' : ['rejected', 'failed'].includes(payout.status) ? 'text-red-600' : 'text-orange-600'}>
+                  {STATUS_LABELS[payout.status]}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
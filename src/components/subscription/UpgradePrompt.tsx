@@ -0,0 +1,67 @@
+'use client'
+
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Crown, X } from 'lucide-react'
+
+// Shape of the `upgrade` object in 402 responses from entitlement-checked routes
+export interface UpgradeDetails {
+  feature: string
+  reason: 'no_subscription' | 'expired' | 'not_included' | 'quota_exceeded'
+  currentPlan: string
+  requiredPlan: string | null
+  limit: number | null
+  used: number
+  expiresAt: string | null
+  upgradeUrl: string
+}
+
+interface UpgradePromptProps {
+  message: string
+  upgrade: UpgradeDetails
+  onDismiss?: () => void
+}
+
+const PLAN_NAMES: Record<string, string> = {
+  basic: 'Personal Analysis',
+  family: 'Family Plan',
+  premium: 'Premium Care'
+}
+
+export default function UpgradePrompt({ message, upgrade, onDismiss }: UpgradePromptProps) {
+  const actionLabel = upgrade.reason === 'expired'
+    ? 'Renew Subscription'
+    : upgrade.requiredPlan
+      ? `Upgrade to ${PLAN_NAMES[upgrade.requiredPlan] || upgrade.requiredPlan}`
+      : 'View Plans'
+
+  return (
+    <div className="relative bg-gradient-to-r from-amber-50 to-orange-50 border border-amber-200 rounded-xl p-4">
+      {onDismiss && (
+        <button
+          onClick={onDismiss}
+          className="absolute top-3 right-3 text-amber-600 hover:text-amber-800"
+          aria-label="Dismiss"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      )}
+      <div className="flex items-start">
+        <Crown className="w-5 h-5 mr-3 mt-0.5 text-amber-600 flex-shrink-0" />
+        <div className="space-y-3">
+          <p className="text-sm text-amber-900">{message}</p>
+          {upgrade.limit !== null && upgrade.reason === 'quota_exceeded' && (
+            <p className="text-xs text-amber-700">
+              Used {upgrade.used} of {upgrade.limit}
+            </p>
+          )}
+          <Link href={upgrade.upgradeUrl}>
+            <Button size="sm" className="bg-gradient-to-r from-amber-500 to-orange-500">
+              {actionLabel}
+            </Button>
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -4,6 +4,7 @@ import { useEffect, useCallback, useRef } from 'react'
 import { usePathname, useSearchParams } from 'next/navigation'
 import { useSession } from 'next-auth/react'
 import { analytics, conversionTracker, type AnalyticsEvent, type ConversionEvent } from '@/lib/analytics'
+import type { BodyFatMethodId } from '@/lib/body-fat-methods'
 
 // Hook for basic analytics tracking
 export function useAnalytics() {
@@ -69,7 +70,7 @@ export function useConversionTracking() {
     conversionTracker.trackPayment(transactionId, amount, currency)
   }, [])
 
-  const trackCalculation = useCallback((accuracy: number, method: 'navy' | 'ymca' | 'custom') => {
+  const trackCalculation = useCallback((accuracy: number, method: BodyFatMethodId | 'custom') => {
     conversionTracker.trackCalculation(accuracy, method)
   }, [])
 
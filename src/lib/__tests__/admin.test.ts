@@ -0,0 +1,20 @@
+import { isAdminEmail } from '../admin'
+
+describe('isAdminEmail', () => {
+  const env = { ADMIN_EMAILS: 'ops@fitxgen.com, Finance@FitXGen.com' }
+
+  it('allows emails on the allowlist, ignoring case and spacing', () => {
+    expect(isAdminEmail('ops@fitxgen.com', env)).toBe(true)
+    expect(isAdminEmail('finance@fitxgen.com', env)).toBe(true)
+  })
+
+  it('rejects everyone else', () => {
+    expect(isAdminEmail('admin@fitxgen.com', env)).toBe(false)
+    expect(isAdminEmail(undefined, env)).toBe(false)
+  })
+
+  it('has no admins when the allowlist is unset', () => {
+    expect(isAdminEmail('ops@fitxgen.com', {})).toBe(false)
+    expect(isAdminEmail('', { ADMIN_EMAILS: '' })).toBe(false)
+  })
+})
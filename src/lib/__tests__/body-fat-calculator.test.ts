@@ -1,6 +1,7 @@
 import { 
   calculateBodyFat, 
   validateMeasurements, 
+  validateSkinfolds,
   calculateBMR,
   calculateTDEE,
   type MeasurementData,
@@ -228,6 +229,24 @@ describe('Body Fat Calculator', () => {
     })
   })
 
+  describe('validateSkinfolds', () => {
+    it('accepts positive readings at known sites', () => {
+      expect(validateSkinfolds({ chest: 12, abdomen: 20.5, thigh: 15 })).toEqual([])
+    })
+
+    it('rejects strings, zero and non-finite readings', () => {
+      const errors = validateSkinfolds({ chest: '12', abdomen: 0, thigh: Infinity, triceps: -3 })
+      expect(errors).toHaveLength(4)
+      expect(errors[0]).toContain('chest')
+    })
+
+    it('rejects unknown sites and non-objects', () => {
+      expect(validateSkinfolds({ calf: 10 })).toEqual(['Unknown skinfold site: calf'])
+      expect(validateSkinfolds('12,20,15')).toHaveLength(1)
+      expect(validateSkinfolds([12, 20, 15])).toHaveLength(1)
+    })
+  })
+
   describe('calculateBMR', () => {
     it('calculates BMR for males correctly', () => {
       const bmr = calculateBMR(80, 180, 30, 'male')
@@ -0,0 +1,101 @@
+import {
+  BodyFatCategory,
+  CLASSIFICATION_VERSION,
+  HealthStatus,
+  classifyBodyFat,
+  getAgeBand,
+  getBodyFatCategory,
+  getCategoryRanges,
+  getCategoryRecommendations,
+  getHealthStatus,
+  isBodyFatCategory
+} from '../body-fat-classification'
+import { calculateBodyFat } from '../body-fat-calculator'
+
+describe('Body Fat Classification', () => {
+  describe('getAgeBand', () => {
+    it('groups adults by decade', () => {
+      expect(getAgeBand(18)).toBe('20-29')
+      expect(getAgeBand(29)).toBe('20-29')
+      expect(getAgeBand(30)).toBe('30-39')
+      expect(getAgeBand(45)).toBe('40-49')
+      expect(getAgeBand(59)).toBe('50-59')
+      expect(getAgeBand(72)).toBe('60+')
+    })
+  })
+
+  describe('getCategoryRanges', () => {
+    it('returns contiguous ranges ending in an open obese band', () => {
+      const ranges = getCategoryRanges('male', 25)
+      expect(ranges.map(range => range.category)).toEqual([
+        BodyFatCategory.Essential,
+        BodyFatCategory.Athletic,
+        BodyFatCategory.Fitness,
+        BodyFatCategory.Average,
+        BodyFatCategory.Obese
+      ])
+      ranges.slice(1).forEach((range, index) => {
+        expect(range.min).toBe(ranges[index].max)
+      })
+      expect(ranges[4].max).toBeNull()
+    })
+  })
+
+  describe('getBodyFatCategory', () => {
+    it('shifts the bands with each decade', () => {
+      expect(getBodyFatCategory(19, 'male', 25)).toBe(BodyFatCategory.Average)
+      expect(getBodyFatCategory(19, 'male', 35)).toBe(BodyFatCategory.Fitness)
+      expect(getBodyFatCategory(27, 'male', 45)).toBe(BodyFatCategory.Average)
+      expect(getBodyFatCategory(27, 'male', 25)).toBe(BodyFatCategory.Obese)
+    })
+
+    it('uses sex-specific ranges', () => {
+      expect(getBodyFatCategory(22, 'female', 25)).toBe(BodyFatCategory.Fitness)
+      expect(getBodyFatCategory(22, 'male', 25)).toBe(BodyFatCategory.Average)
+      expect(getBodyFatCategory(12, 'female', 25)).toBe(BodyFatCategory.Essential)
+    })
+  })
+
+  describe('getHealthStatus', () => {
+    it('maps categories onto a single status scale', () => {
+      expect(getHealthStatus(10, 'male', 25)).toBe(HealthStatus.Excellent)
+      expect(getHealthStatus(16, 'male', 25)).toBe(HealthStatus.Good)
+      expect(getHealthStatus(22, 'male', 25)).toBe(HealthStatus.Fair)
+      expect(getHealthStatus(28, 'male', 25)).toBe(HealthStatus.Poor)
+      expect(getHealthStatus(40, 'male', 25)).toBe(HealthStatus.VeryPoor)
+    })
+
+    it('treats readings well below essential fat as very poor', () => {
+      expect(getHealthStatus(12, 'female', 30)).toBe(HealthStatus.Poor)
+      expect(getHealthStatus(10, 'female', 30)).toBe(HealthStatus.VeryPoor)
+    })
+  })
+
+  describe('classifyBodyFat', () => {
+    it('stamps the current classification version', () => {
+      const classification = classifyBodyFat(14, 'male', 30)
+      expect(classification.version).toBe(CLASSIFICATION_VERSION)
+      expect(classification.ageBand).toBe('30-39')
+      expect(classification.category).toBe(BodyFatCategory.Athletic)
+    })
+
+    it('is the classification used by the calculator', () => {
+      const result = calculateBodyFat({ age: 30, gender: 'male', height: 180, weight: 80, neck: 40, waist: 85 })
+      const classification = classifyBodyFat(result.bodyFatPercentage, 'male', 30)
+      expect(result.category).toBe(classification.category)
+      expect(result.healthStatus).toBe(classification.healthStatus)
+      expect(result.classificationVersion).toBe(CLASSIFICATION_VERSION)
+    })
+  })
+
+  it('has headline recommendations for every category', () => {
+    Object.values(BodyFatCategory).forEach(category => {
+      expect(getCategoryRecommendations(category).length).toBeGreaterThan(0)
+    })
+  })
+
+  it('recognises category values', () => {
+    expect(isBodyFatCategory('Essential Fat')).toBe(true)
+    expect(isBodyFatCategory('athletes')).toBe(false)
+  })
+})
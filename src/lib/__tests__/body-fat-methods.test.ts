@@ -0,0 +1,140 @@
+import {
+  BODY_FAT_METHODS,
+  estimateAllMethods,
+  getBodyFatMethod,
+  getConsensusBodyFat,
+  isBodyFatMethodId,
+  type BodyFatEstimate
+} from '../body-fat-methods'
+import { calculateBodyFat, type MeasurementData } from '../body-fat-calculator'
+
+describe('Body Fat Methods', () => {
+  const maleData: MeasurementData = {
+    age: 30,
+    height: 180,
+    weight: 80,
+    neck: 40,
+    waist: 85,
+    gender: 'male'
+  }
+
+  const femaleData: MeasurementData = {
+    age: 28,
+    height: 165,
+    weight: 65,
+    neck: 32,
+    waist: 70,
+    hip: 95,
+    gender: 'female'
+  }
+
+  const skinfolds = {
+    chest: 15,
+    abdomen: 25,
+    thigh: 20,
+    triceps: 12,
+    suprailiac: 18,
+    midaxillary: 14,
+    subscapular: 16
+  }
+
+  describe('individual methods', () => {
+    it('calculates YMCA estimate from waist and weight', () => {
+      expect(BODY_FAT_METHODS.ymca.estimate(maleData)).toBeCloseTo(14.74, 1)
+    })
+
+    it('calculates Deurenberg estimate from BMI, age and sex', () => {
+      expect(BODY_FAT_METHODS.deurenberg.estimate(maleData)).toBeCloseTo(20.33, 1)
+    })
+
+    it('calculates relative fat mass with the female sex term', () => {
+      expect(BODY_FAT_METHODS.rfm.estimate(maleData)).toBeCloseTo(21.65, 1)
+      expect(BODY_FAT_METHODS.rfm.estimate(femaleData)).toBeCloseTo(28.86, 1)
+    })
+
+    it('calculates Jackson-Pollock 3-site using sex-specific sites', () => {
+      const withSkinfolds = { ...maleData, skinfolds }
+      expect(BODY_FAT_METHODS.jacksonPollock3.estimate(withSkinfolds)).toBeCloseTo(17.95, 1)
+    })
+
+    it('calculates Jackson-Pollock 7-site', () => {
+      const withSkinfolds = { ...maleData, skinfolds }
+      expect(BODY_FAT_METHODS.jacksonPollock7.estimate(withSkinfolds)).toBeCloseTo(17.4, 0)
+    })
+
+    it('rejects skinfold methods without caliper readings', () => {
+      expect(BODY_FAT_METHODS.jacksonPollock3.isApplicable(maleData)).toBe(false)
+      expect(() => BODY_FAT_METHODS.jacksonPollock7.estimate(maleData))
+        .toThrow('Jackson-Pollock 7-site requires skinfold measurements')
+    })
+
+    it('treats the Navy method as inapplicable for females without hip', () => {
+      const withoutHip = { ...femaleData, hip: undefined }
+      expect(BODY_FAT_METHODS.navy.isApplicable(withoutHip)).toBe(false)
+    })
+  })
+
+  describe('calculateBodyFat with method option', () => {
+    it('defaults to the Navy method', () => {
+      const result = calculateBodyFat(maleData)
+      expect(result.method).toBe('navy')
+      expect(result.bodyFatPercentage).toBe(14.5)
+    })
+
+    it('uses the requested method', () => {
+      const result = calculateBodyFat(maleData, { method: 'ymca' })
+      expect(result.method).toBe('ymca')
+      expect(result.bodyFatPercentage).toBe(14.7)
+    })
+  })
+
+  describe('estimateAllMethods', () => {
+    it('returns only circumference and BMI methods without skinfolds', () => {
+      const methods = estimateAllMethods(maleData).map(estimate => estimate.method)
+      expect(methods).toEqual(['navy', 'ymca', 'deurenberg', 'rfm'])
+    })
+
+    it('includes skinfold methods when calipers are supplied', () => {
+      const methods = estimateAllMethods({ ...maleData, skinfolds }).map(estimate => estimate.method)
+      expect(methods).toContain('jacksonPollock3')
+      expect(methods).toContain('jacksonPollock7')
+    })
+
+    it('bounds every estimate between 3 and 50', () => {
+      const extreme = { ...maleData, waist: 180, weight: 60 }
+      estimateAllMethods(extreme).forEach(estimate => {
+        expect(estimate.bodyFatPercentage).toBeGreaterThanOrEqual(3)
+        expect(estimate.bodyFatPercentage).toBeLessThanOrEqual(50)
+      })
+    })
+  })
+
+  describe('getConsensusBodyFat', () => {
+    const estimate = (bodyFatPercentage: number): BodyFatEstimate => ({
+      method: 'navy',
+      name: 'US Navy',
+      bodyFatPercentage
+    })
+
+    it('returns the median of an odd number of estimates', () => {
+      expect(getConsensusBodyFat([estimate(14), estimate(30), estimate(16)])).toBe(16)
+    })
+
+    it('averages the middle pair for an even number of estimates', () => {
+      expect(getConsensusBodyFat([estimate(14), estimate(15), estimate(20), estimate(21)])).toBe(17.5)
+    })
+
+    it('returns null when no method applies', () => {
+      expect(getConsensusBodyFat([])).toBeNull()
+    })
+  })
+
+  describe('method lookup', () => {
+    it('recognises supported method ids', () => {
+      expect(isBodyFatMethodId('rfm')).toBe(true)
+      expect(isBodyFatMethodId('bioimpedance')).toBe(false)
+      expect(isBodyFatMethodId('constructor')).toBe(false)
+      expect(getBodyFatMethod('navy').name).toBe('US Navy')
+    })
+  })
+})
@@ -0,0 +1,72 @@
+import { estimateTokens, planChatMemory, unsummarizedWindow } from '../chat-memory'
+
+describe('planChatMemory', () => {
+  // Each message is 100 tokens
+  const conversation = (count: number) =>
+    Array.from({ length: count }, (_, i) => ({
+      role: (i % 2 === 0 ? 'user' : 'assistant') as 'user' | 'assistant',
+      content: `${i}`.padEnd(400, '.')
+    }))
+
+  it('estimates tokens from length', () => {
+    expect(estimateTokens('')).toBe(0)
+    expect(estimateTokens('abcde')).toBe(2)
+  })
+
+  it('sends everything while it fits the budget', () => {
+    const messages = conversation(10)
+    expect(planChatMemory(messages, 0, 2000, 1000)).toEqual({
+      toSummarize: [],
+      recent: messages,
+      summarizedCount: 0
+    })
+  })
+
+  it('summarises older messages down to the target once over budget', () => {
+    const messages = conversation(30)
+    const plan = planChatMemory(messages, 0, 2000, 1000)
+
+    expect(plan.recent).toEqual(messages.slice(20))
+    expect(plan.toSummarize).toEqual(messages.slice(0, 20))
+    expect(plan.summarizedCount).toBe(20)
+  })
+
+  it('skips messages the summary already covers', () => {
+    const messages = conversation(30)
+    const plan = planChatMemory(messages, 20, 2000, 1000)
+    expect(plan).toEqual({ toSummarize: [], recent: messages.slice(20), summarizedCount: 20 })
+  })
+
+  it('starts the recent messages with the user', () => {
+    const messages = conversation(30)
+    const plan = planChatMemory(messages, 0, 2000, 950)
+
+    expect(plan.recent[0].role).toBe('user')
+    expect(plan.toSummarize.length + plan.recent.length).toBe(30)
+  })
+
+  it('keeps the last exchange even when it is over the target', () => {
+    const messages = [
+      { role: 'user' as const, content: 'a'.repeat(4000) },
+      { role: 'assistant' as const, content: 'b'.repeat(4000) },
+      { role: 'user' as const, content: 'c'.repeat(8000) },
+      { role: 'assistant' as const, content: 'd'.repeat(4000) }
+    ]
+    const plan = planChatMemory(messages, 0, 2000, 1000)
+    expect(plan.recent).toEqual(messages.slice(2))
+  })
+
+  it('falls back to the newest messages that fit the budget', () => {
+    const messages = conversation(30)
+    const plan = planChatMemory(messages, 0, 2000, 1000)
+
+    expect(unsummarizedWindow(plan, 2000)).toEqual(messages.slice(10))
+  })
+
+  it('opens the fallback window with the user', () => {
+    const messages = conversation(30)
+    const plan = planChatMemory(messages, 0, 2000, 1000)
+
+    expect(unsummarizedWindow(plan, 1950)).toEqual(messages.slice(12))
+  })
+})
@@ -0,0 +1,116 @@
+import { SafetyCategory, screenAssistantReply, screenUserMessage } from '../chat-safety'
+import { SAFETY_MESSAGES } from '../localized-messages'
+import { ChatLanguage } from '../languages'
+
+describe('screenUserMessage', () => {
+  it.each([
+    ['I have had chest pain since this morning', 'chestPain'],
+    ['Kal raat se seene mein dard hai', 'chestPain'],
+    ['Sometimes I feel like I want to die', 'suicidalIdeation'],
+    ['I have been thinking about ending it all, I might kill myself', 'suicidalIdeation'],
+    ['After dinner I make myself throw up', 'eatingDisorder'],
+    ["I haven't eaten anything for three days to lose weight", 'eatingDisorder'],
+    ["I'm 5 months pregnant, can I do intermittent fasting?", 'pregnancyExtremeDiet'],
+    ['I am pregnant, can I keep a fast for Navratri?', 'pregnancyExtremeDiet'],
+    ['Pregnant and want to lose weight fast with an 800 calories plan', 'pregnancyExtremeDiet']
+  ])('flags "%s" as %s', (message, category) => {
+    expect(screenUserMessage(message)).toEqual({
+      stage: 'input',
+      category,
+      text: message,
+      response: SAFETY_MESSAGES.en[category as SafetyCategory]
+    })
+  })
+
+  it.each([
+    ['hi', 'कल रात से सीने में दर्द हो रहा है', 'chestPain'],
+    ['hi', 'मैं मरना चाहता हूँ', 'suicidalIdeation'],
+    ['hi', 'तीन दिन से कुछ नहीं खाया', 'eatingDisorder'],
+    ['hi', 'मैं गर्भवती हूँ, क्या मैं उपवास रख सकती हूँ?', 'pregnancyExtremeDiet'],
+    ['mr', 'मला छातीत दुखत आहे', 'chestPain'],
+    ['mr', 'मला मरायचं आहे', 'suicidalIdeation'],
+    ['mr', 'तीन दिवसांपासून काहीच खाल्लं नाही', 'eatingDisorder'],
+    ['mr', 'मी गरोदर आहे, उपवास करू का?', 'pregnancyExtremeDiet'],
+    ['ta', 'எனக்கு நெஞ்சு வலி இருக்கிறது', 'chestPain'],
+    ['ta', 'நான் சாக விரும்புகிறேன்', 'suicidalIdeation'],
+    ['ta', 'மூன்று நாட்களாக எதுவும் சாப்பிடவில்லை', 'eatingDisorder'],
+    ['ta', 'நான் கர்ப்பமாக இருக்கிறேன், விரதம் இருக்கலாமா?', 'pregnancyExtremeDiet'],
+    ['te', 'నాకు ఛాతీ నొప్పిగా ఉంది', 'chestPain'],
+    ['te', 'నాకు చనిపోవాలని ఉంది', 'suicidalIdeation'],
+    ['te', 'మూడు రోజులుగా ఏమీ తినలేదు', 'eatingDisorder'],
+    ['te', 'నేను గర్భవతిని, ఉపవాసం ఉండవచ్చా?', 'pregnancyExtremeDiet'],
+    ['bn', 'আমার বুকে ব্যথা হচ্ছে', 'chestPain'],
+    ['bn', 'আমি মরে যেতে চাই', 'suicidalIdeation'],
+    ['bn', 'তিন দিন ধরে কিছু খাইনি', 'eatingDisorder'],
+    ['bn', 'আমি গর্ভবতী, উপোস করতে পারি?', 'pregnancyExtremeDiet']
+  ])('flags %s "%s" as %s and replies in that language', (language, message, category) => {
+    expect(screenUserMessage(message, language as ChatLanguage)).toEqual({
+      stage: 'input',
+      category,
+      text: message,
+      response: SAFETY_MESSAGES[language as ChatLanguage][category as SafetyCategory]
+    })
+  })
+
+  it.each([
+    'What should I eat for breakfast?',
+    'My chest workout left me sore, how do I recover?',
+    'I am pregnant, what should I eat for iron?',
+    'Is intermittent fasting good for weight loss?',
+    'This workout is killing me',
+    'I ate fast food yesterday, my pregnant wife wants tips',
+    'how fast can I run 5k while pregnant',
+    'I am pregnant and eat about 1,800 calories a day, is that enough?',
+    'मैं गर्भवती हूँ, आयरन के लिए क्या खाऊँ?',
+    'நெஞ்சு பயிற்சிக்குப் பிறகு என்ன சாப்பிடலாம்?',
+    'আজ বুকের ব্যায়াম করেছি'
+  ])('lets "%s" through', message => {
+    expect(screenUserMessage(message)).toBeNull()
+  })
+
+  it('puts the most urgent red flag first', () => {
+    expect(screenUserMessage('My chest hurts and I want to die')?.category).toBe('suicidalIdeation')
+  })
+
+  it.each(Object.keys(SAFETY_MESSAGES) as ChatLanguage[])('gives Indian emergency and helpline numbers in %s', language => {
+    const messages = SAFETY_MESSAGES[language]
+    expect(messages.chestPain).toContain('112')
+    expect(messages.suicidalIdeation).toContain('14416')
+    expect(messages.suicidalIdeation).toContain('112')
+    expect(messages.eatingDisorder).toContain('14416')
+  })
+})
+
+describe('screenAssistantReply', () => {
+  it.each([
+    ['Take 2000 mg of metformin with dinner.', 'unsafeDosage'],
+    ['You could double your dose to 4 tablets.', 'unsafeDosage'],
+    ['Vitamin D 60000 IU every week works well.', 'unsafeDosage'],
+    ['You can stop taking your medication once you feel better.', 'unsafeDosage'],
+    ['Take 10 ml of cough syrup every night.', 'unsafeDosage'],
+    ['Try eating 800 calories a day for a month.', 'crashDiet'],
+    ['Stick to 800 calories a day.', 'crashDiet'],
+    ['Keep your daily intake to around 900 for quick results.', 'crashDiet'],
+    ['A water fast for 5 days will reset your metabolism.', 'crashDiet']
+  ])('blocks "%s" as %s', (reply, category) => {
+    expect(screenAssistantReply(reply)?.category).toBe(category)
+  })
+
+  it('replaces the reply in the language of the chat', () => {
+    expect(screenAssistantReply('Take 500 mg of metformin twice daily.', 'hi')?.response).toBe(SAFETY_MESSAGES.hi.unsafeDosage)
+  })
+
+  it.each([
+    'Aim for about 1800 calories a day with plenty of protein.',
+    'Aim for 1,800 calories a day with plenty of protein.',
+    'Keep your daily intake to around 1,600 on rest days.',
+    'Consume 250 ml of buttermilk after lunch.',
+    'Have 1 tablespoon of flaxseed and 200 ml of milk at bedtime.',
+    'This breakfast is around 400 calories.',
+    'Do 3 sets of 12 squats and walk for 30 minutes.',
+    'Please ask your doctor about the right vitamin D dose.',
+    'Intermittent fasting with a 12 hour overnight fast suits many people.'
+  ])('allows "%s"', reply => {
+    expect(screenAssistantReply(reply)).toBeNull()
+  })
+})
@@ -0,0 +1,55 @@
+import {
+  CHAT_TITLE_MAX_LENGTH,
+  cleanGeneratedTitle,
+  fallbackChatTitle,
+  findMessageMatches,
+  validateChatTitle
+} from '../chat-sessions'
+
+describe('chat titles', () => {
+  it('names a chat after the start of its first message', () => {
+    expect(fallbackChatTitle('How much protein do I need?')).toBe('How much protein do I need?')
+    expect(fallbackChatTitle('I want to lose 10 kg before my sister\'s wedding in December, where do I start?'))
+      .toBe('I want to lose 10 kg before my sister\'s wedding…')
+    expect(fallbackChatTitle('   ')).toBe('New chat')
+  })
+
+  it('strips quotes and full stops from generated titles', () => {
+    expect(cleanGeneratedTitle('"Knee-friendly cardio."')).toBe('Knee-friendly cardio')
+    expect(cleanGeneratedTitle('Title: Protein for vegetarians')).toBe('Protein for vegetarians')
+    expect(cleanGeneratedTitle('वज़न कम करने की योजना।')).toBe('वज़न कम करने की योजना')
+    expect(cleanGeneratedTitle(' "" ')).toBeNull()
+  })
+
+  it('validates titles from renames', () => {
+    expect(validateChatTitle('  Diet   plan ')).toEqual({ valid: true, title: 'Diet plan' })
+    expect(validateChatTitle('')).toEqual({ valid: false, message: 'Title is required' })
+    expect(validateChatTitle(42)).toEqual({ valid: false, message: 'Title is required' })
+    expect(validateChatTitle('a'.repeat(CHAT_TITLE_MAX_LENGTH + 1)).valid).toBe(false)
+  })
+})
+
+describe('findMessageMatches', () => {
+  const timestamp = new Date('2026-01-05T08:00:00Z')
+  const messages = [
+    { role: 'user' as const, content: 'Can I eat paneer at night?', timestamp },
+    { role: 'assistant' as const, content: `${'Yes. '.repeat(20)}Paneer is a good source of protein before bed.`, timestamp },
+    { role: 'user' as const, content: 'What about rice?', timestamp }
+  ]
+
+  it('returns snippets around the first matching term, ignoring case', () => {
+    const matches = findMessageMatches(messages, 'PANEER protein')
+
+    expect(matches).toHaveLength(2)
+    expect(matches[0]).toEqual({ role: 'user', snippet: 'Can I eat paneer at night?', timestamp })
+    expect(matches[1].snippet).toMatch(/^….*Paneer is a good source of protein before bed\.$/)
+  })
+
+  it('stops at the limit', () => {
+    expect(findMessageMatches(messages, 'a', 1)).toHaveLength(1)
+  })
+
+  it('matches nothing for an empty query', () => {
+    expect(findMessageMatches(messages, '  ')).toEqual([])
+  })
+})
@@ -0,0 +1,214 @@
+import { ArogyaAI, ChatMessage, HealthContext } from '../claude-ai'
+import { MockLLMProvider } from '../llm-provider'
+import { CHAT_FIXTURES, LLM_FIXTURES, STRUCTURED_FIXTURES } from '../llm-fixtures'
+import { SafetyFinding } from '../chat-safety'
+import { SAFETY_MESSAGES } from '../localized-messages'
+
+describe('ArogyaAI with the mock provider', () => {
+  const healthContext: HealthContext = {
+    age: 32,
+    gender: 'female',
+    height: 160,
+    weight: 62,
+    activityLevel: 'light',
+    goals: ['weightLoss'],
+    dietaryRestrictions: ['vegetarian'],
+    medicalHistory: []
+  }
+
+  const history = (count: number): ChatMessage[] =>
+    Array.from({ length: count }, (_, i) => ({
+      role: i % 2 === 0 ? 'user' : 'assistant',
+      content: `message ${i}`,
+      timestamp: new Date()
+    }))
+
+  it('answers chat from fixtures with the conversation as context', async () => {
+    const provider = new MockLLMProvider()
+    const arogya = new ArogyaAI(provider)
+
+    const response = await arogya.chatWithArogya('What should I eat for dinner?', healthContext, history(10))
+
+    expect(response).toBe(CHAT_FIXTURES[0].response)
+    expect(provider.requests[0].useCase).toBe('chat')
+    expect(provider.requests[0].system).toContain('Dietary Restrictions: vegetarian')
+    expect(provider.requests[0].messages).toHaveLength(11)
+    expect(provider.requests[0].messages[0].content).toBe('message 0')
+  })
+
+  it('sends the conversation summary with the system prompt', async () => {
+    const provider = new MockLLMProvider()
+    const arogya = new ArogyaAI(provider)
+
+    await arogya.chatWithArogya('Can I run today?', healthContext, [], { summary: 'The user sprained their left ankle.' })
+
+    expect(provider.requests[0].system).toContain('EARLIER IN THIS CONVERSATION:\nThe user sprained their left ankle.')
+  })
+
+  it('replies in the language the user writes in', async () => {
+    const provider = new MockLLMProvider()
+    const arogya = new ArogyaAI(provider)
+
+    await arogya.chatWithArogya('रात के खाने में क्या खाऊँ?', healthContext)
+    await arogya.chatWithArogya('dinner mein kya khana chahiye?', healthContext)
+
+    expect(provider.requests[0].system).toContain('LANGUAGE:\nRespond in Hindi (हिन्दी)')
+    expect(provider.requests[1].system).toContain('LANGUAGE:\nRespond in Hinglish')
+  })
+
+  it('writes plans in the preferred language', async () => {
+    const provider = new MockLLMProvider()
+    const arogya = new ArogyaAI(provider)
+
+    await arogya.generateHealthRecommendations({ ...healthContext, language: 'ta' })
+
+    expect(provider.requests[0].system).toContain('Respond in Tamil (தமிழ்)')
+  })
+
+  it('summarises older messages on top of the previous summary', async () => {
+    const provider = new MockLLMProvider()
+    const arogya = new ArogyaAI(provider)
+
+    const summary = await arogya.summarizeConversation('The user is vegetarian.', history(2))
+
+    expect(summary).toBe(LLM_FIXTURES.chatSummary)
+    expect(provider.requests[0].useCase).toBe('chatSummary')
+    expect(provider.requests[0].messages[0].content).toContain('Summary so far:\nThe user is vegetarian.')
+    expect(provider.requests[0].messages[0].content).toContain('User: message 0\n\nArogya: message 1')
+  })
+
+  it('titles a chat from its first exchange', async () => {
+    const provider = new MockLLMProvider()
+    const arogya = new ArogyaAI(provider)
+
+    const title = await arogya.generateChatTitle('What should I eat for dinner?', LLM_FIXTURES.chat)
+
+    expect(title).toBe(LLM_FIXTURES.chatTitle)
+    expect(provider.requests[0].useCase).toBe('chatTitle')
+    expect(provider.requests[0].messages[0].content).toContain('User: What should I eat for dinner?')
+  })
+
+  it('streams the same reply it would return', async () => {
+    const arogya = new ArogyaAI(new MockLLMProvider())
+
+    let streamed = ''
+    for await (const text of arogya.streamChatWithArogya('Hello', healthContext)) {
+      streamed += text
+    }
+
+    expect(streamed).toBe(await arogya.chatWithArogya('Hello', healthContext))
+    expect(streamed).toBe(LLM_FIXTURES.chat)
+  })
+
+  it('answers red-flag messages with a helpline response without calling the AI', async () => {
+    const provider = new MockLLMProvider()
+    const arogya = new ArogyaAI(provider)
+    const findings: SafetyFinding[] = []
+
+    const response = await arogya.chatWithArogya('I have crushing chest pain', healthContext, [], {
+      onSafetyEvent: finding => findings.push(finding)
+    })
+
+    expect(response).toBe(SAFETY_MESSAGES.en.chestPain)
+    expect(provider.requests).toHaveLength(0)
+    expect(findings).toEqual([expect.objectContaining({ stage: 'input', category: 'chestPain' })])
+  })
+
+  it('answers red flags in native scripts in the same language', async () => {
+    const provider = new MockLLMProvider()
+    const arogya = new ArogyaAI(provider)
+
+    const response = await arogya.chatWithArogya('আমার বুকে ব্যথা হচ্ছে', healthContext)
+
+    expect(response).toBe(SAFETY_MESSAGES.bn.chestPain)
+    expect(provider.requests).toHaveLength(0)
+  })
+
+  it('replaces unsafe replies', async () => {
+    const arogya = new ArogyaAI(new MockLLMProvider({ chat: 'Try eating 700 calories a day for quick results.' }))
+    const findings: SafetyFinding[] = []
+
+    const response = await arogya.chatWithArogya('How do I lose weight?', healthContext, [], {
+      onSafetyEvent: finding => findings.push(finding)
+    })
+
+    expect(response).toBe(SAFETY_MESSAGES.en.crashDiet)
+    expect(findings[0]).toMatchObject({ stage: 'output', category: 'crashDiet' })
+  })
+
+  it('stops a stream before the unsafe part', async () => {
+    const arogya = new ArogyaAI(new MockLLMProvider({ chat: 'Good question. Take ibuprofen 400 mg twice daily.' }))
+    const findings: SafetyFinding[] = []
+
+    let streamed = ''
+    for await (const text of arogya.streamChatWithArogya('My knee hurts', healthContext, [], {
+      onSafetyEvent: finding => findings.push(finding)
+    })) {
+      streamed += text
+    }
+
+    expect(streamed).not.toContain('mg')
+    expect(findings[0]).toMatchObject({ stage: 'output', category: 'unsafeDosage', response: SAFETY_MESSAGES.en.unsafeDosage })
+  })
+
+  it('sends each plan under its own use case', async () => {
+    const provider = new MockLLMProvider()
+    const arogya = new ArogyaAI(provider)
+
+    const plan = await arogya.generateDietPlan(healthContext, {
+      mealsPerDay: 4,
+      cuisine: ['north indian'],
+      budget: 'low',
+      cookingTime: 'quick'
+    })
+
+    expect(plan).toEqual(STRUCTURED_FIXTURES.dietPlan)
+    expect(provider.requests[0].useCase).toBe('dietPlan')
+    expect(provider.requests[0].messages[0].content).toContain('4 meals per day')
+  })
+
+  it('includes the calorie targets in the recommendations prompt', async () => {
+    const provider = new MockLLMProvider()
+    const arogya = new ArogyaAI(provider)
+
+    const recommendations = await arogya.generateHealthRecommendations(healthContext, {
+      dailyCalories: 1800,
+      macros: { protein: 113, carbs: 203, fats: 50 }
+    })
+
+    expect(recommendations.exercise.weeklyPlan[0].exercises[0]).toEqual({ name: 'Squats', sets: 3, reps: '12' })
+    expect(provider.requests[0].messages[0].content).toContain('Aim for 1800 calories a day')
+  })
+
+  it('retries invalid output with the validation errors', async () => {
+    const { dietPlan } = STRUCTURED_FIXTURES
+    const provider = new MockLLMProvider({}, {
+      dietPlan: [{ ...(dietPlan as object), dailyCalories: 900 }, dietPlan]
+    })
+    const arogya = new ArogyaAI(provider)
+
+    const plan = await arogya.generateDietPlan(healthContext, {
+      mealsPerDay: 4,
+      cuisine: [],
+      budget: 'medium',
+      cookingTime: 'moderate'
+    })
+
+    expect(plan).toEqual(dietPlan)
+    expect(provider.requests).toHaveLength(2)
+    expect(provider.requests[1].messages[0].content).toContain('dailyCalories:')
+  })
+
+  it('gives up after repeated invalid output', async () => {
+    const provider = new MockLLMProvider({}, { exercisePlan: [{ weeklyPlan: [] }] })
+    const arogya = new ArogyaAI(provider)
+
+    await expect(arogya.generateExercisePlan(healthContext, {
+      availableTime: 30,
+      equipment: [],
+      location: 'home',
+      experience: 'beginner'
+    })).rejects.toThrow('Failed to generate exercise plan. Please try again.')
+    expect(provider.requests).toHaveLength(2)
+  })
+})
@@ -0,0 +1,112 @@
+import {
+  checkEntitlement,
+  getDenialMessage,
+  getEffectiveSubscription,
+  getFeatureLimit,
+  getRequiredPlan
+} from '../entitlements'
+import { getPlanForAdditionalPeople, isPlanId } from '../plans'
+
+describe('Entitlements', () => {
+  const now = new Date('2026-06-01T00:00:00Z')
+  const nextYear = new Date('2027-06-01T00:00:00Z')
+  const lastMonth = new Date('2026-05-01T00:00:00Z')
+
+  describe('getEffectiveSubscription', () => {
+    it('treats missing or inactive subscriptions as free', () => {
+      expect(getEffectiveSubscription(undefined, now)).toMatchObject({ plan: 'free', state: 'none' })
+      expect(getEffectiveSubscription({ status: 'inactive', additionalPeople: 0 }, now))
+        .toMatchObject({ plan: 'free', state: 'none' })
+    })
+
+    it('uses the stored plan while active', () => {
+      const subscription = { status: 'active', plan: 'family', expiresAt: nextYear, additionalPeople: 3 }
+      expect(getEffectiveSubscription(subscription, now)).toMatchObject({ plan: 'family', state: 'active' })
+    })
+
+    it('derives the plan from additional people for older subscriptions', () => {
+      const subscription = { status: 'active', expiresAt: nextYear, additionalPeople: 7 }
+      expect(getEffectiveSubscription(subscription, now).plan).toBe('premium')
+      expect(getPlanForAdditionalPeople(0)).toBe('basic')
+      expect(getPlanForAdditionalPeople(3)).toBe('family')
+    })
+
+    it('keeps the plan during the grace period after expiry', () => {
+      const subscription = { status: 'active', plan: 'family', expiresAt: new Date('2026-05-29T00:00:00Z'), additionalPeople: 3 }
+      expect(getEffectiveSubscription(subscription, now)).toMatchObject({ plan: 'family', state: 'grace' })
+    })
+
+    it('falls back to free once the grace period has passed, even if still marked active', () => {
+      const subscription = { status: 'active', plan: 'premium', expiresAt: lastMonth, additionalPeople: 7 }
+      expect(getEffectiveSubscription(subscription, now)).toMatchObject({ plan: 'free', state: 'expired' })
+    })
+  })
+
+  describe('limits', () => {
+    it('returns null for unlimited and 0 for excluded features', () => {
+      expect(getFeatureLimit('premium', 'aiChat')).toBeNull()
+      expect(getFeatureLimit('free', 'aiRecommendations')).toBe(0)
+      expect(getFeatureLimit('basic', 'familyCalculation')).toBe(0)
+      expect(getFeatureLimit('family', 'familyMembers')).toBe(3)
+    })
+
+    it('suggests the cheapest plan that allows one more use', () => {
+      expect(getRequiredPlan('familyMembers', 0)).toBe('family')
+      expect(getRequiredPlan('familyMembers', 3)).toBe('premium')
+      expect(getRequiredPlan('familyMembers', 7)).toBeNull()
+      expect(getRequiredPlan('aiRecommendations', 0)).toBe('basic')
+    })
+  })
+
+  describe('checkEntitlement', () => {
+    const family = { status: 'active', plan: 'family', expiresAt: nextYear, additionalPeople: 3 }
+
+    it('allows usage under the quota', () => {
+      const check = checkEntitlement(family, 'familyMembers', 2, now)
+      expect(check).toMatchObject({ allowed: true, plan: 'family', limit: 3, used: 2 })
+    })
+
+    it('denies usage at the quota and points to the next plan', () => {
+      const check = checkEntitlement(family, 'familyMembers', 3, now)
+      expect(check).toMatchObject({ allowed: false, reason: 'quota_exceeded', requiredPlan: 'premium' })
+      expect(getDenialMessage(check)).toBe(
+        'You can add up to 3 family members with your current subscription. Please upgrade to add more.'
+      )
+    })
+
+    it('gives free accounts a small allowance', () => {
+      expect(checkEntitlement(undefined, 'aiChat', 4, now).allowed).toBe(true)
+      expect(checkEntitlement(undefined, 'aiChat', 5, now)).toMatchObject({ allowed: false, reason: 'quota_exceeded' })
+      expect(checkEntitlement(undefined, 'aiRecommendations', 0, now)).toMatchObject({
+        allowed: false,
+        reason: 'no_subscription',
+        requiredPlan: 'basic'
+      })
+    })
+
+    it('reports features a paid plan does not include', () => {
+      const basic = { status: 'active', plan: 'basic', expiresAt: nextYear, additionalPeople: 0 }
+      const check = checkEntitlement(basic, 'familyCalculation', 0, now)
+      expect(check).toMatchObject({ allowed: false, reason: 'not_included', requiredPlan: 'family' })
+    })
+
+    it('denies paid features with an expired reason after expiry', () => {
+      const lapsed = { ...family, expiresAt: lastMonth }
+      const check = checkEntitlement(lapsed, 'familyCalculation', 0, now)
+      expect(check).toMatchObject({ allowed: false, reason: 'expired', state: 'expired' })
+      expect(getDenialMessage(check)).toBe('Your subscription has expired. Renew to continue using family member analysis.')
+    })
+  })
+
+  describe('isPlanId', () => {
+    it('accepts paid plans only', () => {
+      expect(isPlanId('family')).toBe(true)
+      expect(isPlanId('free')).toBe(false)
+    })
+
+    it('rejects object prototype keys', () => {
+      expect(isPlanId('constructor')).toBe(false)
+      expect(isPlanId('toString')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,107 @@
+import { buildGoalPlan, resolveTargetWeight, weightForBodyFat, type GoalPlanInput } from '../goal-planner'
+import { MIN_DAILY_CALORIES } from '../recommendation-schema'
+
+describe('Goal Planner', () => {
+  const startDate = new Date('2026-01-01T00:00:00Z')
+
+  const baseInput: GoalPlanInput = {
+    currentWeight: 80,
+    height: 180,
+    age: 30,
+    gender: 'male',
+    activityLevel: 'moderate',
+    bodyFatPercentage: 20,
+    startDate
+  }
+
+  describe('target resolution', () => {
+    it('keeps lean mass constant when planning to a body fat target', () => {
+      // 64 kg lean mass at 15% body fat
+      expect(weightForBodyFat(80, 20, 15)).toBe(75.3)
+      expect(resolveTargetWeight({ ...baseInput, targetBodyFat: 15 })).toBe(75.3)
+    })
+
+    it('requires a target', () => {
+      expect(() => resolveTargetWeight(baseInput)).toThrow('Either a target weight or a target body fat percentage is required')
+    })
+
+    it('requires a current body fat reading for body fat targets', () => {
+      expect(() => resolveTargetWeight({ ...baseInput, bodyFatPercentage: undefined, targetBodyFat: 15 }))
+        .toThrow('A current body fat reading is required')
+    })
+  })
+
+  describe('buildGoalPlan', () => {
+    it('projects a dated weekly trajectory to the target weight', () => {
+      const plan = buildGoalPlan({ ...baseInput, targetWeight: 76, weeklyRate: 0.5 })
+
+      expect(plan.direction).toBe('lose')
+      expect(plan.totalWeeks).toBe(8)
+      expect(plan.weeks).toHaveLength(9)
+      expect(plan.weeks[8].weight).toBe(76)
+      expect(plan.estimatedCompletionDate.toISOString()).toBe('2026-02-26T00:00:00.000Z')
+      expect(plan.isSafe).toBe(true)
+    })
+
+    it('sets calorie targets below maintenance while losing', () => {
+      const plan = buildGoalPlan({ ...baseInput, targetWeight: 76, weeklyRate: 0.5 })
+
+      expect(plan.dailyCalorieAdjustment).toBe(-550)
+      expect(plan.weeks[0].tdee).toBe(2759)
+      expect(plan.weeks[0].calorieTarget).toBe(2209)
+      // Maintenance once the target is reached
+      expect(plan.weeks[8].calorieTarget).toBe(plan.weeks[8].tdee)
+    })
+
+    it('projects body fat falling as fat mass is lost', () => {
+      const plan = buildGoalPlan({ ...baseInput, targetWeight: 76 })
+      expect(plan.weeks[plan.weeks.length - 1].bodyFatPercentage).toBe(15.8)
+    })
+
+    it('uses the default gain rate when gaining', () => {
+      const plan = buildGoalPlan({ ...baseInput, targetWeight: 82 })
+      expect(plan.direction).toBe('gain')
+      expect(plan.weeklyRate).toBe(0.25)
+      expect(plan.totalWeeks).toBe(8)
+    })
+
+    it('flags rates faster than 1% of body weight per week', () => {
+      const plan = buildGoalPlan({ ...baseInput, targetWeight: 70, weeklyRate: 1.5 })
+      expect(plan.isSafe).toBe(false)
+      expect(plan.warnings.map(warning => warning.code)).toContain('rate_too_fast')
+    })
+
+    it('flags calorie targets below the safe minimum', () => {
+      const plan = buildGoalPlan({
+        ...baseInput,
+        gender: 'female',
+        currentWeight: 60,
+        height: 160,
+        activityLevel: 'sedentary',
+        targetWeight: 55,
+        weeklyRate: 0.5
+      })
+      expect(plan.warnings.find(warning => warning.code === 'calories_too_low')?.message)
+        .toContain(`below ${MIN_DAILY_CALORIES} kcal a day`)
+    })
+
+    it('flags underweight targets', () => {
+      const plan = buildGoalPlan({ ...baseInput, targetWeight: 55 })
+      expect(plan.warnings.map(warning => warning.code)).toContain('target_underweight')
+    })
+
+    it('gives weights in warnings in the preferred units', () => {
+      const plan = buildGoalPlan({ ...baseInput, targetWeight: 55, weeklyRate: 1.5, unitSystem: 'imperial' })
+      const messages = plan.warnings.map(warning => warning.message)
+      expect(messages).toContain('Losing more than 1% of body weight (1.8 lb) per week risks muscle loss')
+      expect(messages).toContain('A target of 121.3 lb puts your BMI below 18.5')
+    })
+
+    it('returns a single maintenance week when already at target', () => {
+      const plan = buildGoalPlan({ ...baseInput, targetWeight: 80 })
+      expect(plan.direction).toBe('maintain')
+      expect(plan.weeks).toHaveLength(1)
+      expect(plan.weeks[0].calorieTarget).toBe(plan.weeks[0].tdee)
+    })
+  })
+})
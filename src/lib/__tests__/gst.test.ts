@@ -0,0 +1,78 @@
+import {
+  amountInWords,
+  calculateGst,
+  formatInvoiceNumber,
+  getFinancialYear,
+  getStateCodeFromGstin,
+  isGstStateCode,
+  isValidGstin
+} from '../gst'
+
+describe('GST', () => {
+  describe('calculateGst', () => {
+    it('splits intra-state supplies into CGST and SGST', () => {
+      expect(calculateGst(299, '27', '27')).toEqual({
+        taxableValue: 253.39,
+        cgst: 22.8,
+        sgst: 22.81,
+        igst: 0,
+        totalTax: 45.61,
+        total: 299,
+        isInterState: false
+      })
+    })
+
+    it('charges IGST on inter-state supplies', () => {
+      const gst = calculateGst(499, '27', '29')
+      expect(gst.isInterState).toBe(true)
+      expect(gst.igst).toBe(76.12)
+      expect(gst.cgst + gst.sgst).toBe(0)
+      expect(gst.taxableValue + gst.igst).toBe(499)
+    })
+  })
+
+  describe('financial year', () => {
+    it('runs April to March in IST', () => {
+      expect(getFinancialYear(new Date('2026-04-01T00:00:00+05:30'))).toBe('2026-27')
+      expect(getFinancialYear(new Date('2026-03-31T23:59:00+05:30'))).toBe('2025-26')
+      // 31 March 19:00 UTC is already 1 April in India
+      expect(getFinancialYear(new Date('2026-03-31T19:00:00Z'))).toBe('2026-27')
+      expect(getFinancialYear(new Date('2099-12-01T00:00:00Z'))).toBe('2099-00')
+    })
+
+    it('formats sequential invoice numbers', () => {
+      expect(formatInvoiceNumber('2026-27', 42)).toBe('FXG/2026-27/00042')
+    })
+  })
+
+  describe('GSTIN', () => {
+    it('validates format and state code', () => {
+      expect(isValidGstin('27AAPFU0939F1ZV')).toBe(true)
+      expect(isValidGstin(' 27aapfu0939f1zv ')).toBe(true)
+      expect(isValidGstin('99AAPFU0939F1ZV')).toBe(false)
+      expect(isValidGstin('27AAPFU0939F1V')).toBe(false)
+    })
+
+    it('accepts state codes only', () => {
+      expect(isGstStateCode('27')).toBe(true)
+      expect(isGstStateCode('99')).toBe(false)
+      expect(isGstStateCode('constructor')).toBe(false)
+    })
+
+    it('reads the state from the GSTIN', () => {
+      expect(getStateCodeFromGstin('29AAPFU0939F1ZV')).toBe('29')
+    })
+  })
+
+  describe('amountInWords', () => {
+    it('uses Indian grouping', () => {
+      expect(amountInWords(299)).toBe('Rupees Two Hundred Ninety Nine Only')
+      expect(amountInWords(125000)).toBe('Rupees One Lakh Twenty Five Thousand Only')
+      expect(amountInWords(10000000)).toBe('Rupees One Crore Only')
+    })
+
+    it('includes paise', () => {
+      expect(amountInWords(99.5)).toBe('Rupees Ninety Nine and Fifty Paise Only')
+    })
+  })
+})
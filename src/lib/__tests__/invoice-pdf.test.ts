@@ -0,0 +1,54 @@
+import { renderInvoicePdf, InvoiceData } from '../invoice-pdf'
+import { PdfDocument, measureText } from '../pdf'
+
+describe('Invoice PDF', () => {
+  const invoice: InvoiceData = {
+    invoiceNumber: 'FXG/2026-27/00001',
+    issuedAt: new Date('2026-06-01T10:00:00Z'),
+    supplier: { name: 'FitXGen', gstin: '27AAPFU0939F1ZV', stateCode: '27' },
+    customer: { name: 'Acme (India) Pvt Ltd', email: 'accounts@acme.in', gstin: '29AAPFU0939F1ZV', stateCode: '29' },
+    placeOfSupply: '29',
+    lineItems: [{ description: 'Family Plan - 1 year subscription', sacCode: '998431', quantity: 1, taxableValue: 253.39 }],
+    taxableValue: 253.39,
+    cgst: 0,
+    sgst: 0,
+    igst: 45.61,
+    total: 299,
+    paymentReference: 'pay_123'
+  }
+
+  it('renders a well-formed PDF', () => {
+    const pdf = renderInvoicePdf(invoice).toString('latin1')
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true)
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true)
+    expect(pdf).toContain('(Invoice No: FXG/2026-27/00001)')
+    expect(pdf).toContain('(IGST @ 18%)')
+    expect(pdf).not.toContain('(CGST @ 9%)')
+    // Parentheses in text are escaped
+    expect(pdf).toContain('(Acme \\(India\\) Pvt Ltd)')
+  })
+
+  it('points the xref table at each object', () => {
+    const pdf = renderInvoicePdf(invoice).toString('latin1')
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)?.[1])
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe('xref')
+
+    const entries = pdf.slice(xrefOffset).split('\n').slice(3).filter(line => line.endsWith(' n '))
+    entries.forEach((entry, index) => {
+      const offset = Number(entry.slice(0, 10))
+      expect(pdf.slice(offset, offset + `${index + 1} 0 obj`.length)).toBe(`${index + 1} 0 obj`)
+    })
+  })
+
+  it('shows CGST and SGST for intra-state invoices', () => {
+    const pdf = renderInvoicePdf({ ...invoice, placeOfSupply: '27', igst: 0, cgst: 22.8, sgst: 22.81 }).toString('latin1')
+    expect(pdf).toContain('(CGST @ 9%)')
+    expect(pdf).toContain('(SGST @ 9%)')
+  })
+
+  it('measures text for alignment', () => {
+    expect(measureText('0000', 10)).toBeCloseTo(22.24)
+    expect(new PdfDocument().pageCount).toBe(1)
+  })
+})
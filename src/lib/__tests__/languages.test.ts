@@ -0,0 +1,60 @@
+import { detectLanguage, getLanguageInstruction, getReplyLanguage, isLanguageCode } from '../languages'
+
+describe('detectLanguage', () => {
+  it.each([
+    ['मुझे वज़न कम करना है', 'hi'],
+    ['मला वजन कमी करायचे आहे', 'mr'],
+    ['எனக்கு எடை குறைக்க வேண்டும்', 'ta'],
+    ['నాకు బరువు తగ్గాలి', 'te'],
+    ['আমি ওজন কমাতে চাই', 'bn'],
+    ['mujhe weight kam karna hai', 'hinglish'],
+    ['How many calories should I eat?', 'en']
+  ])('detects %s as %s', (text, language) => {
+    expect(detectLanguage(text)).toBe(language)
+  })
+
+  it('does not mistake English with a stray short word for Hinglish', () => {
+    expect(detectLanguage('Is it ok to go to the gym at 5 am?')).toBe('en')
+  })
+
+  it('reads a mixed message by its Indian script', () => {
+    expect(detectLanguage('मेरा BMI 27 है, क्या diet लूँ?')).toBe('hi')
+  })
+
+  it('returns null when there are no words', () => {
+    expect(detectLanguage('72 👍')).toBeNull()
+  })
+})
+
+describe('getReplyLanguage', () => {
+  it('falls back to the preferred language when the message has no words', () => {
+    expect(getReplyLanguage('👍', 'ta')).toBe('ta')
+  })
+
+  it('replies in the language of the message over the preference', () => {
+    expect(getReplyLanguage('What should I eat for dinner?', 'bn')).toBe('en')
+  })
+
+  it('keeps Marathi for a Marathi speaker writing Devanagari', () => {
+    expect(getReplyLanguage('धन्यवाद', 'mr')).toBe('mr')
+    expect(getReplyLanguage('धन्यवाद', 'en')).toBe('hi')
+  })
+})
+
+describe('getLanguageInstruction', () => {
+  it('asks for Latin script in Hinglish', () => {
+    expect(getLanguageInstruction('hinglish')).toMatch(/Latin/)
+  })
+
+  it('names the language and its script', () => {
+    expect(getLanguageInstruction('te')).toContain('Telugu (తెలుగు)')
+  })
+})
+
+describe('isLanguageCode', () => {
+  it('accepts supported codes only', () => {
+    expect(isLanguageCode('bn')).toBe(true)
+    expect(isLanguageCode('hinglish')).toBe(false)
+    expect(isLanguageCode('fr')).toBe(false)
+  })
+})
@@ -0,0 +1,24 @@
+import { DEFAULT_LLM_MODEL, LLM_USE_CASE_DEFAULTS, getLLMConfig } from '../llm-config'
+
+describe('getLLMConfig', () => {
+  it('uses the defaults for each use case', () => {
+    expect(getLLMConfig('chat', {})).toEqual({ model: DEFAULT_LLM_MODEL, temperature: 0.7, maxTokens: 800 })
+    expect(getLLMConfig('dietPlan', {}).maxTokens).toBe(LLM_USE_CASE_DEFAULTS.dietPlan.maxTokens)
+  })
+
+  it('applies global and per use case overrides', () => {
+    const env = {
+      LLM_MODEL: 'claude-3-5-haiku-20241022',
+      LLM_DIET_PLAN_MODEL: 'claude-3-5-sonnet-20241022',
+      LLM_DIET_PLAN_MAX_TOKENS: '1600',
+      LLM_CHAT_TEMPERATURE: '0.3'
+    }
+    expect(getLLMConfig('dietPlan', env)).toEqual({ model: 'claude-3-5-sonnet-20241022', temperature: 0.7, maxTokens: 1600 })
+    expect(getLLMConfig('chat', env)).toEqual({ model: 'claude-3-5-haiku-20241022', temperature: 0.3, maxTokens: 800 })
+  })
+
+  it('ignores overrides that are out of range', () => {
+    const env = { LLM_CHAT_TEMPERATURE: '3', LLM_CHAT_MAX_TOKENS: 'lots' }
+    expect(getLLMConfig('chat', env)).toEqual({ model: DEFAULT_LLM_MODEL, temperature: 0.7, maxTokens: 800 })
+  })
+})
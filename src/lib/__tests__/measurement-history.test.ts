@@ -0,0 +1,147 @@
+import MeasurementEntry from '../../models/MeasurementEntry'
+import { buildHistoryFilter, getMeasurementHistory, recordMeasurementEntry, toDisplayUnits } from '../measurement-history'
+
+jest.mock('../../models/MeasurementEntry', () => {
+  class MockMeasurementEntry {
+    static saved: MockMeasurementEntry[] = []
+    static find = jest.fn()
+    static countDocuments = jest.fn()
+
+    constructor(doc: object) {
+      Object.assign(this, doc)
+    }
+
+    async save() {
+      MockMeasurementEntry.saved.push(this)
+    }
+  }
+  return { __esModule: true, default: MockMeasurementEntry }
+})
+
+const MockEntry = MeasurementEntry as unknown as {
+  saved: object[]
+  find: jest.Mock
+  countDocuments: jest.Mock
+}
+
+describe('Measurement history', () => {
+  const userId = '64b7f0c2a1b2c3d4e5f60718'
+  const memberId = '64b7f0c2a1b2c3d4e5f60719'
+
+  const data = { age: 30, gender: 'male' as const, height: 175, weight: 75, waist: 82, neck: 38 }
+  const result = {
+    bodyFatPercentage: 15.2,
+    bmi: 24.5,
+    category: 'Fitness',
+    healthStatus: 'Good',
+    classificationVersion: 2,
+    recommendations: ['Stay hydrated']
+  }
+
+  beforeEach(() => {
+    MockEntry.saved = []
+    jest.clearAllMocks()
+  })
+
+  describe('buildHistoryFilter', () => {
+    it("matches only the account owner's entries by default", () => {
+      expect(buildHistoryFilter(userId)).toEqual({ userId, familyMemberId: null })
+    })
+
+    it('matches a family member', () => {
+      expect(buildHistoryFilter(userId, { familyMemberId: memberId })).toEqual({ userId, familyMemberId: memberId })
+    })
+
+    it('limits to a date range, open at either end', () => {
+      const from = new Date('2026-01-01')
+      const to = new Date('2026-03-31')
+
+      expect(buildHistoryFilter(userId, { from, to }).measuredAt).toEqual({ $gte: from, $lte: to })
+      expect(buildHistoryFilter(userId, { from }).measuredAt).toEqual({ $gte: from })
+      expect(buildHistoryFilter(userId, { to }).measuredAt).toEqual({ $lte: to })
+    })
+  })
+
+  describe('recordMeasurementEntry', () => {
+    it('saves a dated snapshot of the measurements and result', async () => {
+      const measuredAt = new Date('2026-02-01')
+
+      const entry = await recordMeasurementEntry(userId, data, result, 'manual', measuredAt, 'After holiday')
+
+      expect(MockEntry.saved).toEqual([entry])
+      expect(entry).toMatchObject({
+        userId,
+        measuredAt,
+        source: 'manual',
+        height: 175,
+        weight: 75,
+        circumferences: { waist: 82, neck: 38 },
+        results: result,
+        notes: 'After holiday'
+      })
+      expect(entry).not.toHaveProperty('familyMemberId')
+      expect(entry.circumferences).not.toHaveProperty('hip')
+    })
+
+    it('records against a family member', async () => {
+      const entry = await recordMeasurementEntry(userId, { ...data, gender: 'female', hip: 95 }, result, 'calculation', undefined, undefined, memberId)
+
+      expect(entry).toMatchObject({ familyMemberId: memberId, circumferences: { hip: 95 } })
+      expect(entry).not.toHaveProperty('notes')
+    })
+  })
+
+  describe('getMeasurementHistory', () => {
+    const mockQuery = (entries: object[]) => {
+      const query = {
+        sort: jest.fn().mockReturnThis(),
+        skip: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        lean: jest.fn().mockResolvedValue(entries)
+      }
+      MockEntry.find.mockReturnValue(query)
+      return query
+    }
+
+    it('pages through entries newest first', async () => {
+      const query = mockQuery([{ weight: 75 }])
+      MockEntry.countDocuments.mockResolvedValue(31)
+
+      const history = await getMeasurementHistory(userId, { familyMemberId: memberId, limit: 10, skip: 30 })
+
+      expect(history).toEqual({ entries: [{ weight: 75 }], totalCount: 31 })
+      expect(MockEntry.find).toHaveBeenCalledWith({ userId, familyMemberId: memberId })
+      expect(MockEntry.countDocuments).toHaveBeenCalledWith({ userId, familyMemberId: memberId })
+      expect(query.sort).toHaveBeenCalledWith({ measuredAt: -1 })
+      expect(query.skip).toHaveBeenCalledWith(30)
+      expect(query.limit).toHaveBeenCalledWith(10)
+    })
+
+    it('returns the first 50 entries by default', async () => {
+      const query = mockQuery([])
+      MockEntry.countDocuments.mockResolvedValue(0)
+
+      await getMeasurementHistory(userId)
+
+      expect(query.skip).toHaveBeenCalledWith(0)
+      expect(query.limit).toHaveBeenCalledWith(50)
+    })
+  })
+
+  describe('toDisplayUnits', () => {
+    const entry = { weight: 75, height: 175, circumferences: { waist: 82, neck: 38, hip: 95 }, notes: 'Morning' }
+
+    it('converts measurements to imperial and keeps the rest', () => {
+      expect(toDisplayUnits(entry, 'imperial')).toEqual({
+        weight: 165.3,
+        height: 68.9,
+        circumferences: { waist: 32.3, neck: 15, hip: 37.4 },
+        notes: 'Morning'
+      })
+    })
+
+    it('leaves metric entries as they are', () => {
+      expect(toDisplayUnits(entry, 'metric')).toEqual(entry)
+    })
+  })
+})
@@ -0,0 +1,97 @@
+import {
+  PediatricBmiCategory,
+  WaistToHeightCategory,
+  assessPediatric,
+  assessWaistToHeight,
+  calculateBmiForAge,
+  classifyBmiForAge,
+  isPediatric,
+  validatePediatricMeasurements
+} from '../pediatric-assessment'
+import { getBmiLms } from '../growth-reference'
+
+describe('Pediatric Assessment', () => {
+  describe('growth reference', () => {
+    it('returns the tabulated point at whole years', () => {
+      expect(getBmiLms(5, 'male').M).toBe(15.2)
+    })
+
+    it('interpolates between yearly points', () => {
+      expect(getBmiLms(9.5, 'female').M).toBeCloseTo(16.35, 2)
+    })
+
+    it('rejects ages outside the reference', () => {
+      expect(() => getBmiLms(0.5, 'male')).toThrow('BMI-for-age reference covers ages 1 to 13')
+    })
+  })
+
+  describe('calculateBmiForAge', () => {
+    it('places the median BMI at the 50th percentile', () => {
+      const { zScore, percentile } = calculateBmiForAge(15.5, 7, 'male')
+      expect(zScore).toBeCloseTo(0)
+      expect(percentile).toBe(50)
+    })
+
+    it('returns higher percentiles for higher BMI', () => {
+      const { zScore, percentile } = calculateBmiForAge(19, 7, 'male')
+      expect(zScore).toBeGreaterThan(2)
+      expect(percentile).toBeGreaterThan(97)
+    })
+  })
+
+  describe('classifyBmiForAge', () => {
+    it('uses the under-5 growth standard cut-offs', () => {
+      expect(classifyBmiForAge(1.5, 3)).toBe(PediatricBmiCategory.RiskOfOverweight)
+      expect(classifyBmiForAge(2.5, 3)).toBe(PediatricBmiCategory.Overweight)
+      expect(classifyBmiForAge(3.5, 3)).toBe(PediatricBmiCategory.Obese)
+    })
+
+    it('uses the 5-19 growth reference cut-offs', () => {
+      expect(classifyBmiForAge(1.5, 8)).toBe(PediatricBmiCategory.Overweight)
+      expect(classifyBmiForAge(2.5, 8)).toBe(PediatricBmiCategory.Obese)
+      expect(classifyBmiForAge(-2.5, 8)).toBe(PediatricBmiCategory.Thinness)
+      expect(classifyBmiForAge(-3.5, 8)).toBe(PediatricBmiCategory.SevereThinness)
+    })
+  })
+
+  describe('assessWaistToHeight', () => {
+    it('applies the 0.5 boundary from age 5', () => {
+      expect(assessWaistToHeight(60, 130, 8)).toEqual({ ratio: 0.46, category: WaistToHeightCategory.Healthy })
+      expect(assessWaistToHeight(68, 130, 8).category).toBe(WaistToHeightCategory.IncreasedRisk)
+      expect(assessWaistToHeight(80, 130, 8).category).toBe(WaistToHeightCategory.HighRisk)
+    })
+
+    it('reports the ratio without interpreting it for younger children', () => {
+      expect(assessWaistToHeight(50, 95, 3)).toEqual({ ratio: 0.53, category: null })
+    })
+  })
+
+  describe('assessPediatric', () => {
+    it('assesses a healthy 8 year old', () => {
+      const assessment = assessPediatric({ age: 8, gender: 'female', height: 128, weight: 25.5, waist: 55 })
+
+      expect(assessment.bmi).toBe(15.6)
+      expect(assessment.bmiCategory).toBe(PediatricBmiCategory.Healthy)
+      expect(assessment.waistToHeightCategory).toBe(WaistToHeightCategory.Healthy)
+      expect(assessment.healthStatus).toBe('Good')
+      expect(assessment.recommendations.length).toBeGreaterThan(0)
+    })
+
+    it('does not apply to members aged 13 and over', () => {
+      expect(isPediatric(13)).toBe(false)
+      expect(() => assessPediatric({ age: 13, gender: 'male', height: 155, weight: 45 }))
+        .toThrow('Pediatric assessment covers ages 1 to 12')
+    })
+  })
+
+  describe('validatePediatricMeasurements', () => {
+    it('accepts heights and weights below the adult limits', () => {
+      expect(validatePediatricMeasurements({ age: 2, height: 86, weight: 12 })).toEqual([])
+    })
+
+    it('rejects out of range values', () => {
+      const errors = validatePediatricMeasurements({ age: 2, height: 30, weight: 12 })
+      expect(errors).toContain('Height must be between 45 and 190 cm')
+    })
+  })
+})
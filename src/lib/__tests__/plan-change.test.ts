@@ -0,0 +1,53 @@
+import { MIN_UPGRADE_AMOUNT, getPlanChangeDirection, quotePlanChange } from '../plan-change'
+
+describe('Plan changes', () => {
+  const now = new Date('2026-06-01T00:00:00Z')
+  // Half of a 365 day term left
+  const halfTermLeft = new Date(now.getTime() + 182.5 * 24 * 60 * 60 * 1000)
+
+  it('orders plans by price', () => {
+    expect(getPlanChangeDirection('basic', 'family')).toBe('upgrade')
+    expect(getPlanChangeDirection('premium', 'family')).toBe('downgrade')
+    expect(getPlanChangeDirection('family', 'family')).toBeNull()
+  })
+
+  it('charges the prorated difference for an upgrade', () => {
+    const result = quotePlanChange({ fromPlan: 'basic', toPlan: 'family', termValue: 99, expiresAt: halfTermLeft }, now)
+    expect(result).toMatchObject({
+      success: true,
+      quote: { direction: 'upgrade', remainingDays: 183, credit: 50, newPlanCost: 150, amount: 100, refund: 0 }
+    })
+  })
+
+  it('credits what was actually paid, after discounts', () => {
+    const result = quotePlanChange({ fromPlan: 'family', toPlan: 'premium', termValue: 200, expiresAt: halfTermLeft }, now)
+    expect(result.success && result.quote).toMatchObject({ credit: 100, newPlanCost: 250, amount: 150 })
+  })
+
+  it('values the new plan at its full price after an upgrade', () => {
+    const result = quotePlanChange({ fromPlan: 'basic', toPlan: 'family', termValue: 99, expiresAt: halfTermLeft }, now)
+    expect(result.success && result.quote.termValue).toBe(299)
+  })
+
+  it('refunds the difference for a downgrade, up to the refundable balance', () => {
+    const downgrade = { fromPlan: 'premium' as const, toPlan: 'basic' as const, termValue: 499, expiresAt: halfTermLeft }
+    expect(quotePlanChange(downgrade, now)).toMatchObject({
+      success: true,
+      quote: { direction: 'downgrade', credit: 250, newPlanCost: 50, amount: 0, refund: 200 }
+    })
+    expect(quotePlanChange({ ...downgrade, refundable: 120 }, now)).toMatchObject({ quote: { refund: 120 } })
+  })
+
+  it('never creates an order below the Razorpay minimum', () => {
+    const almostOver = new Date(now.getTime() + 60 * 60 * 1000)
+    const result = quotePlanChange({ fromPlan: 'basic', toPlan: 'family', termValue: 99, expiresAt: almostOver }, now)
+    expect(result.success && result.quote.amount).toBe(MIN_UPGRADE_AMOUNT)
+  })
+
+  it('rejects no-op and expired changes', () => {
+    expect(quotePlanChange({ fromPlan: 'family', toPlan: 'family', termValue: 299, expiresAt: halfTermLeft }, now))
+      .toEqual({ success: false, message: 'You are already on this plan' })
+    expect(quotePlanChange({ fromPlan: 'basic', toPlan: 'family', termValue: 99, expiresAt: new Date('2026-05-01') }, now).success)
+      .toBe(false)
+  })
+})
@@ -0,0 +1,97 @@
+import {
+  MIN_PAYABLE_AMOUNT,
+  PromoCodeRule,
+  calculatePrice,
+  calculatePromoDiscount,
+  getPromoCodeError
+} from '../pricing'
+
+describe('Pricing', () => {
+  const now = new Date('2026-06-15T00:00:00Z')
+
+  const percentPromo: PromoCodeRule = {
+    code: 'monsoon20',
+    discountType: 'percentage',
+    discountValue: 20,
+    redemptionCount: 0,
+    perUserLimit: 1,
+    isActive: true
+  }
+
+  describe('calculatePromoDiscount', () => {
+    it('applies percentage discounts in whole rupees', () => {
+      expect(calculatePromoDiscount(percentPromo, 299)).toBe(59)
+    })
+
+    it('caps percentage discounts at maxDiscount', () => {
+      expect(calculatePromoDiscount({ ...percentPromo, maxDiscount: 50 }, 499)).toBe(50)
+    })
+
+    it('never discounts more than the price', () => {
+      expect(calculatePromoDiscount({ ...percentPromo, discountType: 'fixed', discountValue: 1000 }, 299)).toBe(299)
+    })
+  })
+
+  describe('getPromoCodeError', () => {
+    it('accepts a valid code', () => {
+      expect(getPromoCodeError(percentPromo, 'family', 0, now)).toBeNull()
+    })
+
+    it('enforces the validity window', () => {
+      expect(getPromoCodeError({ ...percentPromo, validFrom: new Date('2026-07-01') }, 'family', 0, now))
+        .toBe('This promo code is not valid yet')
+      expect(getPromoCodeError({ ...percentPromo, validUntil: new Date('2026-06-01') }, 'family', 0, now))
+        .toBe('This promo code has expired')
+    })
+
+    it('enforces usage caps and per-user limits', () => {
+      expect(getPromoCodeError({ ...percentPromo, maxRedemptions: 100, redemptionCount: 100 }, 'family', 0, now))
+        .toBe('This promo code has reached its usage limit')
+      expect(getPromoCodeError(percentPromo, 'family', 1, now)).toBe("You've already used this promo code")
+      expect(getPromoCodeError({ ...percentPromo, perUserLimit: null }, 'family', 5, now)).toBeNull()
+    })
+
+    it('restricts codes to their plans', () => {
+      expect(getPromoCodeError({ ...percentPromo, applicablePlans: ['premium'] }, 'family', 0, now))
+        .toBe("This promo code can't be used with the Family Plan")
+    })
+
+    it('rejects inactive codes', () => {
+      expect(getPromoCodeError({ ...percentPromo, isActive: false }, 'family', 0, now))
+        .toBe('This promo code is no longer active')
+    })
+  })
+
+  describe('calculatePrice', () => {
+    it('charges the plan price without codes', () => {
+      expect(calculatePrice('family')).toEqual({
+        planId: 'family',
+        planName: 'Family Plan',
+        basePrice: 299,
+        promoCode: null,
+        promoDiscount: 0,
+        referralCode: null,
+        referralDiscount: 0,
+        totalDiscount: 0,
+        amount: 299
+      })
+    })
+
+    it('applies the referral discount after the promo code', () => {
+      const price = calculatePrice('premium', { promo: percentPromo, referralCode: 'friend1' })
+
+      expect(price.promoCode).toBe('MONSOON20')
+      expect(price.promoDiscount).toBe(99)
+      expect(price.referralCode).toBe('FRIEND1')
+      expect(price.referralDiscount).toBe(40)
+      expect(price.amount).toBe(360)
+    })
+
+    it('never goes below the minimum payable amount', () => {
+      const bigPromo: PromoCodeRule = { ...percentPromo, discountValue: 90 }
+
+      expect(calculatePrice('family', { promo: bigPromo, referralCode: 'friend1' }).amount).toBe(MIN_PAYABLE_AMOUNT)
+      expect(calculatePrice('basic', { promo: bigPromo }).promoDiscount).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,87 @@
+import crypto from 'crypto'
+import {
+  RazorpayWebhookEvent,
+  getWebhookEventId,
+  getWebhookReferences,
+  isHandledWebhookEvent,
+  paiseToRupees,
+  verifyWebhookSignature
+} from '../razorpay-webhook'
+
+describe('Razorpay webhook helpers', () => {
+  const secret = 'test-webhook-secret'
+
+  const capturedEvent: RazorpayWebhookEvent = {
+    entity: 'event',
+    event: 'payment.captured',
+    created_at: 1767225600,
+    payload: {
+      payment: {
+        entity: {
+          id: 'pay_123',
+          order_id: 'order_456',
+          amount: 29900,
+          currency: 'INR',
+          status: 'captured',
+          method: 'upi'
+        }
+      }
+    }
+  }
+
+  const sign = (body: string) => crypto.createHmac('sha256', secret).update(body).digest('hex')
+
+  describe('verifyWebhookSignature', () => {
+    it('accepts a signature over the raw body', () => {
+      const body = JSON.stringify(capturedEvent)
+      expect(verifyWebhookSignature(body, sign(body), secret)).toBe(true)
+    })
+
+    it('rejects missing, malformed and mismatched signatures', () => {
+      const body = JSON.stringify(capturedEvent)
+      expect(verifyWebhookSignature(body, null, secret)).toBe(false)
+      expect(verifyWebhookSignature(body, 'abc', secret)).toBe(false)
+      expect(verifyWebhookSignature(body, sign(body + ' '), secret)).toBe(false)
+    })
+  })
+
+  it('only handles the subscribed events', () => {
+    expect(isHandledWebhookEvent('payment.captured')).toBe(true)
+    expect(isHandledWebhookEvent('refund.processed')).toBe(true)
+    expect(isHandledWebhookEvent('payment.authorized')).toBe(false)
+  })
+
+  describe('getWebhookEventId', () => {
+    it('prefers the event id header', () => {
+      expect(getWebhookEventId(capturedEvent, 'evt_abc')).toBe('evt_abc')
+    })
+
+    it('builds a stable key from the payload otherwise', () => {
+      expect(getWebhookEventId(capturedEvent, null)).toBe('payment.captured:pay_123:1767225600')
+      expect(getWebhookEventId(capturedEvent, null)).toBe(getWebhookEventId({ ...capturedEvent }, null))
+    })
+  })
+
+  describe('getWebhookReferences', () => {
+    it('reads the order from the payment entity', () => {
+      expect(getWebhookReferences(capturedEvent)).toEqual({ orderId: 'order_456', paymentId: 'pay_123' })
+    })
+
+    it('falls back to the refunded payment id for refunds', () => {
+      const refundEvent: RazorpayWebhookEvent = {
+        entity: 'event',
+        event: 'refund.processed',
+        created_at: 1767225600,
+        payload: {
+          refund: { entity: { id: 'rfnd_1', payment_id: 'pay_123', amount: 10000, status: 'processed' } }
+        }
+      }
+      expect(getWebhookReferences(refundEvent)).toEqual({ orderId: null, paymentId: 'pay_123' })
+    })
+  })
+
+  it('converts paise to rupees', () => {
+    expect(paiseToRupees(29900)).toBe(299)
+    expect(paiseToRupees(9950)).toBe(99.5)
+  })
+})
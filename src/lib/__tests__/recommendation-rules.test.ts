@@ -0,0 +1,97 @@
+import {
+  RecommendationProfile,
+  generateRuleBasedRecommendations,
+  getDailyCalorieTarget,
+  getMacroTargets
+} from '../recommendation-rules'
+import {
+  MIN_DAILY_CALORIES,
+  dietPlanSchema,
+  healthRecommendationsSchema,
+  validateAgainst
+} from '../recommendation-schema'
+import { LANGUAGE_CODES } from '../languages'
+
+describe('rule-based recommendations', () => {
+  const profile: RecommendationProfile = {
+    age: 45,
+    gender: 'female',
+    height: 158,
+    weight: 68,
+    bodyFat: 34,
+    activityLevel: 'light',
+    goal: 'weightLoss'
+  }
+
+  it('produces output that passes the recommendations schema', () => {
+    const result = validateAgainst(healthRecommendationsSchema, generateRuleBasedRecommendations(profile))
+    expect(result).toEqual({ valid: true, value: expect.any(Object) })
+  })
+
+  it('adjusts calories for the goal', () => {
+    const maintenance = getDailyCalorieTarget({ ...profile, goal: 'maintenance' })
+    expect(getDailyCalorieTarget(profile)).toBe(maintenance - 500)
+    expect(getDailyCalorieTarget({ ...profile, goal: 'muscleGain' })).toBe(maintenance + 300)
+  })
+
+  it('never goes below the minimum daily calories', () => {
+    const smallProfile = { ...profile, age: 80, height: 140, weight: 35, activityLevel: 'sedentary' }
+    expect(getDailyCalorieTarget(smallProfile)).toBe(MIN_DAILY_CALORIES)
+  })
+
+  it('gives more protein for muscle gain', () => {
+    expect(getMacroTargets(2000, 'muscleGain').protein).toBeGreaterThan(getMacroTargets(2000, 'fitness').protein)
+  })
+
+  it('adds supplements by age and gender', () => {
+    const titles = generateRuleBasedRecommendations(profile).lifestyle.actions.map(action => action.title)
+    expect(titles).toContain('Calcium and Magnesium (for bone health)')
+    expect(titles).toContain('Iron (if experiencing heavy periods)')
+  })
+
+  it.each(LANGUAGE_CODES.filter(language => language !== 'en'))('translates every line of the plan into %s', language => {
+    const english = generateRuleBasedRecommendations(profile)
+    const localized = generateRuleBasedRecommendations(profile, language)
+    expect(validateAgainst(healthRecommendationsSchema, localized).valid).toBe(true)
+
+    const lines = (plan: typeof english) => [
+      plan.summary,
+      ...plan.diet.mealPlan.flatMap(meal => [meal.meal, ...meal.items]),
+      ...plan.diet.tips,
+      ...plan.exercise.weeklyPlan.flatMap(day => [day.day, day.type, ...day.exercises.map(exercise => exercise.name)]),
+      ...plan.exercise.tips,
+      ...plan.lifestyle.actions.map(action => action.title)
+    ]
+    const untranslated = lines(localized).filter((line, i) => line === lines(english)[i])
+    expect(untranslated).toEqual([])
+    expect(localized.diet.dailyCalories).toBe(english.diet.dailyCalories)
+  })
+})
+
+describe('recommendation schema', () => {
+  const { diet } = generateRuleBasedRecommendations({
+    age: 30,
+    gender: 'male',
+    height: 175,
+    weight: 75,
+    bodyFat: null,
+    activityLevel: 'moderate',
+    goal: 'fitness'
+  })
+
+  it('rejects crash diets', () => {
+    const result = validateAgainst(dietPlanSchema, { ...diet, dailyCalories: 800 })
+    expect(result.valid).toBe(false)
+  })
+
+  it('rejects meals that do not add up to the daily calories', () => {
+    const result = validateAgainst(dietPlanSchema, {
+      ...diet,
+      mealPlan: diet.mealPlan.map(meal => ({ ...meal, calories: 100 }))
+    })
+    expect(result).toEqual({
+      valid: false,
+      errors: [expect.stringMatching(/^mealPlan: meal calories add up to 500/)]
+    })
+  })
+})
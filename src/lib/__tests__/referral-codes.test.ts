@@ -0,0 +1,49 @@
+import {
+  NAME_PREFIX_LENGTH,
+  RANDOM_SUFFIX_LENGTH,
+  REFERRAL_CODE_ALPHABET,
+  generateReferralCodeCandidate,
+  getVanityCodeError
+} from '../referral-codes'
+
+describe('Referral codes', () => {
+  describe('generateReferralCodeCandidate', () => {
+    const first = () => 0
+
+    it('starts with up to four letters of the name', () => {
+      expect(generateReferralCodeCandidate('Rahul', first)).toBe('RAHU' + 'A'.repeat(RANDOM_SUFFIX_LENGTH))
+    })
+
+    it('drops characters that are easy to misread', () => {
+      // I, L and O are left out of the alphabet
+      expect(generateReferralCodeCandidate('Lil Olive', first)).toBe('VEAAAAAAAA')
+      expect(REFERRAL_CODE_ALPHABET).not.toMatch(/[01ILO]/)
+    })
+
+    it('pads short or missing names with random characters', () => {
+      const code = generateReferralCodeCandidate('', first)
+      expect(code).toHaveLength(NAME_PREFIX_LENGTH + RANDOM_SUFFIX_LENGTH)
+    })
+
+    it('only uses characters from the alphabet', () => {
+      for (let i = 0; i < 50; i++) {
+        const code = generateReferralCodeCandidate('Priya Sharma')
+        expect(code).toMatch(new RegExp(`^[${REFERRAL_CODE_ALPHABET}]+$`))
+      }
+    })
+  })
+
+  describe('getVanityCodeError', () => {
+    it('accepts short alphanumeric codes', () => {
+      expect(getVanityCodeError('PRIYAFIT')).toBeNull()
+      expect(getVanityCodeError('RUN2026')).toBeNull()
+    })
+
+    it('rejects bad formats and reserved words', () => {
+      expect(getVanityCodeError('ABC')).toBe('Codes must be 4-12 letters or numbers')
+      expect(getVanityCodeError('PRIYA-FIT')).toBe('Codes must be 4-12 letters or numbers')
+      expect(getVanityCodeError('12345')).toBe('Codes must contain at least one letter')
+      expect(getVanityCodeError('FITXGEN50')).toBe('This code is reserved')
+    })
+  })
+})
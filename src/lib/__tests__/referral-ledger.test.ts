@@ -0,0 +1,75 @@
+import {
+  ReferralLedgerEntry,
+  calculateCommission,
+  getCommissionAvailableAt,
+  getReferralFraudFlags,
+  summarizeLedger
+} from '../referral-ledger'
+import { getPaymentMethodFingerprint } from '../razorpay-webhook'
+
+describe('Referral ledger', () => {
+  const now = new Date('2026-06-10T00:00:00Z')
+  const past = new Date('2026-06-01T00:00:00Z')
+  const future = new Date('2026-06-15T00:00:00Z')
+
+  it('pays 10% commission, rounded down, after a 7 day hold', () => {
+    expect(calculateCommission(299)).toBe(29)
+    expect(getCommissionAvailableAt(new Date('2026-06-01T00:00:00Z')).toISOString()).toBe('2026-06-08T00:00:00.000Z')
+  })
+
+  describe('summarizeLedger', () => {
+    const commission = (amount: number, availableAt: Date): ReferralLedgerEntry =>
+      ({ type: 'commission', status: 'posted', amount, availableAt })
+
+    it('splits commissions into pending and available', () => {
+      const summary = summarizeLedger([commission(29, past), commission(49, future)], now)
+      expect(summary).toEqual({ totalEarnings: 78, pendingEarnings: 49, availableBalance: 29, paidOut: 0 })
+    })
+
+    it('takes reversals out of the bucket their commission is in', () => {
+      const summary = summarizeLedger([
+        commission(49, future),
+        { type: 'reversal', status: 'posted', amount: -49, availableAt: future }
+      ], now)
+      expect(summary).toMatchObject({ totalEarnings: 0, pendingEarnings: 0, availableBalance: 0 })
+    })
+
+    it('deducts payouts from the available balance', () => {
+      const summary = summarizeLedger([
+        commission(29, past),
+        commission(49, past),
+        { type: 'payout', status: 'posted', amount: -50 }
+      ], now)
+      expect(summary).toMatchObject({ totalEarnings: 78, availableBalance: 28, paidOut: 50 })
+    })
+
+    it('ignores blocked transactions and attribution rows', () => {
+      const summary = summarizeLedger([
+        { type: 'commission', status: 'blocked', amount: 29, availableAt: past },
+        { type: 'attribution', status: 'posted', amount: 0 }
+      ], now)
+      expect(summary).toEqual({ totalEarnings: 0, pendingEarnings: 0, availableBalance: 0, paidOut: 0 })
+    })
+  })
+
+  describe('getReferralFraudFlags', () => {
+    const referrer = { userId: 'a', deviceIds: ['device-1'], paymentMethods: ['upi:me@okhdfc'] }
+
+    it('flags self referrals', () => {
+      expect(getReferralFraudFlags(referrer, { ...referrer })).toEqual(['self_referral'])
+    })
+
+    it('flags a shared device or payment method', () => {
+      expect(getReferralFraudFlags(referrer, { userId: 'b', deviceIds: ['device-1'], paymentMethods: ['upi:me@okhdfc'] }))
+        .toEqual(['same_device', 'same_payment_method'])
+      expect(getReferralFraudFlags(referrer, { userId: 'b', deviceIds: ['device-2'], paymentMethods: [] })).toEqual([])
+    })
+  })
+
+  it('fingerprints UPI and card payments but not net banking', () => {
+    const payment = { id: 'pay_1', order_id: 'order_1', amount: 29900, currency: 'INR', status: 'captured' }
+    expect(getPaymentMethodFingerprint({ ...payment, method: 'upi', vpa: 'Me@OkHDFC' })).toBe('upi:me@okhdfc')
+    expect(getPaymentMethodFingerprint({ ...payment, method: 'card', card_id: 'card_123' })).toBe('card:card_123')
+    expect(getPaymentMethodFingerprint({ ...payment, method: 'netbanking' })).toBeNull()
+  })
+})
@@ -0,0 +1,17 @@
+import { parseReferralCode } from '../referral-link'
+
+describe('parseReferralCode', () => {
+  it('normalises codes from links', () => {
+    expect(parseReferralCode('rahu1234')).toBe('RAHU1234')
+    expect(parseReferralCode(' PRIY0042 ')).toBe('PRIY0042')
+  })
+
+  it('ignores values that cannot be referral codes', () => {
+    expect(parseReferralCode(null)).toBeNull()
+    expect(parseReferralCode('')).toBeNull()
+    expect(parseReferralCode('abc')).toBeNull()
+    expect(parseReferralCode('RAHU-1234')).toBeNull()
+    expect(parseReferralCode('<script>')).toBeNull()
+    expect(parseReferralCode('A'.repeat(21))).toBeNull()
+  })
+})
@@ -0,0 +1,41 @@
+import { MIN_PAYOUT_AMOUNT, getPayoutAmountError, isValidVpa, maskVpa, normalizeVpa } from '../referral-payouts'
+
+describe('Referral payouts', () => {
+  describe('isValidVpa', () => {
+    it('accepts common UPI ID formats', () => {
+      expect(isValidVpa('rahul.sharma@okhdfcbank')).toBe(true)
+      expect(isValidVpa('9876543210@ybl')).toBe(true)
+      expect(isValidVpa('  Priya_K@OkAxis ')).toBe(true)
+    })
+
+    it('rejects malformed IDs', () => {
+      expect(isValidVpa('rahul')).toBe(false)
+      expect(isValidVpa('rahul@')).toBe(false)
+      expect(isValidVpa('@okaxis')).toBe(false)
+      expect(isValidVpa('rahul@ok axis')).toBe(false)
+      expect(isValidVpa('rahul@1bank')).toBe(false)
+    })
+
+    it('normalises case and whitespace', () => {
+      expect(normalizeVpa('  Priya_K@OkAxis ')).toBe('priya_k@okaxis')
+    })
+  })
+
+  describe('getPayoutAmountError', () => {
+    it('enforces the minimum and the available balance', () => {
+      expect(getPayoutAmountError(MIN_PAYOUT_AMOUNT - 1, 500)).toBe(`The minimum withdrawal is ₹${MIN_PAYOUT_AMOUNT}`)
+      expect(getPayoutAmountError(300, 250.5)).toBe('You can withdraw up to ₹250')
+      expect(getPayoutAmountError(250, 250.5)).toBeNull()
+    })
+
+    it('only allows whole rupees', () => {
+      expect(getPayoutAmountError(150.5, 500)).toBe('Withdrawals must be in whole rupees')
+      expect(getPayoutAmountError(NaN, 500)).toBe('Enter an amount to withdraw')
+    })
+  })
+
+  it('masks UPI IDs for display', () => {
+    expect(maskVpa('rahulsharma@okaxis')).toBe('ra******a@okaxis')
+    expect(maskVpa('ab@ybl')).toBe('ab@ybl')
+  })
+})
@@ -0,0 +1,52 @@
+import { getReferralReversal, getRefundAmountError, getRefundableAmount } from '../refund-policy'
+
+describe('Refund policy', () => {
+  describe('getRefundableAmount', () => {
+    it('subtracts earlier refunds', () => {
+      expect(getRefundableAmount(299)).toBe(299)
+      expect(getRefundableAmount(299, 100)).toBe(199)
+      expect(getRefundableAmount(299, 299)).toBe(0)
+    })
+  })
+
+  describe('getRefundAmountError', () => {
+    it('accepts partial and full refunds', () => {
+      expect(getRefundAmountError(100, 299)).toBeNull()
+      expect(getRefundAmountError(299, 299)).toBeNull()
+      expect(getRefundAmountError(49.5, 299)).toBeNull()
+    })
+
+    it('accepts amounts in paise that floats store inexactly', () => {
+      // 0.29 * 100 is 28.999999999999996
+      expect(getRefundAmountError(0.29, 299)).toBeNull()
+      expect(getRefundAmountError(1.15, 299)).toBeNull()
+    })
+
+    it('rejects invalid amounts', () => {
+      expect(getRefundAmountError(0, 299)).toBe('Refund amount must be greater than zero')
+      expect(getRefundAmountError(NaN, 299)).toBe('Refund amount must be greater than zero')
+      expect(getRefundAmountError(10.555, 299)).toBe('Refund amount can have at most two decimal places')
+      expect(getRefundAmountError(300, 299)).toBe('Refund amount cannot exceed the refundable balance of ₹299')
+    })
+  })
+
+  describe('getReferralReversal', () => {
+    it('reverses earnings in proportion to the refund', () => {
+      // ₹29 credited on a ₹299 payment, ₹100 refunded
+      expect(getReferralReversal(29, 0, 100, 299)).toBe(9)
+    })
+
+    it('only reverses the remainder on later refunds', () => {
+      expect(getReferralReversal(29, 9, 200, 299)).toBe(10)
+    })
+
+    it('reverses everything once fully refunded', () => {
+      expect(getReferralReversal(29, 19, 299, 299)).toBe(10)
+      expect(getReferralReversal(29, 0, 299, 299)).toBe(29)
+    })
+
+    it('does nothing without credited earnings', () => {
+      expect(getReferralReversal(0, 0, 299, 299)).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,27 @@
+import { formatServerSentEvent, parseServerSentEvents } from '../sse'
+
+describe('Server-Sent Events', () => {
+  it('round-trips formatted events', () => {
+    const stream = formatServerSentEvent('token', { text: 'Namaste' }) +
+      formatServerSentEvent('done', { response: 'Namaste\n🙏' })
+
+    const { events, rest } = parseServerSentEvents(stream)
+    expect(rest).toBe('')
+    expect(events.map(event => event.event)).toEqual(['token', 'done'])
+    expect(JSON.parse(events[1].data)).toEqual({ response: 'Namaste\n🙏' })
+  })
+
+  it('holds back an incomplete event until the rest arrives', () => {
+    const full = formatServerSentEvent('token', { text: 'dal' })
+    const first = parseServerSentEvents(full.slice(0, 10))
+    expect(first.events).toEqual([])
+
+    const second = parseServerSentEvents(first.rest + full.slice(10))
+    expect(second.events).toEqual([{ event: 'token', data: '{"text":"dal"}' }])
+  })
+
+  it('ignores comments and joins multi-line data', () => {
+    const { events } = parseServerSentEvents(': keep-alive\n\ndata: line one\r\ndata: line two\r\n\r\n')
+    expect(events).toEqual([{ event: 'message', data: 'line one\nline two' }])
+  })
+})
@@ -0,0 +1,68 @@
+import {
+  getDueReminder,
+  getRenewalExpiry,
+  getRenewalStatus,
+  getSubscriptionPhase
+} from '../subscription-lifecycle'
+
+describe('Subscription lifecycle', () => {
+  const now = new Date('2026-06-01T00:00:00Z')
+
+  describe('getSubscriptionPhase', () => {
+    it('moves from active to grace to expired', () => {
+      expect(getSubscriptionPhase(new Date('2026-06-10T00:00:00Z'), now, 7)).toBe('active')
+      expect(getSubscriptionPhase(new Date('2026-05-28T00:00:00Z'), now, 7)).toBe('grace')
+      expect(getSubscriptionPhase(new Date('2026-05-20T00:00:00Z'), now, 7)).toBe('expired')
+    })
+
+    it('expires immediately without a grace period', () => {
+      expect(getSubscriptionPhase(new Date('2026-05-31T00:00:00Z'), now, 0)).toBe('expired')
+    })
+  })
+
+  describe('getRenewalExpiry', () => {
+    it('extends an early renewal from the current expiry', () => {
+      const expiry = getRenewalExpiry(new Date('2026-06-20T00:00:00Z'), now, 7)
+      expect(expiry.toISOString()).toBe('2027-06-20T00:00:00.000Z')
+    })
+
+    it('extends from the expiry during the grace period', () => {
+      const expiry = getRenewalExpiry(new Date('2026-05-28T00:00:00Z'), now, 7)
+      expect(expiry.toISOString()).toBe('2027-05-28T00:00:00.000Z')
+    })
+
+    it('starts from today for new or fully lapsed subscriptions', () => {
+      expect(getRenewalExpiry(null, now, 7).toISOString()).toBe('2027-06-01T00:00:00.000Z')
+      expect(getRenewalExpiry(new Date('2026-01-01T00:00:00Z'), now, 7).toISOString()).toBe('2027-06-01T00:00:00.000Z')
+    })
+  })
+
+  describe('getDueReminder', () => {
+    it('sends nothing outside the reminder window', () => {
+      expect(getDueReminder(new Date('2026-08-01T00:00:00Z'), [], now)).toBeNull()
+    })
+
+    it('sends each reminder once', () => {
+      const expiresAt = new Date('2026-06-20T00:00:00Z')
+      expect(getDueReminder(expiresAt, [], now)).toBe(30)
+      expect(getDueReminder(expiresAt, [30], now)).toBeNull()
+    })
+
+    it('skips to the most urgent reminder after a missed run', () => {
+      expect(getDueReminder(new Date('2026-06-05T00:00:00Z'), [], now)).toBe(7)
+      expect(getDueReminder(new Date('2026-06-01T12:00:00Z'), [30], now)).toBe(1)
+    })
+
+    it('stops once the subscription has expired', () => {
+      expect(getDueReminder(new Date('2026-05-31T00:00:00Z'), [], now)).toBeNull()
+    })
+  })
+
+  it('summarises renewal details for a subscription', () => {
+    const status = getRenewalStatus(new Date('2026-05-30T00:00:00Z'), now, 7)
+    expect(status.phase).toBe('grace')
+    expect(status.daysLeft).toBe(-2)
+    expect(status.graceEndsAt.toISOString()).toBe('2026-06-06T00:00:00.000Z')
+    expect(status.renewalExpiresAt.toISOString()).toBe('2027-05-30T00:00:00.000Z')
+  })
+})
@@ -0,0 +1,74 @@
+import {
+  cmToFeetAndInches,
+  feetAndInchesToCm,
+  formatLengthRange,
+  fromMetricMeasurements,
+  isUnitSystem,
+  kgToPounds,
+  poundsToKg,
+  toMetricMeasurements
+} from '../units'
+import { validateMeasurements } from '../body-fat-calculator'
+
+describe('Units', () => {
+  describe('conversions', () => {
+    it('converts between pounds and kilograms', () => {
+      expect(poundsToKg(176)).toBeCloseTo(79.83, 2)
+      expect(kgToPounds(80)).toBeCloseTo(176.37, 2)
+    })
+
+    it('converts feet and inches to centimetres and back', () => {
+      expect(feetAndInchesToCm(5, 11)).toBeCloseTo(180.34, 2)
+      expect(cmToFeetAndInches(180)).toEqual({ feet: 5, inches: 10.9 })
+    })
+  })
+
+  describe('toMetricMeasurements', () => {
+    it('passes metric input through unchanged', () => {
+      expect(toMetricMeasurements({ height: 180, weight: 80, waist: 85 }, 'metric'))
+        .toEqual({ height: 180, weight: 80, waist: 85 })
+    })
+
+    it('prefers feet and inches over total inches for imperial height', () => {
+      const metric = toMetricMeasurements({ height: 60, heightFeet: 5, heightInches: 11, weight: 176 }, 'imperial')
+      expect(metric.height).toBe(180.3)
+      expect(metric.weight).toBe(79.8)
+    })
+
+    it('converts imperial circumferences and leaves absent fields out', () => {
+      const metric = toMetricMeasurements({ waist: 34, neck: 15.5 }, 'imperial')
+      expect(metric).toEqual({ waist: 86.4, neck: 39.4 })
+    })
+  })
+
+  describe('fromMetricMeasurements', () => {
+    it('returns imperial values with unit labels', () => {
+      const display = fromMetricMeasurements({ height: 180, weight: 80, waist: 85 }, 'imperial')
+      expect(display).toMatchObject({
+        unitSystem: 'imperial',
+        lengthUnit: 'in',
+        weightUnit: 'lb',
+        height: 70.9,
+        heightFeet: 5,
+        heightInches: 10.9,
+        weight: 176.4,
+        waist: 33.5
+      })
+    })
+  })
+
+  describe('validation messages', () => {
+    it('reports limits in the unit system the user entered', () => {
+      expect(formatLengthRange(100, 250, 'imperial')).toBe('39.4 and 98.4 in')
+
+      const errors = validateMeasurements({ height: 50 }, 'imperial')
+      expect(errors).toContain('Height must be between 39.4 and 98.4 in')
+      expect(validateMeasurements({ height: 50 })).toContain('Height must be between 100 and 250 cm')
+    })
+
+    it('recognises supported unit systems', () => {
+      expect(isUnitSystem('imperial')).toBe(true)
+      expect(isUnitSystem('us')).toBe(false)
+    })
+  })
+})
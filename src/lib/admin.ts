@@ -0,0 +1,25 @@
+import type { Session } from 'next-auth'
+
+type Env = Record<string, string | undefined>
+
+/**
+ * Whether an email is on the ADMIN_EMAILS allowlist (comma separated). The
+ * allowlist lives on the server only, so nothing a user can edit about
+ * themselves makes them an admin.
+ */
+export function isAdminEmail(email: string | null | undefined, env: Env = process.env): boolean {
+  if (!email) return false
+  const admins = (env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(admin => admin.trim().toLowerCase())
+    .filter(Boolean)
+  return admins.includes(email.toLowerCase())
+}
+
+/**
+ * Same rule the middleware applies to /admin pages, for admin API routes.
+ * Server-side only; client components read session.user.isAdmin instead.
+ */
+export function isAdminSession(session: Session | null): boolean {
+  return isAdminEmail(session?.user?.email)
+}
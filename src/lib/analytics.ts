@@ -1,4 +1,5 @@
 // Comprehensive analytics and conversion tracking for FitXGen
+import type { BodyFatMethodId } from './body-fat-methods'
 
 interface AnalyticsEvent {
   action: string
@@ -502,7 +503,7 @@ export class ConversionTracker {
   }
 
   // Track body fat calculation
-  trackCalculation(accuracy: number, method: 'navy' | 'ymca' | 'custom') {
+  trackCalculation(accuracy: number, method: BodyFatMethodId | 'custom') {
     this.analytics.trackConversion({
       action: 'body_fat_calculation',
       category: 'conversion',
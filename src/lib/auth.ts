@@ -1,9 +1,14 @@
 import NextAuth from 'next-auth'
 import CredentialsProvider from 'next-auth/providers/credentials'
 import bcrypt from 'bcryptjs'
+import { cookies } from 'next/headers'
 import connectDB from './mongodb'
 import User from '@/models/User'
-import { generateReferralCode } from './utils'
+import { DEVICE_COOKIE, parseDeviceId } from './device'
+import { REFERRAL_COOKIE, parseReferralCode } from './referral-link'
+import { attributeSignup } from './referral-service'
+import { assignReferralCode } from './referral-code-service'
+import { isAdminEmail } from './admin'
 
 export const { handlers, signIn, signOut, auth } = NextAuth({
   providers: [
@@ -12,7 +17,8 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
       credentials: {
         email: { label: 'Email', type: 'email' },
         password: { label: 'Password', type: 'password' },
-        action: { label: 'Action', type: 'text' } // 'signin' or 'signup'
+        action: { label: 'Action', type: 'text' }, // 'signin' or 'signup'
+        referralCode: { label: 'Referral code', type: 'text' } // signup only
       },
       async authorize(credentials) {
         if (!credentials?.email || !credentials?.password) {
@@ -56,7 +62,6 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
               primaryObjective: 'fitness' // Will be updated during onboarding
             },
             referrals: {
-              code: generateReferralCode(email.split('@')[0]),
               referred: [],
               earnings: 0
             }
@@ -64,6 +69,27 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
 
           await newUser.save()
 
+          try {
+            await assignReferralCode(newUser._id, newUser.profile.name)
+          } catch (error) {
+            console.error('Referral code assignment error:', error)
+            // Onboarding assigns one if this failed
+          }
+
+          // A code passed by the signup form wins over one remembered from an
+          // earlier visit
+          try {
+            const cookieStore = await cookies()
+            const referralCode = parseReferralCode(credentials.referralCode as string | undefined) ||
+              parseReferralCode(cookieStore.get(REFERRAL_COOKIE)?.value)
+            if (referralCode) {
+              await attributeSignup(newUser._id, referralCode, parseDeviceId(cookieStore.get(DEVICE_COOKIE)?.value))
+            }
+          } catch (error) {
+            console.error('Signup referral attribution error:', error)
+            // Don't fail the signup for referral issues
+          }
+
           return {
             id: newUser._id.toString(),
             email: newUser.email,
@@ -106,6 +132,9 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
     async session({ session, token }) {
       if (token) {
         session.user.id = token.id as string
+        // Checked on every read so removing someone from the allowlist takes
+        // effect without waiting for their token to expire
+        session.user.isAdmin = isAdminEmail(session.user.email)
       }
       return session
     },
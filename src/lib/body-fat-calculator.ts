@@ -1,3 +1,21 @@
+import { BodyFatMethodId, getBodyFatMethod } from './body-fat-methods'
+import { UnitSystem, formatLengthRange, formatWeightRange } from './units'
+import { BodyFatCategory, HealthStatus, classifyBodyFat } from './body-fat-classification'
+
+export interface SkinfoldMeasurements {
+  chest?: number // mm
+  abdomen?: number // mm
+  thigh?: number // mm
+  triceps?: number // mm
+  suprailiac?: number // mm
+  midaxillary?: number // mm
+  subscapular?: number // mm
+}
+
+const SKINFOLD_SITES: Array<keyof SkinfoldMeasurements> = [
+  'chest', 'abdomen', 'thigh', 'triceps', 'suprailiac', 'midaxillary', 'subscapular'
+]
+
 export interface MeasurementData {
   age: number
   gender: 'male' | 'female'
@@ -6,54 +24,41 @@ export interface MeasurementData {
   waist: number // cm
   neck: number // cm
   hip?: number // cm (required for females)
+  skinfolds?: SkinfoldMeasurements // optional caliper readings
 }
 
 export interface BodyFatResult {
   bodyFatPercentage: number
   bmi: number
-  category: string
-  healthStatus: 'Excellent' | 'Good' | 'Fair' | 'Poor' | 'Very Poor'
+  category: BodyFatCategory
+  healthStatus: HealthStatus
+  classificationVersion: number
   recommendations: string[]
+  method?: BodyFatMethodId
+}
+
+export interface CalculateBodyFatOptions {
+  method?: BodyFatMethodId
 }
 
 /**
- * Calculate Body Fat Percentage using US Navy Method
- * This is one of the most accurate methods for body fat calculation
+ * Calculate Body Fat Percentage
+ * Uses the US Navy Method unless another estimation method is requested
  */
-export function calculateBodyFat(data: MeasurementData): BodyFatResult {
-  const { age, gender, height, weight, waist, neck, hip } = data
+export function calculateBodyFat(data: MeasurementData, options: CalculateBodyFatOptions = {}): BodyFatResult {
+  const { age, gender, height, weight } = data
+  const method = getBodyFatMethod(options.method || 'navy')
 
   // Calculate BMI first
   const heightInMeters = height / 100
   const bmi = weight / (heightInMeters * heightInMeters)
 
-  let bodyFatPercentage: number
-
-  if (gender === 'male') {
-    // US Navy Formula for Males
-    // BF% = 495 / (1.0324 - 0.19077 * log10(waist - neck) + 0.15456 * log10(height)) - 450
-    const log10WaistNeck = Math.log10(waist - neck)
-    const log10Height = Math.log10(height)
-    
-    bodyFatPercentage = 495 / (1.0324 - 0.19077 * log10WaistNeck + 0.15456 * log10Height) - 450
-  } else {
-    // US Navy Formula for Females
-    // BF% = 495 / (1.29579 - 0.35004 * log10(waist + hip - neck) + 0.22100 * log10(height)) - 450
-    if (!hip) {
-      throw new Error('Hip measurement is required for females')
-    }
-    
-    const log10WaistHipNeck = Math.log10(waist + hip - neck)
-    const log10Height = Math.log10(height)
-    
-    bodyFatPercentage = 495 / (1.29579 - 0.35004 * log10WaistHipNeck + 0.22100 * log10Height) - 450
-  }
+  let bodyFatPercentage = method.estimate(data)
 
   // Ensure reasonable bounds
   bodyFatPercentage = Math.max(3, Math.min(50, bodyFatPercentage))
 
-  const category = getBodyFatCategory(bodyFatPercentage, gender, age)
-  const healthStatus = getHealthStatus(bodyFatPercentage, gender, age)
+  const { category, healthStatus, version } = classifyBodyFat(bodyFatPercentage, gender, age)
   const recommendations = getRecommendations(bodyFatPercentage, bmi, gender, age)
 
   return {
@@ -61,57 +66,12 @@ export function calculateBodyFat(data: MeasurementData): BodyFatResult {
     bmi: Math.round(bmi * 10) / 10,
     category,
     healthStatus,
-    recommendations
-  }
-}
-
-function getBodyFatCategory(bodyFat: number, gender: string, age: number): string {
-  if (gender === 'male') {
-    if (age < 30) {
-      if (bodyFat < 8) return 'Essential Fat'
-      if (bodyFat < 14) return 'Athletic'
-      if (bodyFat < 21) return 'Fitness'
-      if (bodyFat < 25) return 'Average'
-      return 'Obese'
-    } else {
-      if (bodyFat < 8) return 'Essential Fat'
-      if (bodyFat < 17) return 'Athletic'
-      if (bodyFat < 24) return 'Fitness'
-      if (bodyFat < 28) return 'Average'
-      return 'Obese'
-    }
-  } else {
-    if (age < 30) {
-      if (bodyFat < 10) return 'Essential Fat'
-      if (bodyFat < 16) return 'Athletic'
-      if (bodyFat < 24) return 'Fitness'
-      if (bodyFat < 31) return 'Average'
-      return 'Obese'
-    } else {
-      if (bodyFat < 10) return 'Essential Fat'
-      if (bodyFat < 20) return 'Athletic'
-      if (bodyFat < 27) return 'Fitness'
-      if (bodyFat < 34) return 'Average'
-      return 'Obese'
-    }
+    classificationVersion: version,
+    recommendations,
+    method: method.id
   }
 }
 
-function getHealthStatus(bodyFat: number, gender: string, age: number): BodyFatResult['healthStatus'] {
-  const optimalRanges = {
-    male: { min: gender === 'male' && age < 30 ? 8 : 11, max: gender === 'male' && age < 30 ? 19 : 22 },
-    female: { min: gender === 'female' && age < 30 ? 16 : 20, max: gender === 'female' && age < 30 ? 24 : 27 }
-  }
-
-  const range = gender === 'male' ? optimalRanges.male : optimalRanges.female
-
-  if (bodyFat >= range.min && bodyFat <= range.max) return 'Excellent'
-  if (bodyFat >= range.min - 3 && bodyFat <= range.max + 3) return 'Good'
-  if (bodyFat >= range.min - 6 && bodyFat <= range.max + 6) return 'Fair'
-  if (bodyFat >= range.min - 10 && bodyFat <= range.max + 10) return 'Poor'
-  return 'Very Poor'
-}
-
 function getRecommendations(bodyFat: number, bmi: number, gender: string, age: number): string[] {
   const recommendations: string[] = []
 
@@ -176,32 +136,36 @@ export function calculateTDEE(bmr: number, activityLevel: string): number {
 
 /**
  * Validate measurement data
+ * Values are expected in metric; `unitSystem` only controls how the limits are
+ * worded so imperial users see ranges in the units they entered.
  */
-export function validateMeasurements(data: Partial<MeasurementData>): string[] {
+export function validateMeasurements(data: Partial<MeasurementData>, unitSystem: UnitSystem = 'metric'): string[] {
   const errors: string[] = []
+  const lengthRange = (min: number, max: number) => formatLengthRange(min, max, unitSystem)
+  const weightRange = (min: number, max: number) => formatWeightRange(min, max, unitSystem)
 
   if (!data.age || data.age < 13 || data.age > 100) {
     errors.push('Age must be between 13 and 100 years')
   }
 
   if (!data.height || data.height < 100 || data.height > 250) {
-    errors.push('Height must be between 100 and 250 cm')
+    errors.push(`Height must be between ${lengthRange(100, 250)}`)
   }
 
   if (!data.weight || data.weight < 30 || data.weight > 300) {
-    errors.push('Weight must be between 30 and 300 kg')
+    errors.push(`Weight must be between ${weightRange(30, 300)}`)
   }
 
   if (!data.waist || data.waist < 50 || data.waist > 200) {
-    errors.push('Waist measurement must be between 50 and 200 cm')
+    errors.push(`Waist measurement must be between ${lengthRange(50, 200)}`)
   }
 
   if (!data.neck || data.neck < 20 || data.neck > 60) {
-    errors.push('Neck measurement must be between 20 and 60 cm')
+    errors.push(`Neck measurement must be between ${lengthRange(20, 60)}`)
   }
 
   if (data.gender === 'female' && (!data.hip || data.hip < 60 || data.hip > 200)) {
-    errors.push('Hip measurement is required for females and must be between 60 and 200 cm')
+    errors.push(`Hip measurement is required for females and must be between ${lengthRange(60, 200)}`)
   }
 
   // Logical validations
@@ -210,4 +174,25 @@ export function validateMeasurements(data: Partial<MeasurementData>): string[] {
   }
 
   return errors
-}
\ No newline at end of file
+}
+
+/**
+ * Validate caliper skinfolds from a request body. Every site given must be a
+ * positive number of millimetres; strings would otherwise be concatenated
+ * into the sum the skinfold equations use.
+ */
+export function validateSkinfolds(skinfolds: unknown): string[] {
+  if (typeof skinfolds !== 'object' || skinfolds === null || Array.isArray(skinfolds)) {
+    return ['Skinfolds must be an object of caliper readings in mm']
+  }
+
+  const errors: string[] = []
+  for (const [site, value] of Object.entries(skinfolds)) {
+    if (!(SKINFOLD_SITES as string[]).includes(site)) {
+      errors.push(`Unknown skinfold site: ${site}`)
+    } else if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      errors.push(`Skinfold at ${site} must be a positive number of mm`)
+    }
+  }
+  return errors
+}
@@ -0,0 +1,191 @@
+// Single source of truth for turning a body fat percentage into a category
+// and health status. Bump CLASSIFICATION_VERSION whenever the ranges below
+// change, then run the classification migration (see DEPLOYMENT.md) to
+// re-classify stored results.
+
+/**
+ * Version history:
+ * 1 - original under/over 30 tables (unversioned results are treated as 1)
+ * 2 - ACE categories with ACSM per-decade age adjustment
+ */
+export const CLASSIFICATION_VERSION = 2
+
+// Enum-like constants; the matching types are plain string unions so stored
+// values and API payloads stay assignable
+export const BodyFatCategory = {
+  Essential: 'Essential Fat',
+  Athletic: 'Athletic',
+  Fitness: 'Fitness',
+  Average: 'Average',
+  Obese: 'Obese'
+} as const
+export type BodyFatCategory = typeof BodyFatCategory[keyof typeof BodyFatCategory]
+
+export const HealthStatus = {
+  Excellent: 'Excellent',
+  Good: 'Good',
+  Fair: 'Fair',
+  Poor: 'Poor',
+  VeryPoor: 'Very Poor'
+} as const
+export type HealthStatus = typeof HealthStatus[keyof typeof HealthStatus]
+
+export type AgeBand = '20-29' | '30-39' | '40-49' | '50-59' | '60+'
+
+export interface CategoryRange {
+  category: BodyFatCategory
+  min: number // inclusive
+  max: number | null // exclusive, null for open-ended
+}
+
+export interface BodyFatClassification {
+  category: BodyFatCategory
+  healthStatus: HealthStatus
+  ageBand: AgeBand
+  ranges: CategoryRange[]
+  version: number
+}
+
+// Upper bounds (exclusive) for Essential, Athletic, Fitness and Average;
+// anything above the last bound is Obese. Based on the ACE categories with
+// the ACSM age-normed percentiles shifting each band per decade.
+const UPPER_BOUNDS: Record<'male' | 'female', Record<AgeBand, [number, number, number, number]>> = {
+  male: {
+    '20-29': [6, 14, 18, 25],
+    '30-39': [6, 15, 20, 26],
+    '40-49': [6, 17, 22, 28],
+    '50-59': [6, 18, 24, 29],
+    '60+': [6, 19, 25, 30]
+  },
+  female: {
+    '20-29': [14, 21, 25, 32],
+    '30-39': [14, 22, 26, 33],
+    '40-49': [14, 24, 28, 35],
+    '50-59': [14, 25, 30, 37],
+    '60+': [14, 26, 31, 38]
+  }
+}
+
+const CATEGORY_ORDER: BodyFatCategory[] = [
+  BodyFatCategory.Essential,
+  BodyFatCategory.Athletic,
+  BodyFatCategory.Fitness,
+  BodyFatCategory.Average,
+  BodyFatCategory.Obese
+]
+
+// How far below the essential threshold or into the obese band a reading
+// must be to drop from Poor to Very Poor
+const VERY_POOR_LOW_MARGIN = 3
+const VERY_POOR_HIGH_MARGIN = 10
+
+/**
+ * Adult age band by decade. Under-20s use the youngest adult band.
+ */
+export function getAgeBand(age: number): AgeBand {
+  if (age < 30) return '20-29'
+  if (age < 40) return '30-39'
+  if (age < 50) return '40-49'
+  if (age < 60) return '50-59'
+  return '60+'
+}
+
+/**
+ * Category ranges for a sex and age, lowest first
+ */
+export function getCategoryRanges(gender: string, age: number): CategoryRange[] {
+  const bounds = UPPER_BOUNDS[gender === 'female' ? 'female' : 'male'][getAgeBand(age)]
+
+  return CATEGORY_ORDER.map((category, index) => ({
+    category,
+    min: index === 0 ? 0 : bounds[index - 1],
+    max: index < bounds.length ? bounds[index] : null
+  }))
+}
+
+export function getBodyFatCategory(bodyFat: number, gender: string, age: number): BodyFatCategory {
+  const range = getCategoryRanges(gender, age)
+    .find(({ min, max }) => bodyFat >= min && (max === null || bodyFat < max))
+  return range ? range.category : BodyFatCategory.Obese
+}
+
+export function getHealthStatus(bodyFat: number, gender: string, age: number): HealthStatus {
+  const ranges = getCategoryRanges(gender, age)
+  const category = getBodyFatCategory(bodyFat, gender, age)
+
+  switch (category) {
+    case BodyFatCategory.Athletic:
+      return HealthStatus.Excellent
+    case BodyFatCategory.Fitness:
+      return HealthStatus.Good
+    case BodyFatCategory.Average:
+      return HealthStatus.Fair
+    case BodyFatCategory.Essential:
+      // Below the essential threshold is a health risk in its own right
+      return bodyFat < ranges[1].min - VERY_POOR_LOW_MARGIN ? HealthStatus.VeryPoor : HealthStatus.Poor
+    case BodyFatCategory.Obese:
+      return bodyFat >= ranges[4].min + VERY_POOR_HIGH_MARGIN ? HealthStatus.VeryPoor : HealthStatus.Poor
+  }
+}
+
+/**
+ * Classify a body fat reading with the current version of the ranges
+ */
+export function classifyBodyFat(bodyFat: number, gender: string, age: number): BodyFatClassification {
+  return {
+    category: getBodyFatCategory(bodyFat, gender, age),
+    healthStatus: getHealthStatus(bodyFat, gender, age),
+    ageBand: getAgeBand(age),
+    ranges: getCategoryRanges(gender, age),
+    version: CLASSIFICATION_VERSION
+  }
+}
+
+/**
+ * Headline guidance for each category, shown alongside AI recommendations
+ */
+export function getCategoryRecommendations(category: BodyFatCategory): string[] {
+  const recommendations: Record<BodyFatCategory, string[]> = {
+    [BodyFatCategory.Essential]: [
+      "Your body fat is very low. Consider consulting a healthcare professional.",
+      "Focus on healthy weight gain with balanced nutrition.",
+      "Include healthy fats like nuts, avocados, and olive oil in your diet."
+    ],
+    [BodyFatCategory.Athletic]: [
+      "Excellent body composition! Maintain your current fitness routine.",
+      "Focus on performance-based nutrition and adequate protein intake.",
+      "Continue strength training to preserve lean muscle mass."
+    ],
+    [BodyFatCategory.Fitness]: [
+      "Great job! You're in the fitness range. Keep up the good work.",
+      "Maintain a balanced diet with adequate protein (0.8-1g per kg body weight).",
+      "Include both cardio and strength training in your routine."
+    ],
+    [BodyFatCategory.Average]: [
+      "You're in the average range. Small improvements can make a big difference.",
+      "Create a moderate caloric deficit through diet and exercise.",
+      "Include 150 minutes of moderate cardio per week.",
+      "Add 2-3 strength training sessions weekly."
+    ],
+    [BodyFatCategory.Obese]: [
+      "Focus on gradual, sustainable weight loss (0.5-1 kg per week).",
+      "Prioritize whole foods and reduce processed food intake.",
+      "Start with 30 minutes of walking daily and gradually increase.",
+      "Consider consulting a healthcare professional for a personalized plan."
+    ]
+  }
+
+  return recommendations[category] || [
+    "Complete your profile for personalized recommendations.",
+    "Maintain a balanced diet and regular exercise routine.",
+    "Consult healthcare professionals for personalized advice."
+  ]
+}
+
+export function isBodyFatCategory(value: unknown): value is BodyFatCategory {
+  return typeof value === 'string' && (CATEGORY_ORDER as string[]).includes(value)
+}
+
+export function isCurrentClassification(version: number | undefined): boolean {
+  return version === CLASSIFICATION_VERSION
+}
@@ -0,0 +1,232 @@
+import type { MeasurementData, SkinfoldMeasurements } from './body-fat-calculator'
+import { cmToInches, kgToPounds } from './units'
+
+export type BodyFatMethodId =
+  | 'navy'
+  | 'ymca'
+  | 'deurenberg'
+  | 'jacksonPollock3'
+  | 'jacksonPollock7'
+  | 'rfm'
+
+export interface BodyFatMethod {
+  id: BodyFatMethodId
+  name: string
+  description: string
+  isApplicable(data: MeasurementData): boolean
+  estimate(data: MeasurementData): number
+}
+
+export interface BodyFatEstimate {
+  method: BodyFatMethodId
+  name: string
+  bodyFatPercentage: number
+}
+
+/**
+ * Convert body density to body fat percentage using the Siri equation
+ */
+function siri(bodyDensity: number): number {
+  return 495 / bodyDensity - 450
+}
+
+function sumSkinfolds(skinfolds: SkinfoldMeasurements | undefined, sites: Array<keyof SkinfoldMeasurements>): number | null {
+  if (!skinfolds) return null
+  let sum = 0
+  for (const site of sites) {
+    const value = skinfolds[site]
+    if (!value || value <= 0) return null
+    sum += value
+  }
+  return sum
+}
+
+function requireSkinfolds(data: MeasurementData, sites: Array<keyof SkinfoldMeasurements>, methodName: string): number {
+  const sum = sumSkinfolds(data.skinfolds, sites)
+  if (sum === null) {
+    throw new Error(`${methodName} requires skinfold measurements at: ${sites.join(', ')}`)
+  }
+  return sum
+}
+
+// Jackson-Pollock skinfold sites differ between men and women for the 3-site test
+const JP3_SITES: Record<MeasurementData['gender'], Array<keyof SkinfoldMeasurements>> = {
+  male: ['chest', 'abdomen', 'thigh'],
+  female: ['triceps', 'suprailiac', 'thigh']
+}
+
+const JP7_SITES: Array<keyof SkinfoldMeasurements> = [
+  'chest', 'midaxillary', 'triceps', 'subscapular', 'abdomen', 'suprailiac', 'thigh'
+]
+
+/**
+ * US Navy circumference method (Hodgdon & Beckett)
+ */
+export const navyMethod: BodyFatMethod = {
+  id: 'navy',
+  name: 'US Navy',
+  description: 'Circumference-based estimate from waist, neck, height and (for women) hip',
+  isApplicable(data) {
+    if (!data.height || !data.waist || !data.neck || data.waist <= data.neck) return false
+    return data.gender === 'male' || !!data.hip
+  },
+  estimate({ gender, height, waist, neck, hip }) {
+    if (gender === 'male') {
+      // BF% = 495 / (1.0324 - 0.19077 * log10(waist - neck) + 0.15456 * log10(height)) - 450
+      return 495 / (1.0324 - 0.19077 * Math.log10(waist - neck) + 0.15456 * Math.log10(height)) - 450
+    }
+
+    // BF% = 495 / (1.29579 - 0.35004 * log10(waist + hip - neck) + 0.22100 * log10(height)) - 450
+    if (!hip) {
+      throw new Error('Hip measurement is required for females')
+    }
+    return 495 / (1.29579 - 0.35004 * Math.log10(waist + hip - neck) + 0.22100 * Math.log10(height)) - 450
+  }
+}
+
+/**
+ * YMCA method - waist circumference and body weight, in imperial units
+ */
+export const ymcaMethod: BodyFatMethod = {
+  id: 'ymca',
+  name: 'YMCA',
+  description: 'Waist and weight based estimate',
+  isApplicable(data) {
+    return !!data.waist && !!data.weight
+  },
+  estimate({ gender, waist, weight }) {
+    const waistInches = cmToInches(waist)
+    const weightPounds = kgToPounds(weight)
+    const constant = gender === 'male' ? -98.42 : -76.76
+    return ((constant + 4.15 * waistInches - 0.082 * weightPounds) / weightPounds) * 100
+  }
+}
+
+/**
+ * Deurenberg BMI-based equation for adults
+ */
+export const deurenbergMethod: BodyFatMethod = {
+  id: 'deurenberg',
+  name: 'Deurenberg (BMI)',
+  description: 'Estimate derived from BMI, age and sex',
+  isApplicable(data) {
+    return !!data.height && !!data.weight && !!data.age
+  },
+  estimate({ gender, height, weight, age }) {
+    const heightInMeters = height / 100
+    const bmi = weight / (heightInMeters * heightInMeters)
+    const sex = gender === 'male' ? 1 : 0
+    return 1.2 * bmi + 0.23 * age - 10.8 * sex - 5.4
+  }
+}
+
+/**
+ * Jackson-Pollock 3-site skinfold equation with Siri conversion
+ */
+export const jacksonPollock3Method: BodyFatMethod = {
+  id: 'jacksonPollock3',
+  name: 'Jackson-Pollock 3-site',
+  description: 'Caliper skinfolds: chest, abdomen, thigh (men) or triceps, suprailiac, thigh (women)',
+  isApplicable(data) {
+    return sumSkinfolds(data.skinfolds, JP3_SITES[data.gender]) !== null
+  },
+  estimate(data) {
+    const sum = requireSkinfolds(data, JP3_SITES[data.gender], 'Jackson-Pollock 3-site')
+    const bodyDensity = data.gender === 'male'
+      ? 1.10938 - 0.0008267 * sum + 0.0000016 * sum * sum - 0.0002574 * data.age
+      : 1.0994921 - 0.0009929 * sum + 0.0000023 * sum * sum - 0.0001392 * data.age
+    return siri(bodyDensity)
+  }
+}
+
+/**
+ * Jackson-Pollock 7-site skinfold equation with Siri conversion
+ */
+export const jacksonPollock7Method: BodyFatMethod = {
+  id: 'jacksonPollock7',
+  name: 'Jackson-Pollock 7-site',
+  description: 'Caliper skinfolds at chest, midaxillary, triceps, subscapular, abdomen, suprailiac and thigh',
+  isApplicable(data) {
+    return sumSkinfolds(data.skinfolds, JP7_SITES) !== null
+  },
+  estimate(data) {
+    const sum = requireSkinfolds(data, JP7_SITES, 'Jackson-Pollock 7-site')
+    const bodyDensity = data.gender === 'male'
+      ? 1.112 - 0.00043499 * sum + 0.00000055 * sum * sum - 0.00028826 * data.age
+      : 1.097 - 0.00046971 * sum + 0.00000056 * sum * sum - 0.00012828 * data.age
+    return siri(bodyDensity)
+  }
+}
+
+/**
+ * Relative Fat Mass (Woolcott & Bergman, 2018)
+ */
+export const rfmMethod: BodyFatMethod = {
+  id: 'rfm',
+  name: 'Relative Fat Mass',
+  description: 'Height-to-waist ratio based estimate',
+  isApplicable(data) {
+    return !!data.height && !!data.waist
+  },
+  estimate({ gender, height, waist }) {
+    const sex = gender === 'female' ? 1 : 0
+    return 64 - 20 * (height / waist) + 12 * sex
+  }
+}
+
+export const BODY_FAT_METHODS: Record<BodyFatMethodId, BodyFatMethod> = {
+  navy: navyMethod,
+  ymca: ymcaMethod,
+  deurenberg: deurenbergMethod,
+  jacksonPollock3: jacksonPollock3Method,
+  jacksonPollock7: jacksonPollock7Method,
+  rfm: rfmMethod
+}
+
+export function getBodyFatMethod(id: BodyFatMethodId): BodyFatMethod {
+  const method = BODY_FAT_METHODS[id]
+  if (!method) {
+    throw new Error(`Unknown body fat method: ${id}`)
+  }
+  return method
+}
+
+export function isBodyFatMethodId(value: unknown): value is BodyFatMethodId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(BODY_FAT_METHODS, value)
+}
+
+/**
+ * Clamp to physiologically reasonable bounds and round to one decimal place
+ */
+export function normalizeBodyFat(value: number): number {
+  return Math.round(Math.max(3, Math.min(50, value)) * 10) / 10
+}
+
+/**
+ * Run every method the supplied data supports
+ */
+export function estimateAllMethods(data: MeasurementData): BodyFatEstimate[] {
+  return Object.values(BODY_FAT_METHODS)
+    .filter(method => method.isApplicable(data))
+    .map(method => ({
+      method: method.id,
+      name: method.name,
+      bodyFatPercentage: normalizeBodyFat(method.estimate(data))
+    }))
+}
+
+/**
+ * Consensus value across methods - the median, so a single outlier method
+ * cannot drag the result
+ */
+export function getConsensusBodyFat(estimates: BodyFatEstimate[]): number | null {
+  if (estimates.length === 0) return null
+
+  const values = estimates.map(estimate => estimate.bodyFatPercentage).sort((a, b) => a - b)
+  const middle = Math.floor(values.length / 2)
+  const median = values.length % 2 === 0
+    ? (values[middle - 1] + values[middle]) / 2
+    : values[middle]
+
+  return Math.round(median * 10) / 10
+}
@@ -0,0 +1,93 @@
+import type { ChatMessage } from './claude-ai'
+
+// Rolling memory for long chats. Recent turns are sent to the AI as they are;
+// once they outgrow the token budget, the older ones are folded into a
+// summary that is saved on the session and sent alongside them.
+
+// Tokens of conversation history sent with each message
+export const CHAT_HISTORY_TOKEN_BUDGET = 2000
+
+// Summarising trims history to this, so it doesn't happen on every message
+export const CHAT_RECENT_TOKEN_TARGET = 1000
+
+// Always keep at least the last exchange word for word
+const MIN_RECENT_MESSAGES = 2
+
+/**
+ * Rough token count; about four characters per token for English, which errs
+ * on the side of summarising early for other scripts
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+function countTokens(messages: Pick<ChatMessage, 'content'>[]): number {
+  return messages.reduce((total, message) => total + estimateTokens(message.content), 0)
+}
+
+/**
+ * Index of the oldest message to send so the newest ones fit the token limit.
+ * The last exchange is always kept, and the window opens with the user since
+ * the conversation sent to the model has to.
+ */
+function windowStart(messages: Pick<ChatMessage, 'role' | 'content'>[], limit: number): number {
+  // Walk back from the newest message until the limit is used up
+  let start = messages.length
+  let tokens = 0
+  while (start > 0) {
+    const next = tokens + estimateTokens(messages[start - 1].content)
+    if (next > limit && messages.length - start >= MIN_RECENT_MESSAGES) break
+    tokens = next
+    start--
+  }
+
+  while (start < messages.length && messages[start].role !== 'user') {
+    start++
+  }
+  return start
+}
+
+export interface ChatMemoryPlan<T> {
+  toSummarize: T[] // messages to fold into the summary now
+  recent: T[] // messages to send word for word
+  summarizedCount: number // what context.summarizedCount becomes
+}
+
+/**
+ * Decide which messages to send as they are and which to summarise, given
+ * how many the saved summary already covers
+ */
+export function planChatMemory<T extends Pick<ChatMessage, 'role' | 'content'>>(
+  messages: T[],
+  summarizedCount = 0,
+  budget = CHAT_HISTORY_TOKEN_BUDGET,
+  target = CHAT_RECENT_TOKEN_TARGET
+): ChatMemoryPlan<T> {
+  const covered = Math.min(summarizedCount, messages.length)
+  const unsummarized = messages.slice(covered)
+
+  if (countTokens(unsummarized) <= budget) {
+    return { toSummarize: [], recent: unsummarized, summarizedCount: covered }
+  }
+
+  const start = windowStart(unsummarized, target)
+
+  return {
+    toSummarize: unsummarized.slice(0, start),
+    recent: unsummarized.slice(start),
+    summarizedCount: covered + start
+  }
+}
+
+/**
+ * What to send word for word when summarising fails: the newest messages that
+ * fit the full budget, so the turns the summary would have covered aren't
+ * simply dropped
+ */
+export function unsummarizedWindow<T extends Pick<ChatMessage, 'role' | 'content'>>(
+  plan: ChatMemoryPlan<T>,
+  budget = CHAT_HISTORY_TOKEN_BUDGET
+): T[] {
+  const messages = [...plan.toSummarize, ...plan.recent]
+  return messages.slice(windowStart(messages, budget))
+}
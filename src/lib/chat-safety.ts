@@ -0,0 +1,186 @@
+import { ChatLanguage } from './languages'
+import { SAFETY_MESSAGES } from './localized-messages'
+import { MIN_DAILY_CALORIES } from './recommendation-schema'
+
+// Safety checks around Arogya chat. Messages showing a red flag get a fixed
+// emergency or helpline reply instead of going to the AI, and AI replies
+// with medicine doses or crash diets are replaced before the user sees them.
+
+export type SafetyCategory =
+  | 'suicidalIdeation'
+  | 'chestPain'
+  | 'eatingDisorder'
+  | 'pregnancyExtremeDiet'
+  | 'unsafeDosage'
+  | 'crashDiet'
+
+export interface SafetyFinding {
+  stage: 'input' | 'output' // the user's message or the AI's reply
+  category: SafetyCategory
+  text: string // what was flagged
+  response: string // what the user is shown instead
+}
+
+type Pattern = RegExp
+
+// Patterns in Indian scripts can't use \b, which only knows Latin letters.
+// Devanagari phrases are listed Hindi first, then Marathi.
+
+const SUICIDAL_IDEATION: Pattern[] = [
+  /\b(kill(ing)?|hurt(ing)?|harm(ing)?) myself\b/i,
+  /\bsuicid(e|al)\b/i,
+  /\bend (my life|it all)\b/i,
+  /\b(want|wish) (to die|i (was|were) dead)\b/i,
+  /\b(don'?t|do not) want to (live|be alive)\b/i,
+  /\b(no reason to live|better off dead)\b/i,
+  /\bself[- ]harm\b/i,
+  /\b(marna chaht[aie]|jeena nahi chaht[aie])\b/i,
+  /आत्महत्या/,
+  /(मरना|मर जाना) चाहत[ाीे]/,
+  /(जीना|जीने) नहीं चाहत[ाीे]/,
+  /(खुद|अपने आप) को (मार|खत्म कर|नुकसान पहुँचा|नुकसान पहुंचा)/,
+  /जीने की (कोई )?(वजह|इच्छा) नहीं/,
+  /(मरायच[ंे]|जीव द्यावासा)/,
+  /जगायच[ंे] नाही/,
+  /स्वतःला (मारून|इजा)/,
+  /தற்கொலை/,
+  /சாக (வேண்டும்|விரும்பு|போகிறேன்)/,
+  /வாழ (விருப்பமில்லை|பிடிக்கவில்லை)/,
+  /ఆత్మహత్య/,
+  /చనిపోవాల(ని|నుంది)/,
+  /బ(త|తి)కాలని లేదు/,
+  /আত্মহত্যা/,
+  /(মরে যেতে|মরতে) (চাই|ইচ্ছে)/,
+  /বাঁচতে (চাই না|ইচ্ছে করে না)/
+]
+
+const CHEST_PAIN: Pattern[] = [
+  /\b(chest|heart) (pain|tightness|pressure|ache|hurts?)\b/i,
+  /\bpain in (my|the) chest\b/i,
+  /\bchest (is|feels) (tight|heavy)\b/i,
+  /\bheart attack\b/i,
+  /\b(seene|chhati|chaati) (mein|me|main) dard\b/i,
+  /(सीने|छाती) (में|मे) (दर्द|जकड़न|भारीपन)/,
+  /दिल का दौरा/,
+  /छातीत (दुख|वेदना|कळ)/,
+  /हृदयविकाराचा झटका/,
+  /(நெஞ்சு|நெஞ்சில்|மார்பு|மார்பில்) ?வலி/,
+  /மாரடைப்பு/,
+  /ఛాత(ీ|ి)(లో)? ?నొప్పి/,
+  /గుండె ?(పోటు|నొప్పి)/,
+  /বুকে? ব্যথা/,
+  /হার্ট অ্যাটাক/
+]
+
+const EATING_DISORDER: Pattern[] = [
+  /\bmake myself (throw up|vomit|sick)\b/i,
+  /\b(purg(e|ing)|binge and (purge|vomit))\b/i,
+  /\bstarv(e|ing) myself\b/i,
+  /\b(anorexi|bulimi)/i,
+  /\blaxatives? (to|for) (lose|losing|weight)/i,
+  /\b(not eat(en|ing)?|haven'?t eaten) (anything )?(for|in) (\d+|two|three|several|a few) days\b/i,
+  /\b(afraid|scared) (to|of) eat/i,
+  /(जानबूझकर|खुद) (उल्टी|उलटी) कर/,
+  /खुद को भूखा (रख|रह)/,
+  /(\d+|दो|तीन|चार|कई) दिन(ों)? से (कुछ )?(भी )?(नहीं खाया|खाना नहीं खाया)/,
+  /खाने से डर/,
+  /(\d+|दोन|तीन|चार|अनेक) दिवसांपासून (काहीच |काही )?(खाल्ल[ंे]|जेवल[ोे]) नाही/,
+  /स्वतःला उपाशी ठेव/,
+  /(\d+|இரண்டு|மூன்று|பல) நாட்களாக (எதுவும் )?சாப்பிடவில்லை/,
+  /சாப்பிட (பயம்|பயமாக)/,
+  /(\d+|రెండు|మూడు|చాలా) రోజులుగా (ఏమీ )?తినలేదు/,
+  /తినడానికి భయ/,
+  /(\d+|দুই|তিন|কয়েক) দিন (ধরে )?(কিছু(ই)? )?খাইনি/,
+  /খেতে ভয়/,
+  /ইচ্ছে করে বমি/
+]
+
+const PREGNANCY: Pattern[] = [
+  /\b(pregnan(t|cy)|trimester|expecting a baby|garbhvati)\b/i,
+  /(गर्भवती|गर्भावस्था|प्रेग्नेंट|गरोदर)/,
+  /கர்ப்ப/,
+  /(గర్భ|ప్రెగ్నెంట్)/,
+  /(গর্ভবতী|গর্ভাবস্থা|অন্তঃসত্ত্বা|প্রেগন্যান্ট)/
+]
+
+const EXTREME_DIET: Pattern[] = [
+  // Fasting itself, not "fast food" or "how fast"
+  /\bfast(ing|ed)\b/i,
+  /\b(keep(ing)?|do(ing)?|observ(e|ing)|break(ing)?|on|water|juice|dry|nirjala) (a )?fast\b(?! food)/i,
+  /\bfast for (\d+|a|one|two|three|four|five|six|seven|several) (days?|hours?|weeks?)\b/i,
+  /\bcrash diet\b/i,
+  /\bskip(ping)? meals\b/i,
+  /\b(detox|cleanse|starv)/i,
+  /\blose weight (fast|quickly)\b/i,
+  /(?<![\d,])\b[1-9]\d{2} (calories|kcal|cal)\b/i,
+  /\bketo\b/i,
+  /(?<![\d,])[1-9]\d{2} ?(कैलोरी|कॅलरी|கலோரி|కేలరీ|ক্যালোরি)/,
+  /(उपवास|व्रत|भूखा रह|भूखी रह|क्रैश डाइट|कीटो|जल्दी (वजन|वज़न) (कम|घटा))/,
+  /(उपाशी|लवकर वजन कमी|झटपट वजन कमी|क्रॅश डाएट)/,
+  /(விரதம்|உண்ணாவிரதம்|பட்டினி|வேகமாக எடை (குறை|இழ))/,
+  /(ఉపవాస|త్వరగా బరువు తగ్గ|క్రాష్ డైట్)/,
+  /(উপবাস|উপোস|তাড়াতাড়ি ওজন কম|ক্র্যাশ ডায়েট)/
+]
+
+// Specific amounts of a medicine or supplement to take. Units on their own
+// aren't enough: "200 ml of milk" is food advice.
+const MEDICINE = '(medicines?|medications?|drugs?|tablets?|capsules?|pills?|syrup|supplements?|insulin|vitamin|iron|calcium|zinc|magnesium|melatonin|metformin|paracetamol|ibuprofen|aspirin|thyroxine|b12|d3|omega[- ]?3|fish oil|creatine)'
+const DOSE = '\\d+(\\.\\d+)?\\s?(mg|mcg|µg|iu|units?|ml)'
+
+const DOSAGE: Pattern[] = [
+  /\b(take|taking|increase|double|dose of|dosage of|consume)\b[^.\n]{0,40}?\b\d+(\.\d+)?\s?(tablets?|pills?|capsules?)\b/i,
+  new RegExp(`\\b${MEDICINE}\\b[^.\\n]{0,25}?\\b${DOSE}(?![a-z])`, 'i'),
+  new RegExp(`\\b${DOSE}\\b (of )?([a-z-]+ ){0,2}${MEDICINE}\\b`, 'i'),
+  /\bstop taking (your )?(medicine|medication|insulin|tablets|pills)\b/i
+]
+
+const EXTENDED_FAST: Pattern = /\bfast(ing)?\b[^.\n]{0,30}\b([3-9]|\d{2,}|three|four|five|six|seven|several) (days|din)\b/i
+
+// Numbers may have a thousands separator, as in "1,800"
+const DAILY_CALORIES: Pattern[] = [
+  /\b(\d{1,2},\d{3}|\d{3,4})\s?(calories|kcal|cals?)\s?(a|per|each) day\b/gi,
+  /\b(\d{1,2},\d{3}|\d{3,4})\s?(calories|kcal|cals?) daily\b/gi,
+  /\bdaily (calorie )?(intake|target|calories)[^.\n\d]{0,20}(\d{1,2},\d{3}|\d{3,4})\b/gi
+]
+
+const matches = (text: string, patterns: Pattern[]) => patterns.some(pattern => pattern.test(text))
+
+function finding(stage: SafetyFinding['stage'], category: SafetyCategory, text: string, language: ChatLanguage): SafetyFinding {
+  return { stage, category, text, response: SAFETY_MESSAGES[language][category] }
+}
+
+/**
+ * Check a user's message for red flags before it goes to the AI. The most
+ * urgent match wins, and its response is in the language Arogya replies in.
+ */
+export function screenUserMessage(message: string, language: ChatLanguage = 'en'): SafetyFinding | null {
+  if (matches(message, SUICIDAL_IDEATION)) return finding('input', 'suicidalIdeation', message, language)
+  if (matches(message, CHEST_PAIN)) return finding('input', 'chestPain', message, language)
+  if (matches(message, EATING_DISORDER)) return finding('input', 'eatingDisorder', message, language)
+  if (matches(message, PREGNANCY) && matches(message, EXTREME_DIET)) {
+    return finding('input', 'pregnancyExtremeDiet', message, language)
+  }
+  return null
+}
+
+function recommendsCrashDiet(reply: string): boolean {
+  if (EXTENDED_FAST.test(reply)) return true
+
+  return DAILY_CALORIES.some(pattern =>
+    Array.from(reply.matchAll(pattern)).some(match => {
+      const amount = match.slice(1).find(group => /^\d[\d,]*$/.test(group ?? ''))
+      const calories = Number(amount?.replace(/,/g, ''))
+      return calories > 0 && calories < MIN_DAILY_CALORIES
+    })
+  )
+}
+
+/**
+ * Check the AI's reply (or as much of it as has streamed) for advice we never
+ * give: medicine doses and crash diets
+ */
+export function screenAssistantReply(reply: string, language: ChatLanguage = 'en'): SafetyFinding | null {
+  if (matches(reply, DOSAGE)) return finding('output', 'unsafeDosage', reply, language)
+  if (recommendsCrashDiet(reply)) return finding('output', 'crashDiet', reply, language)
+  return null
+}
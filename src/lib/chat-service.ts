@@ -0,0 +1,223 @@
+import mongoose from 'mongoose'
+import ChatSession, { IChatSession } from '@/models/ChatSession'
+import { IUser } from '@/models/User'
+import SafetyEvent from '@/models/SafetyEvent'
+import ArogyaAI, { ChatMessage, HealthContext } from './claude-ai'
+import { planChatMemory, unsummarizedWindow } from './chat-memory'
+import { SafetyFinding } from './chat-safety'
+import { getReplyLanguage } from './languages'
+import { FALLBACK_MESSAGES } from './localized-messages'
+import { ChatSessionListItem, cleanGeneratedTitle, fallbackChatTitle, findMessageMatches } from './chat-sessions'
+
+/**
+ * Shown in place of Arogya's reply when the AI call fails, in the language
+ * the reply would have been in
+ */
+export function getChatErrorResponse(message: string, healthContext: Pick<HealthContext, 'language'>): string {
+  return FALLBACK_MESSAGES[getReplyLanguage(message, healthContext.language)].chatError
+}
+
+// Profile snapshot create-session stores on the chat session
+interface ChatSessionSnapshot {
+  userProfile?: { age?: number; gender?: 'male' | 'female' }
+  healthContext?: Partial<HealthContext> | null
+}
+
+/**
+ * Health context for the AI, preferring the snapshot taken when the chat
+ * started over the user's current profile
+ */
+export function buildHealthContext(chatSession: ChatSessionSnapshot, user: IUser): HealthContext {
+  const snapshot = chatSession.healthContext || {}
+  return {
+    age: chatSession.userProfile?.age || user.profile?.age || 30,
+    gender: chatSession.userProfile?.gender || user.profile?.gender || 'male',
+    height: snapshot.height || user.measurements?.height || 170,
+    weight: snapshot.weight || user.measurements?.weight || 70,
+    bodyFatPercentage: snapshot.bodyFatPercentage || user.results?.bodyFatPercentage,
+    bmi: snapshot.bmi || user.results?.bmi,
+    activityLevel: snapshot.activityLevel || user.lifestyle?.activityLevel || 'moderate',
+    goals: snapshot.goals || (user.goals?.primaryObjective ? [user.goals.primaryObjective] : ['general fitness']),
+    dietaryRestrictions: snapshot.dietaryRestrictions || user.goals?.dietaryRestrictions || [],
+    medicalHistory: snapshot.medicalHistory || user.lifestyle?.medicalHistory || [],
+    // Always the current preference, so changing it applies to open chats
+    language: user.profile?.language || 'en'
+  }
+}
+
+/**
+ * Append messages to a chat session. Pushing rather than rewriting the
+ * array keeps two tabs on the same session from overwriting each other.
+ * Writing in an archived chat brings it back to the chat list.
+ */
+export async function saveChatMessages(sessionId: mongoose.Types.ObjectId | string, messages: ChatMessage[]) {
+  await ChatSession.updateOne(
+    { _id: sessionId },
+    {
+      $push: { messages: { $each: messages } },
+      $set: { 'context.lastActivity': new Date(), isActive: true }
+    }
+  )
+}
+
+/**
+ * Name a chat after its first exchange. The AI suggests the title; if that
+ * fails, or the message was a red flag the AI never saw, the start of the
+ * message is used. Returns the title, or nothing if the chat already had one.
+ */
+export async function titleChatSession(
+  chatSession: Pick<IChatSession, '_id' | 'messages' | 'context'>,
+  exchange: { message: string; reply: string; useAI: boolean },
+  arogya: ArogyaAI = ArogyaAI.getInstance()
+): Promise<string | undefined> {
+  if (chatSession.messages?.length || chatSession.context?.conversationTopic) return undefined
+
+  let title = fallbackChatTitle(exchange.message)
+  if (exchange.useAI && exchange.reply) {
+    try {
+      title = cleanGeneratedTitle(await arogya.generateChatTitle(exchange.message, exchange.reply)) || title
+    } catch (error) {
+      console.error('Chat title error:', error)
+    }
+  }
+
+  try {
+    // Don't overwrite a name the user gave the chat in the meantime
+    const result = await ChatSession.updateOne(
+      { _id: chatSession._id, 'context.conversationTopic': { $in: [null, ''] } },
+      { $set: { 'context.conversationTopic': title } }
+    )
+    return result.modifiedCount > 0 ? title : undefined
+  } catch (error) {
+    console.error('Chat title save error:', error)
+    return undefined
+  }
+}
+
+export interface ChatSessionListQuery {
+  archived?: boolean
+  search?: string
+  limit?: number
+  skip?: number
+}
+
+interface ChatSessionRow {
+  _id: mongoose.Types.ObjectId
+  title?: string
+  isActive: boolean
+  messageCount: number
+  firstMessage?: string
+  lastActivity?: Date
+  createdAt: Date
+  messages?: ChatMessage[]
+}
+
+/**
+ * A page of the user's chats, most recent first. Chats nobody wrote in are
+ * left out, since every visit to the chat page starts one. Searching covers
+ * archived chats as well as active ones.
+ */
+export async function listChatSessions(
+  userId: mongoose.Types.ObjectId,
+  { archived = false, search, limit = 20, skip = 0 }: ChatSessionListQuery = {}
+): Promise<{ sessions: ChatSessionListItem[]; totalCount: number }> {
+  const filter: mongoose.FilterQuery<IChatSession> = search
+    ? { userId, $text: { $search: search } }
+    : { userId, isActive: !archived }
+  filter['messages.0'] = { $exists: true }
+
+  const [rows, totalCount] = await Promise.all([
+    ChatSession.aggregate<ChatSessionRow>([
+      { $match: filter },
+      { $sort: { 'context.lastActivity': -1 } },
+      { $skip: skip },
+      { $limit: limit },
+      {
+        $project: {
+          title: '$context.conversationTopic',
+          isActive: 1,
+          messageCount: { $size: '$messages' },
+          firstMessage: { $arrayElemAt: ['$messages.content', 0] },
+          lastActivity: '$context.lastActivity',
+          createdAt: 1,
+          ...(search && { messages: 1 })
+        }
+      }
+    ]),
+    ChatSession.countDocuments(filter)
+  ])
+
+  const sessions = rows.map(row => ({
+    id: row._id.toString(),
+    // Chats from before titles were added are named after their first message
+    title: row.title || fallbackChatTitle(row.firstMessage || ''),
+    archived: !row.isActive,
+    messageCount: row.messageCount,
+    lastActivity: row.lastActivity || row.createdAt,
+    createdAt: row.createdAt,
+    ...(search && { matches: findMessageMatches(row.messages || [], search) })
+  }))
+
+  return { sessions, totalCount }
+}
+
+export interface ChatMemory {
+  summary?: string
+  recent: ChatMessage[]
+}
+
+/**
+ * Conversation history to send with the next message. When the unsummarised
+ * messages outgrow the token budget, the older ones are folded into the
+ * session's saved summary first. If summarising fails, as many unsummarised
+ * messages as fit the budget are sent instead and the next message tries again.
+ */
+export async function loadChatMemory(
+  chatSession: Pick<IChatSession, '_id' | 'messages' | 'context'>,
+  arogya: ArogyaAI = ArogyaAI.getInstance()
+): Promise<ChatMemory> {
+  const messages: ChatMessage[] = chatSession.messages || []
+  const summary = chatSession.context?.summary || undefined
+  const plan = planChatMemory(messages, chatSession.context?.summarizedCount || 0)
+
+  if (plan.toSummarize.length === 0) {
+    return { summary, recent: plan.recent }
+  }
+
+  try {
+    const updatedSummary = await arogya.summarizeConversation(summary, plan.toSummarize)
+    await ChatSession.updateOne(
+      { _id: chatSession._id },
+      { $set: { 'context.summary': updatedSummary, 'context.summarizedCount': plan.summarizedCount } }
+    )
+    return { summary: updatedSummary, recent: plan.recent }
+  } catch (error) {
+    console.error('Chat summary error:', error)
+    return { summary, recent: unsummarizedWindow(plan) }
+  }
+}
+
+/**
+ * Save safety findings from a chat exchange for review. Failing to log never
+ * stops the reply from being saved and sent.
+ */
+export async function recordSafetyEvents(
+  userId: mongoose.Types.ObjectId,
+  chatSessionId: mongoose.Types.ObjectId,
+  findings: SafetyFinding[]
+) {
+  if (findings.length === 0) return
+
+  try {
+    await SafetyEvent.insertMany(findings.map(finding => ({
+      userId,
+      chatSessionId,
+      stage: finding.stage,
+      category: finding.category,
+      action: finding.stage === 'input' ? 'escalated' : 'blocked',
+      excerpt: finding.text.slice(0, 2000)
+    })))
+  } catch (error) {
+    console.error('Safety event log error:', error)
+  }
+}
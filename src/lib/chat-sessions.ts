@@ -0,0 +1,115 @@
+import type { ChatMessage } from './claude-ai'
+
+// Titles and search snippets for the list of a user's chats
+
+export const CHAT_TITLE_MAX_LENGTH = 100
+
+// Titles made from the first message are kept short for the sidebar
+const FALLBACK_TITLE_LENGTH = 50
+
+export const MAX_SEARCH_MATCHES = 3
+
+// Characters shown either side of a search match
+const SNIPPET_CONTEXT = 60
+
+export interface ChatSearchMatch {
+  role: ChatMessage['role']
+  snippet: string
+  timestamp: Date
+}
+
+export interface ChatSessionListItem {
+  id: string
+  title: string
+  archived: boolean
+  messageCount: number
+  lastActivity: Date
+  createdAt: Date
+  matches?: ChatSearchMatch[] // only when searching
+}
+
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text
+  const cut = text.slice(0, maxLength - 1)
+  const lastSpace = cut.lastIndexOf(' ')
+  return `${lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut}…`
+}
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim()
+
+/**
+ * Title from the user's first message, for when the AI can't name the chat
+ */
+export function fallbackChatTitle(firstMessage: string): string {
+  return truncate(collapseWhitespace(firstMessage), FALLBACK_TITLE_LENGTH) || 'New chat'
+}
+
+/**
+ * Tidy a title the AI wrote. Models like to prefix titles with "Title:", wrap
+ * them in quotes or end them with a full stop (or a danda). Null when nothing
+ * usable is left.
+ */
+export function cleanGeneratedTitle(title: string): string | null {
+  const cleaned = collapseWhitespace(title)
+    .replace(/^(title:\s*)?["'“‘]*/i, '')
+    .replace(/["'”’.।]+$/, '')
+    .trim()
+  return cleaned ? truncate(cleaned, CHAT_TITLE_MAX_LENGTH) : null
+}
+
+/**
+ * Validate a title the user typed when renaming a chat
+ */
+export function validateChatTitle(title: unknown): { valid: true; title: string } | { valid: false; message: string } {
+  if (typeof title !== 'string' || !collapseWhitespace(title)) {
+    return { valid: false, message: 'Title is required' }
+  }
+  const cleaned = collapseWhitespace(title)
+  if (cleaned.length > CHAT_TITLE_MAX_LENGTH) {
+    return { valid: false, message: `Title must be ${CHAT_TITLE_MAX_LENGTH} characters or less` }
+  }
+  return { valid: true, title: cleaned }
+}
+
+export function getSearchTerms(query: string): string[] {
+  const terms = query.toLowerCase().replace(/["]/g, ' ').split(/\s+/).filter(Boolean)
+  return Array.from(new Set(terms))
+}
+
+function snippetAround(content: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_CONTEXT)
+  const end = Math.min(content.length, index + length + SNIPPET_CONTEXT)
+  return `${start > 0 ? '…' : ''}${collapseWhitespace(content.slice(start, end))}${end < content.length ? '…' : ''}`
+}
+
+/**
+ * Messages in a chat that contain any of the search terms, with the text
+ * around the first match. The database finds the chats; this picks out
+ * which of their messages to show.
+ */
+export function findMessageMatches(
+  messages: Pick<ChatMessage, 'role' | 'content' | 'timestamp'>[],
+  query: string,
+  limit: number = MAX_SEARCH_MATCHES
+): ChatSearchMatch[] {
+  const terms = getSearchTerms(query)
+  if (terms.length === 0) return []
+
+  const matches: ChatSearchMatch[] = []
+  for (const message of messages) {
+    const content = message.content.toLowerCase()
+    const hits = terms
+      .map(term => ({ index: content.indexOf(term), length: term.length }))
+      .filter(hit => hit.index >= 0)
+    if (hits.length === 0) continue
+
+    const first = hits.reduce((a, b) => (b.index < a.index ? b : a))
+    matches.push({
+      role: message.role,
+      snippet: snippetAround(message.content, first.index, first.length),
+      timestamp: message.timestamp
+    })
+    if (matches.length >= limit) break
+  }
+  return matches
+}
@@ -0,0 +1,96 @@
+import mongoose from 'mongoose'
+import User from '@/models/User'
+import FamilyMember from '@/models/FamilyMember'
+import MeasurementEntry from '@/models/MeasurementEntry'
+import { CLASSIFICATION_VERSION, classifyBodyFat } from './body-fat-classification'
+
+export interface ClassificationMigrationResult {
+  users: number
+  familyMembers: number
+  measurementEntries: number
+}
+
+interface Person {
+  age?: number
+  gender?: 'male' | 'female'
+}
+
+const STALE = { $ne: CLASSIFICATION_VERSION }
+
+function reclassify(bodyFat: number, person: Person) {
+  const { category, healthStatus, version } = classifyBodyFat(bodyFat, person.gender || 'male', person.age || 30)
+  return {
+    'results.category': category,
+    'results.healthStatus': healthStatus,
+    'results.classificationVersion': version
+  }
+}
+
+/**
+ * Re-classify stored results under the current body fat ranges: each
+ * account's and family member's latest result and every history entry.
+ * History entries recorded before age and gender were snapshotted fall back
+ * to the person's current profile. Run after deploying a
+ * CLASSIFICATION_VERSION bump; running it again changes nothing.
+ */
+export async function migrateClassifications(): Promise<ClassificationMigrationResult> {
+  const result: ClassificationMigrationResult = { users: 0, familyMembers: 0, measurementEntries: 0 }
+
+  const users = User.find({ 'results.bodyFatPercentage': { $type: 'number' }, 'results.classificationVersion': STALE })
+    .select('profile.age profile.gender results.bodyFatPercentage')
+    .lean<Array<{ _id: mongoose.Types.ObjectId; profile?: Person; results: { bodyFatPercentage: number } }>>()
+    .cursor({ batchSize: 200 })
+  for await (const user of users) {
+    await User.updateOne({ _id: user._id }, { $set: reclassify(user.results.bodyFatPercentage, user.profile || {}) })
+    result.users++
+  }
+
+  // Children's results are growth assessments, not body fat classifications
+  const members = FamilyMember.find({
+    'results.bodyFatPercentage': { $type: 'number' },
+    'results.assessment': { $ne: 'pediatric' },
+    'results.classificationVersion': STALE
+  })
+    .select('age gender results.bodyFatPercentage')
+    .lean<Array<{ _id: mongoose.Types.ObjectId; age: number; gender: 'male' | 'female'; results: { bodyFatPercentage: number } }>>()
+    .cursor({ batchSize: 200 })
+  for await (const member of members) {
+    await FamilyMember.updateOne({ _id: member._id }, { $set: reclassify(member.results.bodyFatPercentage, member) })
+    result.familyMembers++
+  }
+
+  // Profiles looked up once per person for entries without a snapshot
+  const profiles = new Map<string, Person>()
+  const profileFor = async (entry: { userId: mongoose.Types.ObjectId; familyMemberId?: mongoose.Types.ObjectId }) => {
+    const key = String(entry.familyMemberId || entry.userId)
+    if (!profiles.has(key)) {
+      const person = entry.familyMemberId
+        ? await FamilyMember.findById(entry.familyMemberId).select('age gender').lean<Person>()
+        : (await User.findById(entry.userId).select('profile.age profile.gender').lean<{ profile?: Person }>())?.profile
+      profiles.set(key, person || {})
+    }
+    return profiles.get(key) as Person
+  }
+
+  const entries = MeasurementEntry.find({ 'results.classificationVersion': STALE })
+    .select('userId familyMemberId age gender results.bodyFatPercentage')
+    .lean<Array<Person & {
+      _id: mongoose.Types.ObjectId
+      userId: mongoose.Types.ObjectId
+      familyMemberId?: mongoose.Types.ObjectId
+      results: { bodyFatPercentage: number }
+    }>>()
+    .cursor({ batchSize: 200 })
+  for await (const entry of entries) {
+    const profile = entry.age && entry.gender ? {} : await profileFor(entry)
+    await MeasurementEntry.updateOne({ _id: entry._id }, {
+      $set: reclassify(entry.results.bodyFatPercentage, {
+        age: entry.age || profile.age,
+        gender: entry.gender || profile.gender
+      })
+    })
+    result.measurementEntries++
+  }
+
+  return result
+}
@@ -1,8 +1,25 @@
-import Anthropic from '@anthropic-ai/sdk'
-
-const anthropic = new Anthropic({
-  apiKey: process.env.CLAUDE_API_KEY!,
-})
+import { z } from 'zod'
+import { planChatMemory } from './chat-memory'
+import { SafetyFinding, screenAssistantReply, screenUserMessage } from './chat-safety'
+import { ChatLanguage, LanguageCode, getLanguageInstruction, getReplyLanguage } from './languages'
+import { FALLBACK_MESSAGES } from './localized-messages'
+import { LLMUseCase } from './llm-config'
+import { LLMMessage, LLMProvider, getLLMProvider } from './llm-provider'
+import {
+  DIET_PLAN_TOOL,
+  DietPlan,
+  EXERCISE_PLAN_TOOL,
+  ExercisePlan,
+  HEALTH_RECOMMENDATIONS_TOOL,
+  HealthRecommendations,
+  MIN_DAILY_CALORIES,
+  Macros,
+  StructuredOutputTool,
+  dietPlanSchema,
+  exercisePlanSchema,
+  healthRecommendationsSchema,
+  validateAgainst
+} from './recommendation-schema'
 
 export interface HealthContext {
   age: number
@@ -11,11 +28,12 @@ export interface HealthContext {
   weight: number
   bodyFatPercentage?: number
   bmi?: number
-  activityLevel: string
-  goals: string[]
+  activityLevel?: string // unknown for family members
+  goals?: string[]
   dietaryRestrictions: string[]
   medicalHistory: string[]
   currentConcerns?: string[]
+  language?: LanguageCode // preferred reply language; English when unset
 }
 
 export interface ChatMessage {
@@ -24,9 +42,30 @@ export interface ChatMessage {
   timestamp: Date
 }
 
+export interface ChatOptions {
+  summary?: string // rolling summary of messages older than the history
+  signal?: AbortSignal
+  // Called when a message or reply trips a safety check and is answered with
+  // a fixed response instead
+  onSafetyEvent?: (finding: SafetyFinding) => void
+}
+
+// Daily targets from the rule-based calculator, so the AI plans around the
+// same numbers the rest of the app shows
+export interface NutritionTargets {
+  dailyCalories: number
+  macros: Macros
+}
+
+// One try, plus one more with the validation errors sent back
+const MAX_STRUCTURED_ATTEMPTS = 2
+
 export class ArogyaAI {
   private static instance: ArogyaAI
-  
+
+  // Tests pass a MockLLMProvider; everything else shares the configured one
+  constructor(private readonly provider: LLMProvider = getLLMProvider()) {}
+
   public static getInstance(): ArogyaAI {
     if (!ArogyaAI.instance) {
       ArogyaAI.instance = new ArogyaAI()
@@ -34,7 +73,15 @@ export class ArogyaAI {
     return ArogyaAI.instance
   }
 
-  private buildSystemPrompt(healthContext: HealthContext): string {
+  private buildSystemPrompt(
+    healthContext: HealthContext,
+    conversationSummary?: string,
+    language: ChatLanguage = healthContext.language || 'en'
+  ): string {
+    const summarySection = conversationSummary
+      ? `\n\nEARLIER IN THIS CONVERSATION:\n${conversationSummary}\n\nTreat anything the user mentioned above (injuries, conditions, preferences) as still true unless they say otherwise.`
+      : ''
+
     return `You are Arogya, an AI health and wellness assistant for FitXGen, designed specifically for Indian users. Your role is to provide personalized, science-based health guidance while being culturally sensitive to Indian lifestyle, food habits, and health practices.
 
 USER PROFILE:
@@ -44,8 +91,8 @@ USER PROFILE:
 - Weight: ${healthContext.weight} kg
 - Body Fat: ${healthContext.bodyFatPercentage || 'Not available'}%
 - BMI: ${healthContext.bmi || 'Not calculated'}
-- Activity Level: ${healthContext.activityLevel}
-- Goals: ${healthContext.goals.join(', ')}
+- Activity Level: ${healthContext.activityLevel || 'Not provided'}
+- Goals: ${healthContext.goals?.join(', ') || 'Not provided'}
 - Dietary Restrictions: ${healthContext.dietaryRestrictions.join(', ') || 'None'}
 - Medical History: ${healthContext.medicalHistory.join(', ') || 'None reported'}
 
@@ -60,6 +107,7 @@ GUIDELINES:
 8. Provide actionable, specific recommendations
 9. Consider budget-friendly options suitable for Indian families
 10. Incorporate traditional Indian wellness practices (yoga, ayurveda) when appropriate
+11. Never give specific doses of medicines or supplements, and never suggest eating below ${MIN_DAILY_CALORIES} calories a day or fasting for several days
 
 RESPONSE FORMAT:
 - Keep responses concise but comprehensive (200-400 words)
@@ -67,109 +115,242 @@ RESPONSE FORMAT:
 - Include practical tips that can be implemented immediately
 - End with an encouraging message or question to continue the conversation
 
-Remember: You are a supportive health companion, not a replacement for medical professionals.`
-  }
+LANGUAGE:
+${getLanguageInstruction(language)}
 
-  async generateHealthRecommendations(healthContext: HealthContext): Promise<string> {
-    try {
-      const systemPrompt = this.buildSystemPrompt(healthContext)
-      
-      const message = await anthropic.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 1000,
-        temperature: 0.7,
-        system: systemPrompt,
-        messages: [{
-          role: 'user',
-          content: `Based on my health profile, please provide comprehensive recommendations for:
-1. Diet plan suitable for Indian cuisine
-2. Exercise routine considering my current fitness level
-3. Lifestyle modifications for better health
-4. Specific tips for achieving my stated goals
+Remember: You are a supportive health companion, not a replacement for medical professionals.${summarySection}`
+  }
 
-Please make recommendations practical and achievable for someone living in India.`
-        }]
+  /**
+   * Ask for output through a tool call and check it against the schema. Invalid
+   * output is retried with the errors; after that this throws, and callers
+   * fall back to the rule-based recommendations.
+   */
+  private async requestStructured<T>(
+    useCase: LLMUseCase,
+    healthContext: HealthContext,
+    prompt: string,
+    tool: StructuredOutputTool,
+    schema: z.ZodType<T>
+  ): Promise<T> {
+    const system = this.buildSystemPrompt(healthContext)
+    let content = `${prompt}\n\nRespond by calling the ${tool.name} tool. Write the text in the language asked for above, but keep category values exactly as the tool defines them.`
+
+    for (let attempt = 1; attempt <= MAX_STRUCTURED_ATTEMPTS; attempt++) {
+      const output = await this.provider.completeStructured({
+        useCase,
+        system,
+        messages: [{ role: 'user', content }],
+        tool
       })
 
-      return message.content[0].type === 'text' ? message.content[0].text : 'Unable to generate recommendations at this time.'
+      const result = validateAgainst(schema, output)
+      if (result.valid) {
+        return result.value
+      }
+
+      console.warn(`Invalid ${useCase} output (attempt ${attempt}):`, result.errors)
+      content = `${prompt}\n\nYour previous answer was rejected because:\n${result.errors.map(error => `- ${error}`).join('\n')}\n\nCall the ${tool.name} tool again with these fixed.`
+    }
+
+    throw new Error(`No valid ${useCase} output after ${MAX_STRUCTURED_ATTEMPTS} attempts`)
+  }
+
+  async generateHealthRecommendations(healthContext: HealthContext, targets?: NutritionTargets): Promise<HealthRecommendations> {
+    try {
+      return await this.requestStructured(
+        'healthRecommendations',
+        healthContext,
+        `Based on my health profile, please provide comprehensive recommendations for:
+1. A daily diet plan suitable for Indian cuisine, with calories and macros for every meal
+2. A weekly exercise routine considering my current fitness level, with sets, reps or duration for every exercise
+3. Lifestyle actions for sleep, stress, hydration and habits
+4. A short summary of how the plan helps me achieve my stated goals
+${targets ? `\nAim for ${targets.dailyCalories} calories a day with about ${targets.macros.protein} g protein, ${targets.macros.carbs} g carbs and ${targets.macros.fats} g fats.\n` : ''}
+Please make recommendations practical and achievable for someone living in India.`,
+        HEALTH_RECOMMENDATIONS_TOOL,
+        healthRecommendationsSchema
+      )
     } catch (error) {
       console.error('Error generating health recommendations:', error)
       throw new Error('Failed to generate health recommendations. Please try again.')
     }
   }
 
+  private buildChatMessages(userMessage: string, conversationHistory: ChatMessage[]): LLMMessage[] {
+    // Recent turns within the token budget; older ones reach the model
+    // through the conversation summary
+    const messages: LLMMessage[] = planChatMemory(conversationHistory).recent
+      .map(msg => ({
+        role: msg.role as 'user' | 'assistant',
+        content: msg.content
+      }))
+
+    // Add current user message
+    messages.push({
+      role: 'user',
+      content: userMessage
+    })
+
+    return messages
+  }
+
   async chatWithArogya(
     userMessage: string, 
     healthContext: HealthContext,
-    conversationHistory: ChatMessage[] = []
+    conversationHistory: ChatMessage[] = [],
+    options: ChatOptions = {}
   ): Promise<string> {
+    // Reply in whatever language the user wrote in
+    const language = getReplyLanguage(userMessage, healthContext.language)
+
+    const redFlag = screenUserMessage(userMessage, language)
+    if (redFlag) {
+      options.onSafetyEvent?.(redFlag)
+      return redFlag.response
+    }
+
     try {
-      const systemPrompt = this.buildSystemPrompt(healthContext)
-      
-      // Build conversation context
-      const messages = conversationHistory
-        .slice(-6) // Keep last 6 messages for context (3 exchanges)
-        .map(msg => ({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content
-        }))
-      
-      // Add current user message
-      messages.push({
-        role: 'user',
-        content: userMessage
-      })
+      const systemPrompt = this.buildSystemPrompt(healthContext, options.summary, language)
 
-      const message = await anthropic.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 800,
-        temperature: 0.7,
+      const response = await this.provider.complete({
+        useCase: 'chat',
         system: systemPrompt,
-        messages: messages
+        messages: this.buildChatMessages(userMessage, conversationHistory)
       })
 
-      return message.content[0].type === 'text' ? message.content[0].text : 'I apologize, but I cannot respond to that right now.'
+      const unsafe = screenAssistantReply(response, language)
+      if (unsafe) {
+        options.onSafetyEvent?.(unsafe)
+        return unsafe.response
+      }
+
+      return response || FALLBACK_MESSAGES[language].chatEmpty
     } catch (error) {
       console.error('Error in chat response:', error)
       throw new Error('Unable to process your message. Please try again.')
     }
   }
 
+  /**
+   * Same as chatWithArogya, but yields the response text as it's generated.
+   * Aborting the signal stops generation and ends the stream quietly.
+   *
+   * A red-flag message yields the fixed safety response. If the reply turns
+   * unsafe part way through, the stream stops before the text that tripped
+   * the check and onSafetyEvent gets the response to show in its place.
+   */
+  async *streamChatWithArogya(
+    userMessage: string,
+    healthContext: HealthContext,
+    conversationHistory: ChatMessage[] = [],
+    options: ChatOptions = {}
+  ): AsyncGenerator<string> {
+    const language = getReplyLanguage(userMessage, healthContext.language)
+    const redFlag = screenUserMessage(userMessage, language)
+    if (redFlag) {
+      options.onSafetyEvent?.(redFlag)
+      yield redFlag.response
+      return
+    }
+
+    const { signal } = options
+    try {
+      const tokens = this.provider.stream({
+        useCase: 'chat',
+        system: this.buildSystemPrompt(healthContext, options.summary, language),
+        messages: this.buildChatMessages(userMessage, conversationHistory),
+        signal
+      })
+
+      let response = ''
+      for await (const text of tokens) {
+        response += text
+        const unsafe = screenAssistantReply(response, language)
+        if (unsafe) {
+          options.onSafetyEvent?.(unsafe)
+          return
+        }
+        yield text
+      }
+    } catch (error) {
+      if (signal?.aborted) return
+      console.error('Error in streaming chat response:', error)
+      throw new Error('Unable to process your message. Please try again.')
+    }
+  }
+
+  /**
+   * Fold older chat messages into the running summary of the conversation
+   */
+  async summarizeConversation(previousSummary: string | undefined, messages: ChatMessage[]): Promise<string> {
+    const transcript = messages
+      .map(msg => `${msg.role === 'user' ? 'User' : 'Arogya'}: ${msg.content}`)
+      .join('\n\n')
+
+    const response = await this.provider.complete({
+      useCase: 'chatSummary',
+      system: `You keep notes on a conversation between a user and Arogya, a health and wellness assistant. Write a concise summary (under 200 words) that Arogya can rely on later in the conversation.
+
+Always keep:
+- Injuries, symptoms, medical conditions and medications the user mentioned
+- Goals, dietary preferences, restrictions and routines
+- Advice Arogya gave and anything the user agreed to try or said didn't work
+
+Drop greetings and small talk. Write in plain prose in the third person ("The user...").`,
+      messages: [{
+        role: 'user',
+        content: `${previousSummary ? `Summary so far:\n${previousSummary}\n\n` : ''}New messages:\n${transcript}\n\nWrite the updated summary.`
+      }]
+    })
+
+    if (!response.trim()) {
+      throw new Error('Empty conversation summary')
+    }
+    return response.trim()
+  }
+
+  /**
+   * Short title for a chat, from its first exchange
+   */
+  async generateChatTitle(userMessage: string, reply: string): Promise<string> {
+    const response = await this.provider.complete({
+      useCase: 'chatTitle',
+      system: `You name conversations between a user and Arogya, a health and wellness assistant, so the user can find them again later. Reply with a title of at most 6 words describing what the user wants help with. Write it in the language and script of the user's message. No quotes, no emoji, no full stop.`,
+      messages: [{
+        role: 'user',
+        content: `User: ${userMessage}\n\nArogya: ${reply}`
+      }]
+    })
+
+    if (!response.trim()) {
+      throw new Error('Empty chat title')
+    }
+    return response.trim()
+  }
+
   async generateDietPlan(healthContext: HealthContext, preferences: {
     mealsPerDay: number
     cuisine: string[]
     budget: 'low' | 'medium' | 'high'
     cookingTime: 'quick' | 'moderate' | 'elaborate'
-  }): Promise<string> {
+  }): Promise<DietPlan> {
     try {
-      const systemPrompt = this.buildSystemPrompt(healthContext)
-      
-      const message = await anthropic.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 1200,
-        temperature: 0.7,
-        system: systemPrompt,
-        messages: [{
-          role: 'user',
-          content: `Create a detailed 7-day Indian diet plan with:
+      return await this.requestStructured(
+        'dietPlan',
+        healthContext,
+        `Create a daily Indian diet plan with:
 - ${preferences.mealsPerDay} meals per day
 - Preferred cuisines: ${preferences.cuisine.join(', ')}
 - Budget: ${preferences.budget}
 - Cooking time preference: ${preferences.cookingTime}
 
-Include:
-1. Daily meal breakdown with specific Indian dishes
-2. Portion sizes
-3. Nutritional benefits
-4. Shopping list for Indian ingredients
-5. Preparation tips
-6. Alternatives for different regions of India
-
-Focus on locally available, affordable ingredients and traditional cooking methods.`
-        }]
-      })
+For every meal include specific Indian dishes with portion sizes, its calories and its protein, carbs and fats in grams. Add preparation tips and alternatives for different regions of India.
 
-      return message.content[0].type === 'text' ? message.content[0].text : 'Unable to generate diet plan at this time.'
+Focus on locally available, affordable ingredients and traditional cooking methods.`,
+        DIET_PLAN_TOOL,
+        dietPlanSchema
+      )
     } catch (error) {
       console.error('Error generating diet plan:', error)
       throw new Error('Failed to generate diet plan. Please try again.')
@@ -181,37 +362,23 @@ Focus on locally available, affordable ingredients and traditional cooking metho
     equipment: string[]
     location: 'home' | 'gym' | 'outdoor' | 'mixed'
     experience: 'beginner' | 'intermediate' | 'advanced'
-  }): Promise<string> {
+  }): Promise<ExercisePlan> {
     try {
-      const systemPrompt = this.buildSystemPrompt(healthContext)
-      
-      const message = await anthropic.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 1200,
-        temperature: 0.7,
-        system: systemPrompt,
-        messages: [{
-          role: 'user',
-          content: `Design a personalized exercise routine for me:
+      return await this.requestStructured(
+        'exercisePlan',
+        healthContext,
+        `Design a personalized weekly exercise routine for me:
 - Available time: ${preferences.availableTime} minutes per day
 - Available equipment: ${preferences.equipment.join(', ') || 'None'}
 - Preferred location: ${preferences.location}
 - Experience level: ${preferences.experience}
 
-Please include:
-1. Weekly workout schedule
-2. Specific exercises with repetitions/duration
-3. Warm-up and cool-down routines
-4. Progressive difficulty levels
-5. Indian-specific modifications (considering climate, cultural preferences)
-6. Alternative exercises for busy days
-7. How to track progress
-
-Consider the Indian lifestyle, climate challenges, and home-based options.`
-        }]
-      })
+For every day give the workout type, its total duration and the exercises, each with sets and reps or a duration. Include warm-up and cool-down, and use tips for progression, busy days and exercising in the Indian climate.
 
-      return message.content[0].type === 'text' ? message.content[0].text : 'Unable to generate exercise plan at this time.'
+Consider the Indian lifestyle, climate challenges, and home-based options.`,
+        EXERCISE_PLAN_TOOL,
+        exercisePlanSchema
+      )
     } catch (error) {
       console.error('Error generating exercise plan:', error)
       throw new Error('Failed to generate exercise plan. Please try again.')
@@ -222,10 +389,8 @@ Consider the Indian lifestyle, climate challenges, and home-based options.`
     try {
       const systemPrompt = this.buildSystemPrompt(healthContext)
       
-      const message = await anthropic.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 1000,
-        temperature: 0.7,
+      const response = await this.provider.complete({
+        useCase: 'stressManagement',
         system: systemPrompt,
         messages: [{
           role: 'user',
@@ -241,7 +406,7 @@ Consider the unique stressors in Indian society (family expectations, work press
         }]
       })
 
-      return message.content[0].type === 'text' ? message.content[0].text : 'Unable to generate stress management plan at this time.'
+      return response || FALLBACK_MESSAGES[healthContext.language || 'en'].stressPlanUnavailable
     } catch (error) {
       console.error('Error generating stress management plan:', error)
       throw new Error('Failed to generate stress management plan. Please try again.')
@@ -263,10 +428,8 @@ Consider the unique stressors in Indian society (family expectations, work press
     try {
       const systemPrompt = this.buildSystemPrompt(healthContext)
       
-      const message = await anthropic.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 1000,
-        temperature: 0.7,
+      const response = await this.provider.complete({
+        useCase: 'progressAnalysis',
         system: systemPrompt,
         messages: [{
           role: 'user',
@@ -292,7 +455,7 @@ Be specific about what's working and what needs to change.`
         }]
       })
 
-      return message.content[0].type === 'text' ? message.content[0].text : 'Unable to analyze progress at this time.'
+      return response || FALLBACK_MESSAGES[healthContext.language || 'en'].progressUnavailable
     } catch (error) {
       console.error('Error analyzing progress:', error)
       throw new Error('Failed to analyze progress. Please try again.')
@@ -0,0 +1,17 @@
+import type { NextRequest } from 'next/server'
+
+// Long-lived random id set by the middleware, used to spot one device
+// signing up several referred accounts
+export const DEVICE_COOKIE = 'fxg_device'
+
+export const DEVICE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365 * 2 // 2 years, in seconds
+
+const DEVICE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export function parseDeviceId(value: string | null | undefined): string | null {
+  return value && DEVICE_ID_PATTERN.test(value) ? value : null
+}
+
+export function getDeviceId(request: NextRequest): string | null {
+  return parseDeviceId(request.cookies.get(DEVICE_COOKIE)?.value)
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import FamilyMember from '@/models/FamilyMember'
+import FeatureUsage, { IFeatureUsage } from '@/models/FeatureUsage'
+import { EntitlementCheck, Feature, SubscriptionLike, checkEntitlement, getDenialMessage } from './entitlements'
+
+interface EntitledUser {
+  _id: mongoose.Types.ObjectId
+  subscription?: SubscriptionLike
+}
+
+/**
+ * Current usage counted against a feature's quota
+ */
+export async function getFeatureUsage(userId: mongoose.Types.ObjectId, feature: Feature, now: Date = new Date()): Promise<number> {
+  switch (feature) {
+    case 'familyMembers':
+      return FamilyMember.countDocuments({ userId, isActive: true })
+
+    case 'aiChat': {
+      // Rolling 24 hours of the user's own messages across all sessions,
+      // including chats they have since deleted
+      const since = new Date(now.getTime() - 24 * 60 * 60 * 1000)
+      return FeatureUsage.countDocuments({ userId, feature, usedAt: { $gte: since } })
+    }
+
+    case 'bodyFatCalculation': {
+      // Counted from the usage log, so deleting history doesn't free up calculations
+      const monthStart = new Date(now.getFullYear(), now.getMonth(), 1)
+      return FeatureUsage.countDocuments({ userId, feature, usedAt: { $gte: monthStart } })
+    }
+
+    default:
+      return 0
+  }
+}
+
+// Features whose use is logged in FeatureUsage and counted against a quota
+const isMetered = (feature: Feature): feature is IFeatureUsage['feature'] =>
+  feature === 'aiChat' || feature === 'bodyFatCalculation'
+
+/**
+ * Check a feature for a user, counting usage where the feature has a quota
+ */
+export async function getEntitlement(user: EntitledUser, feature: Feature): Promise<EntitlementCheck> {
+  const used = await getFeatureUsage(user._id, feature)
+  return checkEntitlement(user.subscription, feature, used)
+}
+
+/**
+ * Structured 402 response the UI can render as an upgrade prompt
+ */
+export function upgradeRequiredResponse(check: EntitlementCheck) {
+  return NextResponse.json(
+    {
+      success: false,
+      message: getDenialMessage(check),
+      requiresUpgrade: true,
+      upgrade: {
+        feature: check.feature,
+        reason: check.reason,
+        currentPlan: check.plan,
+        requiredPlan: check.requiredPlan,
+        limit: check.limit,
+        used: check.used,
+        expiresAt: check.expiresAt,
+        upgradeUrl: check.requiredPlan ? `/payment?plan=${check.requiredPlan}` : '/payment'
+      }
+    },
+    { status: 402 }
+  )
+}
+
+/**
+ * Returns a 402 response when the user isn't entitled to the feature, or null
+ * when the route may continue. A metered feature's use is taken here, so call
+ * this once the request is otherwise ready to go ahead.
+ */
+export async function requireEntitlement(user: EntitledUser, feature: Feature) {
+  if (!isMetered(feature)) {
+    const check = await getEntitlement(user, feature)
+    return check.allowed ? null : upgradeRequiredResponse(check)
+  }
+
+  // The use is logged before the quota is counted, so requests arriving
+  // together can't all take the last one; a use over the limit is taken back
+  const usage: IFeatureUsage = await FeatureUsage.create({ userId: user._id, feature, usedAt: new Date() })
+  const used = await getFeatureUsage(user._id, feature, usage.usedAt)
+  const check = checkEntitlement(user.subscription, feature, used - 1)
+  if (check.allowed) {
+    return null
+  }
+
+  await FeatureUsage.deleteOne({ _id: usage._id })
+  return upgradeRequiredResponse(check)
+}
@@ -0,0 +1,169 @@
+import { PLAN_ORDER, PlanId, getPlanForAdditionalPeople, isPlanId } from './plans'
+import { getSubscriptionPhase } from './subscription-lifecycle'
+
+export type EffectivePlan = PlanId | 'free'
+
+export type Feature =
+  | 'familyMembers'
+  | 'familyCalculation'
+  | 'aiChat'
+  | 'aiRecommendations'
+  | 'bodyFatCalculation'
+
+export interface PlanEntitlements {
+  additionalPeople: number
+  aiChatMessagesPerDay: number | null // null = unlimited
+  aiRecommendations: boolean
+  calculationsPerMonth: number | null // null = unlimited
+}
+
+export const PLAN_ENTITLEMENTS: Record<EffectivePlan, PlanEntitlements> = {
+  free: { additionalPeople: 0, aiChatMessagesPerDay: 5, aiRecommendations: false, calculationsPerMonth: 3 },
+  basic: { additionalPeople: 0, aiChatMessagesPerDay: 30, aiRecommendations: true, calculationsPerMonth: null },
+  family: { additionalPeople: 3, aiChatMessagesPerDay: 50, aiRecommendations: true, calculationsPerMonth: null },
+  premium: { additionalPeople: 7, aiChatMessagesPerDay: null, aiRecommendations: true, calculationsPerMonth: null }
+}
+
+export const FEATURE_LABELS: Record<Feature, string> = {
+  familyMembers: 'family members',
+  familyCalculation: 'family member analysis',
+  aiChat: 'Arogya AI chat',
+  aiRecommendations: 'AI recommendations',
+  bodyFatCalculation: 'body fat calculations'
+}
+
+export type SubscriptionState = 'active' | 'grace' | 'expired' | 'none'
+
+export type DenialReason = 'no_subscription' | 'expired' | 'not_included' | 'quota_exceeded'
+
+export interface SubscriptionLike {
+  status?: string
+  plan?: string
+  expiresAt?: Date | string | null
+  additionalPeople?: number
+}
+
+export interface EffectiveSubscription {
+  plan: EffectivePlan
+  state: SubscriptionState
+  expiresAt: Date | null
+}
+
+export interface EntitlementCheck {
+  allowed: boolean
+  feature: Feature
+  plan: EffectivePlan
+  state: SubscriptionState
+  limit: number | null
+  used: number
+  reason?: DenialReason
+  requiredPlan?: PlanId | null
+  expiresAt: Date | null
+}
+
+/**
+ * Resolve the plan a subscription currently grants. Subscriptions keep their
+ * plan through the grace period after expiry, then fall back to the free tier
+ * even if the stored status hasn't been updated yet.
+ */
+export function getEffectiveSubscription(subscription: SubscriptionLike | undefined, now: Date = new Date()): EffectiveSubscription {
+  const expiresAt = subscription?.expiresAt ? new Date(subscription.expiresAt) : null
+
+  if (!subscription || subscription.status === 'inactive' || !subscription.status) {
+    return { plan: 'free', state: 'none', expiresAt }
+  }
+
+  const phase = expiresAt ? getSubscriptionPhase(expiresAt, now) : 'active'
+  if (subscription.status === 'expired' || phase === 'expired') {
+    return { plan: 'free', state: 'expired', expiresAt }
+  }
+
+  const plan = isPlanId(subscription.plan)
+    ? subscription.plan
+    : getPlanForAdditionalPeople(subscription.additionalPeople || 0)
+
+  return { plan, state: phase, expiresAt }
+}
+
+/**
+ * The limit a plan places on a feature; null means unlimited, 0 means the
+ * feature isn't included
+ */
+export function getFeatureLimit(plan: EffectivePlan, feature: Feature): number | null {
+  const entitlements = PLAN_ENTITLEMENTS[plan]
+
+  switch (feature) {
+    case 'familyMembers':
+      return entitlements.additionalPeople
+    case 'familyCalculation':
+      return entitlements.additionalPeople > 0 ? null : 0
+    case 'aiChat':
+      return entitlements.aiChatMessagesPerDay
+    case 'aiRecommendations':
+      return entitlements.aiRecommendations ? null : 0
+    case 'bodyFatCalculation':
+      return entitlements.calculationsPerMonth
+  }
+}
+
+/**
+ * Cheapest plan that would allow one more use of the feature
+ */
+export function getRequiredPlan(feature: Feature, used: number): PlanId | null {
+  return PLAN_ORDER.find(plan => {
+    const limit = getFeatureLimit(plan, feature)
+    return limit === null || used < limit
+  }) || null
+}
+
+/**
+ * Check whether one more use of a feature is allowed given current usage
+ */
+export function checkEntitlement(
+  subscription: SubscriptionLike | undefined,
+  feature: Feature,
+  used = 0,
+  now: Date = new Date()
+): EntitlementCheck {
+  const { plan, state, expiresAt } = getEffectiveSubscription(subscription, now)
+  const limit = getFeatureLimit(plan, feature)
+  const base = { feature, plan, state, limit, used, expiresAt }
+
+  if (limit === null || used < limit) {
+    return { ...base, allowed: true }
+  }
+
+  let reason: DenialReason
+  if (state === 'expired') {
+    reason = 'expired'
+  } else if (limit === 0) {
+    reason = state === 'none' ? 'no_subscription' : 'not_included'
+  } else {
+    reason = 'quota_exceeded'
+  }
+
+  return { ...base, allowed: false, reason, requiredPlan: getRequiredPlan(feature, used) }
+}
+
+/**
+ * User-facing explanation for a denied check
+ */
+export function getDenialMessage(check: EntitlementCheck): string {
+  const label = FEATURE_LABELS[check.feature]
+
+  switch (check.reason) {
+    case 'expired':
+      return `Your subscription has expired. Renew to continue using ${label}.`
+    case 'no_subscription':
+      return `Upgrade to a paid plan to use ${label}.`
+    case 'not_included':
+      return `Your current plan doesn't include ${label}. Please upgrade to continue.`
+    case 'quota_exceeded':
+      if (check.feature === 'familyMembers') {
+        return `You can add up to ${check.limit} family members with your current subscription. Please upgrade to add more.`
+      }
+      return `You've used all ${check.limit} ${label} included in your plan for this period. Please upgrade for more.`
+    default:
+      return `Please upgrade to use ${label}.`
+  }
+}
@@ -0,0 +1,223 @@
+import { calculateBMR, calculateTDEE } from './body-fat-calculator'
+import { MIN_DAILY_CALORIES } from './recommendation-schema'
+import { formatWeight, UnitSystem } from './units'
+
+// Roughly 7700 kcal of stored energy per kg of body weight
+export const KCAL_PER_KG = 7700
+
+// Default weekly rates when the user hasn't chosen one (kg/week)
+export const DEFAULT_LOSS_RATE = 0.5
+export const DEFAULT_GAIN_RATE = 0.25
+
+// Safety limits used to flag a plan
+export const MAX_SAFE_LOSS_PERCENT = 1 // % of body weight per week
+export const MAX_SAFE_GAIN_RATE = 0.5 // kg/week
+export const MIN_HEALTHY_BMI = 18.5
+export const MIN_ESSENTIAL_BODY_FAT = { male: 5, female: 13 }
+
+// Plans are capped at two years of weekly entries
+export const MAX_PLAN_WEEKS = 104
+
+export type GoalDirection = 'lose' | 'gain' | 'maintain'
+
+export type GoalWarningCode =
+  | 'rate_too_fast'
+  | 'calories_too_low'
+  | 'target_underweight'
+  | 'target_below_essential_fat'
+  | 'plan_truncated'
+
+export interface GoalWarning {
+  code: GoalWarningCode
+  message: string
+}
+
+export interface GoalPlanInput {
+  currentWeight: number // kg
+  height: number // cm
+  age: number
+  gender: 'male' | 'female'
+  activityLevel: string
+  bodyFatPercentage?: number
+  targetWeight?: number // kg
+  targetBodyFat?: number // %
+  weeklyRate?: number // kg/week, magnitude only
+  startDate?: Date
+  unitSystem?: UnitSystem // for weights in warnings
+}
+
+export interface GoalPlanWeek {
+  week: number
+  date: Date
+  weight: number
+  bodyFatPercentage: number | null
+  tdee: number
+  calorieTarget: number
+}
+
+export interface GoalPlan {
+  direction: GoalDirection
+  startWeight: number
+  targetWeight: number
+  targetBodyFat: number | null
+  weeklyRate: number
+  dailyCalorieAdjustment: number
+  totalWeeks: number
+  estimatedCompletionDate: Date
+  weeks: GoalPlanWeek[]
+  warnings: GoalWarning[]
+  isSafe: boolean
+}
+
+function round(value: number, decimals = 1): number {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}
+
+function addWeeks(date: Date, weeks: number): Date {
+  const result = new Date(date)
+  result.setDate(result.getDate() + weeks * 7)
+  return result
+}
+
+/**
+ * Weight at which the current lean mass would carry the target body fat
+ */
+export function weightForBodyFat(currentWeight: number, currentBodyFat: number, targetBodyFat: number): number {
+  const leanMass = currentWeight * (1 - currentBodyFat / 100)
+  return round(leanMass / (1 - targetBodyFat / 100))
+}
+
+/**
+ * Resolve the weight the plan aims for from either a weight or body fat target
+ */
+export function resolveTargetWeight(input: GoalPlanInput): number {
+  if (input.targetWeight) return input.targetWeight
+
+  if (input.targetBodyFat !== undefined) {
+    if (!input.bodyFatPercentage) {
+      throw new Error('A current body fat reading is required to plan towards a body fat target')
+    }
+    return weightForBodyFat(input.currentWeight, input.bodyFatPercentage, input.targetBodyFat)
+  }
+
+  throw new Error('Either a target weight or a target body fat percentage is required')
+}
+
+// Loss is assumed to come from fat mass; gain is split evenly between fat and lean mass
+function projectBodyFat(input: GoalPlanInput, weight: number): number | null {
+  if (!input.bodyFatPercentage) return null
+
+  const startFat = input.currentWeight * (input.bodyFatPercentage / 100)
+  const change = weight - input.currentWeight
+  const fatMass = change < 0 ? startFat + change : startFat + change / 2
+
+  return round(Math.max(0, fatMass) / weight * 100)
+}
+
+/**
+ * Build a week-by-week projection of weight, body fat and calorie targets
+ * from the user's current state to their goal, flagging unsafe plans.
+ */
+export function buildGoalPlan(input: GoalPlanInput): GoalPlan {
+  const startDate = input.startDate || new Date()
+  const targetWeight = resolveTargetWeight(input)
+  const difference = round(targetWeight - input.currentWeight)
+  const direction: GoalDirection = difference === 0 ? 'maintain' : difference < 0 ? 'lose' : 'gain'
+
+  const weeklyRate = direction === 'maintain'
+    ? 0
+    : input.weeklyRate || (direction === 'lose' ? DEFAULT_LOSS_RATE : DEFAULT_GAIN_RATE)
+
+  if (weeklyRate < 0) {
+    throw new Error('Weekly rate must be a positive number')
+  }
+
+  const sign = direction === 'lose' ? -1 : 1
+  const dailyCalorieAdjustment = Math.round(sign * weeklyRate * KCAL_PER_KG / 7)
+  const warnings: GoalWarning[] = []
+
+  // Energy needs are recomputed each week as weight changes
+  const weekFor = (week: number, weight: number): GoalPlanWeek => {
+    const tdee = Math.round(calculateTDEE(calculateBMR(weight, input.height, input.age, input.gender), input.activityLevel))
+    return {
+      week,
+      date: addWeeks(startDate, week),
+      weight,
+      bodyFatPercentage: projectBodyFat(input, weight),
+      tdee,
+      calorieTarget: tdee + (week === 0 || weight !== targetWeight ? dailyCalorieAdjustment : 0)
+    }
+  }
+
+  const weeks: GoalPlanWeek[] = [weekFor(0, input.currentWeight)]
+  const neededWeeks = weeklyRate > 0 ? Math.ceil(Math.abs(difference) / weeklyRate) : 0
+  const totalWeeks = Math.min(neededWeeks, MAX_PLAN_WEEKS)
+
+  for (let week = 1; week <= totalWeeks; week++) {
+    const projected = input.currentWeight + sign * weeklyRate * week
+    const weight = direction === 'lose'
+      ? round(Math.max(projected, targetWeight))
+      : round(Math.min(projected, targetWeight))
+    weeks.push(weekFor(week, weight))
+  }
+
+  if (neededWeeks > MAX_PLAN_WEEKS) {
+    warnings.push({
+      code: 'plan_truncated',
+      message: `At this rate the goal takes ${neededWeeks} weeks; only the first ${MAX_PLAN_WEEKS} are shown`
+    })
+  }
+
+  if (direction === 'lose' && weeklyRate > input.currentWeight * MAX_SAFE_LOSS_PERCENT / 100) {
+    warnings.push({
+      code: 'rate_too_fast',
+      message: `Losing more than ${MAX_SAFE_LOSS_PERCENT}% of body weight (${formatWeight(round(input.currentWeight * MAX_SAFE_LOSS_PERCENT / 100), input.unitSystem)}) per week risks muscle loss`
+    })
+  }
+
+  if (direction === 'gain' && weeklyRate > MAX_SAFE_GAIN_RATE) {
+    warnings.push({
+      code: 'rate_too_fast',
+      message: `Gaining more than ${formatWeight(MAX_SAFE_GAIN_RATE, input.unitSystem)} per week mostly adds fat`
+    })
+  }
+
+  // The same floor the AI recommendations and chat safety checks use
+  if (weeks.some(week => week.calorieTarget < MIN_DAILY_CALORIES)) {
+    warnings.push({
+      code: 'calories_too_low',
+      message: `This plan drops below ${MIN_DAILY_CALORIES} kcal a day; choose a slower rate or consult a professional`
+    })
+  }
+
+  const heightInMeters = input.height / 100
+  if (targetWeight / (heightInMeters * heightInMeters) < MIN_HEALTHY_BMI) {
+    warnings.push({
+      code: 'target_underweight',
+      message: `A target of ${formatWeight(targetWeight, input.unitSystem)} puts your BMI below ${MIN_HEALTHY_BMI}`
+    })
+  }
+
+  const targetBodyFat = input.targetBodyFat ?? weeks[weeks.length - 1].bodyFatPercentage
+  if (targetBodyFat !== null && targetBodyFat < MIN_ESSENTIAL_BODY_FAT[input.gender]) {
+    warnings.push({
+      code: 'target_below_essential_fat',
+      message: `Body fat below ${MIN_ESSENTIAL_BODY_FAT[input.gender]}% is under the essential fat level`
+    })
+  }
+
+  return {
+    direction,
+    startWeight: input.currentWeight,
+    targetWeight,
+    targetBodyFat: targetBodyFat ?? null,
+    weeklyRate,
+    dailyCalorieAdjustment,
+    totalWeeks: neededWeeks,
+    estimatedCompletionDate: addWeeks(startDate, neededWeeks),
+    weeks,
+    warnings,
+    isSafe: warnings.every(warning => warning.code === 'plan_truncated')
+  }
+}
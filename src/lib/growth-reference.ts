@@ -0,0 +1,80 @@
+// BMI-for-age growth reference data used for children's assessments.
+//
+// LMS parameters at yearly intervals from the WHO Child Growth Standards
+// (ages 1-5) and the WHO 2007 Growth Reference (ages 5-19), with the median
+// rounded to one decimal; ages between yearly points are linearly
+// interpolated. This is a coarse approximation of the monthly WHO tables.
+//
+// Only WHO data is bundled. The IAP 2015 charts for Indian children aged
+// 5-18 (with their adult-equivalent 23 and 27 BMI cut-offs) are not, so
+// results for those ages follow WHO and can differ from an IAP assessment.
+
+export interface LmsPoint {
+  age: number // years
+  L: number // Box-Cox power
+  M: number // median BMI
+  S: number // coefficient of variation
+}
+
+export const GROWTH_REFERENCE_SOURCE = 'WHO Child Growth Standards 2006 / WHO Growth Reference 2007 (yearly approximation)'
+
+export const BMI_FOR_AGE: Record<'male' | 'female', LmsPoint[]> = {
+  male: [
+    { age: 1, L: -0.1695, M: 17.2, S: 0.0806 },
+    { age: 2, L: -0.6187, M: 16.0, S: 0.0810 },
+    { age: 3, L: -0.6800, M: 15.6, S: 0.0820 },
+    { age: 4, L: -0.7130, M: 15.3, S: 0.0830 },
+    { age: 5, L: -0.7387, M: 15.2, S: 0.0839 },
+    { age: 6, L: -0.8886, M: 15.3, S: 0.0861 },
+    { age: 7, L: -1.0170, M: 15.5, S: 0.0897 },
+    { age: 8, L: -1.1250, M: 15.8, S: 0.0942 },
+    { age: 9, L: -1.2150, M: 16.1, S: 0.0994 },
+    { age: 10, L: -1.2900, M: 16.4, S: 0.1048 },
+    { age: 11, L: -1.3510, M: 16.9, S: 0.1104 },
+    { age: 12, L: -1.3960, M: 17.5, S: 0.1157 },
+    { age: 13, L: -1.4240, M: 18.2, S: 0.1203 }
+  ],
+  female: [
+    { age: 1, L: -0.0631, M: 16.6, S: 0.0838 },
+    { age: 2, L: -0.5684, M: 15.7, S: 0.0850 },
+    { age: 3, L: -0.6900, M: 15.4, S: 0.0870 },
+    { age: 4, L: -0.7600, M: 15.2, S: 0.0893 },
+    { age: 5, L: -0.8002, M: 15.2, S: 0.0917 },
+    { age: 6, L: -0.9600, M: 15.3, S: 0.0953 },
+    { age: 7, L: -1.1000, M: 15.4, S: 0.1000 },
+    { age: 8, L: -1.2100, M: 15.7, S: 0.1058 },
+    { age: 9, L: -1.2900, M: 16.1, S: 0.1124 },
+    { age: 10, L: -1.3500, M: 16.6, S: 0.1189 },
+    { age: 11, L: -1.3900, M: 17.2, S: 0.1248 },
+    { age: 12, L: -1.4100, M: 18.0, S: 0.1297 },
+    { age: 13, L: -1.4100, M: 18.8, S: 0.1333 }
+  ]
+}
+
+/**
+ * LMS parameters for an exact age, interpolated between yearly points
+ */
+export function getBmiLms(age: number, gender: 'male' | 'female'): LmsPoint {
+  const table = BMI_FOR_AGE[gender]
+  const first = table[0]
+  const last = table[table.length - 1]
+
+  if (age < first.age || age > last.age) {
+    throw new Error(`BMI-for-age reference covers ages ${first.age} to ${last.age}`)
+  }
+
+  const upperIndex = table.findIndex(point => point.age >= age)
+  const upper = table[upperIndex]
+  if (upper.age === age || upperIndex === 0) return { ...upper, age }
+
+  const lower = table[upperIndex - 1]
+  const fraction = (age - lower.age) / (upper.age - lower.age)
+  const lerp = (a: number, b: number) => a + (b - a) * fraction
+
+  return {
+    age,
+    L: lerp(lower.L, upper.L),
+    M: lerp(lower.M, upper.M),
+    S: lerp(lower.S, upper.S)
+  }
+}
@@ -0,0 +1,163 @@
+// GST rules for invoicing. Plan prices are inclusive of GST.
+
+export const GST_RATE = 18
+
+// SAC for online information and database access services
+export const SAC_CODE = '998431'
+
+export const INVOICE_PREFIX = 'FXG'
+
+// GST state codes (first two digits of a GSTIN)
+export const GST_STATES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh'
+}
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/
+
+export interface GstBreakdown {
+  taxableValue: number
+  cgst: number
+  sgst: number
+  igst: number
+  totalTax: number
+  total: number
+  isInterState: boolean
+}
+
+export function isGstStateCode(code: unknown): code is string {
+  return typeof code === 'string' && Object.prototype.hasOwnProperty.call(GST_STATES, code)
+}
+
+/**
+ * Format check for a GSTIN, including that it starts with a valid state code
+ */
+export function isValidGstin(gstin: string): boolean {
+  const normalized = gstin.trim().toUpperCase()
+  return GSTIN_PATTERN.test(normalized) && isGstStateCode(normalized.slice(0, 2))
+}
+
+export function getStateCodeFromGstin(gstin: string): string {
+  return gstin.trim().toUpperCase().slice(0, 2)
+}
+
+/**
+ * Indian financial year (April to March) a date falls in, e.g. "2026-27".
+ * Dates are evaluated in IST so invoices issued just after midnight on
+ * 1 April fall in the new year.
+ */
+export function getFinancialYear(date: Date): string {
+  const ist = new Date(date.getTime() + 330 * 60 * 1000)
+  const year = ist.getUTCFullYear()
+  const startYear = ist.getUTCMonth() >= 3 ? year : year - 1
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`
+}
+
+/**
+ * Invoice numbers restart every financial year: FXG/2026-27/00001
+ */
+export function formatInvoiceNumber(financialYear: string, sequence: number): string {
+  return `${INVOICE_PREFIX}/${financialYear}/${String(sequence).padStart(5, '0')}`
+}
+
+function roundToPaise(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Split a GST-inclusive amount into taxable value and tax. Supplies within the
+ * supplier's state carry CGST + SGST at half the rate each; supplies to other
+ * states carry IGST.
+ */
+export function calculateGst(inclusiveAmount: number, supplierStateCode: string, placeOfSupplyCode: string): GstBreakdown {
+  const isInterState = supplierStateCode !== placeOfSupplyCode
+  const taxableValue = roundToPaise(inclusiveAmount * 100 / (100 + GST_RATE))
+  const totalTax = roundToPaise(inclusiveAmount - taxableValue)
+
+  // Keep CGST + SGST equal to the total by putting any odd paisa on SGST
+  const cgst = isInterState ? 0 : roundToPaise(Math.floor(totalTax * 100 / 2) / 100)
+  const sgst = isInterState ? 0 : roundToPaise(totalTax - cgst)
+
+  return {
+    taxableValue,
+    cgst,
+    sgst,
+    igst: isInterState ? totalTax : 0,
+    totalTax,
+    total: roundToPaise(inclusiveAmount),
+    isInterState
+  }
+}
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'
+]
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety']
+
+function belowHundred(n: number): string {
+  if (n < 20) return ONES[n]
+  return [TENS[Math.floor(n / 10)], ONES[n % 10]].filter(Boolean).join(' ')
+}
+
+function belowThousand(n: number): string {
+  const hundreds = Math.floor(n / 100)
+  const rest = n % 100
+  return [hundreds ? `${ONES[hundreds]} Hundred` : '', rest ? belowHundred(rest) : ''].filter(Boolean).join(' ')
+}
+
+/**
+ * Amount in words using Indian grouping (lakh, crore), as printed on invoices
+ */
+export function amountInWords(amount: number): string {
+  const rupees = Math.floor(amount)
+  const paise = Math.round((amount - rupees) * 100)
+
+  const parts: string[] = []
+  const crore = Math.floor(rupees / 10000000)
+  const lakh = Math.floor(rupees / 100000) % 100
+  const thousand = Math.floor(rupees / 1000) % 100
+  const rest = rupees % 1000
+
+  if (crore) parts.push(`${belowThousand(crore)} Crore`)
+  if (lakh) parts.push(`${belowHundred(lakh)} Lakh`)
+  if (thousand) parts.push(`${belowHundred(thousand)} Thousand`)
+  if (rest) parts.push(belowThousand(rest))
+
+  const words = `Rupees ${parts.length ? parts.join(' ') : 'Zero'}`
+  return paise ? `${words} and ${belowHundred(paise)} Paise Only` : `${words} Only`
+}
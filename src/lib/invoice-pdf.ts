@@ -0,0 +1,145 @@
+import { A4_WIDTH, PdfDocument } from './pdf'
+import { GST_RATE, GST_STATES, amountInWords } from './gst'
+
+export interface InvoiceParty {
+  name: string
+  email?: string
+  gstin?: string
+  address?: string
+  stateCode: string
+}
+
+export interface InvoiceLineItem {
+  description: string
+  sacCode: string
+  quantity: number
+  taxableValue: number
+}
+
+export interface InvoiceData {
+  invoiceNumber: string
+  issuedAt: Date
+  supplier: InvoiceParty
+  customer: InvoiceParty
+  placeOfSupply: string // state code
+  lineItems: InvoiceLineItem[]
+  taxableValue: number
+  cgst: number
+  sgst: number
+  igst: number
+  total: number
+  paymentReference?: string
+}
+
+const MARGIN = 48
+const RIGHT = A4_WIDTH - MARGIN
+
+function rupees(amount: number): string {
+  return `Rs. ${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'Asia/Kolkata' })
+}
+
+function stateLabel(code: string): string {
+  return `${GST_STATES[code] || 'Unknown'} (${code})`
+}
+
+/**
+ * Render a GST tax invoice as a single-page A4 PDF
+ */
+export function renderInvoicePdf(invoice: InvoiceData): Buffer {
+  const pdf = new PdfDocument()
+  const { supplier, customer } = invoice
+
+  // Header
+  pdf.text(MARGIN, 64, 'TAX INVOICE', { size: 20, bold: true })
+  pdf.text(MARGIN, 90, supplier.name, { size: 12, bold: true })
+  let y = 106
+  if (supplier.address) {
+    pdf.text(MARGIN, y, supplier.address, { size: 9, gray: 0.3 })
+    y += 13
+  }
+  pdf.text(MARGIN, y, `GSTIN: ${supplier.gstin || 'N/A'}`, { size: 9, gray: 0.3 })
+  pdf.text(MARGIN, y + 13, `State: ${stateLabel(supplier.stateCode)}`, { size: 9, gray: 0.3 })
+
+  pdf.text(RIGHT, 90, `Invoice No: ${invoice.invoiceNumber}`, { size: 10, bold: true, align: 'right' })
+  pdf.text(RIGHT, 106, `Date: ${formatDate(invoice.issuedAt)}`, { size: 9, align: 'right' })
+  pdf.text(RIGHT, 119, `Place of Supply: ${stateLabel(invoice.placeOfSupply)}`, { size: 9, align: 'right' })
+
+  pdf.line(MARGIN, 150, RIGHT, 150, 0.75, 0.6)
+
+  // Bill to
+  pdf.text(MARGIN, 172, 'BILL TO', { size: 9, bold: true, gray: 0.4 })
+  pdf.text(MARGIN, 188, customer.name, { size: 11, bold: true })
+  y = 202
+  for (const line of [
+    customer.email,
+    customer.address,
+    customer.gstin ? `GSTIN: ${customer.gstin}` : null,
+    `State: ${stateLabel(customer.stateCode)}`
+  ]) {
+    if (!line) continue
+    pdf.text(MARGIN, y, line, { size: 9, gray: 0.3 })
+    y += 13
+  }
+
+  // Line items
+  const tableTop = Math.max(y + 20, 270)
+  const columns = { index: MARGIN + 8, description: MARGIN + 32, sac: 330, quantity: 400, amount: RIGHT - 8 }
+
+  pdf.rect(MARGIN, tableTop, RIGHT - MARGIN, 22)
+  pdf.text(columns.index, tableTop + 15, '#', { size: 9, bold: true })
+  pdf.text(columns.description, tableTop + 15, 'Description', { size: 9, bold: true })
+  pdf.text(columns.sac, tableTop + 15, 'SAC', { size: 9, bold: true })
+  pdf.text(columns.quantity, tableTop + 15, 'Qty', { size: 9, bold: true })
+  pdf.text(columns.amount, tableTop + 15, 'Taxable Value', { size: 9, bold: true, align: 'right' })
+
+  y = tableTop + 40
+  invoice.lineItems.forEach((item, index) => {
+    pdf.text(columns.index, y, String(index + 1), { size: 9 })
+    pdf.text(columns.description, y, item.description, { size: 9 })
+    pdf.text(columns.sac, y, item.sacCode, { size: 9 })
+    pdf.text(columns.quantity, y, String(item.quantity), { size: 9 })
+    pdf.text(columns.amount, y, rupees(item.taxableValue), { size: 9, align: 'right' })
+    y += 18
+  })
+  pdf.line(MARGIN, y - 6, RIGHT, y - 6, 0.5, 0.8)
+
+  // Totals
+  const labelX = 360
+  const rows: Array<[string, number]> = [['Taxable Value', invoice.taxableValue]]
+  if (invoice.igst > 0) {
+    rows.push([`IGST @ ${GST_RATE}%`, invoice.igst])
+  } else {
+    rows.push([`CGST @ ${GST_RATE / 2}%`, invoice.cgst])
+    rows.push([`SGST @ ${GST_RATE / 2}%`, invoice.sgst])
+  }
+
+  y += 12
+  for (const [label, amount] of rows) {
+    pdf.text(labelX, y, label, { size: 9 })
+    pdf.text(RIGHT - 8, y, rupees(amount), { size: 9, align: 'right' })
+    y += 16
+  }
+
+  pdf.rect(labelX - 8, y - 6, RIGHT - labelX + 8, 24)
+  pdf.text(labelX, y + 10, 'Total (incl. GST)', { size: 10, bold: true })
+  pdf.text(RIGHT - 8, y + 10, rupees(invoice.total), { size: 10, bold: true, align: 'right' })
+
+  y += 44
+  pdf.text(MARGIN, y, `Amount in words: ${amountInWords(invoice.total)}`, { size: 9 })
+  if (invoice.paymentReference) {
+    pdf.text(MARGIN, y + 14, `Paid online via Razorpay (ref. ${invoice.paymentReference})`, { size: 9, gray: 0.3 })
+  }
+
+  pdf.line(MARGIN, 780, RIGHT, 780, 0.5, 0.8)
+  pdf.text(A4_WIDTH / 2, 796, 'This is a computer-generated invoice and does not require a signature.', {
+    size: 8,
+    gray: 0.4,
+    align: 'center'
+  })
+
+  return pdf.toBuffer()
+}
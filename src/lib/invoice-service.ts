@@ -0,0 +1,177 @@
+import Invoice, { IInvoice } from '@/models/Invoice'
+import InvoiceCounter from '@/models/InvoiceCounter'
+import { IPayment } from '@/models/Payment'
+import User from '@/models/User'
+import { SAC_CODE, calculateGst, formatInvoiceNumber, getFinancialYear } from './gst'
+import { InvoiceData, InvoiceParty } from './invoice-pdf'
+import { PRICING_PLANS, isPlanId } from './plans'
+
+/**
+ * Our registration details, from the environment
+ */
+export function getSupplierDetails(): InvoiceParty {
+  return {
+    name: process.env.GST_SUPPLIER_NAME || 'FitXGen',
+    gstin: process.env.GST_SUPPLIER_GSTIN,
+    address: process.env.GST_SUPPLIER_ADDRESS,
+    stateCode: process.env.GST_SUPPLIER_STATE_CODE || '27'
+  }
+}
+
+function describePurchase(payment: IPayment): string {
+  const planName = payment.metadata?.planName || 'FitXGen'
+  const fromPlan = payment.metadata?.fromPlanId
+  if (payment.metadata?.purchaseType === 'upgrade' && isPlanId(fromPlan)) {
+    return `${planName} - prorated upgrade from ${PRICING_PLANS[fromPlan].name}`
+  }
+  return `${planName} - 1 year subscription`
+}
+
+export type NumberedInvoice = IInvoice & { invoiceNumber: string; sequence: number }
+
+const isNumbered = (invoice: IInvoice): invoice is NumberedInvoice => invoice.sequence !== undefined
+
+// An invoice still unnumbered after this long was claimed by a request that
+// failed before numbering it
+const NUMBERING_LEASE_MS = 60 * 1000
+
+export class InvoicePendingError extends Error {
+  constructor() {
+    super('The invoice is still being issued. Please try again in a minute.')
+    this.name = 'InvoicePendingError'
+  }
+}
+
+async function nextSequence(financialYear: string): Promise<number> {
+  const counter = await InvoiceCounter.findOneAndUpdate(
+    { financialYear },
+    { $inc: { sequence: 1 } },
+    { upsert: true, new: true }
+  )
+  return counter.sequence
+}
+
+async function numberInvoice(invoice: IInvoice): Promise<NumberedInvoice> {
+  const sequence = await nextSequence(invoice.financialYear)
+  const numbered: NumberedInvoice | null = await Invoice.findOneAndUpdate(
+    { _id: invoice._id, sequence: { $exists: false } },
+    { $set: { sequence, invoiceNumber: formatInvoiceNumber(invoice.financialYear, sequence) } },
+    { new: true }
+  )
+  if (numbered) {
+    return numbered
+  }
+
+  // Only possible when two requests recover the same stale claim at once
+  console.error(`Invoice sequence ${sequence} for ${invoice.financialYear} went unused; payment ${invoice.paymentId} was numbered concurrently`)
+  return await Invoice.findById(invoice._id) as NumberedInvoice
+}
+
+/**
+ * The numbered invoice already issued for a payment, if there is one
+ */
+export async function findIssuedInvoice(payment: IPayment): Promise<NumberedInvoice | null> {
+  const invoice: IInvoice | null = await Invoice.findOne({ paymentId: payment._id })
+  return invoice && isNumbered(invoice) ? invoice : null
+}
+
+/**
+ * Issue the invoice for a completed payment, or return the one already issued.
+ * Invoices are dated when the payment completed, which decides the financial
+ * year and number series.
+ *
+ * GST invoice numbers can't have gaps, so the invoice is saved before it is
+ * numbered: the unique payment index settles which request issues it, and
+ * only that request takes a number from the series.
+ */
+export async function issueInvoice(payment: IPayment): Promise<NumberedInvoice> {
+  const existing: IInvoice | null = await Invoice.findOne({ paymentId: payment._id })
+  if (existing) {
+    return numberedOrRecovered(existing)
+  }
+
+  const user = await User.findById(payment.userId).select('email profile.name').lean<{
+    email: string
+    profile?: { name?: string }
+  }>()
+
+  const supplier = getSupplierDetails()
+  const billing = payment.billing || {}
+
+  // Without a customer location on record the place of supply is the
+  // supplier's state
+  const placeOfSupply = billing.stateCode || supplier.stateCode
+  const gst = calculateGst(payment.amount, supplier.stateCode, placeOfSupply)
+
+  const issuedAt = payment.completedAt || payment.createdAt
+
+  let claimed: IInvoice
+  try {
+    claimed = await Invoice.create({
+      financialYear: getFinancialYear(issuedAt),
+      paymentId: payment._id,
+      userId: payment.userId,
+      issuedAt,
+      supplier,
+      customer: {
+        name: billing.name || user?.profile?.name || user?.email || 'Customer',
+        email: user?.email,
+        gstin: billing.gstin,
+        address: billing.address,
+        stateCode: placeOfSupply
+      },
+      placeOfSupply,
+      lineItems: [{
+        description: describePurchase(payment),
+        sacCode: SAC_CODE,
+        quantity: 1,
+        taxableValue: gst.taxableValue
+      }],
+      taxableValue: gst.taxableValue,
+      cgst: gst.cgst,
+      sgst: gst.sgst,
+      igst: gst.igst,
+      total: gst.total
+    })
+  } catch (error: unknown) {
+    // Claimed concurrently by another request, which numbers it
+    if ((error as { code?: number }).code === 11000) {
+      const issued: IInvoice | null = await Invoice.findOne({ paymentId: payment._id })
+      if (issued) return numberedOrRecovered(issued)
+    }
+    throw error
+  }
+
+  return numberInvoice(claimed)
+}
+
+/**
+ * An invoice another request claimed: numbered, or numbered here if that
+ * request evidently failed part way
+ */
+async function numberedOrRecovered(invoice: IInvoice): Promise<NumberedInvoice> {
+  if (isNumbered(invoice)) {
+    return invoice
+  }
+  if (Date.now() - invoice.createdAt.getTime() < NUMBERING_LEASE_MS) {
+    throw new InvoicePendingError()
+  }
+  return numberInvoice(invoice)
+}
+
+export function toInvoiceData(invoice: NumberedInvoice, paymentReference?: string): InvoiceData {
+  return {
+    invoiceNumber: invoice.invoiceNumber,
+    issuedAt: invoice.issuedAt,
+    supplier: invoice.supplier,
+    customer: invoice.customer,
+    placeOfSupply: invoice.placeOfSupply,
+    lineItems: invoice.lineItems,
+    taxableValue: invoice.taxableValue,
+    cgst: invoice.cgst,
+    sgst: invoice.sgst,
+    igst: invoice.igst,
+    total: invoice.total,
+    paymentReference
+  }
+}
@@ -0,0 +1,107 @@
+// Languages Arogya can reply in, and detection of the language a chat
+// message is written in
+
+export const LANGUAGE_CODES = ['en', 'hi', 'ta', 'te', 'bn', 'mr'] as const
+
+export type LanguageCode = typeof LANGUAGE_CODES[number]
+
+// Hinglish is Hindi typed in Latin script. It's detected in chat and replied
+// to in kind, but isn't offered as a preference.
+export type ChatLanguage = LanguageCode | 'hinglish'
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en'
+
+export const LANGUAGE_NAMES: Record<ChatLanguage, { english: string; native: string }> = {
+  en: { english: 'English', native: 'English' },
+  hi: { english: 'Hindi', native: 'हिन्दी' },
+  ta: { english: 'Tamil', native: 'தமிழ்' },
+  te: { english: 'Telugu', native: 'తెలుగు' },
+  bn: { english: 'Bengali', native: 'বাংলা' },
+  mr: { english: 'Marathi', native: 'मराठी' },
+  hinglish: { english: 'Hinglish', native: 'Hinglish' }
+}
+
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return typeof value === 'string' && (LANGUAGE_CODES as readonly string[]).includes(value)
+}
+
+const SCRIPTS: Array<{ language: LanguageCode; pattern: RegExp }> = [
+  { language: 'hi', pattern: /[ऀ-ॿ]/g }, // Devanagari, also used for Marathi
+  { language: 'bn', pattern: /[ঀ-৿]/g },
+  { language: 'ta', pattern: /[஀-௿]/g },
+  { language: 'te', pattern: /[ఀ-౿]/g }
+]
+
+// Common Marathi words that Hindi doesn't use, to tell the two apart in Devanagari
+const MARATHI_WORDS = ['आहे', 'आहेत', 'मला', 'माझ्या', 'माझा', 'माझी', 'काय', 'नाही', 'आणि', 'करू', 'कसे', 'पाहिजे', 'खूप', 'तुम्ही']
+
+// Everyday Hindi words as they're usually typed in Latin script. Words that
+// are also English (main, to, do) are left out.
+const HINGLISH_WORDS = new Set([
+  'hai', 'hain', 'hoon', 'hu', 'kya', 'kaise', 'kaisa', 'kyun', 'kyu', 'mujhe', 'mera', 'meri', 'mere',
+  'nahi', 'nahin', 'karna', 'karu', 'karun', 'chahiye', 'kitna', 'kitni', 'khana', 'khaana', 'khaun',
+  'accha', 'acha', 'theek', 'thik', 'bahut', 'bohot', 'aur', 'lekin', 'matlab', 'roz', 'raat',
+  'subah', 'shaam', 'wajan', 'vajan', 'kam', 'zyada', 'jyada', 'batao', 'bataiye', 'kuch', 'sakta', 'sakti',
+  'rahi', 'raha', 'gaya', 'gayi', 'dard', 'yaar', 'ji', 'haan', 'abhi', 'kal', 'bhi', 'ke', 'ki', 'ko', 'se'
+])
+
+// A message needs this many Hindi words, at least one of them longer than
+// the short ones (ke, ki, ko, se) that turn up by accident
+const HINGLISH_MIN_WORDS = 2
+
+function isHinglish(text: string): boolean {
+  const words = text.toLowerCase().match(/[a-z]+/g) || []
+  const hits = words.filter(word => HINGLISH_WORDS.has(word))
+  const strongHits = hits.filter(word => word.length > 2)
+  return strongHits.length >= 1 && hits.length >= HINGLISH_MIN_WORDS
+}
+
+/**
+ * Language a message is written in, or null when there's nothing to go on
+ * (numbers, emoji). Indian scripts win over Latin when a message mixes them.
+ */
+export function detectLanguage(text: string): ChatLanguage | null {
+  let best: { language: LanguageCode; count: number } | null = null
+  for (const { language, pattern } of SCRIPTS) {
+    const count = text.match(pattern)?.length || 0
+    if (count > 0 && (!best || count > best.count)) {
+      best = { language, count }
+    }
+  }
+
+  if (best) {
+    if (best.language === 'hi' && MARATHI_WORDS.some(word => text.includes(word))) {
+      return 'mr'
+    }
+    return best.language
+  }
+
+  if (!/[a-z]/i.test(text)) return null
+  return isHinglish(text) ? 'hinglish' : 'en'
+}
+
+/**
+ * Reply in the language the user wrote in, or their preferred language when
+ * it can't be told. Devanagari reads as Hindi unless it has Marathi words, so
+ * a Marathi speaker's preference settles short, ambiguous messages.
+ */
+export function getReplyLanguage(message: string, preferred: LanguageCode = DEFAULT_LANGUAGE): ChatLanguage {
+  const detected = detectLanguage(message)
+  if (!detected) return preferred
+  if (detected === 'hi' && preferred === 'mr') return 'mr'
+  return detected
+}
+
+/**
+ * Instruction added to AI prompts so replies come back in the chosen language
+ */
+export function getLanguageInstruction(language: ChatLanguage): string {
+  if (language === 'en') {
+    return 'Respond in English.'
+  }
+  if (language === 'hinglish') {
+    return 'Respond in Hinglish: conversational Hindi written in Latin (English) script, mixing in English words the way the user does. Do not use Devanagari.'
+  }
+  const { english, native } = LANGUAGE_NAMES[language]
+  return `Respond in ${english} (${native}) using its native script. Keep common food and exercise names recognisable, and you may add the English term in brackets for medical words.`
+}
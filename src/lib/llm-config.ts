@@ -0,0 +1,56 @@
+// Model settings for each thing we ask the LLM to do. Defaults can be
+// overridden per deployment, either for every use case (LLM_MODEL) or for one
+// (e.g. LLM_DIET_PLAN_MAX_TOKENS=1600).
+
+export type LLMUseCase =
+  | 'chat'
+  | 'chatSummary'
+  | 'chatTitle'
+  | 'healthRecommendations'
+  | 'dietPlan'
+  | 'exercisePlan'
+  | 'stressManagement'
+  | 'progressAnalysis'
+
+export interface LLMModelConfig {
+  model: string
+  temperature: number
+  maxTokens: number
+}
+
+export const DEFAULT_LLM_MODEL = 'claude-3-5-sonnet-20241022'
+
+export const LLM_USE_CASE_DEFAULTS: Record<LLMUseCase, Omit<LLMModelConfig, 'model'>> = {
+  chat: { temperature: 0.7, maxTokens: 800 },
+  chatSummary: { temperature: 0.3, maxTokens: 500 },
+  chatTitle: { temperature: 0.3, maxTokens: 30 },
+  healthRecommendations: { temperature: 0.7, maxTokens: 1000 },
+  dietPlan: { temperature: 0.7, maxTokens: 1200 },
+  exercisePlan: { temperature: 0.7, maxTokens: 1200 },
+  stressManagement: { temperature: 0.7, maxTokens: 1000 },
+  progressAnalysis: { temperature: 0.7, maxTokens: 1000 }
+}
+
+type Env = Record<string, string | undefined>
+
+// dietPlan -> LLM_DIET_PLAN
+function envPrefix(useCase: LLMUseCase): string {
+  return `LLM_${useCase.replace(/([A-Z])/g, '_$1').toUpperCase()}`
+}
+
+function readNumber(value: string | undefined, min: number, max: number): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined
+  const number = Number(value)
+  return Number.isFinite(number) && number >= min && number <= max ? number : undefined
+}
+
+export function getLLMConfig(useCase: LLMUseCase, env: Env = process.env): LLMModelConfig {
+  const defaults = LLM_USE_CASE_DEFAULTS[useCase]
+  const prefix = envPrefix(useCase)
+
+  return {
+    model: env[`${prefix}_MODEL`] || env.LLM_MODEL || DEFAULT_LLM_MODEL,
+    temperature: readNumber(env[`${prefix}_TEMPERATURE`], 0, 1) ?? defaults.temperature,
+    maxTokens: Math.floor(readNumber(env[`${prefix}_MAX_TOKENS`], 1, 8192) ?? defaults.maxTokens)
+  }
+}
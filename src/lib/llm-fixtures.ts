@@ -0,0 +1,146 @@
+import { LLMUseCase } from './llm-config'
+import { DietPlan, ExercisePlan, HealthRecommendations } from './recommendation-schema'
+
+// Canned replies for the mock LLM provider, so development and tests never
+// call the real API and always get the same answer for the same request
+
+export const LLM_FIXTURES: Record<LLMUseCase, string> = {
+  chat: `Namaste! Here are a few simple steps you can start today:
+
+- Add a bowl of dal or a handful of roasted chana to each meal for protein
+- Walk for 30 minutes after dinner
+- Aim for 7-8 hours of sleep
+
+What would you like to focus on first?`,
+
+  chatSummary: `The user wants to lose weight and is vegetarian. They mentioned a knee injury, so avoid high-impact exercise. They asked about breakfast ideas and walking after dinner.`,
+
+  chatTitle: 'Vegetarian weight loss tips',
+
+  healthRecommendations: `Diet: Build each meal around dal, sabzi and a moderate portion of roti or rice. Add curd or paneer for protein.
+
+Exercise: Walk 30 minutes daily and add two sessions of bodyweight strength training each week.
+
+Lifestyle: Sleep 7-8 hours, drink 2.5-3 litres of water and practise 10 minutes of pranayama each morning.`,
+
+  dietPlan: `Day 1
+- Breakfast: Vegetable poha with peanuts
+- Lunch: 2 rotis, moong dal, bhindi sabzi, salad
+- Snack: Roasted chana and buttermilk
+- Dinner: Vegetable khichdi with curd
+
+Shopping list: poha, moong dal, bhindi, chana, curd, seasonal vegetables`,
+
+  exercisePlan: `Monday, Wednesday, Friday: 5 minutes warm-up, 3 sets of 12 squats, 3 sets of 10 push-ups (knees if needed), 3 x 30 second planks, 5 minutes stretching.
+
+Tuesday, Thursday: 30 minute brisk walk or surya namaskar (6 rounds).
+
+Weekend: Active rest, yoga or a long walk.`,
+
+  stressManagement: `Morning: 10 minutes of anulom vilom and 5 minutes of quiet sitting.
+
+During work: Take a 5 minute walk every 90 minutes.
+
+Evening: Limit screens an hour before bed and write down three things that went well today.`,
+
+  progressAnalysis: `You're moving in the right direction. Keep the habits that are working, and pick one challenge to tackle this week. Small, steady changes add up.`
+}
+
+// Chat replies picked by the first keyword found in the user's message
+export const CHAT_FIXTURES: Array<{ keywords: string[]; response: string }> = [
+  {
+    keywords: ['eat', 'diet', 'food', 'meal', 'protein'],
+    response: `For balanced Indian meals, fill half your plate with sabzi or salad, a quarter with dal, paneer, eggs or chicken, and a quarter with roti or rice. Which meal would you like help with?`
+  },
+  {
+    keywords: ['exercise', 'workout', 'gym', 'walk', 'yoga'],
+    response: `Start with a 30 minute brisk walk five days a week and add two short bodyweight sessions: squats, push-ups and planks. How much time do you have each day?`
+  },
+  {
+    keywords: ['stress', 'sleep', 'anxious', 'tired'],
+    response: `Try 5 minutes of slow anulom vilom breathing, a short walk after meals and a fixed bedtime. What tends to trigger your stress?`
+  }
+]
+
+const DIET_PLAN_FIXTURE: DietPlan = {
+  dailyCalories: 1800,
+  macros: { protein: 113, carbs: 203, fats: 50 },
+  mealPlan: [
+    {
+      meal: 'Breakfast',
+      time: '8:00 AM',
+      items: ['2 moong dal chillas', '1 cup curd'],
+      calories: 450,
+      macros: { protein: 28, carbs: 50, fats: 13 }
+    },
+    {
+      meal: 'Lunch',
+      time: '1:00 PM',
+      items: ['2 rotis', '1 bowl rajma', 'Cucumber salad'],
+      calories: 600,
+      macros: { protein: 35, carbs: 70, fats: 16 }
+    },
+    {
+      meal: 'Evening Snack',
+      time: '5:00 PM',
+      items: ['Roasted chana', 'Buttermilk'],
+      calories: 200,
+      macros: { protein: 12, carbs: 25, fats: 5 }
+    },
+    {
+      meal: 'Dinner',
+      time: '8:00 PM',
+      items: ['Paneer bhurji', '1 roti', 'Mixed vegetable sabzi'],
+      calories: 550,
+      macros: { protein: 38, carbs: 58, fats: 16 }
+    }
+  ],
+  tips: ['Eat dinner at least two hours before bed']
+}
+
+const EXERCISE_PLAN_FIXTURE: ExercisePlan = {
+  weeklyPlan: [
+    {
+      day: 'Monday',
+      type: 'Strength Training',
+      durationMinutes: 35,
+      exercises: [
+        { name: 'Squats', sets: 3, reps: '12' },
+        { name: 'Knee push-ups', sets: 3, reps: '10' },
+        { name: 'Plank', sets: 3, reps: '30 seconds' }
+      ]
+    },
+    {
+      day: 'Wednesday',
+      type: 'Cardio',
+      durationMinutes: 30,
+      exercises: [{ name: 'Brisk walk', durationMinutes: 30 }]
+    },
+    {
+      day: 'Saturday',
+      type: 'Yoga',
+      durationMinutes: 30,
+      exercises: [{ name: 'Surya namaskar', sets: 1, reps: '6 rounds' }]
+    }
+  ],
+  tips: ['Warm up for 5 minutes before each session']
+}
+
+// Tool call answers for the structured use cases
+export const STRUCTURED_FIXTURES: Partial<Record<LLMUseCase, unknown>> = {
+  healthRecommendations: {
+    summary: 'A steady plan built on home-cooked Indian meals, three workouts a week and better sleep.',
+    diet: DIET_PLAN_FIXTURE,
+    exercise: EXERCISE_PLAN_FIXTURE,
+    lifestyle: {
+      hydrationLitres: 2.5,
+      actions: [
+        { category: 'sleep', title: 'Sleep by 11 PM on weeknights' },
+        { category: 'stress', title: '10 minutes of anulom vilom each morning' },
+        { category: 'hydration', title: 'Keep a 1 litre bottle at your desk and refill it twice' }
+      ]
+    }
+  } satisfies HealthRecommendations,
+  dietPlan: DIET_PLAN_FIXTURE,
+  exercisePlan: EXERCISE_PLAN_FIXTURE
+}
@@ -0,0 +1,156 @@
+import type Anthropic from '@anthropic-ai/sdk'
+import { LLMUseCase, getLLMConfig } from './llm-config'
+import { CHAT_FIXTURES, LLM_FIXTURES, STRUCTURED_FIXTURES } from './llm-fixtures'
+import type { StructuredOutputTool } from './recommendation-schema'
+
+export interface LLMMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+export interface LLMRequest {
+  useCase: LLMUseCase // picks model, temperature and max tokens
+  system: string
+  messages: LLMMessage[]
+  signal?: AbortSignal
+}
+
+export interface StructuredLLMRequest extends LLMRequest {
+  tool: StructuredOutputTool // the model must answer by calling this tool
+}
+
+export interface LLMProvider {
+  complete(request: LLMRequest): Promise<string>
+  // Returns the tool call's input, unvalidated
+  completeStructured(request: StructuredLLMRequest): Promise<unknown>
+  // Yields the response text as it's generated
+  stream(request: LLMRequest): AsyncIterable<string>
+}
+
+// Claude through the Anthropic API. The client is created on first use so
+// importing this module doesn't need an API key.
+class AnthropicLLMProvider implements LLMProvider {
+  private client: Anthropic | null = null
+
+  private async getClient(): Promise<Anthropic> {
+    if (!this.client) {
+      const apiKey = process.env.CLAUDE_API_KEY
+      if (!apiKey) {
+        throw new Error('CLAUDE_API_KEY is not set')
+      }
+      const { default: AnthropicClient } = await import('@anthropic-ai/sdk')
+      this.client = new AnthropicClient({ apiKey })
+    }
+    return this.client
+  }
+
+  private buildParams({ useCase, system, messages }: LLMRequest) {
+    const config = getLLMConfig(useCase)
+    return {
+      model: config.model,
+      max_tokens: config.maxTokens,
+      temperature: config.temperature,
+      system,
+      messages
+    }
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const client = await this.getClient()
+    const message = await client.messages.create(this.buildParams(request), { signal: request.signal })
+    return message.content
+      .map(block => block.type === 'text' ? block.text : '')
+      .join('')
+  }
+
+  async completeStructured({ tool, ...request }: StructuredLLMRequest): Promise<unknown> {
+    const client = await this.getClient()
+    const message = await client.messages.create({
+      ...this.buildParams(request),
+      tools: [{
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.inputSchema as Anthropic.Tool.InputSchema
+      }],
+      tool_choice: { type: 'tool', name: tool.name }
+    }, { signal: request.signal })
+
+    const toolUse = message.content.find(block => block.type === 'tool_use' && block.name === tool.name)
+    if (!toolUse || toolUse.type !== 'tool_use') {
+      throw new Error(`The model did not call ${tool.name}`)
+    }
+    return toolUse.input
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<string> {
+    const client = await this.getClient()
+    const stream = client.messages.stream(this.buildParams(request), { signal: request.signal })
+    for await (const event of stream) {
+      if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        yield event.delta.text
+      }
+    }
+  }
+}
+
+// Development and tests: answers from fixtures without calling any API. The
+// same request always gets the same response, and requests are kept so tests
+// can check what was sent.
+export class MockLLMProvider implements LLMProvider {
+  readonly requests: LLMRequest[] = []
+
+  constructor(
+    private readonly fixtures: Partial<Record<LLMUseCase, string>> = {},
+    private readonly structuredFixtures: Partial<Record<LLMUseCase, unknown[]>> = {}
+  ) {}
+
+  private respond(request: LLMRequest): string {
+    this.requests.push(request)
+
+    const fixture = this.fixtures[request.useCase]
+    if (fixture !== undefined) return fixture
+
+    if (request.useCase === 'chat') {
+      const lastMessage = request.messages[request.messages.length - 1]?.content.toLowerCase() || ''
+      const match = CHAT_FIXTURES.find(({ keywords }) => keywords.some(keyword => lastMessage.includes(keyword)))
+      if (match) return match.response
+    }
+    return LLM_FIXTURES[request.useCase]
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    return this.respond(request)
+  }
+
+  // Structured fixtures are a list of answers given in turn, so tests can
+  // check what happens when the first one fails validation
+  async completeStructured(request: StructuredLLMRequest): Promise<unknown> {
+    const attempt = this.requests.filter(previous => previous.useCase === request.useCase).length
+    this.requests.push(request)
+
+    const answers = this.structuredFixtures[request.useCase] ?? [STRUCTURED_FIXTURES[request.useCase]]
+    return answers[Math.min(attempt, answers.length - 1)]
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<string> {
+    // Word by word, keeping the whitespace, like a real stream
+    for (const token of this.respond(request).split(/(?<=\s)/)) {
+      if (request.signal?.aborted) return
+      yield token
+    }
+  }
+}
+
+let provider: LLMProvider | null = null
+
+/**
+ * Anthropic-backed provider, or the fixture mock when LLM_MOCK=true
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    provider = process.env.LLM_MOCK === 'true'
+      ? new MockLLMProvider()
+      : new AnthropicLLMProvider()
+  }
+  return provider
+}
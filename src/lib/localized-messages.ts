@@ -0,0 +1,322 @@
+import type { SafetyCategory } from './chat-safety'
+import { ChatLanguage } from './languages'
+import { MIN_DAILY_CALORIES } from './recommendation-schema'
+
+// Fixed messages shown when the AI can't answer, in each language Arogya
+// replies in
+
+interface FallbackMessages {
+  chatError: string // the AI call failed
+  chatEmpty: string // the AI returned nothing
+  stressPlanUnavailable: string
+  progressUnavailable: string
+}
+
+export const FALLBACK_MESSAGES: Record<ChatLanguage, FallbackMessages> = {
+  en: {
+    chatError: "I apologize, but I'm having trouble processing your request right now. Please try again in a moment, or feel free to ask me something else about your health and wellness journey.",
+    chatEmpty: 'I apologize, but I cannot respond to that right now.',
+    stressPlanUnavailable: 'Unable to generate stress management plan at this time.',
+    progressUnavailable: 'Unable to analyze progress at this time.'
+  },
+  hinglish: {
+    chatError: 'Sorry, abhi aapki request process karne mein dikkat aa rahi hai. Thodi der baad phir try kijiye, ya apni health ke baare mein kuch aur poochiye.',
+    chatEmpty: 'Sorry, abhi main iska jawab nahi de pa raha hoon.',
+    stressPlanUnavailable: 'Abhi stress management plan nahi ban pa raha hai.',
+    progressUnavailable: 'Abhi progress analyse nahi ho pa raha hai.'
+  },
+  hi: {
+    chatError: 'क्षमा करें, अभी आपका अनुरोध पूरा करने में दिक्कत आ रही है। कृपया थोड़ी देर बाद फिर कोशिश करें, या अपनी सेहत के बारे में कुछ और पूछें।',
+    chatEmpty: 'क्षमा करें, मैं अभी इसका जवाब नहीं दे पा रहा हूँ।',
+    stressPlanUnavailable: 'अभी तनाव प्रबंधन योजना नहीं बन पा रही है।',
+    progressUnavailable: 'अभी आपकी प्रगति का विश्लेषण नहीं हो पा रहा है।'
+  },
+  mr: {
+    chatError: 'क्षमस्व, सध्या तुमची विनंती पूर्ण करण्यात अडचण येत आहे. कृपया थोड्या वेळाने पुन्हा प्रयत्न करा, किंवा तुमच्या आरोग्याबद्दल दुसरे काही विचारा.',
+    chatEmpty: 'क्षमस्व, मी सध्या याचे उत्तर देऊ शकत नाही.',
+    stressPlanUnavailable: 'सध्या ताण व्यवस्थापन योजना तयार करता येत नाही.',
+    progressUnavailable: 'सध्या तुमच्या प्रगतीचे विश्लेषण करता येत नाही.'
+  },
+  ta: {
+    chatError: 'மன்னிக்கவும், உங்கள் கோரிக்கையை இப்போது செயல்படுத்துவதில் சிக்கல் உள்ளது. சிறிது நேரம் கழித்து மீண்டும் முயற்சிக்கவும், அல்லது உங்கள் உடல்நலம் பற்றி வேறு ஏதாவது கேளுங்கள்.',
+    chatEmpty: 'மன்னிக்கவும், இப்போது இதற்குப் பதில் அளிக்க முடியவில்லை.',
+    stressPlanUnavailable: 'இப்போது மன அழுத்த மேலாண்மைத் திட்டத்தை உருவாக்க முடியவில்லை.',
+    progressUnavailable: 'இப்போது உங்கள் முன்னேற்றத்தை ஆய்வு செய்ய முடியவில்லை.'
+  },
+  te: {
+    chatError: 'క్షమించండి, ప్రస్తుతం మీ అభ్యర్థనను ప్రాసెస్ చేయడంలో సమస్య ఉంది. కొద్దిసేపటి తర్వాత మళ్లీ ప్రయత్నించండి, లేదా మీ ఆరోగ్యం గురించి ఇంకేదైనా అడగండి.',
+    chatEmpty: 'క్షమించండి, ప్రస్తుతం దీనికి సమాధానం ఇవ్వలేను.',
+    stressPlanUnavailable: 'ప్రస్తుతం ఒత్తిడి నిర్వహణ ప్రణాళికను రూపొందించలేకపోతున్నాం.',
+    progressUnavailable: 'ప్రస్తుతం మీ పురోగతిని విశ్లేషించలేకపోతున్నాం.'
+  },
+  bn: {
+    chatError: 'দুঃখিত, এই মুহূর্তে আপনার অনুরোধটি প্রক্রিয়া করতে সমস্যা হচ্ছে। একটু পরে আবার চেষ্টা করুন, অথবা আপনার স্বাস্থ্য নিয়ে অন্য কিছু জিজ্ঞাসা করুন।',
+    chatEmpty: 'দুঃখিত, এই মুহূর্তে আমি এর উত্তর দিতে পারছি না।',
+    stressPlanUnavailable: 'এই মুহূর্তে মানসিক চাপ নিয়ন্ত্রণের পরিকল্পনা তৈরি করা যাচ্ছে না।',
+    progressUnavailable: 'এই মুহূর্তে আপনার অগ্রগতি বিশ্লেষণ করা যাচ্ছে না।'
+  }
+}
+
+// Replies to red flags in chat (see chat-safety). Every language gives the
+// same emergency and helpline numbers.
+export const SAFETY_MESSAGES: Record<ChatLanguage, Record<SafetyCategory, string>> = {
+  en: {
+    suicidalIdeation: `I'm really sorry you're going through this, and I'm glad you told me. You don't have to face it alone.
+
+Please reach out to someone right now:
+- Tele-MANAS: call 14416 or 1-800-891-4416 (free, 24x7, in many Indian languages)
+- KIRAN mental health helpline: 1800-599-0019
+- If you are in immediate danger, call 112 or go to the nearest hospital emergency
+
+If you can, let a family member or friend you trust know how you're feeling and stay with them.`,
+
+    chestPain: `Chest pain can be a sign of a heart attack or another emergency, so please don't wait.
+
+- Call 112 or 108 for an ambulance now, or have someone take you to the nearest hospital emergency
+- Stop what you're doing, sit down and rest
+- Don't drive yourself
+
+I can't assess symptoms like this in chat. Please get medical help first.`,
+
+    eatingDisorder: `Thank you for sharing this with me. What you're describing sounds really hard, and it's something a doctor or counsellor can help with.
+
+- Talk to your doctor, or call Tele-MANAS on 14416 for free, confidential support (24x7)
+- If you feel faint, have chest pain or are vomiting repeatedly, call 112 or go to a hospital
+
+I won't suggest diets or calorie targets here, but I'm happy to talk about gentle, regular eating habits once you have support.`,
+
+    pregnancyExtremeDiet: `During pregnancy, fasting, crash diets or trying to lose weight quickly can harm both you and your baby.
+
+Please speak to your gynaecologist or obstetrician before changing how you eat. I'm happy to share balanced, pregnancy-friendly Indian meal ideas that your doctor can review with you.`,
+
+    unsafeDosage: `I can't recommend specific doses of medicines or supplements. Please ask your doctor or pharmacist, who can check them against your health and anything else you take.
+
+I'm happy to help with food, exercise and lifestyle questions in the meantime.`,
+
+    crashDiet: `I can't recommend eating below ${MIN_DAILY_CALORIES} calories a day or fasting for several days. Diets that extreme can cause muscle loss, nutrient deficiencies and fainting, and the weight usually comes back.
+
+A steady deficit of around 500 calories a day, with plenty of protein and vegetables, is safer and lasts. Would you like help planning meals like that?`
+  },
+  hinglish: {
+    suicidalIdeation: `Mujhe bahut afsos hai ki aap itne mushkil waqt se guzar rahe hain, aur achha kiya ki aapne mujhe bataya. Aap isme akele nahi hain.
+
+Abhi kisi se baat kijiye:
+- Tele-MANAS: 14416 ya 1-800-891-4416 par call kijiye (free, 24x7, kai Indian languages mein)
+- KIRAN mental health helpline: 1800-599-0019
+- Agar aap turant khatre mein hain, to 112 par call kijiye ya nazdeeki hospital emergency jaiye
+
+Ho sake to kisi bharosemand family member ya dost ko bataiye ki aap kaisa mehsoos kar rahe hain, aur unke saath rahiye.`,
+
+    chestPain: `Seene mein dard heart attack ya kisi aur emergency ka sign ho sakta hai, isliye intezaar mat kijiye.
+
+- Abhi ambulance ke liye 112 ya 108 par call kijiye, ya kisi se kahiye ki aapko nazdeeki hospital emergency le jaye
+- Jo kar rahe hain wo rokiye, baith jaiye aur aaram kijiye
+- Khud drive mat kijiye
+
+Aise symptoms ko main chat mein assess nahi kar sakta. Pehle medical help lijiye.`,
+
+    eatingDisorder: `Mujhse share karne ke liye shukriya. Aap jo bata rahe hain wo sach mein mushkil lagta hai, aur isme doctor ya counsellor madad kar sakte hain.
+
+- Apne doctor se baat kijiye, ya free aur confidential support ke liye Tele-MANAS ko 14416 par call kijiye (24x7)
+- Agar chakkar aa rahe hain, seene mein dard hai ya baar baar ulti ho rahi hai, to 112 par call kijiye ya hospital jaiye
+
+Main yahan diet ya calorie target suggest nahi karunga, lekin support milne ke baad aaram se, regular khane ki aadaton par baat karne mein khushi hogi.`,
+
+    pregnancyExtremeDiet: `Pregnancy mein fasting, crash diet ya jaldi weight kam karne ki koshish aapko aur aapke baby dono ko nuksan pahuncha sakti hai.
+
+Khana badalne se pehle apne gynaecologist ya obstetrician se baat kijiye. Main balanced, pregnancy-friendly Indian meal ideas share kar sakta hoon jo aapke doctor review kar sakein.`,
+
+    unsafeDosage: `Main medicines ya supplements ki specific dose recommend nahi kar sakta. Apne doctor ya pharmacist se poochiye, wo aapki health aur baaki medicines ke hisaab se check kar sakte hain.
+
+Tab tak khane, exercise aur lifestyle ke sawalon mein madad karne mein khushi hogi.`,
+
+    crashDiet: `Main din mein ${MIN_DAILY_CALORIES} calories se kam khane ya kai din fasting karne ki salah nahi de sakta. Itni extreme diet se muscle loss, nutrients ki kami aur chakkar aa sakte hain, aur weight aksar wapas aa jata hai.
+
+Roz lagbhag 500 calories ka steady deficit, bharpur protein aur sabziyon ke saath, zyada safe hai aur tikta hai. Kya aap aise meals plan karne mein madad chahenge?`
+  },
+  hi: {
+    suicidalIdeation: `मुझे बहुत दुख है कि आप इस मुश्किल से गुज़र रहे हैं, और अच्छा किया कि आपने मुझे बताया। आप इसमें अकेले नहीं हैं।
+
+कृपया अभी किसी से संपर्क करें:
+- टेली-मानस (Tele-MANAS): 14416 या 1-800-891-4416 पर कॉल करें (निःशुल्क, 24x7, कई भारतीय भाषाओं में)
+- किरण (KIRAN) मानसिक स्वास्थ्य हेल्पलाइन: 1800-599-0019
+- अगर आप तुरंत खतरे में हैं, तो 112 पर कॉल करें या नज़दीकी अस्पताल की इमरजेंसी में जाएँ
+
+हो सके तो परिवार के किसी सदस्य या भरोसेमंद दोस्त को बताएँ कि आप कैसा महसूस कर रहे हैं, और उनके साथ रहें।`,
+
+    chestPain: `सीने में दर्द दिल के दौरे या किसी और इमरजेंसी का संकेत हो सकता है, इसलिए इंतज़ार न करें।
+
+- एम्बुलेंस के लिए अभी 112 या 108 पर कॉल करें, या किसी से कहें कि आपको नज़दीकी अस्पताल की इमरजेंसी ले जाए
+- जो कर रहे हैं उसे रोकें, बैठ जाएँ और आराम करें
+- खुद गाड़ी न चलाएँ
+
+ऐसे लक्षणों का आकलन मैं चैट में नहीं कर सकता। कृपया पहले डॉक्टरी मदद लें।`,
+
+    eatingDisorder: `मुझसे यह साझा करने के लिए धन्यवाद। आप जो बता रहे हैं वह सच में कठिन लगता है, और इसमें डॉक्टर या काउंसलर मदद कर सकते हैं।
+
+- अपने डॉक्टर से बात करें, या निःशुल्क और गोपनीय सहायता के लिए टेली-मानस को 14416 पर कॉल करें (24x7)
+- अगर चक्कर आ रहे हैं, सीने में दर्द है या बार-बार उल्टी हो रही है, तो 112 पर कॉल करें या अस्पताल जाएँ
+
+मैं यहाँ डाइट या कैलोरी लक्ष्य नहीं सुझाऊँगा, लेकिन सहायता मिलने के बाद नियमित और सहज खान-पान की आदतों पर बात करने में मुझे खुशी होगी।`,
+
+    pregnancyExtremeDiet: `गर्भावस्था में उपवास, क्रैश डाइट या जल्दी वज़न घटाने की कोशिश आपको और आपके बच्चे, दोनों को नुकसान पहुँचा सकती है।
+
+खान-पान बदलने से पहले कृपया अपनी स्त्री रोग विशेषज्ञ या प्रसूति विशेषज्ञ से बात करें। मैं संतुलित, गर्भावस्था के अनुकूल भारतीय भोजन के सुझाव दे सकता हूँ, जिन्हें आपके डॉक्टर देख सकें।`,
+
+    unsafeDosage: `मैं दवाओं या सप्लीमेंट की कोई निश्चित खुराक नहीं सुझा सकता। कृपया अपने डॉक्टर या फ़ार्मासिस्ट से पूछें, जो आपकी सेहत और आपकी बाकी दवाओं को देखकर इसकी जाँच कर सकते हैं।
+
+तब तक मैं खान-पान, व्यायाम और जीवनशैली से जुड़े सवालों में मदद कर सकता हूँ।`,
+
+    crashDiet: `मैं दिन में ${MIN_DAILY_CALORIES} कैलोरी से कम खाने या कई दिनों तक उपवास करने की सलाह नहीं दे सकता। इतनी सख्त डाइट से मांसपेशियाँ घट सकती हैं, पोषक तत्वों की कमी हो सकती है और चक्कर आ सकते हैं, और वज़न अक्सर वापस आ जाता है।
+
+रोज़ लगभग 500 कैलोरी की नियमित कमी, भरपूर प्रोटीन और सब्ज़ियों के साथ, ज़्यादा सुरक्षित है और टिकती है। क्या आप ऐसा भोजन प्लान करने में मदद चाहेंगे?`
+  },
+  mr: {
+    suicidalIdeation: `तुम्ही यातून जात आहात याचं मला खूप वाईट वाटतं, आणि तुम्ही मला सांगितलंत हे चांगलं केलंत. तुम्ही यात एकटे नाही.
+
+कृपया आत्ताच कोणाशी तरी संपर्क साधा:
+- टेली-मानस (Tele-MANAS): 14416 किंवा 1-800-891-4416 वर कॉल करा (मोफत, 24x7, अनेक भारतीय भाषांमध्ये)
+- किरण (KIRAN) मानसिक आरोग्य हेल्पलाइन: 1800-599-0019
+- तुम्ही तात्काळ धोक्यात असाल तर 112 वर कॉल करा किंवा जवळच्या रुग्णालयाच्या आपत्कालीन विभागात जा
+
+शक्य असल्यास, कुटुंबातील व्यक्तीला किंवा विश्वासातील मित्राला तुम्हाला कसं वाटतंय ते सांगा आणि त्यांच्यासोबत राहा.`,
+
+    chestPain: `छातीत दुखणं हे हृदयविकाराच्या झटक्याचं किंवा इतर आपत्कालीन स्थितीचं लक्षण असू शकतं, त्यामुळे वाट पाहू नका.
+
+- रुग्णवाहिकेसाठी आत्ताच 112 किंवा 108 वर कॉल करा, किंवा कोणाला तरी तुम्हाला जवळच्या रुग्णालयाच्या आपत्कालीन विभागात नेण्यास सांगा
+- जे करत आहात ते थांबवा, बसा आणि विश्रांती घ्या
+- स्वतः गाडी चालवू नका
+
+अशा लक्षणांचं मूल्यांकन मी चॅटमध्ये करू शकत नाही. कृपया आधी वैद्यकीय मदत घ्या.`,
+
+    eatingDisorder: `हे माझ्याशी शेअर केल्याबद्दल धन्यवाद. तुम्ही जे सांगताय ते खरंच कठीण वाटतं, आणि यात डॉक्टर किंवा समुपदेशक मदत करू शकतात.
+
+- तुमच्या डॉक्टरांशी बोला, किंवा मोफत आणि गोपनीय मदतीसाठी टेली-मानसला 14416 वर कॉल करा (24x7)
+- चक्कर येत असेल, छातीत दुखत असेल किंवा वारंवार उलट्या होत असतील तर 112 वर कॉल करा किंवा रुग्णालयात जा
+
+मी इथे डाएट किंवा कॅलरीचं लक्ष्य सुचवणार नाही, पण मदत मिळाल्यानंतर नियमित आणि सहज खाण्याच्या सवयींबद्दल बोलायला मला आनंद होईल.`,
+
+    pregnancyExtremeDiet: `गरोदरपणात उपवास, क्रॅश डाएट किंवा झटपट वजन कमी करण्याचा प्रयत्न तुम्हाला आणि तुमच्या बाळाला दोघांनाही हानी पोहोचवू शकतो.
+
+आहार बदलण्यापूर्वी कृपया तुमच्या स्त्रीरोगतज्ज्ञांशी किंवा प्रसूतितज्ज्ञांशी बोला. तुमचे डॉक्टर तपासू शकतील अशा संतुलित, गरोदरपणास अनुकूल भारतीय जेवणाच्या कल्पना मी देऊ शकतो.`,
+
+    unsafeDosage: `मी औषधांचे किंवा सप्लिमेंट्सचे ठराविक डोस सुचवू शकत नाही. कृपया तुमच्या डॉक्टरांना किंवा फार्मासिस्टना विचारा, ते तुमचं आरोग्य आणि तुम्ही घेत असलेली इतर औषधं पाहून ते तपासू शकतात.
+
+तोपर्यंत आहार, व्यायाम आणि जीवनशैलीच्या प्रश्नांमध्ये मी मदत करू शकतो.`,
+
+    crashDiet: `मी दिवसाला ${MIN_DAILY_CALORIES} कॅलरीपेक्षा कमी खाण्याचा किंवा अनेक दिवस उपवास करण्याचा सल्ला देऊ शकत नाही. इतक्या कडक डाएटमुळे स्नायू कमी होऊ शकतात, पोषक तत्वांची कमतरता होऊ शकते आणि चक्कर येऊ शकते, आणि वजन बहुतेक वेळा परत वाढतं.
+
+भरपूर प्रथिने आणि भाज्यांसह, दररोज सुमारे 500 कॅलरींची नियमित तूट अधिक सुरक्षित आणि टिकाऊ असते. अशा जेवणाचं नियोजन करण्यासाठी मदत हवी आहे का?`
+  },
+  ta: {
+    suicidalIdeation: `நீங்கள் இதை அனுபவிப்பது எனக்கு மிகவும் வருத்தமாக உள்ளது, என்னிடம் சொன்னது நல்லது. நீங்கள் இதைத் தனியாக எதிர்கொள்ள வேண்டியதில்லை.
+
+தயவுசெய்து இப்போதே யாரையாவது தொடர்பு கொள்ளுங்கள்:
+- டெலி-மனஸ் (Tele-MANAS): 14416 அல்லது 1-800-891-4416 ஐ அழைக்கவும் (இலவசம், 24x7, பல இந்திய மொழிகளில்)
+- கிரண் (KIRAN) மனநல உதவி எண்: 1800-599-0019
+- நீங்கள் உடனடி ஆபத்தில் இருந்தால், 112 ஐ அழைக்கவும் அல்லது அருகிலுள்ள மருத்துவமனையின் அவசர சிகிச்சைப் பிரிவுக்குச் செல்லவும்
+
+முடிந்தால், நம்பிக்கையான குடும்ப உறுப்பினர் அல்லது நண்பரிடம் நீங்கள் எப்படி உணர்கிறீர்கள் என்று சொல்லி, அவர்களுடன் இருங்கள்.`,
+
+    chestPain: `நெஞ்சு வலி மாரடைப்பு அல்லது வேறு அவசர நிலையின் அறிகுறியாக இருக்கலாம், எனவே காத்திருக்க வேண்டாம்.
+
+- ஆம்புலன்ஸுக்கு இப்போதே 112 அல்லது 108 ஐ அழைக்கவும், அல்லது அருகிலுள்ள மருத்துவமனையின் அவசர சிகிச்சைப் பிரிவுக்கு உங்களை அழைத்துச் செல்லுமாறு யாரிடமாவது கேளுங்கள்
+- செய்வதை நிறுத்தி, உட்கார்ந்து ஓய்வெடுங்கள்
+- நீங்களே வாகனம் ஓட்ட வேண்டாம்
+
+இத்தகைய அறிகுறிகளை என்னால் அரட்டையில் மதிப்பிட முடியாது. முதலில் மருத்துவ உதவியைப் பெறுங்கள்.`,
+
+    eatingDisorder: `இதை என்னிடம் பகிர்ந்ததற்கு நன்றி. நீங்கள் சொல்வது உண்மையில் கடினமாகத் தெரிகிறது, இதற்கு மருத்துவர் அல்லது ஆலோசகர் உதவ முடியும்.
+
+- உங்கள் மருத்துவரிடம் பேசுங்கள், அல்லது இலவச, ரகசிய ஆதரவுக்கு டெலி-மனஸை 14416 இல் அழைக்கவும் (24x7)
+- மயக்கம், நெஞ்சு வலி அல்லது தொடர்ந்து வாந்தி இருந்தால், 112 ஐ அழைக்கவும் அல்லது மருத்துவமனைக்குச் செல்லவும்
+
+நான் இங்கே உணவுமுறை அல்லது கலோரி இலக்குகளைப் பரிந்துரைக்க மாட்டேன், ஆனால் உங்களுக்கு ஆதரவு கிடைத்த பிறகு மென்மையான, முறையான உணவுப் பழக்கங்கள் பற்றிப் பேச மகிழ்ச்சியடைவேன்.`,
+
+    pregnancyExtremeDiet: `கர்ப்ப காலத்தில் விரதம், கடுமையான டயட் அல்லது வேகமாக எடை குறைக்க முயற்சிப்பது உங்களுக்கும் உங்கள் குழந்தைக்கும் தீங்கு விளைவிக்கலாம்.
+
+உணவு முறையை மாற்றுவதற்கு முன் உங்கள் மகப்பேறு மருத்துவரிடம் பேசுங்கள். உங்கள் மருத்துவர் பார்வையிடக்கூடிய சமச்சீரான, கர்ப்ப காலத்துக்கு ஏற்ற இந்திய உணவு யோசனைகளைப் பகிர மகிழ்ச்சியடைவேன்.`,
+
+    unsafeDosage: `மருந்துகள் அல்லது சப்ளிமெண்ட்களின் குறிப்பிட்ட அளவுகளை என்னால் பரிந்துரைக்க முடியாது. உங்கள் உடல்நலத்தையும் நீங்கள் எடுக்கும் மற்ற மருந்துகளையும் பார்த்துச் சரிபார்க்கக்கூடிய உங்கள் மருத்துவர் அல்லது மருந்தாளரிடம் கேளுங்கள்.
+
+அதுவரை உணவு, உடற்பயிற்சி மற்றும் வாழ்க்கைமுறை கேள்விகளுக்கு உதவ மகிழ்ச்சியடைவேன்.`,
+
+    crashDiet: `ஒரு நாளைக்கு ${MIN_DAILY_CALORIES} கலோரிகளுக்குக் குறைவாக சாப்பிடவோ, பல நாட்கள் விரதம் இருக்கவோ என்னால் பரிந்துரைக்க முடியாது. இவ்வளவு கடுமையான டயட் தசை இழப்பு, ஊட்டச்சத்துக் குறைபாடு மற்றும் மயக்கத்தை ஏற்படுத்தலாம், எடையும் பொதுவாகத் திரும்ப வந்துவிடும்.
+
+நிறைய புரதம் மற்றும் காய்கறிகளுடன், நாளொன்றுக்கு சுமார் 500 கலோரிகள் சீரான பற்றாக்குறை பாதுகாப்பானது, நீடித்து நிற்கும். அப்படிப்பட்ட உணவுகளைத் திட்டமிட உதவி வேண்டுமா?`
+  },
+  te: {
+    suicidalIdeation: `మీరు ఇంత కష్టం అనుభవిస్తున్నందుకు నాకు చాలా బాధగా ఉంది, నాతో చెప్పినందుకు సంతోషం. మీరు దీన్ని ఒంటరిగా ఎదుర్కోవాల్సిన అవసరం లేదు.
+
+దయచేసి ఇప్పుడే ఎవరినైనా సంప్రదించండి:
+- టెలి-మానస్ (Tele-MANAS): 14416 లేదా 1-800-891-4416 కు కాల్ చేయండి (ఉచితం, 24x7, అనేక భారతీయ భాషల్లో)
+- కిరణ్ (KIRAN) మానసిక ఆరోగ్య హెల్ప్‌లైన్: 1800-599-0019
+- మీకు వెంటనే ప్రమాదం ఉంటే, 112 కు కాల్ చేయండి లేదా దగ్గరలోని ఆసుపత్రి అత్యవసర విభాగానికి వెళ్లండి
+
+వీలైతే, మీరు ఎలా ఫీల్ అవుతున్నారో నమ్మకమైన కుటుంబ సభ్యులకు లేదా స్నేహితులకు చెప్పి, వారితో ఉండండి.`,
+
+    chestPain: `ఛాతీ నొప్పి గుండెపోటు లేదా మరో అత్యవసర పరిస్థితికి సంకేతం కావచ్చు, కాబట్టి ఆలస్యం చేయకండి.
+
+- అంబులెన్స్ కోసం ఇప్పుడే 112 లేదా 108 కు కాల్ చేయండి, లేదా దగ్గరలోని ఆసుపత్రి అత్యవసర విభాగానికి తీసుకెళ్లమని ఎవరినైనా అడగండి
+- చేస్తున్న పని ఆపి, కూర్చుని విశ్రాంతి తీసుకోండి
+- మీరే వాహనం నడపకండి
+
+ఇలాంటి లక్షణాలను నేను చాట్‌లో అంచనా వేయలేను. దయచేసి ముందు వైద్య సహాయం పొందండి.`,
+
+    eatingDisorder: `ఇది నాతో పంచుకున్నందుకు ధన్యవాదాలు. మీరు చెబుతున్నది నిజంగా కష్టంగా అనిపిస్తోంది, దీనికి డాక్టర్ లేదా కౌన్సెలర్ సహాయం చేయగలరు.
+
+- మీ డాక్టర్‌తో మాట్లాడండి, లేదా ఉచిత, గోప్యమైన సహాయం కోసం టెలి-మానస్‌కు 14416 లో కాల్ చేయండి (24x7)
+- కళ్లు తిరుగుతుంటే, ఛాతీ నొప్పి ఉంటే లేదా పదే పదే వాంతులు అవుతుంటే, 112 కు కాల్ చేయండి లేదా ఆసుపత్రికి వెళ్లండి
+
+నేను ఇక్కడ డైట్‌లు లేదా కేలరీ లక్ష్యాలు సూచించను, కానీ మీకు సహాయం అందిన తర్వాత నెమ్మదిగా, క్రమంగా తినే అలవాట్ల గురించి మాట్లాడటానికి సంతోషిస్తాను.`,
+
+    pregnancyExtremeDiet: `గర్భధారణ సమయంలో ఉపవాసం, క్రాష్ డైట్‌లు లేదా త్వరగా బరువు తగ్గే ప్రయత్నం మీకూ, మీ బిడ్డకూ హాని చేయవచ్చు.
+
+మీ ఆహారం మార్చే ముందు దయచేసి మీ గైనకాలజిస్ట్ లేదా ప్రసూతి వైద్యులతో మాట్లాడండి. మీ డాక్టర్ పరిశీలించగల సమతుల్యమైన, గర్భధారణకు అనుకూలమైన భారతీయ భోజన సూచనలు ఇవ్వడానికి సంతోషిస్తాను.`,
+
+    unsafeDosage: `మందులు లేదా సప్లిమెంట్ల నిర్దిష్ట మోతాదులను నేను సిఫారసు చేయలేను. మీ ఆరోగ్యాన్ని, మీరు వాడే ఇతర మందులను చూసి తనిఖీ చేయగల మీ డాక్టర్ లేదా ఫార్మసిస్ట్‌ను అడగండి.
+
+అప్పటివరకు ఆహారం, వ్యాయామం, జీవనశైలి ప్రశ్నలకు సహాయం చేయడానికి సంతోషిస్తాను.`,
+
+    crashDiet: `రోజుకు ${MIN_DAILY_CALORIES} కేలరీల కంటే తక్కువ తినమని లేదా చాలా రోజులు ఉపవాసం ఉండమని నేను సూచించలేను. అంత తీవ్రమైన డైట్‌ల వల్ల కండరాలు తగ్గడం, పోషకాల లోపం, కళ్లు తిరగడం జరగవచ్చు, బరువు సాధారణంగా మళ్లీ పెరుగుతుంది.
+
+పుష్కలంగా ప్రోటీన్, కూరగాయలతో, రోజుకు సుమారు 500 కేలరీల స్థిరమైన లోటు సురక్షితమైనది, ఎక్కువ కాలం నిలుస్తుంది. అలాంటి భోజనాలను ప్లాన్ చేయడంలో సహాయం కావాలా?`
+  },
+  bn: {
+    suicidalIdeation: `আপনি এমন কষ্টের মধ্য দিয়ে যাচ্ছেন জেনে আমি সত্যিই দুঃখিত, আর আমাকে জানিয়েছেন বলে ভালো লাগছে। এর মুখোমুখি আপনাকে একা হতে হবে না।
+
+অনুগ্রহ করে এখনই কারও সঙ্গে যোগাযোগ করুন:
+- টেলি-মানস (Tele-MANAS): 14416 বা 1-800-891-4416 নম্বরে কল করুন (বিনামূল্যে, 24x7, অনেক ভারতীয় ভাষায়)
+- কিরণ (KIRAN) মানসিক স্বাস্থ্য হেল্পলাইন: 1800-599-0019
+- আপনি যদি এখনই বিপদে থাকেন, 112 নম্বরে কল করুন বা নিকটতম হাসপাতালের জরুরি বিভাগে যান
+
+পারলে পরিবারের কোনো সদস্য বা বিশ্বস্ত বন্ধুকে জানান আপনার কেমন লাগছে, এবং তাঁদের সঙ্গে থাকুন।`,
+
+    chestPain: `বুকে ব্যথা হার্ট অ্যাটাক বা অন্য কোনো জরুরি অবস্থার লক্ষণ হতে পারে, তাই অপেক্ষা করবেন না।
+
+- অ্যাম্বুলেন্সের জন্য এখনই 112 বা 108 নম্বরে কল করুন, অথবা কাউকে বলুন আপনাকে নিকটতম হাসপাতালের জরুরি বিভাগে নিয়ে যেতে
+- যা করছেন তা থামান, বসে বিশ্রাম নিন
+- নিজে গাড়ি চালাবেন না
+
+এমন উপসর্গ আমি চ্যাটে যাচাই করতে পারি না। অনুগ্রহ করে আগে চিকিৎসা সহায়তা নিন।`,
+
+    eatingDisorder: `আমাকে এটা জানানোর জন্য ধন্যবাদ। আপনি যা বলছেন তা সত্যিই কঠিন মনে হচ্ছে, আর এতে একজন ডাক্তার বা কাউন্সেলর সাহায্য করতে পারেন।
+
+- আপনার ডাক্তারের সঙ্গে কথা বলুন, অথবা বিনামূল্যে ও গোপনীয় সহায়তার জন্য টেলি-মানসে 14416 নম্বরে কল করুন (24x7)
+- মাথা ঘুরলে, বুকে ব্যথা হলে বা বারবার বমি হলে 112 নম্বরে কল করুন বা হাসপাতালে যান
+
+আমি এখানে কোনো ডায়েট বা ক্যালোরির লক্ষ্য দেব না, তবে আপনি সহায়তা পাওয়ার পর ধীরে, নিয়মিত খাওয়ার অভ্যাস নিয়ে কথা বলতে পারলে খুশি হব।`,
+
+    pregnancyExtremeDiet: `গর্ভাবস্থায় উপোস, ক্র্যাশ ডায়েট বা তাড়াতাড়ি ওজন কমানোর চেষ্টা আপনার এবং আপনার শিশুর দুজনেরই ক্ষতি করতে পারে।
+
+খাওয়াদাওয়া বদলানোর আগে অনুগ্রহ করে আপনার স্ত্রীরোগ বিশেষজ্ঞ বা প্রসূতি বিশেষজ্ঞের সঙ্গে কথা বলুন। আপনার ডাক্তার দেখে নিতে পারেন এমন সুষম, গর্ভাবস্থার উপযোগী ভারতীয় খাবারের পরামর্শ দিতে পারলে খুশি হব।`,
+
+    unsafeDosage: `আমি ওষুধ বা সাপ্লিমেন্টের নির্দিষ্ট ডোজ সুপারিশ করতে পারি না। অনুগ্রহ করে আপনার ডাক্তার বা ফার্মাসিস্টকে জিজ্ঞাসা করুন, যিনি আপনার স্বাস্থ্য ও আপনি যে অন্যান্য ওষুধ খান তা দেখে যাচাই করতে পারবেন।
+
+ততক্ষণ খাবার, ব্যায়াম ও জীবনযাত্রা নিয়ে প্রশ্নে সাহায্য করতে পারলে খুশি হব।`,
+
+    crashDiet: `আমি দিনে ${MIN_DAILY_CALORIES} ক্যালোরির কম খাওয়া বা কয়েকদিন ধরে উপোস করার পরামর্শ দিতে পারি না। এত কঠোর ডায়েটে পেশি কমে যেতে পারে, পুষ্টির ঘাটতি হতে পারে ও মাথা ঘুরতে পারে, আর ওজন সাধারণত আবার ফিরে আসে।
+
+প্রচুর প্রোটিন ও সবজি সহ, দিনে প্রায় 500 ক্যালোরির স্থির ঘাটতি বেশি নিরাপদ এবং টেকসই। এমন খাবার পরিকল্পনায় সাহায্য চান?`
+  }
+}
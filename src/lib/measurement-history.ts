@@ -0,0 +1,127 @@
+import mongoose from 'mongoose'
+import MeasurementEntry, { IMeasurementEntry } from '../models/MeasurementEntry'
+import { MeasurementData } from './body-fat-calculator'
+import { fromMetricMeasurements, UnitSystem } from './units'
+
+export type MeasurementSource = 'onboarding' | 'calculation' | 'manual'
+
+export interface MeasurementSnapshotResult {
+  bodyFatPercentage: number
+  bmi: number
+  category: string
+  healthStatus: string
+  classificationVersion: number
+  recommendations: string[]
+}
+
+export interface MeasurementHistoryQuery {
+  familyMemberId?: string | mongoose.Types.ObjectId
+  from?: Date
+  to?: Date
+  limit?: number
+  skip?: number
+}
+
+/**
+ * Persist a dated snapshot of measurements and the result computed from them.
+ * Pass `familyMemberId` to record against one of the account's family members.
+ */
+export async function recordMeasurementEntry(
+  userId: string | mongoose.Types.ObjectId,
+  data: MeasurementData,
+  result: MeasurementSnapshotResult,
+  source: MeasurementSource,
+  measuredAt: Date = new Date(),
+  notes?: string,
+  familyMemberId?: string | mongoose.Types.ObjectId
+) {
+  const entry = new MeasurementEntry({
+    userId,
+    ...(familyMemberId && { familyMemberId }),
+    measuredAt,
+    source,
+    age: data.age,
+    gender: data.gender,
+    height: data.height,
+    weight: data.weight,
+    circumferences: {
+      waist: data.waist,
+      neck: data.neck,
+      ...(data.hip && { hip: data.hip })
+    },
+    results: {
+      bodyFatPercentage: result.bodyFatPercentage,
+      bmi: result.bmi,
+      category: result.category,
+      healthStatus: result.healthStatus,
+      classificationVersion: result.classificationVersion,
+      recommendations: result.recommendations
+    },
+    ...(notes && { notes })
+  })
+
+  await entry.save()
+  return entry
+}
+
+/**
+ * Build the Mongo filter for a user's history within an optional date range.
+ * Without `familyMemberId` only the account owner's own entries match.
+ */
+export function buildHistoryFilter(
+  userId: string | mongoose.Types.ObjectId,
+  { familyMemberId, from, to }: Pick<MeasurementHistoryQuery, 'familyMemberId' | 'from' | 'to'> = {}
+) {
+  const filter: Record<string, unknown> = { userId, familyMemberId: familyMemberId || null }
+
+  if (from || to) {
+    filter.measuredAt = {
+      ...(from && { $gte: from }),
+      ...(to && { $lte: to })
+    }
+  }
+
+  return filter
+}
+
+/**
+ * Fetch a user's measurement history, newest first
+ */
+export async function getMeasurementHistory(
+  userId: string | mongoose.Types.ObjectId,
+  { familyMemberId, from, to, limit = 50, skip = 0 }: MeasurementHistoryQuery = {}
+) {
+  const filter = buildHistoryFilter(userId, { familyMemberId, from, to })
+
+  const [entries, totalCount] = await Promise.all([
+    MeasurementEntry.find(filter)
+      .sort({ measuredAt: -1 })
+      .skip(skip)
+      .limit(limit)
+      .lean<IMeasurementEntry[]>(),
+    MeasurementEntry.countDocuments(filter)
+  ])
+
+  return { entries, totalCount }
+}
+
+/**
+ * An entry with its height, weight and circumferences in the user's units.
+ * Entries are stored in metric.
+ */
+export function toDisplayUnits<T extends Pick<IMeasurementEntry, 'height' | 'weight' | 'circumferences'>>(
+  entry: T,
+  unitSystem: UnitSystem
+): T {
+  const display = fromMetricMeasurements({ height: entry.height, weight: entry.weight, ...entry.circumferences }, unitSystem)
+  return {
+    ...entry,
+    height: display.height ?? entry.height,
+    weight: display.weight ?? entry.weight,
+    circumferences: {
+      waist: display.waist ?? entry.circumferences.waist,
+      neck: display.neck ?? entry.circumferences.neck,
+      ...(display.hip !== undefined && { hip: display.hip })
+    }
+  }
+}
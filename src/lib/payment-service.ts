@@ -0,0 +1,253 @@
+import Payment, { IPayment } from '@/models/Payment'
+import User from '@/models/User'
+import { redeemPromoCode } from './pricing-service'
+import { PRICING_PLANS, PlanId } from './plans'
+import { creditReferralCommission, reverseReferralCommission } from './referral-service'
+import { issueInvoice } from './invoice-service'
+import { getRefundProvider } from './razorpay-refunds'
+import { getRenewalExpiry } from './subscription-lifecycle'
+
+/**
+ * Start or renew the subscription a plan purchase pays for
+ */
+async function activateSubscription(payment: IPayment, razorpayPaymentId: string) {
+  const user = await User.findById(payment.userId)
+  if (!user) return
+
+  // Renewals extend from the current expiry; new and lapsed subscriptions
+  // run a year from today
+  const currentExpiry = user.subscription?.status === 'active' ? user.subscription.expiresAt : null
+  const expiryDate = getRenewalExpiry(currentExpiry)
+
+  user.subscription = {
+    status: 'active',
+    plan: payment.metadata?.planId,
+    paymentId: razorpayPaymentId,
+    expiresAt: expiryDate,
+    additionalPeople: payment.additionalPeople,
+    remindersSent: []
+  }
+
+  await user.save()
+}
+
+/**
+ * Record a problem with a payment for support to resolve by hand
+ */
+export async function flagPaymentForSupport(
+  paymentId: IPayment['_id'],
+  reason: string,
+  amount?: number
+) {
+  await Payment.updateOne(
+    { _id: paymentId },
+    { $push: { supportIssues: { reason, ...(amount !== undefined && { amount }), flaggedAt: new Date() } } }
+  )
+}
+
+/**
+ * Switch the subscription to the plan a prorated upgrade paid for. The term
+ * and expiry stay the same. The update only applies to the plan the upgrade
+ * was priced from, so a subscription that changed in the meantime isn't
+ * overwritten. Returns false when it no longer matches.
+ */
+async function applyUpgrade(payment: IPayment): Promise<boolean> {
+  const { basePaymentId, fromPlanId, planId } = payment.metadata || {}
+  if (!basePaymentId || !fromPlanId || !planId) return false
+
+  const result = await User.updateOne(
+    {
+      _id: payment.userId,
+      'subscription.status': 'active',
+      'subscription.paymentId': basePaymentId,
+      'subscription.additionalPeople': PRICING_PLANS[fromPlanId].additionalPeople
+    },
+    { $set: { 'subscription.plan': planId, 'subscription.additionalPeople': payment.additionalPeople } }
+  )
+
+  return result.modifiedCount > 0
+}
+
+/**
+ * Give back an upgrade payment that couldn't be applied. If Razorpay won't
+ * take the refund, the payment is flagged so support can refund it or apply
+ * the upgrade by hand.
+ */
+async function refundUnappliedUpgrade(payment: IPayment, razorpayPaymentId: string) {
+  const reason = 'Upgrade could not be applied because the subscription changed after it was priced'
+  let refund
+  try {
+    refund = await getRefundProvider().createRefund({
+      razorpayPaymentId,
+      amount: payment.amount,
+      reason,
+      receipt: `upgrade_refund_${Date.now()}`
+    })
+  } catch (error) {
+    console.error('Unapplied upgrade refund error:', error)
+    await flagPaymentForSupport(payment._id, `${reason}; the automatic refund failed`, payment.amount)
+    return
+  }
+
+  await recordRefund(razorpayPaymentId, refund.refundId, refund.amount, {
+    status: refund.status,
+    reason,
+    initiatedBy: 'system'
+  })
+}
+
+/**
+ * Mark a payment completed and activate the subscription it pays for.
+ *
+ * Both the browser verify call and the Razorpay webhook end up here, in either
+ * order. The status update is conditional so only the first caller activates
+ * the subscription and credits the referrer; later callers get null. An
+ * upgrade that no longer fits the subscription is refunded instead.
+ */
+export async function completePayment(
+  orderId: string,
+  razorpayPaymentId: string,
+  signature?: string
+): Promise<IPayment | null> {
+  const payment: IPayment | null = await Payment.findOneAndUpdate(
+    { razorpayOrderId: orderId, status: { $in: ['pending', 'failed'] } },
+    {
+      $set: {
+        status: 'completed',
+        completedAt: new Date(),
+        razorpayPaymentId,
+        ...(signature && { razorpaySignature: signature })
+      }
+    },
+    { new: true }
+  )
+
+  if (!payment) {
+    return null
+  }
+
+  if (payment.metadata?.purchaseType === 'upgrade') {
+    if (!(await applyUpgrade(payment))) {
+      // Nothing was bought, so no invoice, promo redemption or referral credit
+      await refundUnappliedUpgrade(payment, razorpayPaymentId)
+      return Payment.findById(payment._id)
+    }
+  } else {
+    await activateSubscription(payment, razorpayPaymentId)
+  }
+
+  // Numbering invoices as payments complete keeps the series in payment order
+  try {
+    await issueInvoice(payment)
+  } catch (error) {
+    console.error('Invoice issue error:', error)
+    // The invoice route issues it on first download instead
+  }
+
+  // Orders created with a reservation already counted the redemption
+  if (payment.metadata?.promocode && !payment.metadata.promoReserved) {
+    try {
+      await redeemPromoCode(payment.metadata.promocode)
+    } catch (error) {
+      console.error('Promo code redemption error:', error)
+    }
+  }
+
+  // Handle referral rewards if applicable
+  try {
+    await creditReferralCommission(payment)
+  } catch (error) {
+    console.error('Referral processing error:', error)
+    // Don't fail the payment for referral issues
+  }
+
+  return payment
+}
+
+/**
+ * Record a failed attempt. Completed payments are left alone since Razorpay
+ * can report a failed attempt on an order that was later paid.
+ */
+export async function failPayment(orderId: string): Promise<boolean> {
+  const result = await Payment.updateOne(
+    { razorpayOrderId: orderId, status: 'pending' },
+    { $set: { status: 'failed' } }
+  )
+  return result.modifiedCount > 0
+}
+
+export interface RefundOptions {
+  status?: string
+  reason?: string
+  initiatedBy?: string
+  // Plan to keep after a partial refund; full refunds always deactivate
+  downgradeTo?: PlanId
+}
+
+/**
+ * Record a refund against a payment (amount in rupees). Each Razorpay refund
+ * id is only counted once, so refunds issued here and later reported by the
+ * webhook aren't double counted. A full refund deactivates the subscription
+ * the payment activated; a partial one can downgrade it.
+ */
+export async function recordRefund(
+  razorpayPaymentId: string,
+  refundId: string,
+  amount: number,
+  options: RefundOptions = {}
+): Promise<IPayment | null> {
+  const { status = 'processed', reason, initiatedBy, downgradeTo } = options
+
+  // Already recorded: only the status can change (e.g. pending -> processed)
+  const existing = await Payment.updateOne(
+    { razorpayPaymentId, 'refunds.refundId': refundId },
+    { $set: { 'refunds.$.status': status } }
+  )
+  if (existing.matchedCount > 0) {
+    return null
+  }
+
+  const payment: IPayment | null = await Payment.findOneAndUpdate(
+    { razorpayPaymentId, 'refunds.refundId': { $ne: refundId } },
+    {
+      $push: { refunds: { refundId, amount, status, reason, initiatedBy, processedAt: new Date() } },
+      $inc: { refundedAmount: amount }
+    },
+    { new: true }
+  )
+
+  if (!payment) {
+    return null
+  }
+
+  try {
+    await reverseReferralCommission(payment, refundId)
+  } catch (error) {
+    console.error('Referral reversal error:', error)
+    // Don't fail the refund for referral issues
+  }
+
+  if (payment.refundedAmount >= payment.amount) {
+    if (payment.status !== 'refunded') {
+      payment.status = 'refunded'
+      await payment.save()
+    }
+
+    await User.updateOne(
+      { _id: payment.userId, 'subscription.paymentId': razorpayPaymentId },
+      { $set: { 'subscription.status': 'inactive' } }
+    )
+  } else if (downgradeTo) {
+    await User.updateOne(
+      { _id: payment.userId, 'subscription.paymentId': razorpayPaymentId },
+      {
+        $set: {
+          'subscription.plan': downgradeTo,
+          'subscription.additionalPeople': PRICING_PLANS[downgradeTo].additionalPeople
+        }
+      }
+    )
+  }
+
+  return payment
+}
@@ -0,0 +1,96 @@
+export interface PayoutRequest {
+  amount: number // rupees
+  vpa: string
+  name: string
+  reference: string // our payout id, for reconciliation
+}
+
+export interface PayoutResult {
+  payoutId: string
+  status: 'processed' | 'processing' | 'failed'
+  failureReason?: string
+}
+
+export interface PayoutProvider {
+  createPayout(request: PayoutRequest): Promise<PayoutResult>
+}
+
+const RAZORPAYX_STATUS: Record<string, PayoutResult['status']> = {
+  processed: 'processed',
+  queued: 'processing',
+  pending: 'processing',
+  processing: 'processing',
+  rejected: 'failed',
+  reversed: 'failed',
+  cancelled: 'failed',
+  failed: 'failed'
+}
+
+// RazorpayX payouts to a UPI ID, created together with the fund account
+class RazorpayXPayoutProvider implements PayoutProvider {
+  async createPayout({ amount, vpa, name, reference }: PayoutRequest): Promise<PayoutResult> {
+    const credentials = Buffer.from(`${process.env.RAZORPAY_KEY_ID}:${process.env.RAZORPAY_KEY_SECRET}`).toString('base64')
+
+    const response = await fetch('https://api.razorpay.com/v1/payouts', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${credentials}`,
+        'Content-Type': 'application/json',
+        'X-Payout-Idempotency': reference
+      },
+      body: JSON.stringify({
+        account_number: process.env.RAZORPAYX_ACCOUNT_NUMBER,
+        amount: Math.round(amount * 100), // Convert to paise
+        currency: 'INR',
+        mode: 'UPI',
+        purpose: 'payout',
+        reference_id: reference,
+        narration: 'FitXGen referral earnings',
+        fund_account: {
+          account_type: 'vpa',
+          vpa: { address: vpa },
+          contact: { name, type: 'customer', reference_id: reference }
+        }
+      })
+    })
+
+    const payout = await response.json()
+    if (!response.ok) {
+      throw new Error(payout.error?.description || `RazorpayX payout failed with status ${response.status}`)
+    }
+
+    return {
+      payoutId: payout.id,
+      status: RAZORPAYX_STATUS[payout.status] || 'processing',
+      failureReason: payout.status_details?.description
+    }
+  }
+}
+
+// Local development and tests: payouts succeed immediately without calling
+// RazorpayX, except to UPI IDs starting with "fail" so rejections can be tried
+class MockPayoutProvider implements PayoutProvider {
+  async createPayout({ vpa }: PayoutRequest): Promise<PayoutResult> {
+    if (vpa.startsWith('fail')) {
+      return { payoutId: `pout_mock_${Date.now()}`, status: 'failed', failureReason: 'Beneficiary VPA is invalid' }
+    }
+    return {
+      payoutId: `pout_mock_${Date.now()}${Math.random().toString(36).slice(2, 8)}`,
+      status: 'processed'
+    }
+  }
+}
+
+let provider: PayoutProvider | null = null
+
+/**
+ * RazorpayX-backed provider, or the mock when RAZORPAY_MOCK=true
+ */
+export function getPayoutProvider(): PayoutProvider {
+  if (!provider) {
+    provider = process.env.RAZORPAY_MOCK === 'true'
+      ? new MockPayoutProvider()
+      : new RazorpayXPayoutProvider()
+  }
+  return provider
+}
@@ -0,0 +1,136 @@
+// Minimal PDF writer for server-rendered documents such as invoices. Supports
+// text in the standard Helvetica fonts, lines and filled rectangles on A4
+// pages, which is all our documents need, without a PDF dependency.
+
+export const A4_WIDTH = 595.28
+export const A4_HEIGHT = 841.89
+
+export interface TextOptions {
+  size?: number
+  bold?: boolean
+  align?: 'left' | 'right' | 'center'
+  gray?: number // 0 = black, 1 = white
+}
+
+// Glyph widths (1/1000 em) for ASCII 32-126 from the standard Helvetica AFMs
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+]
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+]
+
+/**
+ * The standard fonts only cover Latin-1; anything else is replaced
+ */
+function toPdfText(text: string): string {
+  return text
+    .replace(/₹/g, 'Rs. ')
+    .replace(/[^\x20-\x7E]/g, '?')
+    .replace(/([\\()])/g, '\\$1')
+}
+
+export function measureText(text: string, size: number, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS
+  const plain = text.replace(/₹/g, 'Rs. ')
+  let total = 0
+  for (const char of plain) {
+    const code = char.charCodeAt(0)
+    total += code >= 32 && code <= 126 ? widths[code - 32] : widths['?'.charCodeAt(0) - 32]
+  }
+  return total * size / 1000
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString()
+}
+
+/**
+ * Coordinates are in points from the top-left corner of the page
+ */
+export class PdfDocument {
+  private pages: string[][] = [[]]
+
+  get pageCount() {
+    return this.pages.length
+  }
+
+  addPage() {
+    this.pages.push([])
+  }
+
+  private get current() {
+    return this.pages[this.pages.length - 1]
+  }
+
+  text(x: number, y: number, text: string, options: TextOptions = {}) {
+    const { size = 10, bold = false, align = 'left', gray = 0 } = options
+    const width = measureText(text, size, bold)
+    const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x
+
+    this.current.push(
+      `BT ${num(gray)} g /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${num(left)} ${num(A4_HEIGHT - y)} Td (${toPdfText(text)}) Tj ET`
+    )
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5, gray = 0) {
+    this.current.push(
+      `${num(gray)} G ${num(width)} w ${num(x1)} ${num(A4_HEIGHT - y1)} m ${num(x2)} ${num(A4_HEIGHT - y2)} l S`
+    )
+  }
+
+  rect(x: number, y: number, width: number, height: number, gray = 0.95) {
+    this.current.push(`${num(gray)} g ${num(x)} ${num(A4_HEIGHT - y - height)} ${num(width)} ${num(height)} re f 0 g`)
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = []
+    const pageIds: number[] = []
+
+    // 1: catalog, 2: page tree, 3-4: fonts, then a page and content stream per page
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>'
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+
+    this.pages.forEach((operations, index) => {
+      const pageId = 5 + index * 2
+      const contentId = pageId + 1
+      const stream = operations.join('\n')
+
+      pageIds.push(pageId)
+      objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_WIDTH} ${A4_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`
+      objects[contentId] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`
+    })
+
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`
+
+    let output = '%PDF-1.4\n'
+    const offsets: number[] = []
+
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(output, 'latin1')
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`
+    }
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1')
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+    return Buffer.from(output, 'latin1')
+  }
+}
@@ -0,0 +1,213 @@
+import { GROWTH_REFERENCE_SOURCE, getBmiLms } from './growth-reference'
+import { HealthStatus } from './body-fat-classification'
+import { UnitSystem, formatLengthRange, formatWeightRange } from './units'
+
+// Adult body fat formulas and ranges apply from 13; younger members use this path
+export const PEDIATRIC_AGE_LIMIT = 13
+export const PEDIATRIC_MIN_AGE = 1
+
+// Waist-to-height ratio is not interpreted for very young children, whose
+// ratio is naturally higher
+export const WAIST_TO_HEIGHT_MIN_AGE = 5
+
+export const PediatricBmiCategory = {
+  SevereThinness: 'Severely Thin',
+  Thinness: 'Thin',
+  Healthy: 'Healthy Weight',
+  RiskOfOverweight: 'At Risk of Overweight',
+  Overweight: 'Overweight',
+  Obese: 'Obese'
+} as const
+export type PediatricBmiCategory = typeof PediatricBmiCategory[keyof typeof PediatricBmiCategory]
+
+export const WaistToHeightCategory = {
+  Healthy: 'Healthy',
+  IncreasedRisk: 'Increased Risk',
+  HighRisk: 'High Risk'
+} as const
+export type WaistToHeightCategory = typeof WaistToHeightCategory[keyof typeof WaistToHeightCategory]
+
+export interface PediatricMeasurementData {
+  age: number
+  gender: 'male' | 'female'
+  height: number // cm
+  weight: number // kg
+  waist?: number // cm
+}
+
+export interface PediatricAssessment {
+  bmi: number
+  bmiZScore: number
+  bmiPercentile: number
+  bmiCategory: PediatricBmiCategory
+  waistToHeightRatio: number | null
+  waistToHeightCategory: WaistToHeightCategory | null
+  healthStatus: HealthStatus
+  reference: string
+  recommendations: string[]
+}
+
+export function isPediatric(age: number): boolean {
+  return age < PEDIATRIC_AGE_LIMIT
+}
+
+/**
+ * Standard normal cumulative distribution (Abramowitz & Stegun 7.1.26)
+ */
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2)
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+    * Math.exp(-z * z / 2)
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+/**
+ * BMI-for-age z-score and percentile using the LMS method
+ */
+export function calculateBmiForAge(bmi: number, age: number, gender: 'male' | 'female') {
+  const { L, M, S } = getBmiLms(age, gender)
+  const zScore = (Math.pow(bmi / M, L) - 1) / (L * S)
+  const percentile = Math.min(99.9, Math.max(0.1, normalCdf(zScore) * 100))
+
+  return {
+    zScore: Math.round(zScore * 100) / 100,
+    percentile: Math.round(percentile * 10) / 10
+  }
+}
+
+/**
+ * WHO cut-offs: under 5 uses the growth standard (+2/+3 SD for overweight and
+ * obesity), 5 and over uses the growth reference (+1/+2 SD)
+ */
+export function classifyBmiForAge(zScore: number, age: number): PediatricBmiCategory {
+  if (zScore < -3) return PediatricBmiCategory.SevereThinness
+  if (zScore < -2) return PediatricBmiCategory.Thinness
+
+  if (age < 5) {
+    if (zScore > 3) return PediatricBmiCategory.Obese
+    if (zScore > 2) return PediatricBmiCategory.Overweight
+    if (zScore > 1) return PediatricBmiCategory.RiskOfOverweight
+    return PediatricBmiCategory.Healthy
+  }
+
+  if (zScore > 2) return PediatricBmiCategory.Obese
+  if (zScore > 1) return PediatricBmiCategory.Overweight
+  return PediatricBmiCategory.Healthy
+}
+
+/**
+ * Waist-to-height ratio with the 0.5 "keep your waist to less than half your
+ * height" boundary used for children from 5 years
+ */
+export function assessWaistToHeight(waist: number | undefined, height: number, age: number) {
+  if (!waist || age < WAIST_TO_HEIGHT_MIN_AGE) {
+    return { ratio: waist ? Math.round(waist / height * 100) / 100 : null, category: null }
+  }
+
+  const ratio = Math.round(waist / height * 100) / 100
+  const category = ratio >= 0.6
+    ? WaistToHeightCategory.HighRisk
+    : ratio >= 0.5
+      ? WaistToHeightCategory.IncreasedRisk
+      : WaistToHeightCategory.Healthy
+
+  return { ratio, category }
+}
+
+function getHealthStatus(category: PediatricBmiCategory, waistCategory: WaistToHeightCategory | null): HealthStatus {
+  if (category === PediatricBmiCategory.Obese || category === PediatricBmiCategory.SevereThinness) {
+    return HealthStatus.Poor
+  }
+  if (category !== PediatricBmiCategory.Healthy || (waistCategory && waistCategory !== WaistToHeightCategory.Healthy)) {
+    return HealthStatus.Fair
+  }
+  return HealthStatus.Good
+}
+
+function getRecommendations(category: PediatricBmiCategory, waistCategory: WaistToHeightCategory | null): string[] {
+  const recommendations: string[] = []
+
+  switch (category) {
+    case PediatricBmiCategory.SevereThinness:
+    case PediatricBmiCategory.Thinness:
+      recommendations.push('Growth is below the expected range for this age - please discuss with a paediatrician')
+      recommendations.push('Offer regular, energy-dense meals and snacks such as dal, eggs, milk, nuts and ghee')
+      break
+    case PediatricBmiCategory.RiskOfOverweight:
+    case PediatricBmiCategory.Overweight:
+    case PediatricBmiCategory.Obese:
+      recommendations.push('Focus on healthy habits for the whole family rather than dieting - children should not be put on calorie-restricted diets')
+      recommendations.push('Limit sugary drinks, packaged snacks and fried foods; offer fruit and vegetables at every meal')
+      recommendations.push('Aim for at least 60 minutes of active play every day and limit recreational screen time')
+      if (category === PediatricBmiCategory.Obese) {
+        recommendations.push('Consult a paediatrician for a growth review')
+      }
+      break
+    default:
+      recommendations.push('Growth is within the healthy range for this age - keep up the balanced meals and active play')
+  }
+
+  if (waistCategory && waistCategory !== WaistToHeightCategory.Healthy) {
+    recommendations.push('Waist is more than half of height, which can indicate excess abdominal fat')
+  }
+
+  recommendations.push('Re-measure height and weight every 3 to 6 months to track growth over time')
+
+  return recommendations
+}
+
+/**
+ * Body composition assessment for children from 1 to 12 years, based on
+ * BMI-for-age percentiles and waist-to-height ratio instead of adult formulas
+ */
+export function assessPediatric(data: PediatricMeasurementData): PediatricAssessment {
+  const { age, gender, height, weight, waist } = data
+
+  if (!isPediatric(age) || age < PEDIATRIC_MIN_AGE) {
+    throw new Error(`Pediatric assessment covers ages ${PEDIATRIC_MIN_AGE} to ${PEDIATRIC_AGE_LIMIT - 1}`)
+  }
+
+  const heightInMeters = height / 100
+  const bmi = weight / (heightInMeters * heightInMeters)
+  const { zScore, percentile } = calculateBmiForAge(bmi, age, gender)
+  const bmiCategory = classifyBmiForAge(zScore, age)
+  const { ratio, category: waistToHeightCategory } = assessWaistToHeight(waist, height, age)
+
+  return {
+    bmi: Math.round(bmi * 10) / 10,
+    bmiZScore: zScore,
+    bmiPercentile: percentile,
+    bmiCategory,
+    waistToHeightRatio: ratio,
+    waistToHeightCategory,
+    healthStatus: getHealthStatus(bmiCategory, waistToHeightCategory),
+    reference: GROWTH_REFERENCE_SOURCE,
+    recommendations: getRecommendations(bmiCategory, waistToHeightCategory)
+  }
+}
+
+/**
+ * Validate measurements for a child. Ranges are wider at the low end than the
+ * adult limits in validateMeasurements.
+ */
+export function validatePediatricMeasurements(data: Partial<PediatricMeasurementData>, unitSystem: UnitSystem = 'metric'): string[] {
+  const errors: string[] = []
+
+  if (!data.age || data.age < PEDIATRIC_MIN_AGE || !isPediatric(data.age)) {
+    errors.push(`Age must be between ${PEDIATRIC_MIN_AGE} and ${PEDIATRIC_AGE_LIMIT - 1} years`)
+  }
+
+  if (!data.height || data.height < 45 || data.height > 190) {
+    errors.push(`Height must be between ${formatLengthRange(45, 190, unitSystem)}`)
+  }
+
+  if (!data.weight || data.weight < 2 || data.weight > 150) {
+    errors.push(`Weight must be between ${formatWeightRange(2, 150, unitSystem)}`)
+  }
+
+  if (data.waist !== undefined && (data.waist < 30 || data.waist > 150)) {
+    errors.push(`Waist measurement must be between ${formatLengthRange(30, 150, unitSystem)}`)
+  }
+
+  return errors
+}
@@ -0,0 +1,172 @@
+import mongoose from 'mongoose'
+import FamilyMember from '@/models/FamilyMember'
+import Payment, { IPayment } from '@/models/Payment'
+import User from '@/models/User'
+import { PRICING_PLANS, PlanId, getPlanForAdditionalPeople, isPlanId } from './plans'
+import { PlanChangeQuote, quotePlanChange } from './plan-change'
+import { flagPaymentForSupport, recordRefund } from './payment-service'
+import { RefundResult, getRefundProvider } from './razorpay-refunds'
+import { getRefundableAmount } from './refund-policy'
+import { getSubscriptionPhase } from './subscription-lifecycle'
+
+export interface ActiveTerm {
+  plan: PlanId
+  additionalPeople: number
+  subscriptionPaymentId: string
+  expiresAt: Date
+  // The latest completed payment for the term: the original purchase or an upgrade
+  payment: IPayment
+  termValue: number
+}
+
+export type ActiveTermResult =
+  | { success: true; term: ActiveTerm }
+  | { success: false; message: string }
+
+export type PlanChangeQuoteResult =
+  | { success: true; term: ActiveTerm; quote: PlanChangeQuote }
+  | { success: false; message: string }
+
+export type DowngradeResult =
+  | { success: true; quote: PlanChangeQuote; refund: RefundResult | null }
+  | { success: false; message: string }
+
+/**
+ * The paid term a plan change is prorated against
+ */
+export async function getActiveTerm(userId: mongoose.Types.ObjectId | string): Promise<ActiveTermResult> {
+  const user = await User.findById(userId).select('subscription').lean<{
+    subscription?: { status?: string; plan?: string; paymentId?: string; expiresAt?: Date; additionalPeople?: number }
+  }>()
+  const subscription = user?.subscription
+
+  if (subscription?.status !== 'active' || !subscription.paymentId || !subscription.expiresAt) {
+    return { success: false, message: 'You need an active subscription to change plans' }
+  }
+  if (getSubscriptionPhase(subscription.expiresAt) !== 'active') {
+    return { success: false, message: 'Your subscription has expired. Renew to choose a new plan.' }
+  }
+
+  const payment: IPayment | null = await Payment.findOne({
+    userId,
+    status: 'completed',
+    $or: [
+      { razorpayPaymentId: subscription.paymentId },
+      { 'metadata.basePaymentId': subscription.paymentId }
+    ]
+  }).sort({ completedAt: -1 })
+
+  if (!payment) {
+    return { success: false, message: 'We could not find the payment for your subscription' }
+  }
+
+  const additionalPeople = subscription.additionalPeople || 0
+
+  return {
+    success: true,
+    term: {
+      plan: isPlanId(subscription.plan) ? subscription.plan : getPlanForAdditionalPeople(additionalPeople),
+      additionalPeople,
+      subscriptionPaymentId: subscription.paymentId,
+      expiresAt: subscription.expiresAt,
+      payment,
+      termValue: payment.metadata?.termValue ?? getRefundableAmount(payment.amount, payment.refundedAmount)
+    }
+  }
+}
+
+/**
+ * Price switching the user's current plan to another one
+ */
+export async function quoteUserPlanChange(
+  userId: mongoose.Types.ObjectId | string,
+  toPlan: PlanId
+): Promise<PlanChangeQuoteResult> {
+  const active = await getActiveTerm(userId)
+  if (!active.success) {
+    return active
+  }
+  const { term } = active
+
+  const result = quotePlanChange({
+    fromPlan: term.plan,
+    toPlan,
+    termValue: term.termValue,
+    expiresAt: term.expiresAt,
+    refundable: getRefundableAmount(term.payment.amount, term.payment.refundedAmount)
+  })
+  if (!result.success) {
+    return result
+  }
+
+  return { success: true, term, quote: result.quote }
+}
+
+/**
+ * Move the user to a cheaper plan now and refund the prorated difference.
+ * The subscription update is conditional on the plan it was quoted for, so a
+ * repeated request can't refund twice.
+ */
+export async function downgradePlan(
+  userId: mongoose.Types.ObjectId | string,
+  toPlan: PlanId,
+  initiatedBy: string
+): Promise<DowngradeResult> {
+  const result = await quoteUserPlanChange(userId, toPlan)
+  if (!result.success) {
+    return result
+  }
+  const { term, quote } = result
+
+  if (quote.direction !== 'downgrade') {
+    return { success: false, message: 'Upgrades are paid for at checkout' }
+  }
+
+  const allowedMembers = PRICING_PLANS[toPlan].additionalPeople
+  const activeMembers = await FamilyMember.countDocuments({ userId, isActive: true })
+  if (activeMembers > allowedMembers) {
+    return {
+      success: false,
+      message: `${PRICING_PLANS[toPlan].name} includes ${allowedMembers} family members. Remove ${activeMembers - allowedMembers} before downgrading.`
+    }
+  }
+
+  const update = await User.updateOne(
+    {
+      _id: userId,
+      'subscription.status': 'active',
+      'subscription.paymentId': term.subscriptionPaymentId,
+      'subscription.additionalPeople': term.additionalPeople
+    },
+    { $set: { 'subscription.plan': toPlan, 'subscription.additionalPeople': allowedMembers } }
+  )
+  if (update.modifiedCount === 0) {
+    return { success: false, message: 'Your subscription changed while this was processing. Please try again.' }
+  }
+
+  await Payment.updateOne({ _id: term.payment._id }, { $set: { 'metadata.termValue': quote.termValue } })
+
+  let refund: RefundResult | null = null
+  if (quote.refund > 0 && term.payment.razorpayPaymentId) {
+    const reason = `Downgrade from ${PRICING_PLANS[quote.fromPlan].name} to ${PRICING_PLANS[toPlan].name}`
+    try {
+      refund = await getRefundProvider().createRefund({
+        razorpayPaymentId: term.payment.razorpayPaymentId,
+        amount: quote.refund,
+        reason,
+        receipt: `downgrade_${Date.now()}`
+      })
+      await recordRefund(term.payment.razorpayPaymentId, refund.refundId, refund.amount, {
+        status: refund.status,
+        reason,
+        initiatedBy
+      })
+    } catch (error) {
+      // The plan has already changed; support issues the refund by hand
+      console.error('Downgrade refund error:', error)
+      await flagPaymentForSupport(term.payment._id, `${reason}: the refund failed`, quote.refund)
+    }
+  }
+
+  return { success: true, quote, refund }
+}
@@ -0,0 +1,93 @@
+import { PLAN_ORDER, PRICING_PLANS, PlanId } from './plans'
+
+// Amounts are in rupees, rounded to whole rupees like plan prices
+
+// Razorpay doesn't accept orders below ₹1
+export const MIN_UPGRADE_AMOUNT = 1
+
+const TERM_MS = 365 * 24 * 60 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type PlanChangeDirection = 'upgrade' | 'downgrade'
+
+export interface PlanChangeInput {
+  fromPlan: PlanId
+  toPlan: PlanId
+  // What the current plan is worth over a full term, after discounts and refunds
+  termValue: number
+  expiresAt: Date
+  // Refunds for a downgrade come out of the current payment's balance
+  refundable?: number
+}
+
+export interface PlanChangeQuote {
+  fromPlan: PlanId
+  toPlan: PlanId
+  direction: PlanChangeDirection
+  remainingDays: number
+  credit: number // unused value of the current plan
+  newPlanCost: number // the new plan's price for the remaining days
+  amount: number // payable now for an upgrade
+  refund: number // returned for a downgrade
+  termValue: number // full-term value of the new plan, for the next change
+  expiresAt: Date
+}
+
+export type PlanChangeResult =
+  | { success: true; quote: PlanChangeQuote }
+  | { success: false; message: string }
+
+export function getPlanChangeDirection(fromPlan: PlanId, toPlan: PlanId): PlanChangeDirection | null {
+  const from = PLAN_ORDER.indexOf(fromPlan)
+  const to = PLAN_ORDER.indexOf(toPlan)
+  if (from === to) return null
+  return to > from ? 'upgrade' : 'downgrade'
+}
+
+/**
+ * Price a switch between plans for the rest of the current term. The unused
+ * part of what was paid is credited against the new plan's price for the same
+ * days: upgrades pay the difference, downgrades get it back. The expiry date
+ * doesn't change.
+ */
+export function quotePlanChange(input: PlanChangeInput, now: Date = new Date()): PlanChangeResult {
+  const { fromPlan, toPlan, termValue, expiresAt, refundable = Infinity } = input
+
+  const direction = getPlanChangeDirection(fromPlan, toPlan)
+  if (!direction) {
+    return { success: false, message: 'You are already on this plan' }
+  }
+
+  const remainingMs = expiresAt.getTime() - now.getTime()
+  if (remainingMs <= 0) {
+    return { success: false, message: 'Your subscription has expired. Renew to choose a new plan.' }
+  }
+
+  // Early renewals can leave more than a term remaining, so this isn't capped at 1
+  const remainingShare = remainingMs / TERM_MS
+
+  const credit = Math.round(termValue * remainingShare)
+  const newPlanCost = Math.round(PRICING_PLANS[toPlan].price * remainingShare)
+
+  const amount = direction === 'upgrade' ? Math.max(newPlanCost - credit, MIN_UPGRADE_AMOUNT) : 0
+  const refund = direction === 'downgrade' ? Math.min(Math.max(credit - newPlanCost, 0), refundable) : 0
+
+  // Spread what changes hands now over the remaining share of the term
+  const newTermValue = termValue + (amount - refund) / remainingShare
+
+  return {
+    success: true,
+    quote: {
+      fromPlan,
+      toPlan,
+      direction,
+      remainingDays: Math.ceil(remainingMs / DAY_MS),
+      credit,
+      newPlanCost,
+      amount,
+      refund,
+      termValue: Math.max(0, Math.round(newTermValue * 100) / 100),
+      expiresAt
+    }
+  }
+}
@@ -0,0 +1,32 @@
+// Paid plans and what each one unlocks. Prices are in rupees.
+
+export type PlanId = 'basic' | 'family' | 'premium'
+
+export interface PlanDefinition {
+  id: PlanId
+  name: string
+  price: number
+  additionalPeople: number
+}
+
+export const PRICING_PLANS: Record<PlanId, PlanDefinition> = {
+  basic: { id: 'basic', name: 'Personal Analysis', price: 99, additionalPeople: 0 },
+  family: { id: 'family', name: 'Family Plan', price: 299, additionalPeople: 3 },
+  premium: { id: 'premium', name: 'Premium Care', price: 499, additionalPeople: 7 }
+}
+
+// Cheapest first, used when suggesting the smallest upgrade
+export const PLAN_ORDER: PlanId[] = ['basic', 'family', 'premium']
+
+export function isPlanId(value: unknown): value is PlanId {
+  return typeof value === 'string' && (PLAN_ORDER as string[]).includes(value)
+}
+
+/**
+ * Subscriptions created before the plan was stored only record the number of
+ * additional people, which identifies the plan uniquely
+ */
+export function getPlanForAdditionalPeople(additionalPeople: number): PlanId {
+  const match = PLAN_ORDER.find(id => PRICING_PLANS[id].additionalPeople === additionalPeople)
+  return match || (additionalPeople > PRICING_PLANS.family.additionalPeople ? 'premium' : 'basic')
+}
@@ -0,0 +1,125 @@
+import mongoose from 'mongoose'
+import Payment from '@/models/Payment'
+import PromoCode from '@/models/PromoCode'
+import { PlanId } from './plans'
+import { PriceBreakdown, PromoCodeRule, calculatePrice, getPromoCodeError, normalizeCode } from './pricing'
+import { findUserByReferralCode } from './referral-code-service'
+
+export type QuoteResult =
+  | { success: true; pricing: PriceBreakdown }
+  | { success: false; message: string }
+
+/**
+ * Price a plan for a user with optional promo and referral codes, checking
+ * each code against the database. This is the only source of the amount
+ * charged at checkout.
+ */
+export async function quoteOrder(
+  userId: mongoose.Types.ObjectId | string,
+  planId: PlanId,
+  codes: { promoCode?: string | null; referralCode?: string | null } = {}
+): Promise<QuoteResult> {
+  let promo: PromoCodeRule | null = null
+
+  if (codes.promoCode?.trim()) {
+    const code = normalizeCode(codes.promoCode)
+    promo = await PromoCode.findOne({ code }).lean<PromoCodeRule>()
+
+    if (!promo) {
+      return { success: false, message: 'Invalid promo code' }
+    }
+
+    const userRedemptions = await Payment.countDocuments({
+      userId,
+      status: 'completed',
+      'metadata.promocode': code
+    })
+
+    const promoError = getPromoCodeError(promo, planId, userRedemptions)
+    if (promoError) {
+      return { success: false, message: promoError }
+    }
+  }
+
+  let referralCode: string | null = null
+
+  if (codes.referralCode?.trim()) {
+    const code = normalizeCode(codes.referralCode)
+    const referrer = await findUserByReferralCode(code)
+
+    if (!referrer) {
+      return { success: false, message: 'Invalid referral code' }
+    }
+    if (referrer._id.equals(userId)) {
+      return { success: false, message: 'You cannot use your own referral code' }
+    }
+
+    referralCode = code
+  }
+
+  return { success: true, pricing: calculatePrice(planId, { promo, referralCode }) }
+}
+
+// Orders left unpaid this long give their promo code reservation back
+export const PROMO_RESERVATION_TTL_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Hold one of a promo code's redemptions for an order being created. The
+ * count only goes up while it is under the limit, so concurrent checkouts
+ * can't overshoot it the way the quote-time check alone could. False when
+ * the code has run out.
+ */
+export async function reservePromoRedemption(code: string): Promise<boolean> {
+  const result = await PromoCode.updateOne(
+    {
+      code: normalizeCode(code),
+      $or: [
+        { maxRedemptions: null },
+        { $expr: { $lt: ['$redemptionCount', '$maxRedemptions'] } }
+      ]
+    },
+    { $inc: { redemptionCount: 1 } }
+  )
+  return result.modifiedCount > 0
+}
+
+export async function releasePromoRedemption(code: string) {
+  await PromoCode.updateOne(
+    { code: normalizeCode(code), redemptionCount: { $gt: 0 } },
+    { $inc: { redemptionCount: -1 } }
+  )
+}
+
+/**
+ * Count a promo code use once its payment has completed, for orders that
+ * completed without a reservation
+ */
+export async function redeemPromoCode(code: string) {
+  await PromoCode.updateOne({ code: normalizeCode(code) }, { $inc: { redemptionCount: 1 } })
+}
+
+/**
+ * Give back the redemptions held by orders that were never paid. The order
+ * can still be paid later; completing it then counts the redemption again.
+ */
+export async function releaseStalePromoReservations(now: Date = new Date()): Promise<number> {
+  const stale = await Payment.find({
+    status: { $in: ['pending', 'failed'] },
+    'metadata.promoReserved': true,
+    createdAt: { $lt: new Date(now.getTime() - PROMO_RESERVATION_TTL_MS) }
+  }).select('metadata.promocode').lean<Array<{ _id: mongoose.Types.ObjectId; metadata: { promocode?: string } }>>()
+
+  let released = 0
+  for (const payment of stale) {
+    // Conditional so an order completing meanwhile keeps its reservation
+    const result = await Payment.updateOne(
+      { _id: payment._id, status: { $in: ['pending', 'failed'] }, 'metadata.promoReserved': true },
+      { $unset: { 'metadata.promoReserved': 1 } }
+    )
+    if (result.modifiedCount > 0 && payment.metadata.promocode) {
+      await releasePromoRedemption(payment.metadata.promocode)
+      released++
+    }
+  }
+  return released
+}
@@ -0,0 +1,118 @@
+import { PRICING_PLANS, PlanId } from './plans'
+
+// Lowest price for a plan purchase; discounts stop at this floor
+export const MIN_PAYABLE_AMOUNT = 99
+
+// Discount for the referred user, taken after any promo code
+export const REFERRAL_DISCOUNT_RATE = 0.1
+
+export type PromoDiscountType = 'percentage' | 'fixed'
+
+// The fields of a PromoCode document the pricing rules depend on
+export interface PromoCodeRule {
+  code: string
+  discountType: PromoDiscountType
+  discountValue: number
+  maxDiscount?: number | null
+  applicablePlans?: PlanId[]
+  validFrom?: Date | null
+  validUntil?: Date | null
+  maxRedemptions?: number | null
+  redemptionCount: number
+  perUserLimit?: number | null
+  isActive: boolean
+}
+
+export interface PriceBreakdown {
+  planId: PlanId
+  planName: string
+  basePrice: number
+  promoCode: string | null
+  promoDiscount: number
+  referralCode: string | null
+  referralDiscount: number
+  totalDiscount: number
+  amount: number
+}
+
+export function normalizeCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+/**
+ * Reason a promo code can't be used for this plan and user, or null if it can.
+ * `userRedemptions` is the number of completed payments by the user with it.
+ */
+export function getPromoCodeError(
+  promo: PromoCodeRule,
+  planId: PlanId,
+  userRedemptions: number,
+  now: Date = new Date()
+): string | null {
+  if (!promo.isActive) {
+    return 'This promo code is no longer active'
+  }
+  if (promo.validFrom && now < promo.validFrom) {
+    return 'This promo code is not valid yet'
+  }
+  if (promo.validUntil && now > promo.validUntil) {
+    return 'This promo code has expired'
+  }
+  if (promo.applicablePlans?.length && !promo.applicablePlans.includes(planId)) {
+    return `This promo code can't be used with the ${PRICING_PLANS[planId].name}`
+  }
+  if (promo.maxRedemptions != null && promo.redemptionCount >= promo.maxRedemptions) {
+    return 'This promo code has reached its usage limit'
+  }
+  if (promo.perUserLimit != null && userRedemptions >= promo.perUserLimit) {
+    return "You've already used this promo code"
+  }
+  return null
+}
+
+/**
+ * Discount a promo code gives on a price, in whole rupees
+ */
+export function calculatePromoDiscount(promo: PromoCodeRule, price: number): number {
+  const raw = promo.discountType === 'percentage'
+    ? price * promo.discountValue / 100
+    : promo.discountValue
+
+  const capped = promo.maxDiscount != null ? Math.min(raw, promo.maxDiscount) : raw
+  return Math.max(0, Math.floor(Math.min(capped, price)))
+}
+
+/**
+ * Payable amount for a plan. The promo code applies to the plan price and the
+ * referral discount to what remains; together they never take the amount
+ * below MIN_PAYABLE_AMOUNT.
+ */
+export function calculatePrice(
+  planId: PlanId,
+  options: { promo?: PromoCodeRule | null; referralCode?: string | null } = {}
+): PriceBreakdown {
+  const plan = PRICING_PLANS[planId]
+  const maxDiscount = Math.max(0, plan.price - MIN_PAYABLE_AMOUNT)
+
+  const promoDiscount = options.promo
+    ? Math.min(calculatePromoDiscount(options.promo, plan.price), maxDiscount)
+    : 0
+
+  const referralDiscount = options.referralCode
+    ? Math.min(Math.floor((plan.price - promoDiscount) * REFERRAL_DISCOUNT_RATE), maxDiscount - promoDiscount)
+    : 0
+
+  const totalDiscount = promoDiscount + referralDiscount
+
+  return {
+    planId,
+    planName: plan.name,
+    basePrice: plan.price,
+    promoCode: options.promo ? normalizeCode(options.promo.code) : null,
+    promoDiscount,
+    referralCode: options.referralCode ? normalizeCode(options.referralCode) : null,
+    referralDiscount,
+    totalDiscount,
+    amount: plan.price - totalDiscount
+  }
+}
@@ -0,0 +1,65 @@
+import Razorpay from 'razorpay'
+
+export interface RefundRequest {
+  razorpayPaymentId: string
+  amount: number // rupees
+  reason?: string
+  receipt?: string
+}
+
+export interface RefundResult {
+  refundId: string
+  amount: number // rupees
+  status: string
+}
+
+export interface RefundProvider {
+  createRefund(request: RefundRequest): Promise<RefundResult>
+}
+
+class RazorpayRefundProvider implements RefundProvider {
+  private razorpay = new Razorpay({
+    key_id: process.env.RAZORPAY_KEY_ID!,
+    key_secret: process.env.RAZORPAY_KEY_SECRET!,
+  })
+
+  async createRefund({ razorpayPaymentId, amount, reason, receipt }: RefundRequest): Promise<RefundResult> {
+    const refund = await this.razorpay.payments.refund(razorpayPaymentId, {
+      amount: Math.round(amount * 100), // Convert to paise
+      speed: 'normal',
+      receipt,
+      ...(reason && { notes: { reason } })
+    })
+
+    return {
+      refundId: refund.id,
+      amount: Number(refund.amount) / 100,
+      status: refund.status
+    }
+  }
+}
+
+// Local development and tests: refunds succeed immediately without calling Razorpay
+class MockRefundProvider implements RefundProvider {
+  async createRefund({ amount }: RefundRequest): Promise<RefundResult> {
+    return {
+      refundId: `rfnd_mock_${Date.now()}${Math.random().toString(36).slice(2, 8)}`,
+      amount,
+      status: 'processed'
+    }
+  }
+}
+
+let provider: RefundProvider | null = null
+
+/**
+ * Razorpay-backed provider, or the mock when RAZORPAY_MOCK=true
+ */
+export function getRefundProvider(): RefundProvider {
+  if (!provider) {
+    provider = process.env.RAZORPAY_MOCK === 'true'
+      ? new MockRefundProvider()
+      : new RazorpayRefundProvider()
+  }
+  return provider
+}
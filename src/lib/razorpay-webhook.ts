@@ -0,0 +1,124 @@
+import crypto from 'crypto'
+
+export const HANDLED_WEBHOOK_EVENTS = [
+  'payment.captured',
+  'payment.failed',
+  'refund.processed',
+  'order.paid'
+] as const
+export type HandledWebhookEvent = typeof HANDLED_WEBHOOK_EVENTS[number]
+
+// Subset of the Razorpay entities we read. Amounts are in paise.
+export interface RazorpayPaymentEntity {
+  id: string
+  order_id: string
+  amount: number
+  currency: string
+  status: string
+  method?: string
+  vpa?: string | null
+  card_id?: string | null
+  wallet?: string | null
+  contact?: string | null
+  error_code?: string
+  error_description?: string
+}
+
+export interface RazorpayOrderEntity {
+  id: string
+  amount: number
+  amount_paid: number
+  status: string
+}
+
+export interface RazorpayRefundEntity {
+  id: string
+  payment_id: string
+  amount: number
+  status: string
+}
+
+export interface RazorpayWebhookEvent {
+  entity: 'event'
+  event: string
+  created_at: number
+  payload: {
+    payment?: { entity: RazorpayPaymentEntity }
+    order?: { entity: RazorpayOrderEntity }
+    refund?: { entity: RazorpayRefundEntity }
+  }
+}
+
+export function isHandledWebhookEvent(event: string): event is HandledWebhookEvent {
+  return (HANDLED_WEBHOOK_EVENTS as readonly string[]).includes(event)
+}
+
+/**
+ * Razorpay signs the raw request body with the webhook secret (HMAC SHA256).
+ * The body must not be re-serialised before checking.
+ */
+export function verifyWebhookSignature(rawBody: string, signature: string | null, secret: string): boolean {
+  if (!signature) return false
+
+  const expected = crypto
+    .createHmac('sha256', secret)
+    .update(rawBody)
+    .digest('hex')
+
+  const expectedBuffer = Buffer.from(expected)
+  const signatureBuffer = Buffer.from(signature)
+
+  return expectedBuffer.length === signatureBuffer.length &&
+    crypto.timingSafeEqual(expectedBuffer, signatureBuffer)
+}
+
+/**
+ * Razorpay retries use the same X-Razorpay-Event-Id. Fall back to a key built
+ * from the event contents for deliveries without the header.
+ */
+export function getWebhookEventId(event: RazorpayWebhookEvent, headerEventId: string | null): string {
+  if (headerEventId) return headerEventId
+
+  const entityId = event.payload.refund?.entity.id ||
+    event.payload.payment?.entity.id ||
+    event.payload.order?.entity.id ||
+    'unknown'
+
+  return `${event.event}:${entityId}:${event.created_at}`
+}
+
+/**
+ * Order and payment ids the event refers to, used to find our Payment record
+ */
+export function getWebhookReferences(event: RazorpayWebhookEvent) {
+  const payment = event.payload.payment?.entity
+  const order = event.payload.order?.entity
+  const refund = event.payload.refund?.entity
+
+  return {
+    orderId: order?.id || payment?.order_id || null,
+    paymentId: payment?.id || refund?.payment_id || null
+  }
+}
+
+export function paiseToRupees(amount: number): number {
+  return Math.round(amount) / 100
+}
+
+/**
+ * A stable identifier for the instrument a payment was made with, used to
+ * spot the same person paying on both sides of a referral. Net banking only
+ * identifies the bank, so it isn't fingerprinted.
+ */
+export function getPaymentMethodFingerprint(entity: RazorpayPaymentEntity): string | null {
+  switch (entity.method) {
+    case 'upi':
+      return entity.vpa ? `upi:${entity.vpa.toLowerCase()}` : null
+    case 'card':
+      return entity.card_id ? `card:${entity.card_id}` : null
+    case 'wallet':
+      return entity.wallet && entity.contact ? `wallet:${entity.wallet}:${entity.contact}` : null
+    default:
+      return null
+  }
+}
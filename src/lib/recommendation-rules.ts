@@ -0,0 +1,267 @@
+import {
+  DietPlan,
+  ExercisePlan,
+  HealthRecommendations,
+  LifestyleAction,
+  LifestylePlan,
+  MIN_DAILY_CALORIES,
+  Macros
+} from './recommendation-schema'
+import { DEFAULT_LANGUAGE, LanguageCode } from './languages'
+import { RULE_TEMPLATES, translateRuleText } from './recommendation-translations'
+
+// Rule-based recommendations. Used on their own when the AI is unavailable or
+// returns something unusable, and as the calorie targets the AI plans around.
+
+export interface RecommendationProfile {
+  age: number
+  gender: 'male' | 'female'
+  height: number // cm
+  weight: number // kg
+  bodyFat: number | null
+  activityLevel: string
+  goal: string // User.goals.primaryObjective
+}
+
+const ACTIVITY_MULTIPLIERS: Record<string, number> = {
+  sedentary: 1.2,
+  light: 1.375,
+  moderate: 1.55,
+  active: 1.725,
+  veryActive: 1.9
+}
+
+const GOAL_ADJUSTMENTS: Record<string, number> = {
+  weightLoss: -500,
+  weightGain: 500,
+  muscleGain: 300,
+  maintenance: 0,
+  fitness: 0
+}
+
+export function calculateBMR(weight: number, height: number, age: number, gender: string): number {
+  // Mifflin-St Jeor Equation
+  if (gender === 'male') {
+    return (10 * weight) + (6.25 * height) - (5 * age) + 5
+  } else {
+    return (10 * weight) + (6.25 * height) - (5 * age) - 161
+  }
+}
+
+export function calculateTDEE(bmr: number, activityLevel: string): number {
+  return bmr * (ACTIVITY_MULTIPLIERS[activityLevel] || ACTIVITY_MULTIPLIERS.moderate)
+}
+
+/**
+ * Daily calorie target for the user's goal, never below the crash-diet floor
+ */
+export function getDailyCalorieTarget(profile: RecommendationProfile): number {
+  const tdee = calculateTDEE(calculateBMR(profile.weight, profile.height, profile.age, profile.gender), profile.activityLevel)
+  const adjustment = GOAL_ADJUSTMENTS[profile.goal] ?? -300
+  return Math.max(MIN_DAILY_CALORIES, Math.round(tdee + adjustment))
+}
+
+export function getMacroTargets(dailyCalories: number, goal: string): Macros {
+  const proteinPercent = goal === 'muscleGain' ? 0.30 : 0.25
+  const fatPercent = 0.25
+  const carbPercent = 1 - proteinPercent - fatPercent
+
+  return {
+    protein: Math.round((dailyCalories * proteinPercent) / 4),
+    carbs: Math.round((dailyCalories * carbPercent) / 4),
+    fats: Math.round((dailyCalories * fatPercent) / 9)
+  }
+}
+
+export function getHydrationLitres(weight: number): number {
+  return Math.max(2.5, Math.round((35 * weight) / 1000 * 10) / 10)
+}
+
+const MEALS = [
+  { meal: 'Breakfast', time: '7:00 AM', share: 0.25, items: ['Vegetable poha or oats with nuts', 'Green tea', 'Banana'] },
+  { meal: 'Mid-Morning Snack', time: '10:00 AM', share: 0.10, items: ['Handful of mixed nuts', 'Seasonal fruit'] },
+  { meal: 'Lunch', time: '1:00 PM', share: 0.30, items: ['2 rotis or 1 cup brown rice', 'Dal', 'Vegetable sabzi', 'Salad'] },
+  { meal: 'Evening Snack', time: '4:00 PM', share: 0.10, items: ['Curd or buttermilk', 'Roasted chana'] },
+  { meal: 'Dinner', time: '7:30 PM', share: 0.25, items: ['Grilled paneer, chicken or fish', '1 roti', 'Steamed vegetables'] }
+]
+
+export function generateRuleBasedDietPlan(dailyCalories: number, goal: string, language: LanguageCode = DEFAULT_LANGUAGE): DietPlan {
+  const macros = getMacroTargets(dailyCalories, goal)
+  const t = (text: string) => translateRuleText(text, language)
+
+  return {
+    dailyCalories,
+    macros,
+    mealPlan: MEALS.map(({ share, ...meal }) => ({
+      ...meal,
+      meal: t(meal.meal),
+      items: meal.items.map(t),
+      calories: Math.round(dailyCalories * share),
+      macros: {
+        protein: Math.round(macros.protein * share),
+        carbs: Math.round(macros.carbs * share),
+        fats: Math.round(macros.fats * share)
+      }
+    })),
+    tips: [
+      'Stay hydrated - drink at least 8-10 glasses of water daily',
+      'Include protein in every meal to maintain muscle mass',
+      'Choose complex carbohydrates over simple sugars',
+      'Eat plenty of colorful vegetables for micronutrients',
+      'Practice portion control and mindful eating',
+      'Avoid processed foods and added sugars',
+      'Plan your meals in advance to avoid unhealthy choices'
+    ].map(t)
+  }
+}
+
+export function generateRuleBasedExercisePlan(language: LanguageCode = DEFAULT_LANGUAGE): ExercisePlan {
+  const t = (text: string) => translateRuleText(text, language)
+  const weeklyPlan: ExercisePlan['weeklyPlan'] = [
+    {
+      day: 'Monday',
+      type: 'Strength Training',
+      durationMinutes: 45,
+      exercises: [
+        { name: 'Push-ups', sets: 3, reps: '10-15' },
+        { name: 'Squats', sets: 3, reps: '12-20' },
+        { name: 'Lunges', sets: 3, reps: '10 each leg' },
+        { name: 'Plank', sets: 3, reps: '30 seconds' }
+      ]
+    },
+    {
+      day: 'Tuesday',
+      type: 'Cardio',
+      durationMinutes: 30,
+      exercises: [
+        { name: 'Brisk Walking', durationMinutes: 25 },
+        { name: 'Jumping Jacks', sets: 3, reps: '30 seconds' }
+      ]
+    },
+    {
+      day: 'Wednesday',
+      type: 'Strength Training',
+      durationMinutes: 45,
+      exercises: [
+        { name: 'Mountain Climbers', sets: 3, reps: '20' },
+        { name: 'Wall Sits', sets: 3, reps: '30 seconds' },
+        { name: 'Arm Circles', sets: 2, reps: '10 each direction' },
+        { name: 'Crunches', sets: 3, reps: '15-20' }
+      ]
+    },
+    {
+      day: 'Thursday',
+      type: 'Active Recovery',
+      durationMinutes: 30,
+      exercises: [
+        { name: 'Yoga/Stretching', durationMinutes: 20 },
+        { name: 'Light Walking', durationMinutes: 10 }
+      ]
+    },
+    {
+      day: 'Friday',
+      type: 'Full Body Workout',
+      durationMinutes: 40,
+      exercises: [
+        { name: 'Burpees', sets: 3, reps: '5-10' },
+        { name: 'Push-ups', sets: 3, reps: '8-12' },
+        { name: 'Squats', sets: 3, reps: '15-25' },
+        { name: 'Plank', sets: 2, reps: '45 seconds' }
+      ]
+    },
+    {
+      day: 'Saturday',
+      type: 'Cardio & Flexibility',
+      durationMinutes: 35,
+      exercises: [
+        { name: 'Dancing or Cycling', durationMinutes: 25 },
+        { name: 'Stretching', durationMinutes: 10 }
+      ]
+    },
+    {
+      day: 'Sunday',
+      type: 'Rest Day',
+      durationMinutes: 15,
+      exercises: [
+        { name: 'Complete Rest or Light Walk', durationMinutes: 15 }
+      ]
+    }
+  ]
+
+  return {
+    weeklyPlan: weeklyPlan.map(day => ({
+      ...day,
+      day: t(day.day),
+      type: t(day.type),
+      exercises: day.exercises.map(exercise => ({
+        ...exercise,
+        name: t(exercise.name),
+        ...(exercise.reps && { reps: t(exercise.reps) })
+      }))
+    })),
+    tips: [
+      'Start slowly and gradually increase intensity',
+      'Focus on proper form over speed or weight',
+      'Listen to your body and rest when needed',
+      'Stay consistent - aim for at least 150 minutes of moderate exercise per week',
+      'Include both cardio and strength training in your routine',
+      'Warm up before exercising and cool down afterwards',
+      'Find activities you enjoy to maintain long-term adherence'
+    ].map(t)
+  }
+}
+
+export function generateRuleBasedLifestylePlan(
+  profile: RecommendationProfile,
+  language: LanguageCode = DEFAULT_LANGUAGE
+): LifestylePlan {
+  const hydrationLitres = getHydrationLitres(profile.weight)
+  const action = (category: LifestyleAction['category'], title: string): LifestyleAction => ({
+    category,
+    title: translateRuleText(title, language)
+  })
+
+  const actions: LifestyleAction[] = [
+    action('sleep', 'Aim for 7-9 hours of quality sleep each night'),
+    action('sleep', 'Maintain a consistent sleep schedule'),
+    action('sleep', 'Avoid screens 1 hour before bedtime'),
+    action('sleep', 'Avoid caffeine 6 hours before bedtime'),
+    action('stress', 'Practice deep breathing or pranayama for 5-10 minutes daily'),
+    action('stress', 'Try meditation or mindfulness practices'),
+    action('stress', 'Take short breaks throughout your workday'),
+    action('stress', 'Maintain social connections with family and friends'),
+    action('hydration', RULE_TEMPLATES[language].hydration(hydrationLitres)),
+    action('supplements', 'Vitamin D3 (especially if limited sun exposure)'),
+    action('supplements', 'Omega-3 fatty acids (if not eating fish regularly)')
+  ]
+
+  if (profile.age > 40) {
+    actions.push(action('supplements', 'Calcium and Magnesium (for bone health)'))
+  }
+  if (profile.gender === 'female') {
+    actions.push(action('supplements', 'Iron (if experiencing heavy periods)'))
+  }
+
+  return { hydrationLitres, actions }
+}
+
+/**
+ * The full rule-based plan, in the user's preferred language
+ */
+export function generateRuleBasedRecommendations(
+  profile: RecommendationProfile,
+  language: LanguageCode = DEFAULT_LANGUAGE
+): HealthRecommendations {
+  const dailyCalories = getDailyCalorieTarget(profile)
+  const diet = generateRuleBasedDietPlan(dailyCalories, profile.goal, language)
+  const exercise = generateRuleBasedExercisePlan(language)
+  const restDay = translateRuleText('Rest Day', language)
+  const workouts = exercise.weeklyPlan.filter(day => day.type !== restDay).length
+
+  return {
+    summary: RULE_TEMPLATES[language].summary(dailyCalories, diet.macros.protein, workouts),
+    diet,
+    exercise,
+    lifestyle: generateRuleBasedLifestylePlan(profile, language)
+  }
+}
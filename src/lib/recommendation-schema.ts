@@ -0,0 +1,259 @@
+import { z } from 'zod'
+
+// Typed shape of health recommendations, whether they come from the AI or
+// the rule-based generator. The AI is asked to fill these in through a tool
+// call and its output is checked against the same schemas before it's used.
+
+const text = z.string().trim().min(1).max(300)
+
+const macrosSchema = z.object({
+  protein: z.number().int().min(0).max(500), // grams
+  carbs: z.number().int().min(0).max(1000),
+  fats: z.number().int().min(0).max(300)
+})
+
+const mealSchema = z.object({
+  meal: text,
+  time: z.string().trim().min(1).max(20),
+  items: z.array(text).min(1).max(8),
+  calories: z.number().int().min(0).max(2500),
+  macros: macrosSchema
+})
+
+// Below this the plan would be a crash diet, which we never recommend
+export const MIN_DAILY_CALORIES = 1200
+
+// Meals should roughly add up to the daily target
+const MEAL_CALORIE_TOLERANCE = 0.2
+
+export const dietPlanSchema = z.object({
+  dailyCalories: z.number().int().min(MIN_DAILY_CALORIES).max(5000),
+  macros: macrosSchema,
+  mealPlan: z.array(mealSchema).min(3).max(7),
+  tips: z.array(text).max(10)
+}).superRefine((plan, context) => {
+  const total = plan.mealPlan.reduce((sum, meal) => sum + meal.calories, 0)
+  if (Math.abs(total - plan.dailyCalories) > plan.dailyCalories * MEAL_CALORIE_TOLERANCE) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['mealPlan'],
+      message: `meal calories add up to ${total}, but dailyCalories is ${plan.dailyCalories}`
+    })
+  }
+})
+
+const exerciseSchema = z.object({
+  name: text,
+  sets: z.number().int().min(1).max(10).optional(),
+  reps: z.string().trim().min(1).max(40).optional(),
+  durationMinutes: z.number().min(0).max(180).optional()
+}).refine(exercise => exercise.reps !== undefined || exercise.durationMinutes !== undefined, {
+  message: 'each exercise needs reps or durationMinutes'
+})
+
+const workoutSchema = z.object({
+  day: z.string().trim().min(1).max(20),
+  type: text,
+  durationMinutes: z.number().int().min(0).max(180),
+  exercises: z.array(exerciseSchema).min(1).max(10)
+})
+
+export const exercisePlanSchema = z.object({
+  weeklyPlan: z.array(workoutSchema).min(1).max(7),
+  tips: z.array(text).max(10)
+})
+
+export const LIFESTYLE_CATEGORIES = ['sleep', 'stress', 'hydration', 'supplements', 'habits'] as const
+
+const lifestyleActionSchema = z.object({
+  category: z.enum(LIFESTYLE_CATEGORIES),
+  title: text,
+  detail: z.string().trim().max(500).optional()
+})
+
+export const lifestylePlanSchema = z.object({
+  hydrationLitres: z.number().min(1).max(6),
+  actions: z.array(lifestyleActionSchema).min(1).max(20)
+})
+
+export const healthRecommendationsSchema = z.object({
+  summary: z.string().trim().min(1).max(2000),
+  diet: dietPlanSchema,
+  exercise: exercisePlanSchema,
+  lifestyle: lifestylePlanSchema
+})
+
+export type Macros = z.infer<typeof macrosSchema>
+export type MealRecommendation = z.infer<typeof mealSchema>
+export type DietPlan = z.infer<typeof dietPlanSchema>
+export type ExerciseRecommendation = z.infer<typeof exerciseSchema>
+export type WorkoutRecommendation = z.infer<typeof workoutSchema>
+export type ExercisePlan = z.infer<typeof exercisePlanSchema>
+export type LifestyleCategory = typeof LIFESTYLE_CATEGORIES[number]
+export type LifestyleAction = z.infer<typeof lifestyleActionSchema>
+export type LifestylePlan = z.infer<typeof lifestylePlanSchema>
+export type HealthRecommendations = z.infer<typeof healthRecommendationsSchema>
+
+export type RecommendationSource = 'ai' | 'rules'
+
+// What's saved on the user and rendered on the recommendations page
+export interface StoredRecommendations extends HealthRecommendations {
+  source: RecommendationSource
+  fallbackReason?: string // why the AI's plan wasn't used
+  generatedAt: Date
+  profile: {
+    age: number
+    gender: 'male' | 'female'
+    bodyFat: number | null
+    bmi: number
+    goal: string
+  }
+}
+
+export type ValidationResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; errors: string[] }
+
+/**
+ * Check untrusted output against a schema, with readable errors that can be
+ * sent back to the model when asking it to try again
+ */
+export function validateAgainst<T>(schema: z.ZodType<T>, input: unknown): ValidationResult<T> {
+  const result = schema.safeParse(input)
+  if (result.success) {
+    return { valid: true, value: result.data }
+  }
+  return {
+    valid: false,
+    errors: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+  }
+}
+
+// JSON Schemas for the tool definitions sent to the model. They describe the
+// same shapes as the zod schemas above, which remain the source of truth.
+
+const macrosJsonSchema = {
+  type: 'object',
+  properties: {
+    protein: { type: 'integer', description: 'grams' },
+    carbs: { type: 'integer', description: 'grams' },
+    fats: { type: 'integer', description: 'grams' }
+  },
+  required: ['protein', 'carbs', 'fats']
+}
+
+const stringList = { type: 'array', items: { type: 'string' } }
+
+const dietPlanJsonSchema = {
+  type: 'object',
+  properties: {
+    dailyCalories: { type: 'integer', minimum: MIN_DAILY_CALORIES },
+    macros: macrosJsonSchema,
+    mealPlan: {
+      type: 'array',
+      minItems: 3,
+      maxItems: 7,
+      items: {
+        type: 'object',
+        properties: {
+          meal: { type: 'string', description: 'e.g. Breakfast' },
+          time: { type: 'string', description: 'e.g. 8:00 AM' },
+          items: { ...stringList, description: 'Dishes with portion sizes, e.g. "2 moong dal chillas"' },
+          calories: { type: 'integer' },
+          macros: macrosJsonSchema
+        },
+        required: ['meal', 'time', 'items', 'calories', 'macros']
+      }
+    },
+    tips: stringList
+  },
+  required: ['dailyCalories', 'macros', 'mealPlan', 'tips']
+}
+
+const exercisePlanJsonSchema = {
+  type: 'object',
+  properties: {
+    weeklyPlan: {
+      type: 'array',
+      minItems: 1,
+      maxItems: 7,
+      items: {
+        type: 'object',
+        properties: {
+          day: { type: 'string' },
+          type: { type: 'string', description: 'e.g. Strength Training, Cardio, Rest Day' },
+          durationMinutes: { type: 'integer' },
+          exercises: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                sets: { type: 'integer' },
+                reps: { type: 'string', description: 'e.g. "10-12" or "30 seconds"' },
+                durationMinutes: { type: 'number' }
+              },
+              required: ['name']
+            }
+          }
+        },
+        required: ['day', 'type', 'durationMinutes', 'exercises']
+      }
+    },
+    tips: stringList
+  },
+  required: ['weeklyPlan', 'tips']
+}
+
+const lifestylePlanJsonSchema = {
+  type: 'object',
+  properties: {
+    hydrationLitres: { type: 'number' },
+    actions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          category: { type: 'string', enum: [...LIFESTYLE_CATEGORIES] },
+          title: { type: 'string', description: 'One specific action' },
+          detail: { type: 'string' }
+        },
+        required: ['category', 'title']
+      }
+    }
+  },
+  required: ['hydrationLitres', 'actions']
+}
+
+export interface StructuredOutputTool {
+  name: string
+  description: string
+  inputSchema: Record<string, unknown>
+}
+
+export const HEALTH_RECOMMENDATIONS_TOOL: StructuredOutputTool = {
+  name: 'save_health_recommendations',
+  description: 'Save personalised diet, exercise and lifestyle recommendations for the user',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      summary: { type: 'string', description: 'A short, encouraging overview of the plan' },
+      diet: dietPlanJsonSchema,
+      exercise: exercisePlanJsonSchema,
+      lifestyle: lifestylePlanJsonSchema
+    },
+    required: ['summary', 'diet', 'exercise', 'lifestyle']
+  }
+}
+
+export const DIET_PLAN_TOOL: StructuredOutputTool = {
+  name: 'save_diet_plan',
+  description: 'Save a daily Indian diet plan for the user',
+  inputSchema: dietPlanJsonSchema
+}
+
+export const EXERCISE_PLAN_TOOL: StructuredOutputTool = {
+  name: 'save_exercise_plan',
+  description: 'Save a weekly exercise plan for the user',
+  inputSchema: exercisePlanJsonSchema
+}
@@ -0,0 +1,67 @@
+import User, { IUser } from '@/models/User'
+import ArogyaAI from './claude-ai'
+import { buildHealthContext } from './chat-service'
+import { StoredRecommendations } from './recommendation-schema'
+import {
+  RecommendationProfile,
+  generateRuleBasedRecommendations,
+  getDailyCalorieTarget,
+  getMacroTargets
+} from './recommendation-rules'
+
+export function getRecommendationProfile(user: IUser): RecommendationProfile {
+  return {
+    age: user.profile?.age || 30,
+    gender: user.profile?.gender || 'male',
+    height: user.measurements?.height || 170,
+    weight: user.measurements?.weight || 70,
+    bodyFat: user.results?.bodyFatPercentage || null,
+    activityLevel: user.lifestyle?.activityLevel || 'moderate',
+    goal: user.goals?.primaryObjective || 'fitness'
+  }
+}
+
+/**
+ * Build the user's diet, exercise and lifestyle plan and save it. The AI plans
+ * around the rule-based calorie targets; if it fails or its output doesn't
+ * validate, the rule-based plan is saved instead.
+ */
+export async function generateUserRecommendations(
+  user: IUser,
+  arogya: ArogyaAI = ArogyaAI.getInstance()
+): Promise<StoredRecommendations> {
+  const profile = getRecommendationProfile(user)
+  const dailyCalories = getDailyCalorieTarget(profile)
+
+  let plan: Omit<StoredRecommendations, 'generatedAt' | 'profile'>
+  try {
+    const recommendations = await arogya.generateHealthRecommendations(buildHealthContext({}, user), {
+      dailyCalories,
+      macros: getMacroTargets(dailyCalories, profile.goal)
+    })
+    plan = { ...recommendations, source: 'ai' }
+  } catch (error) {
+    // The details stay in the logs; provider errors aren't for users
+    console.error('AI recommendations error:', error)
+    plan = {
+      ...generateRuleBasedRecommendations(profile, user.profile?.language),
+      source: 'rules',
+      fallbackReason: 'AI recommendations unavailable'
+    }
+  }
+
+  const recommendations: StoredRecommendations = {
+    ...plan,
+    generatedAt: new Date(),
+    profile: {
+      age: profile.age,
+      gender: profile.gender,
+      bodyFat: profile.bodyFat,
+      bmi: user.results?.bmi || Math.round(profile.weight / Math.pow(profile.height / 100, 2) * 10) / 10,
+      goal: profile.goal
+    }
+  }
+
+  await User.updateOne({ _id: user._id }, { $set: { recommendations } })
+  return recommendations
+}
@@ -0,0 +1,489 @@
+import { LanguageCode } from './languages'
+
+// Translations of the rule-based recommendations, keyed by the English text
+// in recommendation-rules. Text without a translation is left in English.
+// Text with numbers in it comes from the templates at the bottom.
+
+type Translations = Record<string, string>
+
+const hi: Translations = {
+  // Meals
+  'Breakfast': 'नाश्ता',
+  'Mid-Morning Snack': 'दोपहर से पहले का नाश्ता',
+  'Lunch': 'दोपहर का भोजन',
+  'Evening Snack': 'शाम का नाश्ता',
+  'Dinner': 'रात का भोजन',
+  'Vegetable poha or oats with nuts': 'सब्ज़ी वाला पोहा या मेवों के साथ ओट्स',
+  'Green tea': 'ग्रीन टी',
+  'Banana': 'केला',
+  'Handful of mixed nuts': 'मुट्ठी भर मिले-जुले मेवे',
+  'Seasonal fruit': 'मौसमी फल',
+  '2 rotis or 1 cup brown rice': '2 रोटी या 1 कटोरी ब्राउन राइस',
+  'Dal': 'दाल',
+  'Vegetable sabzi': 'सब्ज़ी',
+  'Salad': 'सलाद',
+  'Curd or buttermilk': 'दही या छाछ',
+  'Roasted chana': 'भुने चने',
+  'Grilled paneer, chicken or fish': 'ग्रिल्ड पनीर, चिकन या मछली',
+  '1 roti': '1 रोटी',
+  'Steamed vegetables': 'भाप में पकी सब्ज़ियाँ',
+  'Stay hydrated - drink at least 8-10 glasses of water daily': 'पानी पीते रहें - रोज़ कम से कम 8-10 गिलास पानी पिएँ',
+  'Include protein in every meal to maintain muscle mass': 'मांसपेशियाँ बनाए रखने के लिए हर भोजन में प्रोटीन लें',
+  'Choose complex carbohydrates over simple sugars': 'साधारण चीनी की जगह साबुत अनाज जैसे कॉम्प्लेक्स कार्बोहाइड्रेट चुनें',
+  'Eat plenty of colorful vegetables for micronutrients': 'विटामिन और खनिजों के लिए रंग-बिरंगी सब्ज़ियाँ भरपूर खाएँ',
+  'Practice portion control and mindful eating': 'सीमित मात्रा में और ध्यान से खाएँ',
+  'Avoid processed foods and added sugars': 'प्रोसेस्ड खाने और ऊपर से डाली गई चीनी से बचें',
+  'Plan your meals in advance to avoid unhealthy choices': 'अस्वस्थ विकल्पों से बचने के लिए अपने भोजन की योजना पहले से बनाएँ',
+
+  // Exercise
+  'Monday': 'सोमवार',
+  'Tuesday': 'मंगलवार',
+  'Wednesday': 'बुधवार',
+  'Thursday': 'गुरुवार',
+  'Friday': 'शुक्रवार',
+  'Saturday': 'शनिवार',
+  'Sunday': 'रविवार',
+  'Strength Training': 'स्ट्रेंथ ट्रेनिंग',
+  'Cardio': 'कार्डियो',
+  'Active Recovery': 'हल्की रिकवरी',
+  'Full Body Workout': 'पूरे शरीर की कसरत',
+  'Cardio & Flexibility': 'कार्डियो और लचीलापन',
+  'Rest Day': 'आराम का दिन',
+  'Push-ups': 'पुश-अप्स',
+  'Squats': 'स्क्वॉट्स',
+  'Lunges': 'लंजेस',
+  'Plank': 'प्लैंक',
+  'Brisk Walking': 'तेज़ चलना',
+  'Jumping Jacks': 'जंपिंग जैक्स',
+  'Mountain Climbers': 'माउंटेन क्लाइंबर्स',
+  'Wall Sits': 'वॉल सिट',
+  'Arm Circles': 'आर्म सर्कल्स',
+  'Crunches': 'क्रंचेस',
+  'Yoga/Stretching': 'योग/स्ट्रेचिंग',
+  'Light Walking': 'हल्की सैर',
+  'Burpees': 'बर्पीज़',
+  'Dancing or Cycling': 'डांस या साइकिलिंग',
+  'Stretching': 'स्ट्रेचिंग',
+  'Complete Rest or Light Walk': 'पूरा आराम या हल्की सैर',
+  '10 each leg': 'हर पैर से 10',
+  '10 each direction': 'हर दिशा में 10',
+  '30 seconds': '30 सेकंड',
+  '45 seconds': '45 सेकंड',
+  'Start slowly and gradually increase intensity': 'धीरे शुरू करें और तीव्रता धीरे-धीरे बढ़ाएँ',
+  'Focus on proper form over speed or weight': 'रफ़्तार या वज़न से ज़्यादा सही तरीके पर ध्यान दें',
+  'Listen to your body and rest when needed': 'अपने शरीर की सुनें और ज़रूरत हो तो आराम करें',
+  'Stay consistent - aim for at least 150 minutes of moderate exercise per week': 'नियमित रहें - हर हफ़्ते कम से कम 150 मिनट मध्यम व्यायाम का लक्ष्य रखें',
+  'Include both cardio and strength training in your routine': 'अपनी दिनचर्या में कार्डियो और स्ट्रेंथ ट्रेनिंग दोनों शामिल करें',
+  'Warm up before exercising and cool down afterwards': 'व्यायाम से पहले वार्म-अप और बाद में कूल-डाउन करें',
+  'Find activities you enjoy to maintain long-term adherence': 'ऐसी गतिविधियाँ चुनें जिनमें मज़ा आए, ताकि आप लंबे समय तक टिके रहें',
+
+  // Lifestyle
+  'Aim for 7-9 hours of quality sleep each night': 'हर रात 7-9 घंटे की अच्छी नींद लें',
+  'Maintain a consistent sleep schedule': 'सोने और जागने का समय तय रखें',
+  'Avoid screens 1 hour before bedtime': 'सोने से 1 घंटा पहले स्क्रीन से दूर रहें',
+  'Avoid caffeine 6 hours before bedtime': 'सोने से 6 घंटे पहले चाय-कॉफ़ी न लें',
+  'Practice deep breathing or pranayama for 5-10 minutes daily': 'रोज़ 5-10 मिनट गहरी साँस या प्राणायाम करें',
+  'Try meditation or mindfulness practices': 'ध्यान या माइंडफुलनेस का अभ्यास करें',
+  'Take short breaks throughout your workday': 'काम के दौरान बीच-बीच में छोटे ब्रेक लें',
+  'Maintain social connections with family and friends': 'परिवार और दोस्तों से जुड़े रहें',
+  'Vitamin D3 (especially if limited sun exposure)': 'विटामिन D3 (खासकर अगर धूप कम मिलती है)',
+  'Omega-3 fatty acids (if not eating fish regularly)': 'ओमेगा-3 फैटी एसिड (अगर नियमित रूप से मछली नहीं खाते)',
+  'Calcium and Magnesium (for bone health)': 'कैल्शियम और मैग्नीशियम (हड्डियों की सेहत के लिए)',
+  'Iron (if experiencing heavy periods)': 'आयरन (अगर पीरियड्स में ज़्यादा रक्तस्राव होता है)'
+}
+
+const mr: Translations = {
+  // Meals
+  'Breakfast': 'न्याहारी',
+  'Mid-Morning Snack': 'सकाळचा अल्पोपहार',
+  'Lunch': 'दुपारचे जेवण',
+  'Evening Snack': 'संध्याकाळचा अल्पोपहार',
+  'Dinner': 'रात्रीचे जेवण',
+  'Vegetable poha or oats with nuts': 'भाज्या घातलेले पोहे किंवा सुकामेवा घातलेले ओट्स',
+  'Green tea': 'ग्रीन टी',
+  'Banana': 'केळे',
+  'Handful of mixed nuts': 'मूठभर मिश्र सुकामेवा',
+  'Seasonal fruit': 'हंगामी फळ',
+  '2 rotis or 1 cup brown rice': '2 पोळ्या किंवा 1 वाटी ब्राउन राइस',
+  'Dal': 'वरण',
+  'Vegetable sabzi': 'भाजी',
+  'Salad': 'कोशिंबीर',
+  'Curd or buttermilk': 'दही किंवा ताक',
+  'Roasted chana': 'भाजलेले चणे',
+  'Grilled paneer, chicken or fish': 'ग्रिल केलेले पनीर, चिकन किंवा मासे',
+  '1 roti': '1 पोळी',
+  'Steamed vegetables': 'वाफवलेल्या भाज्या',
+  'Stay hydrated - drink at least 8-10 glasses of water daily': 'पुरेसे पाणी प्या - रोज किमान 8-10 ग्लास पाणी प्या',
+  'Include protein in every meal to maintain muscle mass': 'स्नायू टिकवण्यासाठी प्रत्येक जेवणात प्रथिने घ्या',
+  'Choose complex carbohydrates over simple sugars': 'साध्या साखरेऐवजी अख्खी धान्ये यांसारखी कॉम्प्लेक्स कर्बोदके निवडा',
+  'Eat plenty of colorful vegetables for micronutrients': 'जीवनसत्त्वे आणि खनिजांसाठी रंगीबेरंगी भाज्या भरपूर खा',
+  'Practice portion control and mindful eating': 'प्रमाणात आणि लक्षपूर्वक खा',
+  'Avoid processed foods and added sugars': 'प्रक्रिया केलेले पदार्थ आणि वरून घातलेली साखर टाळा',
+  'Plan your meals in advance to avoid unhealthy choices': 'अनारोग्यकारक पर्याय टाळण्यासाठी जेवणाचे आधीच नियोजन करा',
+
+  // Exercise
+  'Monday': 'सोमवार',
+  'Tuesday': 'मंगळवार',
+  'Wednesday': 'बुधवार',
+  'Thursday': 'गुरुवार',
+  'Friday': 'शुक्रवार',
+  'Saturday': 'शनिवार',
+  'Sunday': 'रविवार',
+  'Strength Training': 'स्ट्रेंथ ट्रेनिंग',
+  'Cardio': 'कार्डिओ',
+  'Active Recovery': 'हलकी रिकव्हरी',
+  'Full Body Workout': 'संपूर्ण शरीराचा व्यायाम',
+  'Cardio & Flexibility': 'कार्डिओ आणि लवचिकता',
+  'Rest Day': 'विश्रांतीचा दिवस',
+  'Push-ups': 'पुश-अप्स',
+  'Squats': 'स्क्वॉट्स',
+  'Lunges': 'लंजेस',
+  'Plank': 'प्लँक',
+  'Brisk Walking': 'जलद चालणे',
+  'Jumping Jacks': 'जंपिंग जॅक्स',
+  'Mountain Climbers': 'माउंटन क्लाइंबर्स',
+  'Wall Sits': 'वॉल सिट',
+  'Arm Circles': 'आर्म सर्कल्स',
+  'Crunches': 'क्रंचेस',
+  'Yoga/Stretching': 'योग/स्ट्रेचिंग',
+  'Light Walking': 'हलके चालणे',
+  'Burpees': 'बर्पीज',
+  'Dancing or Cycling': 'नृत्य किंवा सायकलिंग',
+  'Stretching': 'स्ट्रेचिंग',
+  'Complete Rest or Light Walk': 'पूर्ण विश्रांती किंवा हलके चालणे',
+  '10 each leg': 'प्रत्येक पायाने 10',
+  '10 each direction': 'प्रत्येक दिशेने 10',
+  '30 seconds': '30 सेकंद',
+  '45 seconds': '45 सेकंद',
+  'Start slowly and gradually increase intensity': 'हळू सुरुवात करा आणि तीव्रता हळूहळू वाढवा',
+  'Focus on proper form over speed or weight': 'वेग किंवा वजनापेक्षा योग्य पद्धतीकडे लक्ष द्या',
+  'Listen to your body and rest when needed': 'शरीराचे ऐका आणि गरज असेल तेव्हा विश्रांती घ्या',
+  'Stay consistent - aim for at least 150 minutes of moderate exercise per week': 'नियमित राहा - दर आठवड्याला किमान 150 मिनिटे मध्यम व्यायामाचे ध्येय ठेवा',
+  'Include both cardio and strength training in your routine': 'दिनक्रमात कार्डिओ आणि स्ट्रेंथ ट्रेनिंग दोन्हींचा समावेश करा',
+  'Warm up before exercising and cool down afterwards': 'व्यायामापूर्वी वॉर्म-अप आणि नंतर कूल-डाउन करा',
+  'Find activities you enjoy to maintain long-term adherence': 'दीर्घकाळ टिकून राहण्यासाठी आवडणारे व्यायाम निवडा',
+
+  // Lifestyle
+  'Aim for 7-9 hours of quality sleep each night': 'दररोज रात्री 7-9 तास चांगली झोप घ्या',
+  'Maintain a consistent sleep schedule': 'झोपण्याची आणि उठण्याची वेळ ठरलेली ठेवा',
+  'Avoid screens 1 hour before bedtime': 'झोपण्यापूर्वी 1 तास स्क्रीन टाळा',
+  'Avoid caffeine 6 hours before bedtime': 'झोपण्यापूर्वी 6 तास चहा-कॉफी टाळा',
+  'Practice deep breathing or pranayama for 5-10 minutes daily': 'रोज 5-10 मिनिटे दीर्घ श्वसन किंवा प्राणायाम करा',
+  'Try meditation or mindfulness practices': 'ध्यान किंवा माइंडफुलनेसचा सराव करा',
+  'Take short breaks throughout your workday': 'कामाच्या दिवसात मधूनमधून छोटे ब्रेक घ्या',
+  'Maintain social connections with family and friends': 'कुटुंब आणि मित्रांच्या संपर्कात राहा',
+  'Vitamin D3 (especially if limited sun exposure)': 'व्हिटॅमिन D3 (विशेषतः ऊन कमी मिळत असल्यास)',
+  'Omega-3 fatty acids (if not eating fish regularly)': 'ओमेगा-3 फॅटी ॲसिड (नियमितपणे मासे खात नसल्यास)',
+  'Calcium and Magnesium (for bone health)': 'कॅल्शियम आणि मॅग्नेशियम (हाडांच्या आरोग्यासाठी)',
+  'Iron (if experiencing heavy periods)': 'लोह (मासिक पाळीत जास्त रक्तस्राव होत असल्यास)'
+}
+
+const ta: Translations = {
+  // Meals
+  'Breakfast': 'காலை உணவு',
+  'Mid-Morning Snack': 'முற்பகல் சிற்றுண்டி',
+  'Lunch': 'மதிய உணவு',
+  'Evening Snack': 'மாலைச் சிற்றுண்டி',
+  'Dinner': 'இரவு உணவு',
+  'Vegetable poha or oats with nuts': 'காய்கறி அவல் அல்லது கொட்டைகளுடன் ஓட்ஸ்',
+  'Green tea': 'கிரீன் டீ',
+  'Banana': 'வாழைப்பழம்',
+  'Handful of mixed nuts': 'ஒரு கைப்பிடி கலந்த கொட்டைகள்',
+  'Seasonal fruit': 'பருவகாலப் பழம்',
+  '2 rotis or 1 cup brown rice': '2 சப்பாத்தி அல்லது 1 கப் பழுப்பு அரிசி சாதம்',
+  'Dal': 'பருப்பு',
+  'Vegetable sabzi': 'காய்கறிப் பொரியல்',
+  'Salad': 'சாலட்',
+  'Curd or buttermilk': 'தயிர் அல்லது மோர்',
+  'Roasted chana': 'வறுத்த கொண்டைக்கடலை',
+  'Grilled paneer, chicken or fish': 'கிரில் செய்த பனீர், சிக்கன் அல்லது மீன்',
+  '1 roti': '1 சப்பாத்தி',
+  'Steamed vegetables': 'ஆவியில் வேகவைத்த காய்கறிகள்',
+  'Stay hydrated - drink at least 8-10 glasses of water daily': 'நீர்ச்சத்துடன் இருங்கள் - தினமும் குறைந்தது 8-10 டம்ளர் தண்ணீர் குடியுங்கள்',
+  'Include protein in every meal to maintain muscle mass': 'தசைகளைப் பராமரிக்க ஒவ்வொரு உணவிலும் புரதம் சேருங்கள்',
+  'Choose complex carbohydrates over simple sugars': 'சர்க்கரைக்குப் பதிலாக முழு தானியங்கள் போன்ற சிக்கலான மாவுச்சத்தைத் தேர்ந்தெடுங்கள்',
+  'Eat plenty of colorful vegetables for micronutrients': 'வைட்டமின்கள் மற்றும் தாதுக்களுக்கு பல வண்ணக் காய்கறிகளை நிறைய சாப்பிடுங்கள்',
+  'Practice portion control and mindful eating': 'அளவோடும் கவனத்தோடும் சாப்பிடுங்கள்',
+  'Avoid processed foods and added sugars': 'பதப்படுத்திய உணவுகளையும் கூடுதல் சர்க்கரையையும் தவிர்க்கவும்',
+  'Plan your meals in advance to avoid unhealthy choices': 'ஆரோக்கியமற்ற தேர்வுகளைத் தவிர்க்க உணவை முன்கூட்டியே திட்டமிடுங்கள்',
+
+  // Exercise
+  'Monday': 'திங்கள்',
+  'Tuesday': 'செவ்வாய்',
+  'Wednesday': 'புதன்',
+  'Thursday': 'வியாழன்',
+  'Friday': 'வெள்ளி',
+  'Saturday': 'சனி',
+  'Sunday': 'ஞாயிறு',
+  'Strength Training': 'வலிமைப் பயிற்சி',
+  'Cardio': 'கார்டியோ',
+  'Active Recovery': 'லேசான மீட்புப் பயிற்சி',
+  'Full Body Workout': 'முழு உடல் பயிற்சி',
+  'Cardio & Flexibility': 'கார்டியோ மற்றும் நெகிழ்வுத்தன்மை',
+  'Rest Day': 'ஓய்வு நாள்',
+  'Push-ups': 'புஷ்-அப்ஸ்',
+  'Squats': 'ஸ்குவாட்ஸ்',
+  'Lunges': 'லஞ்சஸ்',
+  'Plank': 'பிளாங்க்',
+  'Brisk Walking': 'வேகமான நடை',
+  'Jumping Jacks': 'ஜம்பிங் ஜாக்ஸ்',
+  'Mountain Climbers': 'மவுண்டன் கிளைம்பர்ஸ்',
+  'Wall Sits': 'வால் சிட்',
+  'Arm Circles': 'கைச் சுழற்சி',
+  'Crunches': 'க்ரஞ்சஸ்',
+  'Yoga/Stretching': 'யோகா/நீட்சிப் பயிற்சி',
+  'Light Walking': 'லேசான நடை',
+  'Burpees': 'பர்பீஸ்',
+  'Dancing or Cycling': 'நடனம் அல்லது சைக்கிள் ஓட்டுதல்',
+  'Stretching': 'நீட்சிப் பயிற்சி',
+  'Complete Rest or Light Walk': 'முழு ஓய்வு அல்லது லேசான நடை',
+  '10 each leg': 'ஒவ்வொரு காலுக்கும் 10',
+  '10 each direction': 'ஒவ்வொரு திசையிலும் 10',
+  '30 seconds': '30 விநாடிகள்',
+  '45 seconds': '45 விநாடிகள்',
+  'Start slowly and gradually increase intensity': 'மெதுவாகத் தொடங்கி படிப்படியாகத் தீவிரத்தை அதிகரிக்கவும்',
+  'Focus on proper form over speed or weight': 'வேகம் அல்லது எடையை விட சரியான முறையில் கவனம் செலுத்துங்கள்',
+  'Listen to your body and rest when needed': 'உடலின் சொல்லைக் கேட்டு தேவைப்படும்போது ஓய்வெடுங்கள்',
+  'Stay consistent - aim for at least 150 minutes of moderate exercise per week': 'தொடர்ந்து செய்யுங்கள் - வாரத்திற்குக் குறைந்தது 150 நிமிட மிதமான உடற்பயிற்சியை இலக்காகக் கொள்ளுங்கள்',
+  'Include both cardio and strength training in your routine': 'உங்கள் வழக்கத்தில் கார்டியோ மற்றும் வலிமைப் பயிற்சி இரண்டையும் சேருங்கள்',
+  'Warm up before exercising and cool down afterwards': 'உடற்பயிற்சிக்கு முன் வார்ம்-அப், பின் கூல்-டவுன் செய்யுங்கள்',
+  'Find activities you enjoy to maintain long-term adherence': 'நீண்ட காலம் தொடர உங்களுக்குப் பிடித்த செயல்பாடுகளைத் தேர்ந்தெடுங்கள்',
+
+  // Lifestyle
+  'Aim for 7-9 hours of quality sleep each night': 'ஒவ்வொரு இரவும் 7-9 மணி நேரம் நல்ல தூக்கம் பெறுங்கள்',
+  'Maintain a consistent sleep schedule': 'தூங்கும் மற்றும் எழும் நேரத்தை ஒரே மாதிரி வைத்திருங்கள்',
+  'Avoid screens 1 hour before bedtime': 'தூங்குவதற்கு 1 மணி நேரம் முன் திரைகளைத் தவிர்க்கவும்',
+  'Avoid caffeine 6 hours before bedtime': 'தூங்குவதற்கு 6 மணி நேரம் முன் டீ, காபியைத் தவிர்க்கவும்',
+  'Practice deep breathing or pranayama for 5-10 minutes daily': 'தினமும் 5-10 நிமிடம் ஆழ்ந்த சுவாசம் அல்லது பிராணாயாமம் செய்யுங்கள்',
+  'Try meditation or mindfulness practices': 'தியானம் அல்லது மனநிறைவுப் பயிற்சிகளை முயற்சிக்கவும்',
+  'Take short breaks throughout your workday': 'வேலை நாளில் இடையிடையே சிறு இடைவேளை எடுங்கள்',
+  'Maintain social connections with family and friends': 'குடும்பம் மற்றும் நண்பர்களுடன் தொடர்பில் இருங்கள்',
+  'Vitamin D3 (especially if limited sun exposure)': 'வைட்டமின் D3 (குறிப்பாக வெயில் குறைவாகப் பட்டால்)',
+  'Omega-3 fatty acids (if not eating fish regularly)': 'ஒமேகா-3 கொழுப்பு அமிலங்கள் (மீன் தொடர்ந்து சாப்பிடாவிட்டால்)',
+  'Calcium and Magnesium (for bone health)': 'கால்சியம் மற்றும் மெக்னீசியம் (எலும்பு ஆரோக்கியத்திற்கு)',
+  'Iron (if experiencing heavy periods)': 'இரும்புச்சத்து (மாதவிடாயில் அதிக உதிரப்போக்கு இருந்தால்)'
+}
+
+const te: Translations = {
+  // Meals
+  'Breakfast': 'అల్పాహారం',
+  'Mid-Morning Snack': 'మధ్యాహ్నానికి ముందు చిరుతిండి',
+  'Lunch': 'మధ్యాహ్న భోజనం',
+  'Evening Snack': 'సాయంత్రం చిరుతిండి',
+  'Dinner': 'రాత్రి భోజనం',
+  'Vegetable poha or oats with nuts': 'కూరగాయల అటుకులు లేదా గింజలతో ఓట్స్',
+  'Green tea': 'గ్రీన్ టీ',
+  'Banana': 'అరటిపండు',
+  'Handful of mixed nuts': 'గుప్పెడు మిశ్రమ గింజలు',
+  'Seasonal fruit': 'సీజనల్ పండు',
+  '2 rotis or 1 cup brown rice': '2 చపాతీలు లేదా 1 కప్పు బ్రౌన్ రైస్',
+  'Dal': 'పప్పు',
+  'Vegetable sabzi': 'కూరగాయల కూర',
+  'Salad': 'సలాడ్',
+  'Curd or buttermilk': 'పెరుగు లేదా మజ్జిగ',
+  'Roasted chana': 'వేయించిన శనగలు',
+  'Grilled paneer, chicken or fish': 'గ్రిల్ చేసిన పనీర్, చికెన్ లేదా చేప',
+  '1 roti': '1 చపాతీ',
+  'Steamed vegetables': 'ఆవిరిపై ఉడికించిన కూరగాయలు',
+  'Stay hydrated - drink at least 8-10 glasses of water daily': 'తగినంత నీరు తాగండి - రోజూ కనీసం 8-10 గ్లాసుల నీళ్లు తాగండి',
+  'Include protein in every meal to maintain muscle mass': 'కండరాలను కాపాడుకోవడానికి ప్రతి భోజనంలో ప్రోటీన్ ఉండేలా చూడండి',
+  'Choose complex carbohydrates over simple sugars': 'చక్కెరకు బదులు తృణధాన్యాల వంటి కాంప్లెక్స్ కార్బోహైడ్రేట్లను ఎంచుకోండి',
+  'Eat plenty of colorful vegetables for micronutrients': 'విటమిన్లు, ఖనిజాల కోసం రంగురంగుల కూరగాయలు ఎక్కువగా తినండి',
+  'Practice portion control and mindful eating': 'మితంగా, శ్రద్ధగా తినండి',
+  'Avoid processed foods and added sugars': 'ప్రాసెస్ చేసిన ఆహారాలు, అదనపు చక్కెరను నివారించండి',
+  'Plan your meals in advance to avoid unhealthy choices': 'అనారోగ్యకరమైన ఎంపికలను నివారించడానికి భోజనాన్ని ముందుగానే ప్లాన్ చేసుకోండి',
+
+  // Exercise
+  'Monday': 'సోమవారం',
+  'Tuesday': 'మంగళవారం',
+  'Wednesday': 'బుధవారం',
+  'Thursday': 'గురువారం',
+  'Friday': 'శుక్రవారం',
+  'Saturday': 'శనివారం',
+  'Sunday': 'ఆదివారం',
+  'Strength Training': 'స్ట్రెంగ్త్ ట్రైనింగ్',
+  'Cardio': 'కార్డియో',
+  'Active Recovery': 'తేలికపాటి రికవరీ',
+  'Full Body Workout': 'పూర్తి శరీర వ్యాయామం',
+  'Cardio & Flexibility': 'కార్డియో మరియు ఫ్లెక్సిబిలిటీ',
+  'Rest Day': 'విశ్రాంతి రోజు',
+  'Push-ups': 'పుష్-అప్స్',
+  'Squats': 'స్క్వాట్స్',
+  'Lunges': 'లంజెస్',
+  'Plank': 'ప్లాంక్',
+  'Brisk Walking': 'వేగంగా నడక',
+  'Jumping Jacks': 'జంపింగ్ జాక్స్',
+  'Mountain Climbers': 'మౌంటెన్ క్లైంబర్స్',
+  'Wall Sits': 'వాల్ సిట్',
+  'Arm Circles': 'ఆర్మ్ సర్కిల్స్',
+  'Crunches': 'క్రంచెస్',
+  'Yoga/Stretching': 'యోగా/స్ట్రెచింగ్',
+  'Light Walking': 'తేలికపాటి నడక',
+  'Burpees': 'బర్పీస్',
+  'Dancing or Cycling': 'డ్యాన్స్ లేదా సైక్లింగ్',
+  'Stretching': 'స్ట్రెచింగ్',
+  'Complete Rest or Light Walk': 'పూర్తి విశ్రాంతి లేదా తేలికపాటి నడక',
+  '10 each leg': 'ఒక్కో కాలికి 10',
+  '10 each direction': 'ఒక్కో వైపు 10',
+  '30 seconds': '30 సెకన్లు',
+  '45 seconds': '45 సెకన్లు',
+  'Start slowly and gradually increase intensity': 'నెమ్మదిగా ప్రారంభించి తీవ్రతను క్రమంగా పెంచండి',
+  'Focus on proper form over speed or weight': 'వేగం లేదా బరువు కంటే సరైన పద్ధతిపై దృష్టి పెట్టండి',
+  'Listen to your body and rest when needed': 'మీ శరీరం చెప్పేది విని, అవసరమైనప్పుడు విశ్రాంతి తీసుకోండి',
+  'Stay consistent - aim for at least 150 minutes of moderate exercise per week': 'క్రమం తప్పకుండా చేయండి - వారానికి కనీసం 150 నిమిషాల మితమైన వ్యాయామం లక్ష్యంగా పెట్టుకోండి',
+  'Include both cardio and strength training in your routine': 'మీ దినచర్యలో కార్డియో, స్ట్రెంగ్త్ ట్రైనింగ్ రెండూ ఉండేలా చూడండి',
+  'Warm up before exercising and cool down afterwards': 'వ్యాయామానికి ముందు వార్మ్-అప్, తర్వాత కూల్-డౌన్ చేయండి',
+  'Find activities you enjoy to maintain long-term adherence': 'దీర్ఘకాలం కొనసాగించడానికి మీకు నచ్చిన వ్యాయామాలను ఎంచుకోండి',
+
+  // Lifestyle
+  'Aim for 7-9 hours of quality sleep each night': 'ప్రతి రాత్రి 7-9 గంటలు మంచి నిద్ర పోండి',
+  'Maintain a consistent sleep schedule': 'నిద్రపోయే, లేచే సమయాన్ని ఒకేలా ఉంచండి',
+  'Avoid screens 1 hour before bedtime': 'నిద్రకు 1 గంట ముందు స్క్రీన్లకు దూరంగా ఉండండి',
+  'Avoid caffeine 6 hours before bedtime': 'నిద్రకు 6 గంటల ముందు టీ, కాఫీ మానండి',
+  'Practice deep breathing or pranayama for 5-10 minutes daily': 'రోజూ 5-10 నిమిషాలు లోతైన శ్వాస లేదా ప్రాణాయామం చేయండి',
+  'Try meditation or mindfulness practices': 'ధ్యానం లేదా మైండ్‌ఫుల్‌నెస్ సాధన చేయండి',
+  'Take short breaks throughout your workday': 'పని మధ్యలో చిన్న విరామాలు తీసుకోండి',
+  'Maintain social connections with family and friends': 'కుటుంబం, స్నేహితులతో సంబంధాలు కొనసాగించండి',
+  'Vitamin D3 (especially if limited sun exposure)': 'విటమిన్ D3 (ముఖ్యంగా ఎండ తక్కువగా తగిలితే)',
+  'Omega-3 fatty acids (if not eating fish regularly)': 'ఒమేగా-3 ఫ్యాటీ యాసిడ్లు (చేపలు క్రమం తప్పకుండా తినకపోతే)',
+  'Calcium and Magnesium (for bone health)': 'కాల్షియం మరియు మెగ్నీషియం (ఎముకల ఆరోగ్యానికి)',
+  'Iron (if experiencing heavy periods)': 'ఐరన్ (నెలసరిలో ఎక్కువ రక్తస్రావం అయితే)'
+}
+
+const bn: Translations = {
+  // Meals
+  'Breakfast': 'সকালের জলখাবার',
+  'Mid-Morning Snack': 'দুপুরের আগের হালকা খাবার',
+  'Lunch': 'দুপুরের খাবার',
+  'Evening Snack': 'বিকেলের জলখাবার',
+  'Dinner': 'রাতের খাবার',
+  'Vegetable poha or oats with nuts': 'সবজি দিয়ে চিঁড়ে বা বাদাম দিয়ে ওটস',
+  'Green tea': 'গ্রিন টি',
+  'Banana': 'কলা',
+  'Handful of mixed nuts': 'এক মুঠো মিশ্র বাদাম',
+  'Seasonal fruit': 'মরসুমি ফল',
+  '2 rotis or 1 cup brown rice': '2টি রুটি বা 1 কাপ ব্রাউন রাইস',
+  'Dal': 'ডাল',
+  'Vegetable sabzi': 'সবজির তরকারি',
+  'Salad': 'স্যালাড',
+  'Curd or buttermilk': 'দই বা ঘোল',
+  'Roasted chana': 'ভাজা ছোলা',
+  'Grilled paneer, chicken or fish': 'গ্রিল করা পনির, চিকেন বা মাছ',
+  '1 roti': '1টি রুটি',
+  'Steamed vegetables': 'ভাপানো সবজি',
+  'Stay hydrated - drink at least 8-10 glasses of water daily': 'শরীরে জলের অভাব হতে দেবেন না - রোজ অন্তত 8-10 গ্লাস জল খান',
+  'Include protein in every meal to maintain muscle mass': 'পেশি ধরে রাখতে প্রতিটি খাবারে প্রোটিন রাখুন',
+  'Choose complex carbohydrates over simple sugars': 'চিনির বদলে গোটা শস্যের মতো কমপ্লেক্স কার্বোহাইড্রেট বেছে নিন',
+  'Eat plenty of colorful vegetables for micronutrients': 'ভিটামিন ও খনিজের জন্য নানা রঙের সবজি বেশি করে খান',
+  'Practice portion control and mindful eating': 'পরিমাণ মেপে ও মন দিয়ে খান',
+  'Avoid processed foods and added sugars': 'প্রক্রিয়াজাত খাবার ও বাড়তি চিনি এড়িয়ে চলুন',
+  'Plan your meals in advance to avoid unhealthy choices': 'অস্বাস্থ্যকর খাবার এড়াতে আগে থেকে খাবারের পরিকল্পনা করুন',
+
+  // Exercise
+  'Monday': 'সোমবার',
+  'Tuesday': 'মঙ্গলবার',
+  'Wednesday': 'বুধবার',
+  'Thursday': 'বৃহস্পতিবার',
+  'Friday': 'শুক্রবার',
+  'Saturday': 'শনিবার',
+  'Sunday': 'রবিবার',
+  'Strength Training': 'স্ট্রেংথ ট্রেনিং',
+  'Cardio': 'কার্ডিও',
+  'Active Recovery': 'হালকা রিকভারি',
+  'Full Body Workout': 'পুরো শরীরের ব্যায়াম',
+  'Cardio & Flexibility': 'কার্ডিও ও নমনীয়তা',
+  'Rest Day': 'বিশ্রামের দিন',
+  'Push-ups': 'পুশ-আপ',
+  'Squats': 'স্কোয়াট',
+  'Lunges': 'লাঞ্জ',
+  'Plank': 'প্ল্যাঙ্ক',
+  'Brisk Walking': 'দ্রুত হাঁটা',
+  'Jumping Jacks': 'জাম্পিং জ্যাক',
+  'Mountain Climbers': 'মাউন্টেন ক্লাইম্বার',
+  'Wall Sits': 'ওয়াল সিট',
+  'Arm Circles': 'আর্ম সার্কেল',
+  'Crunches': 'ক্রাঞ্চ',
+  'Yoga/Stretching': 'যোগব্যায়াম/স্ট্রেচিং',
+  'Light Walking': 'হালকা হাঁটা',
+  'Burpees': 'বারপি',
+  'Dancing or Cycling': 'নাচ বা সাইকেল চালানো',
+  'Stretching': 'স্ট্রেচিং',
+  'Complete Rest or Light Walk': 'সম্পূর্ণ বিশ্রাম বা হালকা হাঁটা',
+  '10 each leg': 'প্রতি পায়ে 10',
+  '10 each direction': 'প্রতি দিকে 10',
+  '30 seconds': '30 সেকেন্ড',
+  '45 seconds': '45 সেকেন্ড',
+  'Start slowly and gradually increase intensity': 'ধীরে শুরু করুন এবং ধাপে ধাপে তীব্রতা বাড়ান',
+  'Focus on proper form over speed or weight': 'গতি বা ওজনের চেয়ে সঠিক ভঙ্গিতে মন দিন',
+  'Listen to your body and rest when needed': 'শরীরের কথা শুনুন এবং দরকার হলে বিশ্রাম নিন',
+  'Stay consistent - aim for at least 150 minutes of moderate exercise per week': 'নিয়মিত থাকুন - সপ্তাহে অন্তত 150 মিনিট মাঝারি ব্যায়ামের লক্ষ্য রাখুন',
+  'Include both cardio and strength training in your routine': 'রুটিনে কার্ডিও ও স্ট্রেংথ ট্রেনিং দুটোই রাখুন',
+  'Warm up before exercising and cool down afterwards': 'ব্যায়ামের আগে ওয়ার্ম-আপ ও পরে কুল-ডাউন করুন',
+  'Find activities you enjoy to maintain long-term adherence': 'দীর্ঘদিন চালিয়ে যেতে পছন্দের ব্যায়াম বেছে নিন',
+
+  // Lifestyle
+  'Aim for 7-9 hours of quality sleep each night': 'প্রতি রাতে 7-9 ঘণ্টা ভালো ঘুমের চেষ্টা করুন',
+  'Maintain a consistent sleep schedule': 'ঘুমোনো ও ওঠার সময় একই রাখুন',
+  'Avoid screens 1 hour before bedtime': 'ঘুমোনোর 1 ঘণ্টা আগে স্ক্রিন এড়িয়ে চলুন',
+  'Avoid caffeine 6 hours before bedtime': 'ঘুমোনোর 6 ঘণ্টা আগে চা-কফি এড়িয়ে চলুন',
+  'Practice deep breathing or pranayama for 5-10 minutes daily': 'রোজ 5-10 মিনিট গভীর শ্বাস বা প্রাণায়াম করুন',
+  'Try meditation or mindfulness practices': 'ধ্যান বা মাইন্ডফুলনেস অভ্যাস করুন',
+  'Take short breaks throughout your workday': 'কাজের মাঝে মাঝে ছোট বিরতি নিন',
+  'Maintain social connections with family and friends': 'পরিবার ও বন্ধুদের সঙ্গে যোগাযোগ রাখুন',
+  'Vitamin D3 (especially if limited sun exposure)': 'ভিটামিন D3 (বিশেষ করে রোদ কম লাগলে)',
+  'Omega-3 fatty acids (if not eating fish regularly)': 'ওমেগা-3 ফ্যাটি অ্যাসিড (নিয়মিত মাছ না খেলে)',
+  'Calcium and Magnesium (for bone health)': 'ক্যালসিয়াম ও ম্যাগনেসিয়াম (হাড়ের স্বাস্থ্যের জন্য)',
+  'Iron (if experiencing heavy periods)': 'আয়রন (ঋতুস্রাবে বেশি রক্তপাত হলে)'
+}
+
+export const RULE_TRANSLATIONS: Record<Exclude<LanguageCode, 'en'>, Translations> = { hi, mr, ta, te, bn }
+
+export function translateRuleText(text: string, language: LanguageCode): string {
+  if (language === 'en') return text
+  return RULE_TRANSLATIONS[language][text] ?? text
+}
+
+interface RuleTemplates {
+  hydration: (litres: number) => string
+  summary: (dailyCalories: number, protein: number, activeDays: number) => string
+}
+
+export const RULE_TEMPLATES: Record<LanguageCode, RuleTemplates> = {
+  en: {
+    hydration: litres => `Drink about ${litres} litres of water a day, more in hot weather`,
+    summary: (calories, protein, days) =>
+      `Your plan targets about ${calories} calories a day with ${protein} g of protein, ` +
+      `${days} active days a week and simple daily habits for sleep, stress and hydration. ` +
+      'Consult your doctor before starting supplements or if you have a medical condition.'
+  },
+  hi: {
+    hydration: litres => `रोज़ लगभग ${litres} लीटर पानी पिएँ, गर्मी में और ज़्यादा`,
+    summary: (calories, protein, days) =>
+      `आपकी योजना में रोज़ लगभग ${calories} कैलोरी और ${protein} ग्राम प्रोटीन, हफ़्ते में ${days} दिन व्यायाम ` +
+      'और नींद, तनाव व पानी के लिए आसान रोज़ की आदतें शामिल हैं। सप्लीमेंट शुरू करने से पहले या कोई बीमारी हो तो अपने डॉक्टर से सलाह लें।'
+  },
+  mr: {
+    hydration: litres => `दररोज सुमारे ${litres} लिटर पाणी प्या, उन्हाळ्यात जास्त`,
+    summary: (calories, protein, days) =>
+      `तुमच्या योजनेत दररोज सुमारे ${calories} कॅलरी आणि ${protein} ग्रॅम प्रथिने, आठवड्यातून ${days} दिवस व्यायाम ` +
+      'आणि झोप, ताण व पाण्यासाठी सोप्या रोजच्या सवयी आहेत. सप्लिमेंट सुरू करण्यापूर्वी किंवा कोणताही आजार असल्यास डॉक्टरांचा सल्ला घ्या.'
+  },
+  ta: {
+    hydration: litres => `தினமும் சுமார் ${litres} லிட்டர் தண்ணீர் குடியுங்கள், வெயில் காலத்தில் இன்னும் அதிகமாக`,
+    summary: (calories, protein, days) =>
+      `உங்கள் திட்டம் தினமும் சுமார் ${calories} கலோரி, ${protein} கிராம் புரதம், வாரத்தில் ${days} நாட்கள் உடற்பயிற்சி ` +
+      'மற்றும் தூக்கம், மன அழுத்தம், நீர்ச்சத்துக்கான எளிய தினசரி பழக்கங்களை இலக்காகக் கொண்டது. சப்ளிமெண்ட்கள் தொடங்கும் முன் அல்லது உடல்நலப் பிரச்சினை இருந்தால் மருத்துவரை அணுகவும்.'
+  },
+  te: {
+    hydration: litres => `రోజూ సుమారు ${litres} లీటర్ల నీళ్లు తాగండి, ఎండాకాలంలో ఇంకా ఎక్కువ`,
+    summary: (calories, protein, days) =>
+      `మీ ప్రణాళిక రోజుకు సుమారు ${calories} కేలరీలు, ${protein} గ్రాముల ప్రోటీన్, వారానికి ${days} రోజుల వ్యాయామం ` +
+      'మరియు నిద్ర, ఒత్తిడి, నీటి కోసం సులభమైన రోజువారీ అలవాట్లను లక్ష్యంగా పెట్టుకుంది. సప్లిమెంట్లు మొదలుపెట్టే ముందు లేదా ఏదైనా ఆరోగ్య సమస్య ఉంటే డాక్టర్‌ను సంప్రదించండి.'
+  },
+  bn: {
+    hydration: litres => `রোজ প্রায় ${litres} লিটার জল খান, গরমে আরও বেশি`,
+    summary: (calories, protein, days) =>
+      `আপনার পরিকল্পনায় রোজ প্রায় ${calories} ক্যালোরি ও ${protein} গ্রাম প্রোটিন, সপ্তাহে ${days} দিন ব্যায়াম ` +
+      'এবং ঘুম, মানসিক চাপ ও জলের জন্য সহজ দৈনন্দিন অভ্যাস রয়েছে। সাপ্লিমেন্ট শুরু করার আগে বা কোনো অসুখ থাকলে ডাক্তারের পরামর্শ নিন।'
+  }
+}
@@ -0,0 +1,171 @@
+import mongoose from 'mongoose'
+import User from '@/models/User'
+import { normalizeCode } from './pricing'
+import { generateReferralCodeCandidate, getVanityCodeError } from './referral-codes'
+
+type UserId = mongoose.Types.ObjectId | string
+
+// A collision at six random characters is already unlikely; five in a row
+// means something else is wrong
+const MAX_GENERATION_ATTEMPTS = 5
+
+export type VanityCodeResult =
+  | { success: true; code: string }
+  | { success: false; message: string }
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return (error as { code?: number }).code === 11000
+}
+
+/**
+ * The user a referral code belongs to, including codes they've since
+ * replaced with a vanity code
+ */
+export async function findUserByReferralCode(code: string): Promise<{ _id: mongoose.Types.ObjectId } | null> {
+  const normalized = normalizeCode(code)
+  return User.findOne({
+    $or: [{ 'referrals.code': normalized }, { 'referrals.previousCodes': normalized }]
+  })
+    .select('_id')
+    .lean<{ _id: mongoose.Types.ObjectId }>()
+}
+
+async function isCodeTaken(code: string): Promise<boolean> {
+  return (await findUserByReferralCode(code)) !== null
+}
+
+/**
+ * Give a user a referral code if they don't have one yet and return their
+ * code. The unique index on referrals.code settles races; a collision just
+ * means trying another candidate.
+ */
+export async function assignReferralCode(userId: UserId, name: string): Promise<string> {
+  for (let attempt = 0; attempt < MAX_GENERATION_ATTEMPTS; attempt++) {
+    const candidate = generateReferralCodeCandidate(name)
+    if (await isCodeTaken(candidate)) continue
+
+    try {
+      const updated = await User.findOneAndUpdate(
+        { _id: userId, 'referrals.code': null },
+        { $set: { 'referrals.code': candidate } },
+        { new: true }
+      ).select('referrals.code').lean<{ referrals?: { code?: string } }>()
+
+      if (updated?.referrals?.code) {
+        return updated.referrals.code
+      }
+
+      // Someone else assigned one first
+      const existing = await User.findById(userId).select('referrals.code').lean<{ referrals?: { code?: string } }>()
+      if (!existing) {
+        throw new Error('User not found')
+      }
+      if (existing.referrals?.code) {
+        return existing.referrals.code
+      }
+    } catch (error: unknown) {
+      if (!isDuplicateKeyError(error)) throw error
+    }
+  }
+
+  throw new Error('Could not generate a unique referral code')
+}
+
+/**
+ * Swap the user's generated code for one they choose. Each user can do this
+ * once; their old code keeps working for links already shared.
+ */
+export async function claimVanityCode(userId: UserId, requestedCode: string): Promise<VanityCodeResult> {
+  const code = normalizeCode(requestedCode)
+  const codeError = getVanityCodeError(code)
+  if (codeError) {
+    return { success: false, message: codeError }
+  }
+
+  const user = await User.findById(userId)
+    .select('referrals.code referrals.vanityClaimedAt')
+    .lean<{ referrals?: { code?: string; vanityClaimedAt?: Date } }>()
+  if (!user) {
+    return { success: false, message: 'User not found' }
+  }
+  if (user.referrals?.vanityClaimedAt) {
+    return { success: false, message: 'You have already claimed a custom code' }
+  }
+  if (await isCodeTaken(code)) {
+    return { success: false, message: 'This code is already taken' }
+  }
+
+  const currentCode = user.referrals?.code
+  try {
+    const result = await User.updateOne(
+      { _id: userId, 'referrals.code': currentCode ?? null, 'referrals.vanityClaimedAt': null },
+      {
+        $set: { 'referrals.code': code, 'referrals.vanityClaimedAt': new Date() },
+        ...(currentCode && { $push: { 'referrals.previousCodes': currentCode } })
+      }
+    )
+    if (result.modifiedCount === 0) {
+      return { success: false, message: 'You have already claimed a custom code' }
+    }
+  } catch (error: unknown) {
+    if (isDuplicateKeyError(error)) {
+      return { success: false, message: 'This code is already taken' }
+    }
+    throw error
+  }
+
+  return { success: true, code }
+}
+
+export interface ReferralCodeMigrationResult {
+  duplicateCodes: number
+  reassigned: number
+  assigned: number
+}
+
+/**
+ * One-off migration for codes issued before they were guaranteed unique.
+ * The earliest account keeps a shared code and everyone else gets a new one;
+ * accounts without a code get one. Then the unique index is built. Safe to
+ * run again.
+ */
+export async function migrateReferralCodes(): Promise<ReferralCodeMigrationResult> {
+  const result: ReferralCodeMigrationResult = { duplicateCodes: 0, reassigned: 0, assigned: 0 }
+
+  const duplicates = await User.aggregate<{ _id: string; users: Array<{ id: mongoose.Types.ObjectId; name?: string }> }>([
+    { $match: { 'referrals.code': { $type: 'string' } } },
+    { $sort: { createdAt: 1 } },
+    { $group: { _id: '$referrals.code', users: { $push: { id: '$_id', name: '$profile.name' } }, count: { $sum: 1 } } },
+    { $match: { count: { $gt: 1 } } }
+  ])
+
+  for (const duplicate of duplicates) {
+    result.duplicateCodes++
+    for (const user of duplicate.users.slice(1)) {
+      await User.updateOne({ _id: user.id }, { $unset: { 'referrals.code': 1 } })
+      await assignReferralCode(user.id, user.name || '')
+      result.reassigned++
+    }
+  }
+
+  const withoutCode = User.find({ 'referrals.code': null })
+    .select('profile.name')
+    .lean<Array<{ _id: mongoose.Types.ObjectId; profile?: { name?: string } }>>()
+    .cursor({ batchSize: 200 })
+  for await (const user of withoutCode) {
+    await assignReferralCode(user._id, user.profile?.name || '')
+    result.assigned++
+  }
+
+  // The index used to be created without the unique option under the same
+  // name, in which case it has to be dropped first
+  const indexes = await User.collection.indexes()
+  const existing = indexes.find(index => index.name === 'referrals.code_1')
+  if (existing && !existing.unique) {
+    await User.collection.dropIndex('referrals.code_1')
+  }
+  await User.collection.createIndex({ 'referrals.code': 1 }, { unique: true, sparse: true })
+  await User.collection.createIndex({ 'referrals.previousCodes': 1 }, { unique: true, sparse: true })
+
+  return result
+}
@@ -0,0 +1,54 @@
+import { randomInt } from 'crypto'
+
+// Generated codes leave out 0/O, 1/I/L so they survive being read aloud or
+// copied from a screenshot
+export const REFERRAL_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+
+// Up to four letters of the user's name, then random characters. Six random
+// characters give ~887 million codes per prefix.
+export const NAME_PREFIX_LENGTH = 4
+export const RANDOM_SUFFIX_LENGTH = 6
+
+const VANITY_CODE_PATTERN = /^[A-Z0-9]{4,12}$/
+
+// Vanity codes that would look like they come from us
+const RESERVED_CODES = ['ADMIN', 'FITXGEN', 'SUPPORT', 'REFUND', 'PROMO', 'FREE', 'DISCOUNT', 'OFFER']
+
+/**
+ * A candidate referral code, e.g. RAHU7KQ2XM for "Rahul". Uniqueness is left
+ * to the database; callers retry with a fresh candidate on a collision.
+ */
+export function generateReferralCodeCandidate(
+  name: string,
+  random: (max: number) => number = randomInt
+): string {
+  const prefix = name
+    .toUpperCase()
+    .split('')
+    .filter(char => /[A-Z]/.test(char) && REFERRAL_CODE_ALPHABET.includes(char))
+    .slice(0, NAME_PREFIX_LENGTH)
+    .join('')
+
+  let suffix = ''
+  const length = RANDOM_SUFFIX_LENGTH + (NAME_PREFIX_LENGTH - prefix.length)
+  for (let i = 0; i < length; i++) {
+    suffix += REFERRAL_CODE_ALPHABET[random(REFERRAL_CODE_ALPHABET.length)]
+  }
+  return prefix + suffix
+}
+
+/**
+ * Why a code can't be claimed as a vanity code, or null if it can
+ */
+export function getVanityCodeError(code: string): string | null {
+  if (!VANITY_CODE_PATTERN.test(code)) {
+    return 'Codes must be 4-12 letters or numbers'
+  }
+  if (!/[A-Z]/.test(code)) {
+    return 'Codes must contain at least one letter'
+  }
+  if (RESERVED_CODES.some(reserved => code.includes(reserved))) {
+    return 'This code is reserved'
+  }
+  return null
+}
@@ -0,0 +1,111 @@
+// Referral earnings are kept as a ledger of transactions rather than a running
+// total, so every rupee credited, reversed or paid out can be reconciled.
+// Amounts are in rupees: credits are positive, reversals and payouts negative.
+
+// Share of a referred user's payment credited to the referrer
+export const REFERRAL_COMMISSION_RATE = 0.1
+
+// Commissions can't be withdrawn until the money-back guarantee has passed
+export const COMMISSION_HOLD_DAYS = 7
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type ReferralTransactionType =
+  | 'attribution' // the referred user signed up or applied the code
+  | 'qualifying_payment' // the referred user paid; records the payment, no balance change
+  | 'commission'
+  | 'reversal' // commission taken back after a refund or failed fraud check
+  | 'payout' // withdrawal; a rejected or failed one is returned with a positive row
+
+// Blocked transactions are kept for the audit trail but don't count
+export type ReferralTransactionStatus = 'posted' | 'blocked'
+
+export type ReferralFraudFlag = 'self_referral' | 'same_device' | 'same_payment_method'
+
+export interface ReferralLedgerEntry {
+  type: ReferralTransactionType
+  status: ReferralTransactionStatus
+  amount: number
+  availableAt?: Date | null
+  referredUserId?: string | null
+}
+
+export interface ReferralLedgerSummary {
+  totalEarnings: number // commissions less reversals
+  pendingEarnings: number // still within the hold period
+  availableBalance: number // can be withdrawn
+  paidOut: number
+}
+
+// What the fraud checks compare between referrer and referred user
+export interface ReferralParty {
+  userId: string
+  deviceIds: string[]
+  paymentMethods: string[] // fingerprints, see getPaymentMethodFingerprint
+}
+
+export function calculateCommission(paymentAmount: number): number {
+  return Math.floor(paymentAmount * REFERRAL_COMMISSION_RATE)
+}
+
+export function getCommissionAvailableAt(paidAt: Date): Date {
+  return new Date(paidAt.getTime() + COMMISSION_HOLD_DAYS * DAY_MS)
+}
+
+/**
+ * Reasons a referral looks like the same person on both sides
+ */
+export function getReferralFraudFlags(referrer: ReferralParty, referred: ReferralParty): ReferralFraudFlag[] {
+  if (referrer.userId === referred.userId) {
+    return ['self_referral']
+  }
+
+  const flags: ReferralFraudFlag[] = []
+  if (referred.deviceIds.some(id => referrer.deviceIds.includes(id))) {
+    flags.push('same_device')
+  }
+  if (referred.paymentMethods.some(method => referrer.paymentMethods.includes(method))) {
+    flags.push('same_payment_method')
+  }
+  return flags
+}
+
+function roundRupees(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Balances for a referrer from their ledger. Reversals carry the availability
+ * date of the commission they cancel, so they come out of pending earnings
+ * while the commission is still on hold.
+ */
+export function summarizeLedger(entries: ReferralLedgerEntry[], now: Date = new Date()): ReferralLedgerSummary {
+  let totalEarnings = 0
+  let pendingEarnings = 0
+  let availableBalance = 0
+  let paidOut = 0
+
+  for (const entry of entries) {
+    if (entry.status !== 'posted') continue
+
+    if (entry.type === 'commission' || entry.type === 'reversal') {
+      totalEarnings += entry.amount
+    }
+    if (entry.type === 'payout') {
+      paidOut -= entry.amount
+    }
+
+    if (entry.availableAt && entry.availableAt > now) {
+      pendingEarnings += entry.amount
+    } else {
+      availableBalance += entry.amount
+    }
+  }
+
+  return {
+    totalEarnings: roundRupees(totalEarnings),
+    pendingEarnings: roundRupees(Math.max(0, pendingEarnings)),
+    availableBalance: roundRupees(availableBalance),
+    paidOut: roundRupees(paidOut)
+  }
+}
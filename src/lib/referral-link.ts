@@ -0,0 +1,15 @@
+// Referral links look like /?ref=CODE. The middleware keeps the code in a
+// cookie so it survives the visitor browsing around before signing up.
+export const REFERRAL_COOKIE = 'fxg_ref'
+
+export const REFERRAL_COOKIE_MAX_AGE = 60 * 60 * 24 * 30 // 30 days, in seconds
+
+const REFERRAL_CODE_PATTERN = /^[A-Z0-9]{4,20}$/
+
+/**
+ * The referral code from a link or cookie, or null if it can't be one
+ */
+export function parseReferralCode(value: string | null | undefined): string | null {
+  const code = value?.trim().toUpperCase()
+  return code && REFERRAL_CODE_PATTERN.test(code) ? code : null
+}
@@ -0,0 +1,219 @@
+import mongoose from 'mongoose'
+import ReferralPayout, { IReferralPayout, ReferralPayoutStatus } from '@/models/ReferralPayout'
+import User from '@/models/User'
+import { getPayoutProvider } from './payout-provider'
+import { getPayoutAmountError } from './referral-payouts'
+import { claimPayout, getReferralBalance, releasePayoutClaim, returnPayout } from './referral-service'
+
+export type PayoutResult =
+  | { success: true; payout: IReferralPayout }
+  | { success: false; message: string }
+
+function historyEntry(status: ReferralPayoutStatus, actor: string, note?: string) {
+  return { status, actor, note, at: new Date() }
+}
+
+/**
+ * Ask for referral earnings to be paid to the user's UPI ID. Only one
+ * withdrawal can be open at a time; the amount leaves the available balance
+ * straight away. The balance is claimed on the ledger before the payout is
+ * created, and given back if creating it fails, so there's never a payout
+ * without its debit.
+ */
+export async function requestPayout(userId: mongoose.Types.ObjectId | string, amount: number): Promise<PayoutResult> {
+  const user = await User.findById(userId).select('email referrals.payoutVpa').lean<{
+    email: string
+    referrals?: { payoutVpa?: string }
+  }>()
+  const vpa = user?.referrals?.payoutVpa
+  if (!user || !vpa) {
+    return { success: false, message: 'Add a UPI ID before requesting a withdrawal' }
+  }
+
+  const balance = await getReferralBalance(userId)
+  const amountError = getPayoutAmountError(amount, balance.availableBalance)
+  if (amountError) {
+    return { success: false, message: amountError }
+  }
+
+  const claim = {
+    _id: new mongoose.Types.ObjectId(),
+    userId: new mongoose.Types.ObjectId(userId.toString()),
+    amount,
+    vpa
+  }
+  const claimed = await claimPayout(claim)
+  if (!claimed) {
+    return { success: false, message: 'Your available balance has changed, please try again' }
+  }
+
+  let payout: IReferralPayout
+  try {
+    payout = await ReferralPayout.create({
+      _id: claim._id,
+      userId,
+      amount,
+      vpa,
+      status: 'requested',
+      open: true,
+      history: [historyEntry('requested', user.email)]
+    })
+  } catch (error: unknown) {
+    await releasePayoutClaim(claim._id)
+    if ((error as { code?: number }).code === 11000) {
+      return { success: false, message: 'You already have a withdrawal in progress' }
+    }
+    throw error
+  }
+
+  return { success: true, payout }
+}
+
+/**
+ * Close a payout that won't be paid and give the money back to the user. The
+ * payout must still be in the status the caller expects, so an admin can't
+ * reject a payout another admin is sending at the same moment.
+ */
+async function closeUnpaid(
+  payout: IReferralPayout,
+  from: 'requested' | 'approved' | 'processing',
+  status: 'rejected' | 'failed',
+  actor: string,
+  reason: string
+): Promise<IReferralPayout | null> {
+  const closed: IReferralPayout | null = await ReferralPayout.findOneAndUpdate(
+    { _id: payout._id, status: from, open: true },
+    {
+      $set: { status, ...(status === 'rejected' ? { rejectionReason: reason } : { failureReason: reason }) },
+      $unset: { open: 1 },
+      $push: { history: historyEntry(status, actor, reason) }
+    },
+    { new: true }
+  )
+  if (closed) {
+    await returnPayout(closed, status === 'rejected' ? `Withdrawal rejected: ${reason}` : `Withdrawal failed: ${reason}`)
+  }
+  return closed
+}
+
+/**
+ * Approve a requested payout and send it. The status change to approved is
+ * conditional, so two admins approving at once can't pay twice.
+ */
+export async function approvePayout(payoutId: string, admin: string): Promise<PayoutResult> {
+  const payout: IReferralPayout | null = await ReferralPayout.findOneAndUpdate(
+    { _id: payoutId, status: 'requested' },
+    {
+      $set: { status: 'approved', reviewedBy: admin, reviewedAt: new Date() },
+      $push: { history: historyEntry('approved', admin) }
+    },
+    { new: true }
+  )
+  if (!payout) {
+    return { success: false, message: 'Only requested payouts can be approved' }
+  }
+
+  const user = await User.findById(payout.userId).select('profile.name email').lean<{
+    email: string
+    profile?: { name?: string }
+  }>()
+
+  let result
+  try {
+    result = await getPayoutProvider().createPayout({
+      amount: payout.amount,
+      vpa: payout.vpa,
+      name: user?.profile?.name || user?.email || 'FitXGen user',
+      reference: String(payout._id)
+    })
+  } catch (error) {
+    // A timeout or network error doesn't mean the provider turned the payout
+    // down; it may have accepted it under the idempotent reference. Leave it
+    // open for an admin to check and settle instead of giving the money back.
+    console.error('Referral payout error:', error)
+    const message = error instanceof Error ? error.message : 'Payout provider error'
+    await ReferralPayout.updateOne(
+      { _id: payout._id, status: 'approved' },
+      {
+        $set: { status: 'processing' },
+        $push: { history: historyEntry('processing', admin, `No answer from the payout provider: ${message}`) }
+      }
+    )
+    return {
+      success: false,
+      message: 'The payout provider did not confirm this payout. Check its dashboard, then mark the payout paid or failed.'
+    }
+  }
+
+  if (result.status === 'failed') {
+    const failed = await closeUnpaid(payout, 'approved', 'failed', admin, result.failureReason || 'Rejected by the payout provider')
+    return failed
+      ? { success: true, payout: failed }
+      : { success: false, message: 'The payout failed' }
+  }
+
+  const paid = result.status === 'processed'
+  const updated: IReferralPayout | null = await ReferralPayout.findOneAndUpdate(
+    { _id: payout._id, status: 'approved' },
+    {
+      $set: {
+        status: paid ? 'paid' : 'processing',
+        providerPayoutId: result.payoutId,
+        ...(paid && { paidAt: new Date() })
+      },
+      ...(paid && { $unset: { open: 1 } }),
+      $push: { history: historyEntry(paid ? 'paid' : 'processing', 'payout-provider', result.payoutId) }
+    },
+    { new: true }
+  )
+
+  return { success: true, payout: updated || payout }
+}
+
+export async function rejectPayout(payoutId: string, admin: string, reason: string): Promise<PayoutResult> {
+  const payout: IReferralPayout | null = await ReferralPayout.findOne({ _id: payoutId, status: 'requested' })
+  if (!payout) {
+    return { success: false, message: 'Only requested payouts can be rejected' }
+  }
+
+  const rejected = await closeUnpaid(payout, 'requested', 'rejected', admin, reason)
+  return rejected
+    ? { success: true, payout: rejected }
+    : { success: false, message: 'This payout has already been closed' }
+}
+
+/**
+ * Record the outcome of a payout the provider accepted but hadn't finished,
+ * once it's confirmed on the provider's dashboard
+ */
+export async function settlePayout(
+  payoutId: string,
+  admin: string,
+  outcome: 'paid' | 'failed',
+  note?: string
+): Promise<PayoutResult> {
+  const payout: IReferralPayout | null = await ReferralPayout.findOne({ _id: payoutId, status: 'processing' })
+  if (!payout) {
+    return { success: false, message: 'Only processing payouts can be settled' }
+  }
+
+  if (outcome === 'failed') {
+    const failed = await closeUnpaid(payout, 'processing', 'failed', admin, note || 'Marked failed by admin')
+    return failed
+      ? { success: true, payout: failed }
+      : { success: false, message: 'This payout has already been closed' }
+  }
+
+  const paid: IReferralPayout | null = await ReferralPayout.findOneAndUpdate(
+    { _id: payoutId, status: 'processing' },
+    {
+      $set: { status: 'paid', paidAt: new Date() },
+      $unset: { open: 1 },
+      $push: { history: historyEntry('paid', admin, note) }
+    },
+    { new: true }
+  )
+  return paid
+    ? { success: true, payout: paid }
+    : { success: false, message: 'This payout has already been closed' }
+}
@@ -0,0 +1,43 @@
+// Rules for withdrawing referral earnings to a UPI ID. Amounts are in rupees.
+
+// Smallest withdrawal, which keeps payout fees in proportion
+export const MIN_PAYOUT_AMOUNT = 100
+
+// handle@psp, e.g. name.surname@okhdfcbank or 9876543210@ybl
+const VPA_PATTERN = /^[a-z0-9][a-z0-9._-]{1,255}@[a-z][a-z0-9]{1,63}$/
+
+export function normalizeVpa(vpa: string): string {
+  return vpa.trim().toLowerCase()
+}
+
+export function isValidVpa(vpa: string): boolean {
+  return VPA_PATTERN.test(normalizeVpa(vpa))
+}
+
+/**
+ * Reason a withdrawal can't be requested, or null if it can
+ */
+export function getPayoutAmountError(amount: number, availableBalance: number): string | null {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return 'Enter an amount to withdraw'
+  }
+  if (!Number.isInteger(amount)) {
+    return 'Withdrawals must be in whole rupees'
+  }
+  if (amount < MIN_PAYOUT_AMOUNT) {
+    return `The minimum withdrawal is ₹${MIN_PAYOUT_AMOUNT}`
+  }
+  if (amount > availableBalance) {
+    return `You can withdraw up to ₹${Math.floor(availableBalance)}`
+  }
+  return null
+}
+
+/**
+ * Show only the first and last characters of the handle, e.g. ra****h@okaxis
+ */
+export function maskVpa(vpa: string): string {
+  const [handle, provider] = vpa.split('@')
+  if (!provider || handle.length <= 2) return vpa
+  return `${handle.slice(0, 2)}${'*'.repeat(Math.min(handle.length - 3, 6))}${handle.slice(-1)}@${provider}`
+}
@@ -0,0 +1,333 @@
+import mongoose from 'mongoose'
+import Payment, { IPayment } from '@/models/Payment'
+import ReferralTransaction, { IReferralTransaction } from '@/models/ReferralTransaction'
+import { IReferralPayout } from '@/models/ReferralPayout'
+import User from '@/models/User'
+import {
+  ReferralFraudFlag,
+  ReferralLedgerEntry,
+  ReferralLedgerSummary,
+  ReferralParty,
+  calculateCommission,
+  getCommissionAvailableAt,
+  getReferralFraudFlags,
+  summarizeLedger
+} from './referral-ledger'
+import { maskVpa } from './referral-payouts'
+import { getReferralReversal } from './refund-policy'
+import { findUserByReferralCode } from './referral-code-service'
+
+type UserId = mongoose.Types.ObjectId | string
+
+type NewTransaction = Pick<IReferralTransaction, 'referrerId' | 'type' | 'dedupeKey'> &
+  Partial<Omit<IReferralTransaction, 'referrerId' | 'type' | 'dedupeKey'>>
+
+/**
+ * Add a row to the ledger. Returns null if the event was already recorded.
+ */
+async function postTransaction(transaction: NewTransaction): Promise<IReferralTransaction | null> {
+  try {
+    return await ReferralTransaction.create(transaction)
+  } catch (error: unknown) {
+    if ((error as { code?: number }).code === 11000) {
+      return null
+    }
+    throw error
+  }
+}
+
+/**
+ * Remember a browser the user has used, for the same-device check
+ */
+export async function rememberDevice(userId: UserId, deviceId: string | null) {
+  if (!deviceId) return
+  await User.updateOne({ _id: userId }, { $addToSet: { deviceIds: deviceId } })
+}
+
+async function getReferralParty(userId: UserId, extra: { deviceId?: string; paymentMethod?: string } = {}): Promise<ReferralParty> {
+  const [user, paymentMethods] = await Promise.all([
+    User.findById(userId).select('deviceIds').lean<{ deviceIds?: string[] }>(),
+    Payment.distinct('paymentMethod.fingerprint', { userId, 'paymentMethod.fingerprint': { $exists: true } })
+  ])
+
+  return {
+    userId: userId.toString(),
+    deviceIds: [...(user?.deviceIds || []), ...(extra.deviceId ? [extra.deviceId] : [])],
+    paymentMethods: [...(paymentMethods as string[]), ...(extra.paymentMethod ? [extra.paymentMethod] : [])]
+  }
+}
+
+/**
+ * Record that a user was referred. Suspicious referrals are still recorded,
+ * as blocked, so they show up in reviews; the rest become the user's
+ * referredBy, which later payments are credited to.
+ */
+export async function recordAttribution(
+  referrerId: UserId,
+  referredUserId: UserId,
+  referralCode: string,
+  deviceId: string | null = null
+): Promise<{ recorded: boolean; fraudFlags: ReferralFraudFlag[] }> {
+  const [referrer, referred] = await Promise.all([
+    getReferralParty(referrerId),
+    getReferralParty(referredUserId, { deviceId: deviceId || undefined })
+  ])
+  const fraudFlags = getReferralFraudFlags(referrer, referred)
+
+  const transaction = await postTransaction({
+    referrerId: new mongoose.Types.ObjectId(referrerId.toString()),
+    referredUserId: new mongoose.Types.ObjectId(referredUserId.toString()),
+    type: 'attribution',
+    status: fraudFlags.length > 0 ? 'blocked' : 'posted',
+    referralCode,
+    fraudFlags,
+    dedupeKey: `attribution:${referredUserId}`
+  })
+
+  if (transaction?.status === 'posted') {
+    await User.updateOne(
+      { _id: referredUserId, referredBy: { $exists: false } },
+      { $set: { referredBy: referrerId } }
+    )
+  }
+
+  return { recorded: transaction !== null, fraudFlags }
+}
+
+/**
+ * Attribute a new account to the referral link it signed up through.
+ * Unknown codes are ignored rather than failing the signup.
+ */
+export async function attributeSignup(userId: UserId, referralCode: string, deviceId: string | null) {
+  await rememberDevice(userId, deviceId)
+
+  const referrer = await findUserByReferralCode(referralCode)
+  if (!referrer || referrer._id.equals(userId)) return
+
+  await recordAttribution(referrer._id, userId, referralCode, deviceId)
+}
+
+/**
+ * Who a payment's commission goes to: the owner of the code entered at
+ * checkout, or failing that whoever referred the payer
+ */
+async function getPaymentReferrer(payment: IPayment): Promise<{ _id: mongoose.Types.ObjectId; code: string } | null> {
+  const enteredCode = payment.metadata?.referralCode
+  if (enteredCode) {
+    const owner = await findUserByReferralCode(enteredCode)
+    return owner && { _id: owner._id, code: enteredCode }
+  }
+
+  const payer = await User.findById(payment.userId)
+    .select('referredBy')
+    .lean<{ referredBy?: mongoose.Types.ObjectId }>()
+  if (!payer?.referredBy) return null
+
+  const referrer = await User.findById(payer.referredBy)
+    .select('referrals.code')
+    .lean<{ _id: mongoose.Types.ObjectId; referrals?: { code?: string } }>()
+  return referrer?.referrals?.code ? { _id: referrer._id, code: referrer.referrals.code } : null
+}
+
+/**
+ * Credit the referrer of a completed payment. The payment and commission are
+ * both recorded; a commission that fails a fraud check is kept as blocked and
+ * never reaches the referrer's balance.
+ */
+export async function creditReferralCommission(payment: IPayment) {
+  const referrer = await getPaymentReferrer(payment)
+  if (!referrer) return
+
+  const base = {
+    referrerId: referrer._id,
+    referredUserId: payment.userId,
+    referralCode: referrer.code,
+    paymentId: payment._id as mongoose.Types.ObjectId,
+    paymentAmount: payment.amount
+  }
+
+  await postTransaction({ ...base, type: 'qualifying_payment', dedupeKey: `payment:${payment._id}` })
+
+  const commission = calculateCommission(payment.amount)
+  if (commission <= 0) return
+
+  const [referrerParty, referredParty] = await Promise.all([
+    getReferralParty(referrer._id),
+    getReferralParty(payment.userId, {
+      deviceId: payment.deviceId,
+      paymentMethod: payment.paymentMethod?.fingerprint
+    })
+  ])
+  const fraudFlags = getReferralFraudFlags(referrerParty, referredParty)
+
+  const transaction = await postTransaction({
+    ...base,
+    type: 'commission',
+    status: fraudFlags.length > 0 ? 'blocked' : 'posted',
+    amount: commission,
+    availableAt: getCommissionAvailableAt(payment.completedAt || new Date()),
+    fraudFlags,
+    dedupeKey: `commission:${payment._id}`
+  })
+
+  if (!transaction || transaction.status === 'blocked') return
+
+  await User.updateOne(
+    { _id: referrer._id },
+    { $inc: { 'referrals.earnings': commission }, $addToSet: { 'referrals.referred': payment.userId } }
+  )
+  await Payment.updateOne(
+    { _id: payment._id },
+    { $set: { 'metadata.referrerId': referrer._id, 'metadata.referralEarnings': commission } }
+  )
+}
+
+/**
+ * Post a reversal against a payment's commission and update the cached totals
+ */
+async function postReversal(
+  payment: IPayment,
+  amount: number,
+  dedupeKey: string,
+  details: { refundId?: string; fraudFlags?: ReferralFraudFlag[]; note?: string; removeReferral: boolean }
+): Promise<boolean> {
+  const referrerId = payment.metadata?.referrerId
+  if (!referrerId || amount <= 0) return false
+
+  const commission = await ReferralTransaction.findOne({ paymentId: payment._id, type: 'commission' })
+    .select('availableAt')
+    .lean<{ availableAt?: Date }>()
+
+  const transaction = await postTransaction({
+    referrerId,
+    referredUserId: payment.userId,
+    type: 'reversal',
+    amount: -amount,
+    availableAt: commission?.availableAt,
+    paymentId: payment._id as mongoose.Types.ObjectId,
+    refundId: details.refundId,
+    fraudFlags: details.fraudFlags || [],
+    note: details.note,
+    dedupeKey
+  })
+  if (!transaction) return false
+
+  await Payment.updateOne(
+    { _id: payment._id },
+    { $inc: { 'metadata.referralEarningsReversed': amount } }
+  )
+  await User.updateOne(
+    { _id: referrerId },
+    {
+      $inc: { 'referrals.earnings': -amount },
+      ...(details.removeReferral && { $pull: { 'referrals.referred': payment.userId } })
+    }
+  )
+  return true
+}
+
+/**
+ * Take back commission in proportion to what has been refunded
+ */
+export async function reverseReferralCommission(payment: IPayment, refundId: string) {
+  const { referralEarnings = 0, referralEarningsReversed = 0 } = payment.metadata || {}
+  const reversal = getReferralReversal(referralEarnings, referralEarningsReversed, payment.refundedAmount, payment.amount)
+
+  await postReversal(payment, reversal, `reversal:${payment._id}:${refundId}`, {
+    refundId,
+    note: 'Payment refunded',
+    removeReferral: payment.refundedAmount >= payment.amount
+  })
+}
+
+/**
+ * Store the instrument a payment was made with. Razorpay only reports it by
+ * webhook, which can arrive after the commission was credited, so a commission
+ * paid for with the referrer's own card or UPI ID is reversed here.
+ */
+export async function recordPaymentMethod(paymentId: mongoose.Types.ObjectId, method?: string, fingerprint?: string | null) {
+  await Payment.updateOne(
+    { _id: paymentId },
+    { $set: { paymentMethod: { method, ...(fingerprint && { fingerprint }) } } }
+  )
+  if (!fingerprint) return
+
+  const payment: IPayment | null = await Payment.findById(paymentId)
+  const referrerId = payment?.metadata?.referrerId
+  if (!payment || !referrerId) return
+
+  const referrer = await getReferralParty(referrerId)
+  if (!referrer.paymentMethods.includes(fingerprint)) return
+
+  const { referralEarnings = 0, referralEarningsReversed = 0 } = payment.metadata || {}
+  const reversed = await postReversal(payment, referralEarnings - referralEarningsReversed, `fraud:${payment._id}`, {
+    fraudFlags: ['same_payment_method'],
+    note: 'Paid with the referrer\'s payment method',
+    removeReferral: true
+  })
+
+  if (reversed) {
+    await ReferralTransaction.updateOne(
+      { paymentId: payment._id, type: 'commission' },
+      { $addToSet: { fraudFlags: 'same_payment_method' } }
+    )
+  }
+}
+
+/**
+ * Current balances from the referrer's ledger
+ */
+export async function getReferralBalance(userId: UserId): Promise<ReferralLedgerSummary> {
+  const transactions = await ReferralTransaction.find({ referrerId: userId })
+    .select('type status amount availableAt')
+    .lean<ReferralLedgerEntry[]>()
+  return summarizeLedger(transactions)
+}
+
+type PayoutClaim = Pick<IReferralPayout, 'userId' | 'amount' | 'vpa'> & { _id: mongoose.Types.ObjectId }
+
+/**
+ * Debit a withdrawal from the ledger before its payout is created, so the
+ * same earnings can't be requested twice. Returns false, leaving the ledger as
+ * it was, if the debit took the available balance below zero because another
+ * debit or a reversal got there first.
+ */
+export async function claimPayout(payout: PayoutClaim): Promise<boolean> {
+  const debit = await postTransaction({
+    referrerId: payout.userId,
+    type: 'payout',
+    amount: -payout.amount,
+    payoutId: payout._id,
+    note: `Withdrawal to ${maskVpa(payout.vpa)}`,
+    dedupeKey: `payout:${payout._id}`
+  })
+  if (!debit) return false
+
+  const { availableBalance } = await getReferralBalance(payout.userId)
+  if (availableBalance < 0) {
+    await releasePayoutClaim(payout._id)
+    return false
+  }
+  return true
+}
+
+/**
+ * Remove the debit for a withdrawal whose payout was never created
+ */
+export async function releasePayoutClaim(payoutId: mongoose.Types.ObjectId) {
+  await ReferralTransaction.deleteOne({ dedupeKey: `payout:${payoutId}` })
+}
+
+/**
+ * Credit back a withdrawal that was rejected or failed
+ */
+export async function returnPayout(payout: IReferralPayout, note: string) {
+  await postTransaction({
+    referrerId: payout.userId,
+    type: 'payout',
+    amount: payout.amount,
+    payoutId: payout._id as mongoose.Types.ObjectId,
+    note,
+    dedupeKey: `payout-return:${payout._id}`
+  })
+}
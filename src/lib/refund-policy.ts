@@ -0,0 +1,46 @@
+// Amounts are in rupees, matching Payment.amount
+
+/**
+ * What can still be refunded on a payment
+ */
+export function getRefundableAmount(paymentAmount: number, refundedAmount = 0): number {
+  return Math.max(0, Math.round((paymentAmount - refundedAmount) * 100) / 100)
+}
+
+/**
+ * Reason a requested refund amount can't be issued, or null if it can
+ */
+export function getRefundAmountError(amount: number, refundable: number): string | null {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return 'Refund amount must be greater than zero'
+  }
+  // Compared with a tolerance, since amounts like 0.29 aren't exact in paise
+  const paise = amount * 100
+  if (Math.abs(paise - Math.round(paise)) > 1e-6) {
+    return 'Refund amount can have at most two decimal places'
+  }
+  if (amount > refundable) {
+    return `Refund amount cannot exceed the refundable balance of ₹${refundable}`
+  }
+  return null
+}
+
+/**
+ * Referral earnings to take back after a refund. Earnings are reversed in
+ * proportion to the amount refunded so far, and in full once the payment is
+ * fully refunded. `alreadyReversed` covers earlier partial refunds.
+ */
+export function getReferralReversal(
+  creditedEarnings: number,
+  alreadyReversed: number,
+  totalRefunded: number,
+  paymentAmount: number
+): number {
+  if (creditedEarnings <= 0 || paymentAmount <= 0) return 0
+
+  const target = totalRefunded >= paymentAmount
+    ? creditedEarnings
+    : Math.floor(creditedEarnings * totalRefunded / paymentAmount)
+
+  return Math.max(0, target - alreadyReversed)
+}
@@ -0,0 +1,40 @@
+// Server-Sent Events framing, shared by streaming routes and the browser code
+// reading them. Data is always JSON.
+
+export interface ServerSentEvent {
+  event: string
+  data: string
+}
+
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+/**
+ * Split text read from an event stream into complete events. Whatever follows
+ * the last blank line is an incomplete event and is returned to be prepended
+ * to the next chunk.
+ */
+export function parseServerSentEvents(buffer: string): { events: ServerSentEvent[]; rest: string } {
+  const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n')
+  const rest = blocks.pop() || ''
+  const events: ServerSentEvent[] = []
+
+  for (const block of blocks) {
+    let event = 'message'
+    const data: string[] = []
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim()
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''))
+      }
+      // Lines starting with ":" are comments, used as keep-alives
+    }
+    if (data.length > 0) {
+      events.push({ event, data: data.join('\n') })
+    }
+  }
+
+  return { events, rest }
+}
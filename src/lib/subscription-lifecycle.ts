@@ -0,0 +1,101 @@
+// Renewal, reminder and grace period rules for yearly subscriptions
+
+export const SUBSCRIPTION_TERM_MONTHS = 12
+
+// Days before expiry at which a renewal reminder is sent, most distant first
+export const REMINDER_DAYS = [30, 7, 1]
+
+export const DEFAULT_GRACE_PERIOD_DAYS = 7
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type SubscriptionPhase = 'active' | 'grace' | 'expired'
+
+/**
+ * Days of continued access after expiry, from SUBSCRIPTION_GRACE_DAYS
+ */
+export function getGracePeriodDays(): number {
+  const configured = Number(process.env.SUBSCRIPTION_GRACE_DAYS)
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_GRACE_PERIOD_DAYS
+}
+
+export function getGraceEndsAt(expiresAt: Date, graceDays: number = getGracePeriodDays()): Date {
+  return new Date(expiresAt.getTime() + graceDays * DAY_MS)
+}
+
+/**
+ * Where a paid subscription is in its lifecycle. During the grace period the
+ * plan keeps working while the user is asked to renew.
+ */
+export function getSubscriptionPhase(
+  expiresAt: Date,
+  now: Date = new Date(),
+  graceDays: number = getGracePeriodDays()
+): SubscriptionPhase {
+  if (expiresAt > now) return 'active'
+  return getGraceEndsAt(expiresAt, graceDays) > now ? 'grace' : 'expired'
+}
+
+export function getDaysUntil(date: Date, now: Date = new Date()): number {
+  return Math.ceil((date.getTime() - now.getTime()) / DAY_MS)
+}
+
+/**
+ * Expiry after paying for a renewal. Renewing early or during the grace
+ * period extends from the current expiry, so no paid days are lost and grace
+ * days aren't free; otherwise the new term starts today.
+ */
+export function getRenewalExpiry(
+  currentExpiresAt: Date | null | undefined,
+  now: Date = new Date(),
+  graceDays: number = getGracePeriodDays()
+): Date {
+  const base = currentExpiresAt && getSubscriptionPhase(currentExpiresAt, now, graceDays) !== 'expired'
+    ? currentExpiresAt
+    : now
+
+  const expiry = new Date(base)
+  expiry.setMonth(expiry.getMonth() + SUBSCRIPTION_TERM_MONTHS)
+  return expiry
+}
+
+/**
+ * The reminder to send now, if any. When the job has missed a run only the
+ * most urgent outstanding reminder is returned, so users don't get the 30 and
+ * 7 day emails together.
+ */
+export function getDueReminder(
+  expiresAt: Date,
+  sentReminders: number[] = [],
+  now: Date = new Date()
+): number | null {
+  const daysLeft = (expiresAt.getTime() - now.getTime()) / DAY_MS
+  if (daysLeft <= 0) return null
+
+  const due = REMINDER_DAYS.filter(days => daysLeft <= days)
+  if (due.length === 0) return null
+
+  const mostUrgent = Math.min(...due)
+  return sentReminders.includes(mostUrgent) ? null : mostUrgent
+}
+
+export interface RenewalStatus {
+  phase: SubscriptionPhase
+  daysLeft: number
+  graceEndsAt: Date
+  // Expiry the subscription would have if renewed now
+  renewalExpiresAt: Date
+}
+
+export function getRenewalStatus(
+  expiresAt: Date,
+  now: Date = new Date(),
+  graceDays: number = getGracePeriodDays()
+): RenewalStatus {
+  return {
+    phase: getSubscriptionPhase(expiresAt, now, graceDays),
+    daysLeft: getDaysUntil(expiresAt, now),
+    graceEndsAt: getGraceEndsAt(expiresAt, graceDays),
+    renewalExpiresAt: getRenewalExpiry(expiresAt, now, graceDays)
+  }
+}
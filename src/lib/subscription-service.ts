@@ -0,0 +1,136 @@
+import mongoose from 'mongoose'
+import Notification, { INotification } from '@/models/Notification'
+import User from '@/models/User'
+import { getDueReminder, getGraceEndsAt, getGracePeriodDays, REMINDER_DAYS } from './subscription-lifecycle'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Users are streamed from the database in batches of this size
+const BATCH_SIZE = 200
+
+interface LapsingUser {
+  _id: mongoose.Types.ObjectId
+  email: string
+  subscription: {
+    plan?: string
+    expiresAt: Date
+    graceEndsAt?: Date
+    remindersSent?: number[]
+  }
+}
+
+export interface RenewalJobResult {
+  remindersQueued: number
+  graceStarted: number
+  expired: number
+}
+
+/**
+ * Queue a notification for delivery. Returns false if one with the same
+ * dedupe key was already queued.
+ */
+export async function queueNotification(
+  userId: mongoose.Types.ObjectId,
+  type: INotification['type'],
+  dedupeKey: string,
+  data: Record<string, unknown>
+): Promise<boolean> {
+  try {
+    await Notification.create({ userId, type, dedupeKey, data, scheduledFor: new Date() })
+    return true
+  } catch (error: unknown) {
+    if ((error as { code?: number }).code === 11000) {
+      return false
+    }
+    throw error
+  }
+}
+
+function renewalData(user: LapsingUser) {
+  const plan = user.subscription.plan || 'basic'
+  return {
+    email: user.email,
+    plan,
+    expiresAt: user.subscription.expiresAt,
+    renewUrl: `/payment?plan=${plan}&renew=1`
+  }
+}
+
+function findLapsing(expiresAt: Record<string, Date>) {
+  return User.find({ 'subscription.status': 'active', 'subscription.expiresAt': expiresAt })
+    .select('email subscription')
+    .lean<LapsingUser[]>()
+    .cursor({ batchSize: BATCH_SIZE })
+}
+
+/**
+ * Daily subscription maintenance: queue renewal reminders ahead of expiry,
+ * start the grace period for subscriptions that have just lapsed and expire
+ * those whose grace period is over. Safe to re-run; every step is keyed so
+ * nothing is queued twice.
+ */
+export async function runRenewalJob(now: Date = new Date()): Promise<RenewalJobResult> {
+  const graceDays = getGracePeriodDays()
+  const graceCutoff = new Date(now.getTime() - graceDays * DAY_MS)
+  const reminderWindow = new Date(now.getTime() + Math.max(...REMINDER_DAYS) * DAY_MS)
+  const result: RenewalJobResult = { remindersQueued: 0, graceStarted: 0, expired: 0 }
+
+  // Renewal reminders
+  for await (const user of findLapsing({ $gt: now, $lte: reminderWindow })) {
+    const { expiresAt, remindersSent = [] } = user.subscription
+    const days = getDueReminder(expiresAt, remindersSent, now)
+    if (days === null) continue
+
+    const queued = await queueNotification(
+      user._id,
+      'subscription_reminder',
+      `${user._id}:reminder:${expiresAt.toISOString()}:${days}`,
+      { ...renewalData(user), daysLeft: days }
+    )
+    await User.updateOne({ _id: user._id }, { $addToSet: { 'subscription.remindersSent': days } })
+    if (queued) result.remindersQueued++
+  }
+
+  // Lapsed but still within the grace period
+  for await (const user of findLapsing({ $gt: graceCutoff, $lte: now })) {
+    const { expiresAt } = user.subscription
+    const graceEndsAt = getGraceEndsAt(expiresAt, graceDays)
+
+    if (!user.subscription.graceEndsAt) {
+      await User.updateOne(
+        { _id: user._id, 'subscription.expiresAt': expiresAt },
+        { $set: { 'subscription.graceEndsAt': graceEndsAt } }
+      )
+    }
+
+    const queued = await queueNotification(
+      user._id,
+      'subscription_grace',
+      `${user._id}:grace:${expiresAt.toISOString()}`,
+      { ...renewalData(user), graceEndsAt }
+    )
+    if (queued) result.graceStarted++
+  }
+
+  // Grace period over
+  for await (const user of findLapsing({ $lte: graceCutoff })) {
+    const { expiresAt } = user.subscription
+
+    // Matching on the expiry skips users who renewed since the query ran
+    const update = await User.updateOne(
+      { _id: user._id, 'subscription.status': 'active', 'subscription.expiresAt': expiresAt },
+      { $set: { 'subscription.status': 'expired' } }
+    )
+    if (update.modifiedCount === 0) continue
+
+    await queueNotification(
+      user._id,
+      'subscription_expired',
+      `${user._id}:expired:${expiresAt.toISOString()}`,
+      renewalData(user)
+    )
+    result.expired++
+  }
+
+  return result
+}
@@ -0,0 +1,172 @@
+// Unit conversion between metric (canonical storage) and imperial inputs/outputs
+
+export type UnitSystem = 'metric' | 'imperial'
+
+export const CM_PER_INCH = 2.54
+export const INCHES_PER_FOOT = 12
+export const KG_PER_POUND = 0.45359237
+
+export interface MetricMeasurements {
+  height?: number // cm
+  weight?: number // kg
+  waist?: number // cm
+  neck?: number // cm
+  hip?: number // cm
+  targetWeight?: number // kg
+}
+
+/**
+ * Raw measurement input as sent by clients. In imperial mode height may be
+ * sent either as total inches (`height`) or split into `heightFeet` and
+ * `heightInches`; circumferences are inches and weights are pounds.
+ */
+export interface MeasurementInput extends MetricMeasurements {
+  heightFeet?: number
+  heightInches?: number
+}
+
+export interface DisplayMeasurements extends MetricMeasurements {
+  unitSystem: UnitSystem
+  lengthUnit: 'cm' | 'in'
+  weightUnit: 'kg' | 'lb'
+  heightFeet?: number
+  heightInches?: number
+}
+
+export function isUnitSystem(value: unknown): value is UnitSystem {
+  return value === 'metric' || value === 'imperial'
+}
+
+function round(value: number, decimals = 1): number {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}
+
+export function inchesToCm(inches: number): number {
+  return inches * CM_PER_INCH
+}
+
+export function cmToInches(cm: number): number {
+  return cm / CM_PER_INCH
+}
+
+export function poundsToKg(pounds: number): number {
+  return pounds * KG_PER_POUND
+}
+
+export function kgToPounds(kg: number): number {
+  return kg / KG_PER_POUND
+}
+
+export function feetAndInchesToCm(feet: number, inches = 0): number {
+  return inchesToCm(feet * INCHES_PER_FOOT + inches)
+}
+
+export function cmToFeetAndInches(cm: number): { feet: number; inches: number } {
+  const totalInches = round(cmToInches(cm))
+  const feet = Math.floor(totalInches / INCHES_PER_FOOT)
+  return { feet, inches: round(totalInches - feet * INCHES_PER_FOOT) }
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  const parsed = Number(value)
+  return isNaN(parsed) ? undefined : parsed
+}
+
+/**
+ * Convert client input in the given unit system to canonical metric values.
+ * Fields that are absent stay absent.
+ */
+export function toMetricMeasurements(input: MeasurementInput, unitSystem: UnitSystem = 'metric'): MetricMeasurements {
+  const height = toNumber(input.height)
+  const heightFeet = toNumber(input.heightFeet)
+  const heightInches = toNumber(input.heightInches)
+  const weight = toNumber(input.weight)
+  const waist = toNumber(input.waist)
+  const neck = toNumber(input.neck)
+  const hip = toNumber(input.hip)
+  const targetWeight = toNumber(input.targetWeight)
+
+  const result: MetricMeasurements = {}
+
+  if (unitSystem === 'metric') {
+    if (height !== undefined) result.height = height
+    if (weight !== undefined) result.weight = weight
+    if (waist !== undefined) result.waist = waist
+    if (neck !== undefined) result.neck = neck
+    if (hip !== undefined) result.hip = hip
+    if (targetWeight !== undefined) result.targetWeight = targetWeight
+    return result
+  }
+
+  if (heightFeet !== undefined) {
+    result.height = round(feetAndInchesToCm(heightFeet, heightInches || 0))
+  } else if (height !== undefined) {
+    result.height = round(inchesToCm(height))
+  }
+  if (weight !== undefined) result.weight = round(poundsToKg(weight))
+  if (waist !== undefined) result.waist = round(inchesToCm(waist))
+  if (neck !== undefined) result.neck = round(inchesToCm(neck))
+  if (hip !== undefined) result.hip = round(inchesToCm(hip))
+  if (targetWeight !== undefined) result.targetWeight = round(poundsToKg(targetWeight))
+
+  return result
+}
+
+/**
+ * Convert canonical metric values into the user's preferred unit system
+ */
+export function fromMetricMeasurements(metric: MetricMeasurements, unitSystem: UnitSystem = 'metric'): DisplayMeasurements {
+  if (unitSystem === 'metric') {
+    return { ...metric, unitSystem, lengthUnit: 'cm', weightUnit: 'kg' }
+  }
+
+  const display: DisplayMeasurements = { unitSystem, lengthUnit: 'in', weightUnit: 'lb' }
+
+  if (metric.height) {
+    const { feet, inches } = cmToFeetAndInches(metric.height)
+    display.height = round(cmToInches(metric.height))
+    display.heightFeet = feet
+    display.heightInches = inches
+  }
+  if (metric.weight) display.weight = round(kgToPounds(metric.weight))
+  if (metric.waist) display.waist = round(cmToInches(metric.waist))
+  if (metric.neck) display.neck = round(cmToInches(metric.neck))
+  if (metric.hip) display.hip = round(cmToInches(metric.hip))
+  if (metric.targetWeight) display.targetWeight = round(kgToPounds(metric.targetWeight))
+
+  return display
+}
+
+/**
+ * Format a length stored in cm for messages in the given unit system
+ */
+export function formatLength(cm: number, unitSystem: UnitSystem = 'metric'): string {
+  return unitSystem === 'imperial' ? `${round(cmToInches(cm))} in` : `${cm} cm`
+}
+
+/**
+ * Format a weight stored in kg for messages in the given unit system
+ */
+export function formatWeight(kg: number, unitSystem: UnitSystem = 'metric'): string {
+  return unitSystem === 'imperial' ? `${round(kgToPounds(kg))} lb` : `${kg} kg`
+}
+
+/**
+ * Format an inclusive length range stored in cm, e.g. "100 and 250 cm"
+ */
+export function formatLengthRange(minCm: number, maxCm: number, unitSystem: UnitSystem = 'metric'): string {
+  return unitSystem === 'imperial'
+    ? `${round(cmToInches(minCm))} and ${round(cmToInches(maxCm))} in`
+    : `${minCm} and ${maxCm} cm`
+}
+
+/**
+ * Format an inclusive weight range stored in kg, e.g. "30 and 300 kg"
+ */
+export function formatWeightRange(minKg: number, maxKg: number, unitSystem: UnitSystem = 'metric'): string {
+  return unitSystem === 'imperial'
+    ? `${round(kgToPounds(minKg))} and ${round(kgToPounds(maxKg))} lb`
+    : `${minKg} and ${maxKg} kg`
+}
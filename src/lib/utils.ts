@@ -9,12 +9,6 @@ export function formatCurrency(amount: number, currency: string = '₹') {
   return `${currency}${amount.toLocaleString('en-IN')}`
 }
 
-export function generateReferralCode(name: string): string {
-  const cleanName = name.replace(/[^a-zA-Z]/g, '').toUpperCase()
-  const randomNum = Math.floor(Math.random() * 10000).toString().padStart(4, '0')
-  return `${cleanName.slice(0, 4)}${randomNum}`
-}
-
 export function validateEmail(email: string): boolean {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
   return emailRegex.test(email)
@@ -1,6 +1,9 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
 import { auth } from '@/lib/auth'
+import { isAdminSession } from '@/lib/admin'
+import { DEVICE_COOKIE, DEVICE_COOKIE_MAX_AGE } from '@/lib/device'
+import { REFERRAL_COOKIE, REFERRAL_COOKIE_MAX_AGE, parseReferralCode } from '@/lib/referral-link'
 
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl
@@ -43,10 +46,7 @@ export async function middleware(request: NextRequest) {
 
     // Admin route protection
     if (pathname.startsWith('/admin')) {
-      const isAdmin = session.user?.email === 'admin@fitxgen.com' || 
-                     session.user?.name === 'Admin'
-      
-      if (!isAdmin) {
+      if (!isAdminSession(session)) {
         return NextResponse.redirect(new URL('/dashboard', request.url))
       }
     }
@@ -70,6 +70,29 @@ export async function middleware(request: NextRequest) {
   response.headers.set('Referrer-Policy', 'origin-when-cross-origin')
   response.headers.set('X-XSS-Protection', '1; mode=block')
 
+  // Identify the browser for referral fraud checks
+  if (!request.cookies.get(DEVICE_COOKIE)) {
+    response.cookies.set(DEVICE_COOKIE, crypto.randomUUID(), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: DEVICE_COOKIE_MAX_AGE,
+      path: '/'
+    })
+  }
+
+  // Remember who referred the visitor until they sign up
+  const referralCode = parseReferralCode(request.nextUrl.searchParams.get('ref'))
+  if (referralCode) {
+    response.cookies.set(REFERRAL_COOKIE, referralCode, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: REFERRAL_COOKIE_MAX_AGE,
+      path: '/'
+    })
+  }
+
   return response
 }
 
@@ -11,6 +11,8 @@ export interface IChatSession extends mongoose.Document {
     userHealthData: Record<string, any>
     conversationTopic: string
     lastActivity: Date
+    summary?: string
+    summarizedCount?: number
   }
   isActive: boolean
   createdAt: Date
@@ -50,6 +52,17 @@ const ChatSessionSchema = new mongoose.Schema({
     lastActivity: {
       type: Date,
       default: Date.now
+    },
+    // Rolling summary of the messages that no longer fit in the AI's context
+    summary: {
+      type: String,
+      maxlength: 8000
+    },
+    // How many messages, from the start, the summary covers
+    summarizedCount: {
+      type: Number,
+      default: 0,
+      min: 0
     }
   },
   isActive: {
@@ -65,5 +78,12 @@ const ChatSessionSchema = new mongoose.Schema({
 ChatSessionSchema.index({ userId: 1, isActive: 1 })
 ChatSessionSchema.index({ 'context.lastActivity': -1 })
 ChatSessionSchema.index({ createdAt: -1 })
+ChatSessionSchema.index({ userId: 1, 'context.lastActivity': -1 })
+// Search across a user's chats. No language, so Hindi, Tamil and other
+// scripts are matched word for word instead of being stemmed as English.
+ChatSessionSchema.index(
+  { 'context.conversationTopic': 'text', 'messages.content': 'text' },
+  { default_language: 'none', weights: { 'context.conversationTopic': 2 } }
+)
 
 export default mongoose.models.ChatSession || mongoose.model<IChatSession>('ChatSession', ChatSessionSchema)
\ No newline at end of file
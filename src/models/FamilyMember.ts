@@ -19,10 +19,19 @@ export interface IFamilyMember extends Document {
     lastUpdated?: Date
   }
   results?: {
-    bodyFatPercentage: number
+    bodyFatPercentage?: number // not estimated for pediatric assessments
     bmi: number
     category: string
     healthStatus: string
+    classificationVersion?: number
+    assessment?: 'adult' | 'pediatric'
+    pediatric?: {
+      bmiZScore: number
+      bmiPercentile: number
+      waistToHeightRatio?: number
+      waistToHeightCategory?: string
+      reference: string
+    }
     calculatedAt: Date
     recommendations?: any
   }
@@ -62,26 +71,27 @@ const FamilyMemberSchema: Schema = new Schema({
     required: true,
     enum: ['male', 'female']
   },
+  // Minimums are low enough for young children (pediatric assessment)
   measurements: {
     height: {
       type: Number,
-      min: 100,
+      min: 45,
       max: 250
     },
     weight: {
       type: Number,
-      min: 20,
+      min: 2,
       max: 300
     },
     circumferences: {
       waist: {
         type: Number,
-        min: 40,
+        min: 30,
         max: 200
       },
       neck: {
         type: Number,
-        min: 20,
+        min: 15,
         max: 60
       },
       hip: {
@@ -117,6 +127,21 @@ const FamilyMemberSchema: Schema = new Schema({
     healthStatus: {
       type: String
     },
+    classificationVersion: {
+      type: Number
+    },
+    assessment: {
+      type: String,
+      enum: ['adult', 'pediatric'],
+      default: 'adult'
+    },
+    pediatric: {
+      bmiZScore: Number,
+      bmiPercentile: Number,
+      waistToHeightRatio: Number,
+      waistToHeightCategory: String,
+      reference: String
+    },
     calculatedAt: {
       type: Date
     },
@@ -161,6 +186,11 @@ FamilyMemberSchema.methods.calculateBodyFat = function() {
     return null
   }
 
+  // Adult formulas don't apply to children; see assessPediatric instead
+  if (this.age < 13) {
+    return null
+  }
+
   // Import the calculation function
   const { calculateBodyFat } = require('@/lib/body-fat-calculator')
   
@@ -0,0 +1,33 @@
+import mongoose from 'mongoose'
+
+// Append-only log of metered feature use. Quotas count these rather than the
+// chats or measurements the user can delete.
+export interface IFeatureUsage extends mongoose.Document {
+  userId: mongoose.Types.ObjectId
+  feature: 'aiChat' | 'bodyFatCalculation'
+  usedAt: Date
+}
+
+const FeatureUsageSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  feature: {
+    type: String,
+    enum: ['aiChat', 'bodyFatCalculation'],
+    required: true
+  },
+  usedAt: {
+    type: Date,
+    required: true,
+    default: Date.now
+  }
+})
+
+FeatureUsageSchema.index({ userId: 1, feature: 1, usedAt: -1 })
+// The longest quota window is a calendar month
+FeatureUsageSchema.index({ usedAt: 1 }, { expireAfterSeconds: 62 * 24 * 60 * 60 })
+
+export default mongoose.models.FeatureUsage || mongoose.model<IFeatureUsage>('FeatureUsage', FeatureUsageSchema)
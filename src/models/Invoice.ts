@@ -0,0 +1,153 @@
+import mongoose from 'mongoose'
+
+interface InvoiceParty {
+  name: string
+  email?: string
+  gstin?: string
+  address?: string
+  stateCode: string
+}
+
+export interface IInvoice extends mongoose.Document {
+  // Unset until numbered; see issueInvoice
+  invoiceNumber?: string
+  financialYear: string
+  sequence?: number
+  paymentId: mongoose.Types.ObjectId
+  userId: mongoose.Types.ObjectId
+  issuedAt: Date
+  supplier: InvoiceParty
+  customer: InvoiceParty
+  placeOfSupply: string
+  lineItems: Array<{
+    description: string
+    sacCode: string
+    quantity: number
+    taxableValue: number
+  }>
+  taxableValue: number
+  cgst: number
+  sgst: number
+  igst: number
+  total: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+const PartySchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  email: {
+    type: String
+  },
+  gstin: {
+    type: String,
+    uppercase: true
+  },
+  address: {
+    type: String,
+    maxlength: 300
+  },
+  stateCode: {
+    type: String,
+    required: true
+  }
+}, { _id: false })
+
+const InvoiceSchema = new mongoose.Schema({
+  invoiceNumber: {
+    type: String
+  },
+  financialYear: {
+    type: String,
+    required: true
+  },
+  sequence: {
+    type: Number,
+    min: 1
+  },
+  // One invoice per payment
+  paymentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Payment',
+    required: true,
+    unique: true
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  issuedAt: {
+    type: Date,
+    required: true
+  },
+  // Snapshots, so later profile or company changes don't alter issued invoices
+  supplier: {
+    type: PartySchema,
+    required: true
+  },
+  customer: {
+    type: PartySchema,
+    required: true
+  },
+  placeOfSupply: {
+    type: String,
+    required: true
+  },
+  lineItems: [{
+    description: {
+      type: String,
+      required: true
+    },
+    sacCode: {
+      type: String,
+      required: true
+    },
+    quantity: {
+      type: Number,
+      default: 1
+    },
+    taxableValue: {
+      type: Number,
+      required: true
+    }
+  }],
+  taxableValue: {
+    type: Number,
+    required: true
+  },
+  cgst: {
+    type: Number,
+    default: 0
+  },
+  sgst: {
+    type: Number,
+    default: 0
+  },
+  igst: {
+    type: Number,
+    default: 0
+  },
+  total: {
+    type: Number,
+    required: true
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true }
+})
+
+// Indexes
+InvoiceSchema.index({ userId: 1, issuedAt: -1 })
+InvoiceSchema.index({ financialYear: 1, sequence: 1 })
+// Unique among numbered invoices; one awaiting its number has none
+InvoiceSchema.index(
+  { invoiceNumber: 1 },
+  { unique: true, partialFilterExpression: { invoiceNumber: { $type: 'string' } } }
+)
+
+export default mongoose.models.Invoice || mongoose.model<IInvoice>('Invoice', InvoiceSchema)
@@ -0,0 +1,22 @@
+import mongoose from 'mongoose'
+
+// One document per financial year holding the last invoice number issued
+export interface IInvoiceCounter extends mongoose.Document {
+  financialYear: string
+  sequence: number
+}
+
+const InvoiceCounterSchema = new mongoose.Schema({
+  financialYear: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  sequence: {
+    type: Number,
+    default: 0,
+    min: 0
+  }
+})
+
+export default mongoose.models.InvoiceCounter || mongoose.model<IInvoiceCounter>('InvoiceCounter', InvoiceCounterSchema)
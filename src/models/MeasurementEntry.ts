@@ -0,0 +1,133 @@
+import mongoose from 'mongoose'
+
+export interface IMeasurementEntry extends mongoose.Document {
+  userId: mongoose.Types.ObjectId
+  familyMemberId?: mongoose.Types.ObjectId
+  measuredAt: Date
+  source: 'onboarding' | 'calculation' | 'manual'
+  age?: number
+  gender?: 'male' | 'female'
+  height: number
+  weight: number
+  circumferences: {
+    waist: number
+    neck: number
+    hip?: number
+  }
+  results: {
+    bodyFatPercentage: number
+    bmi: number
+    category: string
+    healthStatus: string
+    classificationVersion?: number
+    recommendations: string[]
+  }
+  notes?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+const MeasurementEntrySchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Set when the entry belongs to one of the account's family members
+  familyMemberId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'FamilyMember'
+  },
+  measuredAt: {
+    type: Date,
+    required: true,
+    default: Date.now
+  },
+  source: {
+    type: String,
+    enum: ['onboarding', 'calculation', 'manual'],
+    default: 'manual'
+  },
+  // Snapshot of the profile at measurement time, used to re-classify later
+  age: {
+    type: Number,
+    min: 13,
+    max: 120
+  },
+  gender: {
+    type: String,
+    enum: ['male', 'female']
+  },
+  height: {
+    type: Number,
+    required: true,
+    min: 100,
+    max: 250
+  },
+  weight: {
+    type: Number,
+    required: true,
+    min: 30,
+    max: 300
+  },
+  circumferences: {
+    waist: {
+      type: Number,
+      required: true,
+      min: 50,
+      max: 200
+    },
+    neck: {
+      type: Number,
+      required: true,
+      min: 20,
+      max: 60
+    },
+    hip: {
+      type: Number,
+      min: 60,
+      max: 200
+    }
+  },
+  results: {
+    bodyFatPercentage: {
+      type: Number,
+      required: true,
+      min: 3,
+      max: 50
+    },
+    bmi: {
+      type: Number,
+      required: true,
+      min: 10,
+      max: 60
+    },
+    category: {
+      type: String
+    },
+    healthStatus: {
+      type: String
+    },
+    classificationVersion: {
+      type: Number
+    },
+    recommendations: [{
+      type: String
+    }]
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true }
+})
+
+// Indexes for time-series queries
+MeasurementEntrySchema.index({ userId: 1, measuredAt: -1 })
+MeasurementEntrySchema.index({ familyMemberId: 1, measuredAt: -1 })
+MeasurementEntrySchema.index({ createdAt: -1 })
+
+export default mongoose.models.MeasurementEntry || mongoose.model<IMeasurementEntry>('MeasurementEntry', MeasurementEntrySchema)
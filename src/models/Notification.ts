@@ -0,0 +1,72 @@
+import mongoose from 'mongoose'
+
+export interface INotification extends mongoose.Document {
+  userId: mongoose.Types.ObjectId
+  type: 'subscription_reminder' | 'subscription_grace' | 'subscription_expired'
+  channel: 'email' | 'in_app'
+  status: 'queued' | 'sent' | 'failed'
+  dedupeKey: string
+  data: Record<string, unknown>
+  scheduledFor: Date
+  sentAt?: Date
+  attempts: number
+  lastError?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+const NotificationSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['subscription_reminder', 'subscription_grace', 'subscription_expired'],
+    required: true
+  },
+  channel: {
+    type: String,
+    enum: ['email', 'in_app'],
+    default: 'email'
+  },
+  status: {
+    type: String,
+    enum: ['queued', 'sent', 'failed'],
+    default: 'queued'
+  },
+  // Stops a re-run of a scheduled job from queueing the same message twice
+  dedupeKey: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  data: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  scheduledFor: {
+    type: Date,
+    default: Date.now
+  },
+  sentAt: {
+    type: Date
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  lastError: {
+    type: String
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true }
+})
+
+// Indexes
+NotificationSchema.index({ status: 1, scheduledFor: 1 })
+NotificationSchema.index({ userId: 1, createdAt: -1 })
+
+export default mongoose.models.Notification || mongoose.model<INotification>('Notification', NotificationSchema)
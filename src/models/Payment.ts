@@ -7,14 +7,63 @@ export interface IPayment extends mongoose.Document {
   razorpaySignature?: string
   amount: number
   currency: string
-  status: 'pending' | 'completed' | 'failed' | 'cancelled'
+  status: 'pending' | 'completed' | 'failed' | 'cancelled' | 'refunded'
   additionalPeople: number
+  completedAt?: Date
+  billing?: {
+    name?: string
+    gstin?: string
+    address?: string
+    stateCode?: string
+  }
+  refunds: Array<{
+    refundId: string
+    amount: number
+    status: string
+    reason?: string
+    initiatedBy?: string
+    processedAt: Date
+  }>
+  refundedAmount: number
+  // Problems after payment that need someone to sort out by hand, such as
+  // a refund Razorpay didn't accept
+  supportIssues: Array<{
+    reason: string
+    amount?: number
+    flaggedAt: Date
+    resolvedAt?: Date
+  }>
+  // Browser the order was placed from and the instrument it was paid with,
+  // for referral fraud checks
+  deviceId?: string
+  paymentMethod?: {
+    method?: string
+    fingerprint?: string
+  }
   metadata: {
+    planId?: 'basic' | 'family' | 'premium'
+    planName?: string
+    purchaseType?: 'new' | 'renewal' | 'upgrade'
+    // Plan changes: the payment that started the term and the plan changed from
+    basePaymentId?: string
+    fromPlanId?: 'basic' | 'family' | 'premium'
+    proratedCredit?: number
+    // What the plan now held is worth over a full term, for later prorations
+    termValue?: number
     referralCode?: string
     discountApplied?: number
     promocode?: string
+    // Set while the order holds one of the promo code's redemptions
+    promoReserved?: boolean
+    basePrice?: number
+    promoDiscount?: number
+    referralDiscount?: number
+    referrerId?: mongoose.Types.ObjectId
+    referralEarnings?: number
+    referralEarningsReversed?: number
   }
   webhookEvents: Array<{
+    eventId?: string
     event: string
     data: Record<string, any>
     timestamp: Date
@@ -44,7 +93,7 @@ const PaymentSchema = new mongoose.Schema({
   amount: {
     type: Number,
     required: true,
-    min: 99 // Minimum amount ₹99
+    min: 1 // Razorpay's minimum; full plan purchases are held to ₹99 by pricing
   },
   currency: {
     type: String,
@@ -53,7 +102,7 @@ const PaymentSchema = new mongoose.Schema({
   },
   status: {
     type: String,
-    enum: ['pending', 'completed', 'failed', 'cancelled'],
+    enum: ['pending', 'completed', 'failed', 'cancelled', 'refunded'],
     default: 'pending'
   },
   additionalPeople: {
@@ -61,7 +110,114 @@ const PaymentSchema = new mongoose.Schema({
     default: 0,
     min: 0
   },
+  completedAt: {
+    type: Date
+  },
+  // Optional details for GST invoices, e.g. a company name and GSTIN
+  billing: {
+    name: {
+      type: String,
+      trim: true,
+      maxlength: 100
+    },
+    gstin: {
+      type: String,
+      uppercase: true,
+      trim: true
+    },
+    address: {
+      type: String,
+      trim: true,
+      maxlength: 300
+    },
+    stateCode: {
+      type: String
+    }
+  },
+  refunds: [{
+    refundId: {
+      type: String,
+      required: true
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    status: {
+      type: String,
+      default: 'processed'
+    },
+    reason: {
+      type: String,
+      maxlength: 500
+    },
+    // Admin email for refunds issued from the app; unset for dashboard refunds
+    initiatedBy: {
+      type: String
+    },
+    processedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  refundedAmount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  supportIssues: [{
+    reason: {
+      type: String,
+      required: true,
+      maxlength: 500
+    },
+    amount: {
+      type: Number,
+      min: 0
+    },
+    flaggedAt: {
+      type: Date,
+      default: Date.now
+    },
+    resolvedAt: {
+      type: Date
+    }
+  }],
+  deviceId: {
+    type: String
+  },
+  paymentMethod: {
+    method: String,
+    fingerprint: String
+  },
   metadata: {
+    planId: {
+      type: String,
+      enum: ['basic', 'family', 'premium']
+    },
+    planName: {
+      type: String
+    },
+    purchaseType: {
+      type: String,
+      enum: ['new', 'renewal', 'upgrade']
+    },
+    basePaymentId: {
+      type: String
+    },
+    fromPlanId: {
+      type: String,
+      enum: ['basic', 'family', 'premium']
+    },
+    proratedCredit: {
+      type: Number,
+      min: 0
+    },
+    termValue: {
+      type: Number,
+      min: 0
+    },
     referralCode: {
       type: String,
       maxlength: 20
@@ -74,9 +230,45 @@ const PaymentSchema = new mongoose.Schema({
     promocode: {
       type: String,
       maxlength: 50
+    },
+    promoReserved: {
+      type: Boolean
+    },
+    // Price breakdown computed by the pricing engine at order creation
+    basePrice: {
+      type: Number,
+      min: 0
+    },
+    promoDiscount: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    referralDiscount: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    // Earnings credited to the referrer on completion, kept so refunds can reverse them
+    referrerId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    referralEarnings: {
+      type: Number,
+      min: 0
+    },
+    referralEarningsReversed: {
+      type: Number,
+      default: 0,
+      min: 0
     }
   },
   webhookEvents: [{
+    // Razorpay's X-Razorpay-Event-Id, used to ignore repeated deliveries
+    eventId: {
+      type: String
+    },
     event: {
       type: String,
       required: true
@@ -98,8 +290,10 @@ const PaymentSchema = new mongoose.Schema({
 PaymentSchema.index({ userId: 1, status: 1 })
 PaymentSchema.index({ razorpayOrderId: 1 })
 PaymentSchema.index({ razorpayPaymentId: 1 })
+PaymentSchema.index({ 'paymentMethod.fingerprint': 1 })
 PaymentSchema.index({ status: 1, createdAt: -1 })
 PaymentSchema.index({ createdAt: -1 })
+PaymentSchema.index({ 'supportIssues.flaggedAt': -1 })
 
 // Virtual for formatted amount
 PaymentSchema.virtual('formattedAmount').get(function(this: IPayment) {
@@ -0,0 +1,87 @@
+import mongoose from 'mongoose'
+
+export interface IPromoCode extends mongoose.Document {
+  code: string
+  description?: string
+  discountType: 'percentage' | 'fixed'
+  discountValue: number
+  maxDiscount?: number
+  applicablePlans: Array<'basic' | 'family' | 'premium'>
+  validFrom?: Date
+  validUntil?: Date
+  maxRedemptions?: number
+  redemptionCount: number
+  perUserLimit?: number
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+const PromoCodeSchema = new mongoose.Schema({
+  code: {
+    type: String,
+    required: true,
+    unique: true,
+    uppercase: true,
+    trim: true,
+    maxlength: 50
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  },
+  discountType: {
+    type: String,
+    enum: ['percentage', 'fixed'],
+    required: true
+  },
+  discountValue: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  // Upper bound in rupees for percentage discounts
+  maxDiscount: {
+    type: Number,
+    min: 0
+  },
+  // Empty means every plan
+  applicablePlans: [{
+    type: String,
+    enum: ['basic', 'family', 'premium']
+  }],
+  validFrom: {
+    type: Date
+  },
+  validUntil: {
+    type: Date
+  },
+  // Total completed payments allowed; unset means unlimited
+  maxRedemptions: {
+    type: Number,
+    min: 0
+  },
+  redemptionCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  perUserLimit: {
+    type: Number,
+    default: 1,
+    min: 0
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true }
+})
+
+// Indexes
+PromoCodeSchema.index({ isActive: 1, validUntil: 1 })
+
+export default mongoose.models.PromoCode || mongoose.model<IPromoCode>('PromoCode', PromoCodeSchema)
@@ -0,0 +1,93 @@
+import mongoose from 'mongoose'
+
+export type ReferralPayoutStatus = 'requested' | 'approved' | 'processing' | 'paid' | 'rejected' | 'failed'
+
+export interface IReferralPayout extends mongoose.Document {
+  userId: mongoose.Types.ObjectId
+  amount: number // rupees
+  vpa: string
+  status: ReferralPayoutStatus
+  // Set while the request is waiting on an admin or the provider; one per user
+  open?: boolean
+  providerPayoutId?: string
+  failureReason?: string
+  rejectionReason?: string
+  reviewedBy?: string
+  reviewedAt?: Date
+  paidAt?: Date
+  history: Array<{
+    status: ReferralPayoutStatus
+    actor: string
+    note?: string
+    at: Date
+  }>
+  createdAt: Date
+  updatedAt: Date
+}
+
+const ReferralPayoutSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  vpa: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['requested', 'approved', 'processing', 'paid', 'rejected', 'failed'],
+    default: 'requested'
+  },
+  open: {
+    type: Boolean
+  },
+  providerPayoutId: {
+    type: String
+  },
+  failureReason: {
+    type: String
+  },
+  rejectionReason: {
+    type: String,
+    maxlength: 500
+  },
+  reviewedBy: {
+    type: String
+  },
+  reviewedAt: {
+    type: Date
+  },
+  paidAt: {
+    type: Date
+  },
+  // Every status change with who made it
+  history: [{
+    status: {
+      type: String,
+      enum: ['requested', 'approved', 'processing', 'paid', 'rejected', 'failed']
+    },
+    actor: String,
+    note: String,
+    at: {
+      type: Date,
+      default: Date.now
+    }
+  }]
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true }
+})
+
+// Indexes
+ReferralPayoutSchema.index({ userId: 1, createdAt: -1 })
+ReferralPayoutSchema.index({ status: 1, createdAt: 1 })
+ReferralPayoutSchema.index({ userId: 1 }, { unique: true, partialFilterExpression: { open: true } })
+
+export default mongoose.models.ReferralPayout || mongoose.model<IReferralPayout>('ReferralPayout', ReferralPayoutSchema)
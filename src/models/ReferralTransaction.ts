@@ -0,0 +1,92 @@
+import mongoose from 'mongoose'
+
+export interface IReferralTransaction extends mongoose.Document {
+  referrerId: mongoose.Types.ObjectId
+  referredUserId?: mongoose.Types.ObjectId
+  type: 'attribution' | 'qualifying_payment' | 'commission' | 'reversal' | 'payout'
+  status: 'posted' | 'blocked'
+  amount: number // rupees; negative for reversals and payouts
+  availableAt?: Date
+  referralCode?: string
+  paymentId?: mongoose.Types.ObjectId
+  paymentAmount?: number
+  refundId?: string
+  payoutId?: mongoose.Types.ObjectId
+  fraudFlags: Array<'self_referral' | 'same_device' | 'same_payment_method'>
+  note?: string
+  dedupeKey: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+const ReferralTransactionSchema = new mongoose.Schema({
+  referrerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  referredUserId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  type: {
+    type: String,
+    enum: ['attribution', 'qualifying_payment', 'commission', 'reversal', 'payout'],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['posted', 'blocked'],
+    default: 'posted'
+  },
+  amount: {
+    type: Number,
+    default: 0
+  },
+  // When a credit can be withdrawn; reversals copy it from their commission
+  availableAt: {
+    type: Date
+  },
+  referralCode: {
+    type: String
+  },
+  paymentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Payment'
+  },
+  paymentAmount: {
+    type: Number
+  },
+  refundId: {
+    type: String
+  },
+  payoutId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ReferralPayout'
+  },
+  fraudFlags: [{
+    type: String,
+    enum: ['self_referral', 'same_device', 'same_payment_method']
+  }],
+  note: {
+    type: String,
+    maxlength: 500
+  },
+  // One row per event, e.g. commission:<paymentId>, so retries can't double post
+  dedupeKey: {
+    type: String,
+    required: true,
+    unique: true
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true }
+})
+
+// Indexes
+ReferralTransactionSchema.index({ referrerId: 1, createdAt: -1 })
+ReferralTransactionSchema.index({ referredUserId: 1, type: 1 })
+ReferralTransactionSchema.index({ paymentId: 1, type: 1 })
+
+export default mongoose.models.ReferralTransaction ||
+  mongoose.model<IReferralTransaction>('ReferralTransaction', ReferralTransactionSchema)
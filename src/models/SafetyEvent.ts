@@ -0,0 +1,65 @@
+import mongoose from 'mongoose'
+import type { SafetyCategory } from '@/lib/chat-safety'
+
+export interface ISafetyEvent extends mongoose.Document {
+  userId: mongoose.Types.ObjectId
+  chatSessionId?: mongoose.Types.ObjectId
+  stage: 'input' | 'output'
+  category: SafetyCategory
+  // escalated: the user was given emergency or helpline details
+  // blocked: the AI's reply was replaced
+  action: 'escalated' | 'blocked'
+  excerpt: string
+  reviewedBy?: string
+  reviewedAt?: Date
+  reviewNote?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+const SafetyEventSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  chatSessionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ChatSession'
+  },
+  stage: {
+    type: String,
+    enum: ['input', 'output'],
+    required: true
+  },
+  category: {
+    type: String,
+    enum: ['suicidalIdeation', 'chestPain', 'eatingDisorder', 'pregnancyExtremeDiet', 'unsafeDosage', 'crashDiet'],
+    required: true
+  },
+  action: {
+    type: String,
+    enum: ['escalated', 'blocked'],
+    required: true
+  },
+  excerpt: {
+    type: String,
+    required: true,
+    maxlength: 2000
+  },
+  reviewedBy: String,
+  reviewedAt: Date,
+  reviewNote: {
+    type: String,
+    maxlength: 1000
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true }
+})
+
+// Review queue: unreviewed events, newest first
+SafetyEventSchema.index({ reviewedAt: 1, createdAt: -1 })
+SafetyEventSchema.index({ userId: 1, createdAt: -1 })
+
+export default mongoose.models.SafetyEvent || mongoose.model<ISafetyEvent>('SafetyEvent', SafetyEventSchema)
@@ -1,4 +1,6 @@
 import mongoose from 'mongoose'
+import type { StoredRecommendations } from '@/lib/recommendation-schema'
+import { LANGUAGE_CODES, LanguageCode } from '@/lib/languages'
 
 export interface IUser extends mongoose.Document {
   email: string
@@ -9,6 +11,8 @@ export interface IUser extends mongoose.Document {
     gender: 'male' | 'female'
     phone?: string
     avatar?: string
+    unitSystem: 'metric' | 'imperial'
+    language: LanguageCode
   }
   measurements: {
     height: number
@@ -38,24 +42,38 @@ export interface IUser extends mongoose.Document {
     dietaryRestrictions: string[]
     exercisePreferences: string[]
     targetWeight?: number
+    targetBodyFat?: number
+    weeklyRate?: number
   }
   results: {
     bodyFatPercentage: number
     bmi: number
+    category?: string
+    healthStatus?: string
+    classificationVersion?: number
     calculatedAt: Date
     recommendations: Record<string, any>
   }
   subscription: {
     status: 'active' | 'inactive' | 'expired'
+    plan?: 'basic' | 'family' | 'premium'
     paymentId?: string
     expiresAt?: Date
     additionalPeople: number
+    graceEndsAt?: Date
+    remindersSent?: number[]
   }
   referrals: {
     code: string
     referred: mongoose.Types.ObjectId[]
     earnings: number
+    payoutVpa?: string
+    previousCodes?: string[]
+    vanityClaimedAt?: Date
   }
+  referredBy?: mongoose.Types.ObjectId
+  recommendations?: StoredRecommendations
+  deviceIds: string[]
   createdAt: Date
   updatedAt: Date
 }
@@ -97,6 +115,17 @@ const UserSchema = new mongoose.Schema({
     },
     avatar: {
       type: String
+    },
+    unitSystem: {
+      type: String,
+      enum: ['metric', 'imperial'],
+      default: 'metric'
+    },
+    // Language Arogya replies in and recommendations are written in
+    language: {
+      type: String,
+      enum: LANGUAGE_CODES,
+      default: 'en'
     }
   },
   measurements: {
@@ -191,6 +220,16 @@ const UserSchema = new mongoose.Schema({
       type: Number,
       min: 30,
       max: 300
+    },
+    targetBodyFat: {
+      type: Number,
+      min: 3,
+      max: 50
+    },
+    weeklyRate: {
+      type: Number,
+      min: 0.1,
+      max: 2
     }
   },
   results: {
@@ -204,6 +243,15 @@ const UserSchema = new mongoose.Schema({
       min: 10,
       max: 60
     },
+    category: {
+      type: String
+    },
+    healthStatus: {
+      type: String
+    },
+    classificationVersion: {
+      type: Number
+    },
     calculatedAt: {
       type: Date
     },
@@ -217,6 +265,10 @@ const UserSchema = new mongoose.Schema({
       enum: ['active', 'inactive', 'expired'],
       default: 'inactive'
     },
+    plan: {
+      type: String,
+      enum: ['basic', 'family', 'premium']
+    },
     paymentId: {
       type: String
     },
@@ -227,14 +279,32 @@ const UserSchema = new mongoose.Schema({
       type: Number,
       default: 0,
       min: 0
-    }
+    },
+    // Set by the renewal job once the subscription enters its grace period
+    graceEndsAt: {
+      type: Date
+    },
+    // Reminder thresholds (days before expiry) already queued for this term
+    remindersSent: [{
+      type: Number
+    }]
   },
   referrals: {
+    // Assigned by referral-code-service, which retries on collisions
     code: {
       type: String,
       unique: true,
-      sparse: true
+      sparse: true,
+      uppercase: true,
+      trim: true
+    },
+    // Codes replaced by a vanity code; links using them still work
+    previousCodes: {
+      type: [String],
+      default: undefined
     },
+    // Set once a vanity code has been claimed, which can only happen once
+    vanityClaimedAt: Date,
     referred: [{
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User'
@@ -243,8 +313,29 @@ const UserSchema = new mongoose.Schema({
       type: Number,
       default: 0,
       min: 0
+    },
+    // UPI ID referral earnings are paid out to
+    payoutVpa: {
+      type: String,
+      lowercase: true,
+      trim: true
     }
-  }
+  },
+  // Whoever's referral link or code brought the user in; their commission
+  // doesn't depend on the code being entered again at checkout
+  referredBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  // Latest plan from /api/recommendations/generate, checked against
+  // recommendation-schema before it's saved
+  recommendations: {
+    type: mongoose.Schema.Types.Mixed
+  },
+  // Browsers the user has used, for referral fraud checks
+  deviceIds: [{
+    type: String
+  }]
 }, {
   timestamps: true,
   toJSON: { virtuals: true },
@@ -253,8 +344,11 @@ const UserSchema = new mongoose.Schema({
 
 // Indexes for performance
 UserSchema.index({ email: 1 })
-UserSchema.index({ 'referrals.code': 1 })
+UserSchema.index({ 'referrals.previousCodes': 1 }, { unique: true, sparse: true })
+UserSchema.index({ referredBy: 1 })
+UserSchema.index({ deviceIds: 1 })
 UserSchema.index({ 'subscription.status': 1 })
+UserSchema.index({ 'subscription.status': 1, 'subscription.expiresAt': 1 })
 UserSchema.index({ createdAt: -1 })
 
 // Virtual for full name
@@ -0,0 +1,10 @@
+import { DefaultSession } from 'next-auth'
+
+declare module 'next-auth' {
+  interface Session {
+    user: {
+      id: string
+      isAdmin?: boolean // from the server's ADMIN_EMAILS allowlist
+    } & DefaultSession['user']
+  }
+}